@@ -0,0 +1,95 @@
+/**
+ * VIB3CODE-0 Admin Login
+ *
+ * Email/password sign-in for owners, editors and writers. On success the
+ * session cookie is set by /api/auth/login and the browser returns to the
+ * admin page it was redirected from.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { apiEndpoints, siteRoutes } from '@/lib/blog-config';
+
+// Only return to admin pages, never to an arbitrary URL from the query string
+function returnPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith(siteRoutes.admin) && !next.startsWith('//') ? next : siteRoutes.admin;
+}
+
+export default function AdminLoginPage() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`${apiEndpoints.user.auth}/login`, {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setError(data?.error ?? 'Sign-in failed');
+        return;
+      }
+      window.location.href = returnPath();
+    } catch {
+      setError('Could not reach the server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white flex items-center justify-center px-6">
+      <form onSubmit={submit} className="w-full max-w-sm bg-gray-900/50 rounded-lg border border-cyan-500/30 p-6 space-y-4">
+        <div>
+          <h1 className="text-2xl font-black text-cyan-400">VIB3CODE Admin</h1>
+          <p className="text-gray-400 text-sm">Sign in to continue</p>
+        </div>
+
+        <label className="block">
+          <span className="text-sm font-medium text-cyan-400">Email</span>
+          <input
+            type="email"
+            autoComplete="username"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="mt-1 w-full px-3 py-2 bg-gray-800 rounded text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-sm font-medium text-cyan-400">Password</span>
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="mt-1 w-full px-3 py-2 bg-gray-800 rounded text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+        </label>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+        >
+          {submitting ? 'Signing in…' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@
  * Owner/Editor control panel for:
  * - Holographic parameter controls
  * - Content management
+ * - Comment moderation
+ * - Research ingestion runs
  * - Visual effects customization
  * - Site configuration
  */
@@ -14,6 +16,7 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
+import { apiEndpoints, siteRoutes } from '@/lib/blog-config';
 
 // Parameter control component
 function ParameterControl({ 
@@ -178,6 +181,337 @@ function SiteStats() {
   );
 }
 
+// Comment moderation queue (pending and spam)
+interface QueuedComment {
+  id: string;
+  postTitle: string;
+  author: { name: string; email?: string };
+  body: string;
+  status: 'pending' | 'spam';
+  flags?: string[];
+  createdAt: string;
+}
+
+function ModerationQueue() {
+  const [comments, setComments] = useState<QueuedComment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = async () => {
+    const res = await fetch(apiEndpoints.admin.moderation, { credentials: 'same-origin' });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError(data?.error ?? 'Failed to load the moderation queue');
+      return;
+    }
+    setError(null);
+    setComments(data.items);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const moderate = async (id: string, action: 'approve' | 'reject' | 'ban') => {
+    if (action === 'ban' && !confirm('Ban this commenter and reject all of their queued comments?')) return;
+    setBusy(id);
+    try {
+      const res = await fetch(apiEndpoints.admin.moderation, {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, action })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setError(data?.error ?? 'Moderation failed');
+      }
+      await load();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-cyan-400">Comment Moderation</h3>
+        <span className="px-3 py-1 bg-cyan-500/20 text-cyan-400 text-xs rounded-full">
+          {comments.length} queued
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      {!error && comments.length === 0 && (
+        <p className="text-sm text-gray-400">No comments waiting for review.</p>
+      )}
+
+      <div className="space-y-3">
+        {comments.map(comment => (
+          <div key={comment.id} className="p-3 bg-gray-800 rounded">
+            <div className="flex items-center justify-between mb-1">
+              <div className="text-white font-medium text-sm">
+                {comment.author.name}
+                {comment.author.email && <span className="text-gray-400 font-normal"> &lt;{comment.author.email}&gt;</span>}
+              </div>
+              <span className={`px-2 py-0.5 text-xs rounded-full ${comment.status === 'spam' ? 'bg-red-500/20 text-red-400' : 'bg-yellow-500/20 text-yellow-400'}`}>
+                {comment.status}
+              </span>
+            </div>
+            <div className="text-xs text-gray-400 mb-2">
+              on {comment.postTitle} · {new Date(comment.createdAt).toLocaleString()}
+              {comment.flags?.length ? ` · ${comment.flags.join(', ')}` : ''}
+            </div>
+            <p className="text-sm text-gray-200 whitespace-pre-wrap break-words mb-3">{comment.body}</p>
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                disabled={busy === comment.id}
+                onClick={() => moderate(comment.id, 'approve')}
+                className="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded text-xs font-medium transition-colors"
+              >
+                Approve
+              </button>
+              <button
+                disabled={busy === comment.id}
+                onClick={() => moderate(comment.id, 'reject')}
+                className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded text-xs font-medium transition-colors"
+              >
+                Reject
+              </button>
+              <button
+                disabled={busy === comment.id}
+                onClick={() => moderate(comment.id, 'ban')}
+                className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded text-xs font-medium transition-colors"
+              >
+                Ban
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface LintReportView {
+  postId?: string;
+  slug: string;
+  title: string;
+  errors: number;
+  warnings: number;
+  issues: Array<{ rule: string; severity: 'error' | 'warning'; field: string; message: string; line?: number }>;
+}
+
+function ContentLint() {
+  const [reports, setReports] = useState<LintReportView[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const res = await fetch(apiEndpoints.admin.lint, { credentials: 'same-origin' });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(data?.error ?? 'Failed to lint posts');
+        return;
+      }
+      setReports(data.reports.filter((report: LintReportView) => report.issues.length > 0));
+    })();
+  }, []);
+
+  const errors = reports.reduce((sum, report) => sum + report.errors, 0);
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-cyan-400">Editorial Lint</h3>
+        <span className={`px-3 py-1 text-xs rounded-full ${errors ? 'bg-red-500/20 text-red-400' : 'bg-cyan-500/20 text-cyan-400'}`}>
+          {errors} errors · {reports.length} posts
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      {!error && reports.length === 0 && (
+        <p className="text-sm text-gray-400">Every post passes.</p>
+      )}
+
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {reports.map(report => (
+          <div key={report.postId ?? report.slug} className="p-3 bg-gray-800 rounded">
+            <a href={siteRoutes.post(report.slug)} className="text-white font-medium text-sm hover:text-cyan-300">
+              {report.title || report.slug}
+            </a>
+            <ul className="mt-2 space-y-1">
+              {report.issues.map((issue, index) => (
+                <li key={index} className="text-xs flex gap-2">
+                  <span className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+                    {issue.severity === 'error' ? '✖' : '▲'}
+                  </span>
+                  <span className="text-gray-300">
+                    {issue.message}
+                    <span className="text-gray-500"> · {issue.field}{issue.line ? `:${issue.line}` : ''}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Research ingestion jobs: the latest run, per source, with its log
+interface JobStepView {
+  source: { type: string };
+  status: 'pending' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+  attempts: number;
+  nextAttemptAt?: string;
+  error?: string;
+  report?: { summary: { sessions: number; published: number; scheduled?: number; drafts: number; skipped: number; failed: number } };
+}
+
+interface ResearchJobView {
+  id: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  trigger: string;
+  createdAt: string;
+  cancelRequested?: boolean;
+  steps: JobStepView[];
+  log?: Array<{ at: string; level: 'info' | 'warn' | 'error'; message: string }>;
+}
+
+const JOB_STATUS_STYLES: Record<string, string> = {
+  queued: 'bg-gray-500/20 text-gray-300',
+  pending: 'bg-gray-500/20 text-gray-300',
+  running: 'bg-cyan-500/20 text-cyan-400',
+  retrying: 'bg-yellow-500/20 text-yellow-400',
+  succeeded: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+  cancelled: 'bg-gray-500/20 text-gray-400'
+};
+
+function ResearchJobStatus({ jobId }: { jobId: string | null }) {
+  const [job, setJob] = useState<ResearchJobView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (id: string) => {
+    const res = await fetch(`${apiEndpoints.research.jobs}/${id}`, { credentials: 'same-origin' });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError(data?.error ?? 'Failed to load the ingestion job');
+      return null;
+    }
+    setError(null);
+    setJob(data);
+    return data as ResearchJobView;
+  };
+
+  // Show the job just started, or the latest one when the page opens
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const poll = async (id: string) => {
+      const current = await load(id);
+      if (!stopped && current && (current.status === 'queued' || current.status === 'running')) {
+        timer = setTimeout(() => poll(id), 3000);
+      }
+    };
+
+    (async () => {
+      if (jobId) return poll(jobId);
+      const res = await fetch(apiEndpoints.research.jobs, { credentials: 'same-origin' });
+      const data = await res.json().catch(() => null);
+      if (res.ok && data.items.length > 0) poll(data.items[0].id);
+    })();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  const cancel = async () => {
+    if (!job || !confirm('Cancel this ingestion run?')) return;
+    const res = await fetch(`${apiEndpoints.research.jobs}/${job.id}`, { method: 'DELETE', credentials: 'same-origin' });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError(data?.error ?? 'Failed to cancel the job');
+      return;
+    }
+    setJob(data);
+  };
+
+  if (!job) {
+    return error ? <p className="text-sm text-red-400">{error}</p> : null;
+  }
+
+  const active = job.status === 'queued' || job.status === 'running';
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm text-white font-medium">
+          Last run <span className="text-gray-400 font-normal">· {job.trigger} · {new Date(job.createdAt).toLocaleString()}</span>
+        </div>
+        <span className={`px-2 py-0.5 text-xs rounded-full ${JOB_STATUS_STYLES[job.status]}`}>
+          {job.cancelRequested && active ? 'cancelling' : job.status}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+      {job.steps.length === 0 && <p className="text-xs text-gray-400">No research sources are configured.</p>}
+
+      <div className="space-y-2">
+        {job.steps.map((step, index) => (
+          <div key={index} className="text-xs">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-200 capitalize">{step.source.type}</span>
+              <span className={`px-2 py-0.5 rounded-full ${JOB_STATUS_STYLES[step.status]}`}>
+                {step.status}{step.attempts > 1 ? ` · attempt ${step.attempts}` : ''}
+              </span>
+            </div>
+            {step.report && (
+              <div className="text-gray-400 mt-0.5">
+                {step.report.summary.published} published{step.report.summary.scheduled ? ` · ${step.report.summary.scheduled} scheduled` : ''} · {step.report.summary.drafts} drafts · {step.report.summary.skipped} skipped
+                {step.report.summary.failed ? ` · ${step.report.summary.failed} failed` : ''}
+              </div>
+            )}
+            {step.error && (
+              <div className="text-red-400 mt-0.5 break-words">
+                {step.error}
+                {step.nextAttemptAt && ` · retrying at ${new Date(step.nextAttemptAt).toLocaleTimeString()}`}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {job.log && job.log.length > 0 && (
+        <details className="mt-3">
+          <summary className="text-xs text-gray-400 cursor-pointer">Run log ({job.log.length})</summary>
+          <ul className="mt-2 space-y-0.5 max-h-48 overflow-y-auto font-mono text-xs">
+            {job.log.map((entry, index) => (
+              <li key={index} className={entry.level === 'error' ? 'text-red-400' : entry.level === 'warn' ? 'text-yellow-400' : 'text-gray-400'}>
+                {new Date(entry.at).toLocaleTimeString()} {entry.message}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {active && !job.cancelRequested && (
+        <button
+          onClick={cancel}
+          className="mt-3 w-full px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-xs font-medium transition-colors"
+        >
+          Cancel Run
+        </button>
+      )}
+    </div>
+  );
+}
+
 export default function AdminPage() {
   const [params, setParams] = useState({
     hue: 0.5,
@@ -188,6 +522,7 @@ export default function AdminPage() {
     timeScale: 1.0,
     noiseFreq: 2.0
   });
+  const [researchJobId, setResearchJobId] = useState<string | null>(null);
 
   const updateParam = (key: string, value: number) => {
     setParams(prev => ({ ...prev, [key]: value }));
@@ -214,6 +549,15 @@ export default function AdminPage() {
               >
                 View Site
               </button>
+              <button
+                onClick={async () => {
+                  await fetch(`${apiEndpoints.user.auth}/logout`, { method: 'POST', credentials: 'same-origin' });
+                  window.location.href = siteRoutes.adminLogin;
+                }}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors"
+              >
+                Sign Out
+              </button>
               <button 
                 onClick={() => setParams({ hue: 0.5, density: 0.5, morph: 0.5, chaos: 0.2, glitch: 0.1, timeScale: 1.0, noiseFreq: 2.0 })}
                 className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors"
@@ -328,15 +672,19 @@ export default function AdminPage() {
                   <div className="grid grid-cols-2 gap-3">
                     <button
                       onClick={async () => {
-                        const res = await fetch('/api/research/schedule', {
+                        // Authenticated by the session cookie
+                        const res = await fetch(apiEndpoints.research.schedule, {
                           method: 'POST',
-                          headers: {
-                            'Authorization': `Bearer ${process.env.NEXT_PUBLIC_SCHEDULE_SECRET || 'schedule-secret'}`,
-                            'Content-Type': 'application/json'
-                          }
+                          credentials: 'same-origin',
+                          headers: { 'Content-Type': 'application/json' }
                         });
+                        if (res.status === 401) {
+                          window.location.href = siteRoutes.adminLogin;
+                          return;
+                        }
                         const data = await res.json();
-                        alert(data.success ? 'Research automation triggered!' : 'Failed to trigger automation');
+                        if (data.success) setResearchJobId(data.job.id);
+                        else alert('Failed to trigger automation');
                       }}
                       className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded text-sm font-medium transition-colors"
                     >
@@ -351,6 +699,8 @@ export default function AdminPage() {
                   </div>
                 </div>
 
+                <ResearchJobStatus jobId={researchJobId} />
+
                 <div className="text-xs text-gray-500 space-y-1">
                   <div>✅ Randomizes holographic parameters for each post</div>
                   <div>✅ Auto-categorizes based on content analysis</div>
@@ -393,6 +743,10 @@ export default function AdminPage() {
               </div>
             </div>
 
+            <ModerationQueue />
+
+            <ContentLint />
+
             <div className="bg-gray-900/50 rounded-lg p-6">
               <h3 className="text-lg font-bold text-cyan-400 mb-4">Export Settings</h3>
               <div className="space-y-3">
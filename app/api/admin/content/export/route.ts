@@ -0,0 +1,32 @@
+/**
+ * Content Export API Route
+ *
+ * GET /api/admin/content/export - every post in any status as a content
+ * archive: { manifest, files } with Markdown sources by archive path and
+ * the manifest (revisions, holographicParams, authors, series)
+ *
+ * Requires content:transfer (editors and owners).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { exportArchive } from '@/lib/content/archive';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    await auth.authorize(request, 'content:transfer');
+
+    const archive = await exportArchive(serverContentAPI);
+    const stamp = archive.manifest.exportedAt.toISOString().slice(0, 10);
+    return NextResponse.json(archive, {
+      headers: {
+        'Cache-Control': 'private, no-store',
+        'Content-Disposition': `attachment; filename="vib3code-archive-${stamp}.json"`
+      }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to export content');
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Content Import API Route
+ *
+ * POST /api/admin/content/import - one of
+ *   { format: 'archive', archive: { manifest, files } }
+ *   { format: 'markdown', files: { "<path>": "<source>" } }
+ *   { format: 'wxr', xml: "<WordPress export>" }
+ * with options { dryRun?, onConflict?: rename|skip|overwrite,
+ * categoryMap?, defaultCategory? }. Responds with the import report; dry
+ * runs write nothing.
+ *
+ * Requires content:transfer (editors and owners).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { reviveArchive } from '@/lib/content/archive';
+import { ImportInput, ImportOptions, SlugConflictStrategy, importContent } from '@/lib/content/importer';
+import { serverContentAPI } from '@/lib/content/server';
+
+const STRATEGIES: SlugConflictStrategy[] = ['rename', 'skip', 'overwrite'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await auth.authorize(request, 'content:transfer');
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      throw new ApiError('bad_request', 'Send a JSON import request');
+    }
+
+    let input: ImportInput;
+    switch (body.format) {
+      case 'archive':
+        input = { format: 'archive', archive: reviveArchive(body.archive) };
+        break;
+      case 'markdown':
+        if (!body.files || typeof body.files !== 'object') {
+          throw new ApiError('bad_request', 'Send Markdown files by path', { files: 'is required' });
+        }
+        input = { format: 'markdown', files: body.files };
+        break;
+      case 'wxr':
+        if (typeof body.xml !== 'string') {
+          throw new ApiError('bad_request', 'Send the WordPress export', { xml: 'is required' });
+        }
+        input = { format: 'wxr', xml: body.xml };
+        break;
+      default:
+        throw new ApiError('bad_request', 'Unknown import format', { format: 'must be archive, markdown or wxr' });
+    }
+
+    if (body.onConflict !== undefined && STRATEGIES.indexOf(body.onConflict) === -1) {
+      throw new ApiError('bad_request', 'Unknown conflict strategy', { onConflict: `must be one of ${STRATEGIES.join(', ')}` });
+    }
+    const options: ImportOptions = {
+      dryRun: body.dryRun === true,
+      onConflict: body.onConflict,
+      categoryMap: body.categoryMap,
+      defaultCategory: body.defaultCategory,
+      author: user.name
+    };
+
+    const report = await importContent(serverContentAPI, input, options);
+    return NextResponse.json(report, { status: report.dryRun ? 200 : 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to import content');
+  }
+}
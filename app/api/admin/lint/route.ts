@@ -0,0 +1,73 @@
+/**
+ * Editorial Lint API Route
+ *
+ * GET /api/admin/lint - lint reports for every post, worst first, with
+ * totals (?status= for a comma-separated set of statuses, ?slug= for one post)
+ * POST /api/admin/lint - lint a post without saving it; the body is a
+ * BlogPost, or { id, ...changes } to check an edit of a stored post
+ *
+ * Requires posts:write (writers, editors and owners).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { BlogPost, PostStatus } from '@/lib/blog-config';
+import { ContentError } from '@/lib/content-api';
+import { serverContentAPI } from '@/lib/content/server';
+
+const STATUSES: PostStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+
+export async function GET(request: NextRequest) {
+  try {
+    await auth.authorize(request, 'posts:write');
+
+    const params = request.nextUrl.searchParams;
+    const slug = params.get('slug');
+    if (slug) {
+      const post = await serverContentAPI.getPost(slug);
+      if (!post) throw new ContentError(`No post with slug "${slug}"`, 'not_found');
+      return NextResponse.json({ report: await serverContentAPI.lintPost(post) });
+    }
+
+    const requested = params.get('status');
+    const status = requested ? requested.split(',').map(value => value.trim()) : undefined;
+    if (status && status.some(value => STATUSES.indexOf(value as PostStatus) === -1)) {
+      throw new ApiError('bad_request', 'Invalid status filter', { status: `must be one of ${STATUSES.join(', ')}` });
+    }
+
+    const reports = await serverContentAPI.lintPosts({ status: (status as PostStatus[] | undefined) ?? 'all' });
+    return NextResponse.json({
+      summary: {
+        posts: reports.length,
+        clean: reports.filter(report => report.issues.length === 0).length,
+        errors: reports.reduce((sum, report) => sum + report.errors, 0),
+        warnings: reports.reduce((sum, report) => sum + report.warnings, 0)
+      },
+      reports
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to lint posts');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await auth.authorize(request, 'posts:write');
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new ApiError('bad_request', 'Send the post to lint as a JSON object');
+    }
+
+    let post = body as Partial<BlogPost>;
+    if (post.id) {
+      const stored = await serverContentAPI.getPostById(post.id);
+      if (!stored) throw new ContentError('Post not found', 'not_found');
+      post = { ...stored, ...post };
+    }
+    return NextResponse.json({ report: await serverContentAPI.lintPost(post) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to lint post');
+  }
+}
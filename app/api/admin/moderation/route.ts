@@ -0,0 +1,74 @@
+/**
+ * Comment Moderation API Route
+ *
+ * GET /api/admin/moderation - queued comments (pending and spam; ?status=
+ * for another comma-separated set) with their post titles, plus bans
+ * POST /api/admin/moderation - { id, action: approve|reject|ban, reason? }
+ *
+ * Requires comments:moderate (editors and owners).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { CommentStatus } from '@/lib/comments/comments';
+import { commentService } from '@/lib/comments/server';
+import { ModerationAction } from '@/lib/comments/service';
+import { serverContentAPI } from '@/lib/content/server';
+
+const STATUSES: CommentStatus[] = ['pending', 'approved', 'rejected', 'spam'];
+const ACTIONS: ModerationAction[] = ['approve', 'reject', 'ban'];
+
+export async function GET(request: NextRequest) {
+  try {
+    await auth.authorize(request, 'comments:moderate');
+
+    const requested = request.nextUrl.searchParams.get('status');
+    const status = requested ? requested.split(',').map(value => value.trim()) : undefined;
+    if (status && status.some(value => STATUSES.indexOf(value as CommentStatus) === -1)) {
+      throw new ApiError('bad_request', 'Invalid status filter', { status: `must be one of ${STATUSES.join(', ')}` });
+    }
+
+    const [comments, bans] = await Promise.all([
+      commentService.queue(status as CommentStatus[] | undefined),
+      commentService.listBans()
+    ]);
+    const titles = new Map<string, string>();
+    for (const comment of comments) {
+      if (!titles.has(comment.postId)) {
+        titles.set(comment.postId, (await serverContentAPI.getPostById(comment.postId))?.title ?? 'Deleted post');
+      }
+    }
+
+    return NextResponse.json(
+      { items: comments.map(comment => ({ ...comment, postTitle: titles.get(comment.postId) })), bans },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to load moderation queue');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const moderator = await auth.authorize(request, 'comments:moderate');
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== 'string' || ACTIONS.indexOf(body.action) === -1) {
+      throw new ApiError('bad_request', 'Send a comment id and an action', {
+        ...(typeof body?.id !== 'string' && { id: 'is required' }),
+        ...(ACTIONS.indexOf(body?.action) === -1 && { action: `must be one of ${ACTIONS.join(', ')}` })
+      });
+    }
+
+    const result = await commentService.moderate(
+      body.id,
+      body.action,
+      moderator.email,
+      typeof body.reason === 'string' ? body.reason : undefined
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error, 'Failed to moderate comment');
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Login API Route
+ *
+ * POST /api/auth/login - { email, password }; sets the HttpOnly session
+ * cookie and returns the signed-in user. Repeated failures from one IP or
+ * for one account are refused with 429 for a while.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, clientIp, errorResponse } from '@/lib/api/http';
+import { auth, loginThrottle, ownerBootstrap } from '@/lib/auth/server';
+import { SESSION_COOKIE } from '@/lib/auth/session';
+
+export async function POST(request: NextRequest) {
+  try {
+    await ownerBootstrap;
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.email !== 'string' || typeof body.password !== 'string') {
+      throw new ApiError('bad_request', 'Send an email and a password', {
+        ...(typeof body?.email !== 'string' && { email: 'is required' }),
+        ...(typeof body?.password !== 'string' && { password: 'is required' })
+      });
+    }
+
+    const { user, token, expiresAt } = await loginThrottle.attempt(clientIp(request.headers), body.email,
+      () => auth.login(body.email, body.password));
+    const response = NextResponse.json({ user, expiresAt: expiresAt.toISOString() });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      expires: expiresAt
+    });
+    return response;
+  } catch (error) {
+    return errorResponse(error, 'Failed to sign in');
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Logout API Route
+ *
+ * POST /api/auth/logout - clears the session cookie; with
+ * { everywhere: true } also revokes every session and API token the
+ * signed-in user holds (cookie sessions only from the site's own origin)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { SESSION_COOKIE } from '@/lib/auth/session';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (body?.everywhere === true) {
+      const user = await auth.authorize(request);
+      await auth.revokeTokens(user.id);
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+    return response;
+  } catch (error) {
+    return errorResponse(error, 'Failed to sign out');
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Session API Route
+ *
+ * GET /api/auth/session - the signed-in user, or 401
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await auth.authenticate(request);
+    if (!user) {
+      return apiError('unauthorized', 'Not signed in');
+    }
+
+    return NextResponse.json({ user }, { headers: { 'Cache-Control': 'private, no-store' } });
+  } catch (error) {
+    return errorResponse(error, 'Failed to read session');
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * API Tokens Route
+ *
+ * POST /api/auth/tokens - { expiresInDays? } (1-365, default 90); issues a
+ * bearer token for the signed-in user, e.g. for the daily research
+ * workflow. Tokens carry the user's role and die with POST
+ * /api/auth/logout { everywhere: true }.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+
+const MAX_DAYS = 365;
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await auth.authorize(request, 'tokens:issue');
+
+    const body = await request.json().catch(() => ({}));
+    const days = body?.expiresInDays ?? 90;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      throw new ApiError('bad_request', 'Invalid token lifetime', { expiresInDays: `must be a whole number from 1 to ${MAX_DAYS}` });
+    }
+
+    const { token, expiresAt } = await auth.issueApiToken(user.id, days * 24 * 60 * 60);
+    return NextResponse.json({ token, expiresAt: expiresAt.toISOString() }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return errorResponse(error, 'Failed to issue token');
+  }
+}
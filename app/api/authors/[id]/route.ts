@@ -0,0 +1,57 @@
+/**
+ * Author Archive API Route
+ *
+ * GET /api/authors/:id - author profile and a page of their published posts
+ * PUT /api/authors/:id - { name }; renames the author on their profile and
+ * on the byline of every post
+ *
+ * Query (GET): sortBy, sortOrder, limit plus cursor or offset/page/pageSize,
+ * as for /api/posts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiError, conditionalJson, errorResponse, parsePagination, parsePostFilters } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const author = await serverContentAPI.getAuthor(params.id);
+    if (!author) {
+      return apiError('not_found', `No author with id "${params.id}"`);
+    }
+
+    const query = request.nextUrl.searchParams;
+    const { sortBy, sortOrder } = parsePostFilters(query);
+    const { limit, offset } = parsePagination(query);
+    const cursor = query.get('cursor') || undefined;
+
+    const page = await serverContentAPI.getPostsByAuthor(author.id, {
+      status: 'published', sortBy, sortOrder, limit, offset, cursor
+    });
+
+    return conditionalJson(request, {
+      author,
+      items: page.items,
+      pagination: { total: page.total, limit, nextCursor: page.nextCursor }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load author');
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await auth.authorize(request, 'authors:manage');
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.name !== 'string') {
+      throw new ApiError('bad_request', 'Send the new author name', { name: 'is required' });
+    }
+
+    const { author, updatedPosts } = await serverContentAPI.renameAuthor(params.id, body.name.trim(), { author: user.name });
+    return NextResponse.json({ author, updatedPosts: updatedPosts.map(post => post.slug) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to rename author');
+  }
+}
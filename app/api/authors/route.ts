@@ -0,0 +1,71 @@
+/**
+ * Authors API Route
+ *
+ * GET /api/authors - registered and byline-only authors with their
+ * published post counts
+ * POST /api/authors - { name, id?, avatar?, bio?, userId?, social? };
+ * registers or replaces a profile (id defaults to the slug of the name) and
+ * rewrites the byline on every post by that author
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, conditionalJson, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { Author } from '@/lib/blog-config';
+import { contentUtils } from '@/lib/content-api';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const [authors, { items: posts }] = await Promise.all([
+      serverContentAPI.getAuthors(),
+      serverContentAPI.getPosts({ status: 'published' })
+    ]);
+
+    const items = authors.map(author => ({
+      ...author,
+      postCount: posts.filter(post => contentUtils.authorId(post.author) === author.id).length
+    }));
+
+    return conditionalJson(request, { items });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list authors');
+  }
+}
+
+const OPTIONAL_FIELDS = ['id', 'avatar', 'bio', 'userId'];
+const SOCIAL_FIELDS = ['twitter', 'github', 'linkedin'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await auth.authorize(request, 'authors:manage');
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.name !== 'string') {
+      throw new ApiError('bad_request', 'Send an author name', { name: 'is required' });
+    }
+    const invalid = OPTIONAL_FIELDS.find(field => body[field] !== undefined && typeof body[field] !== 'string');
+    if (invalid) {
+      throw new ApiError('bad_request', `Invalid ${invalid}`, { [invalid]: 'must be a string' });
+    }
+    const social = body.social;
+    if (social !== undefined && (typeof social !== 'object' || social === null
+      || SOCIAL_FIELDS.some(field => social[field] !== undefined && typeof social[field] !== 'string'))) {
+      throw new ApiError('bad_request', 'Invalid social links', { social: 'must map twitter, github or linkedin to a URL' });
+    }
+
+    const author: Author = {
+      id: body.id || contentUtils.generateSlug(body.name),
+      name: body.name.trim(),
+      ...(body.avatar && { avatar: body.avatar }),
+      ...(body.bio && { bio: body.bio }),
+      ...(body.userId && { userId: body.userId }),
+      ...(social && { social: { twitter: social.twitter, github: social.github, linkedin: social.linkedin } })
+    };
+
+    const { author: saved, updatedPosts } = await serverContentAPI.saveAuthor(author, { author: user.name });
+    return NextResponse.json({ author: saved, updatedPosts: updatedPosts.map(post => post.slug) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save author');
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Categories API Route
+ *
+ * GET /api/categories - content categories with their holographic themes
+ * and published post counts
+ */
+
+import { NextRequest } from 'next/server';
+import { conditionalJson, errorResponse } from '@/lib/api/http';
+import { contentCategories } from '@/lib/blog-config';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { items: posts } = await serverContentAPI.getPosts({ status: 'published' });
+
+    const categories = Object.entries(contentCategories).map(([slug, category]) => ({
+      slug,
+      ...category,
+      postCount: posts.filter(post => post.category === slug).length
+    }));
+
+    return conditionalJson(request, { items: categories });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list categories');
+  }
+}
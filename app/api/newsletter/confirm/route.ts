@@ -0,0 +1,23 @@
+/**
+ * Newsletter Confirm API Route
+ *
+ * GET /api/newsletter/confirm?id=&token= - the link from the confirmation
+ * email; activates the subscription and redirects to the home page with
+ * ?newsletter=confirmed (or ?newsletter=invalid)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { newsletterService } from '@/lib/newsletter/server';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  let outcome = 'confirmed';
+
+  try {
+    await newsletterService.confirm(searchParams.get('id') ?? '', searchParams.get('token') ?? '');
+  } catch (error) {
+    console.error('Newsletter confirmation failed:', error);
+    outcome = 'invalid';
+  }
+  return NextResponse.redirect(new URL(`/?newsletter=${outcome}`, request.url));
+}
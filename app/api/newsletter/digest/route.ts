@@ -0,0 +1,62 @@
+/**
+ * Newsletter Digest API Route
+ *
+ * GET /api/newsletter/digest - preview this week's digest and the
+ * subscriber counts
+ * POST /api/newsletter/digest - send the weekly digest to every active
+ * subscriber ({ dryRun: true } returns the preview instead)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { serverContentAPI } from '@/lib/content/server';
+import { newsletterEnabled, newsletterService } from '@/lib/newsletter/server';
+
+async function preview() {
+  const [{ items: posts }, subscribers] = await Promise.all([
+    serverContentAPI.getPosts({ status: 'published' }),
+    newsletterService.listSubscribers()
+  ]);
+  const digest = newsletterService.previewDigest(posts);
+
+  return {
+    subscribers: {
+      active: subscribers.filter(subscriber => subscriber.status === 'active').length,
+      pending: subscribers.filter(subscriber => subscriber.status === 'pending').length
+    },
+    digest: digest && { subject: digest.subject, postCount: digest.postCount, html: digest.html, text: digest.text }
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    await auth.authorize(request, 'newsletter:send');
+    if (!newsletterEnabled) {
+      return apiError('not_found', 'The newsletter is not enabled');
+    }
+    return NextResponse.json(await preview());
+  } catch (error) {
+    return errorResponse(error, 'Failed to preview digest');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await auth.authorize(request, 'newsletter:send');
+    if (!newsletterEnabled) {
+      return apiError('not_found', 'The newsletter is not enabled');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body?.dryRun === true) {
+      return NextResponse.json({ dryRun: true, ...(await preview()) });
+    }
+
+    const { items: posts } = await serverContentAPI.getPosts({ status: 'published' });
+    const report = await newsletterService.sendDigests(posts);
+    return NextResponse.json({ success: true, ...report, timestamp: new Date().toISOString() });
+  } catch (error) {
+    return errorResponse(error, 'Failed to send digest');
+  }
+}
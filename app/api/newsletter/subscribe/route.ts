@@ -0,0 +1,40 @@
+/**
+ * Newsletter Subscribe API Route
+ *
+ * POST /api/newsletter/subscribe - { email, categories? }; emails a
+ * confirmation link. The response is the same whether or not the address
+ * is already subscribed, so the list cannot be probed. Each client IP may
+ * send 5 requests an hour.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiError, clientIp, errorResponse } from '@/lib/api/http';
+import { newsletterEnabled, newsletterService, subscribeLimit } from '@/lib/newsletter/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!newsletterEnabled) {
+      return apiError('not_found', 'The newsletter is not enabled');
+    }
+
+    const ip = clientIp(request.headers) ?? 'unknown';
+    subscribeLimit.check(ip, 'Too many subscription requests; try again later');
+    subscribeLimit.hit(ip);
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.email !== 'string') {
+      throw new ApiError('bad_request', 'Send an email address', { email: 'is required' });
+    }
+    const categories = Array.isArray(body.categories)
+      ? body.categories.filter((category: unknown): category is string => typeof category === 'string')
+      : [];
+
+    await newsletterService.subscribe(body.email, categories);
+    return NextResponse.json(
+      { success: true, message: 'Check your inbox to confirm your subscription' },
+      { status: 202 }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to subscribe');
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Newsletter Unsubscribe API Route
+ *
+ * GET /api/newsletter/unsubscribe?id=&token= - the link in every digest;
+ * renders a confirmation page and changes nothing, so link scanners and
+ * prefetching cannot unsubscribe anyone
+ * POST /api/newsletter/unsubscribe?id=&token= - unsubscribes. The
+ * confirmation page's form is redirected to the home page with
+ * ?newsletter=unsubscribed (or ?newsletter=invalid); anything else, such as
+ * RFC 8058 one-click unsubscribe from the List-Unsubscribe header, gets JSON
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/http';
+import { defaultBlogConfig } from '@/lib/blog-config';
+import { escapeHtml } from '@/lib/content/markdown';
+import { newsletterService } from '@/lib/newsletter/server';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const action = `?${new URLSearchParams({ id: searchParams.get('id') ?? '', token: searchParams.get('token') ?? '' })}`;
+  const { name } = defaultBlogConfig.site;
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="en"><head><meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+    '<meta name="robots" content="noindex" />',
+    `<title>Unsubscribe from ${escapeHtml(name)}</title></head>`,
+    '<body style="margin:0;background:#0a0a0a">',
+    '<main style="max-width:600px;margin:0 auto;padding:32px 24px;font-family:Helvetica,Arial,sans-serif;color:#ffffff">',
+    `<h1 style="margin:0 0 16px;font-size:24px;color:#00bcd4">${escapeHtml(name)}</h1>`,
+    '<p style="line-height:1.5">Stop receiving the weekly digest at this address?</p>',
+    `<form method="post" action="${escapeHtml(action)}">`,
+    '<input type="hidden" name="confirmed" value="1" />',
+    '<button type="submit" style="padding:12px 20px;background:#00bcd4;color:#000000;border:0;font-weight:700;border-radius:6px;cursor:pointer">Unsubscribe</button>',
+    '</form>',
+    '</main></body></html>',
+    ''
+  ].join('\n');
+
+  return new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+export async function POST(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const form = await request.formData().catch(() => null);
+  const unsubscribe = () =>
+    newsletterService.unsubscribe(searchParams.get('id') ?? '', searchParams.get('token') ?? '');
+
+  if (form?.get('confirmed')) {
+    let outcome = 'unsubscribed';
+    try {
+      await unsubscribe();
+    } catch (error) {
+      console.error('Newsletter unsubscribe failed:', error);
+      outcome = 'invalid';
+    }
+    return NextResponse.redirect(new URL(`/?newsletter=${outcome}`, request.url), 303);
+  }
+
+  try {
+    await unsubscribe();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to unsubscribe');
+  }
+}
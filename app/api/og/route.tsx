@@ -0,0 +1,80 @@
+/**
+ * Open Graph Image Route
+ *
+ * GET /api/og?title=...&category=...&color=... - 1200x630 link-preview card
+ * in the category's holographic theme (see contentUtils.generateOGImage).
+ * Optional hue/density/intensity carry a post's holographicParams;
+ * format=svg returns the vector card instead of PNG.
+ *
+ * PNG text uses the font bundled with next/og. Characters outside it are
+ * dropped rather than letting the renderer fetch fallback fonts, so the
+ * route never touches the network.
+ */
+
+import { NextRequest } from 'next/server';
+import { ImageResponse } from 'next/og';
+import { conditionalResponse, errorResponse } from '@/lib/api/http';
+import {
+  TITLE_FONT_SIZE,
+  TITLE_LINE_HEIGHT,
+  renderCardBackground,
+  renderCardSvg,
+  resolveOGCard,
+  wrapTitle
+} from '@/lib/content/og-image';
+
+// Printable Latin covered by the bundled Noto Sans Latin subset
+const UNSUPPORTED_GLYPHS = /[^\u0020-\u007E\u00A0-\u017F\u2013\u2014\u2018-\u201D\u2026]/g;
+
+const CACHE_CONTROL = 'public, max-age=86400, stale-while-revalidate=604800';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const card = resolveOGCard(params);
+
+    if (params.get('format') === 'svg') {
+      return conditionalResponse(request, renderCardSvg(card), 'image/svg+xml; charset=utf-8', { maxAge: 86400 });
+    }
+
+    const printable = (text: string) => text.replace(UNSUPPORTED_GLYPHS, '').replace(/\s+/g, ' ').trim();
+    const lines = wrapTitle(printable(card.title) || card.siteName);
+    const background = `data:image/svg+xml;base64,${Buffer.from(renderCardBackground(card)).toString('base64')}`;
+
+    return new ImageResponse(
+      (
+        <div style={{ width: '100%', height: '100%', display: 'flex', position: 'relative', backgroundColor: '#0a0a0a' }}>
+          <img src={background} alt="" width={card.width} height={card.height} style={{ position: 'absolute', top: 0, left: 0 }} />
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              justifyContent: 'space-between',
+              width: '100%',
+              height: '100%',
+              padding: '64px 80px 48px',
+              color: '#ffffff'
+            }}
+          >
+            <div style={{ fontSize: 26, letterSpacing: 4, color: card.primaryColor }}>
+              {printable(card.label).toUpperCase()}
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', fontSize: TITLE_FONT_SIZE, lineHeight: TITLE_LINE_HEIGHT }}>
+              {lines.map((line, index) => (
+                <div key={index}>{line}</div>
+              ))}
+            </div>
+            <div style={{ fontSize: 28, opacity: 0.7 }}>{printable(card.siteName)}</div>
+          </div>
+        </div>
+      ),
+      {
+        width: card.width,
+        height: card.height,
+        headers: { 'Cache-Control': CACHE_CONTROL }
+      }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to render preview image');
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Post Comments API Route
+ *
+ * GET /api/posts/:slug/comments - approved comments, threaded
+ * POST /api/posts/:slug/comments - { name, email?, body, parentId? };
+ * new comments from readers wait for moderation (201 with the comment and
+ * its status), signed-in staff are published directly
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiError, clientIp, conditionalJson, errorResponse } from '@/lib/api/http';
+import { can } from '@/lib/auth/roles';
+import { Comment, CommentThread } from '@/lib/comments/comments';
+import { auth } from '@/lib/auth/server';
+import { commentService, commentsEnabled } from '@/lib/comments/server';
+import { serverContentAPI } from '@/lib/content/server';
+
+async function findPost(slug: string) {
+  const post = await serverContentAPI.getPost(slug);
+  return post && post.status === 'published' ? post : null;
+}
+
+export async function GET(request: NextRequest, { params }: { params: { slug: string } }) {
+  try {
+    const post = commentsEnabled ? await findPost(params.slug) : null;
+    if (!post) {
+      return apiError('not_found', `No comments for "${params.slug}"`);
+    }
+
+    const items = await commentService.thread(post.id);
+    return conditionalJson(request, { items: items.map(redact) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load comments');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: { slug: string } }) {
+  try {
+    const post = commentsEnabled ? await findPost(params.slug) : null;
+    if (!post) {
+      return apiError('not_found', `No comments for "${params.slug}"`);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.body !== 'string') {
+      throw new ApiError('bad_request', 'Send a comment body', { body: 'is required' });
+    }
+
+    const user = await auth.authenticate(request);
+    const comment = await commentService.submit({
+      postId: post.id,
+      parentId: typeof body.parentId === 'string' ? body.parentId : null,
+      name: user?.name ?? (typeof body.name === 'string' ? body.name : ''),
+      email: user?.email ?? (typeof body.email === 'string' ? body.email : undefined),
+      body: body.body,
+      ip: clientIp(request.headers),
+      userId: user?.id,
+      trusted: !!user && can(user.role, 'posts:write')
+    });
+
+    return NextResponse.json({ comment: redact(comment) }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to post comment');
+  }
+}
+
+type PublicComment = Pick<Comment, 'id' | 'postId' | 'parentId' | 'body' | 'status' | 'createdAt'> & {
+  author: { name: string; userId?: string };
+  replies?: PublicComment[];
+};
+
+// Emails, fingerprints, spam flags and moderator details stay server-side
+function redact(comment: Comment & { replies?: CommentThread[] }): PublicComment {
+  const { id, postId, parentId, body, status, createdAt, author, replies } = comment;
+  return {
+    id, postId, parentId, body, status, createdAt,
+    author: { name: author.name, ...(author.userId && { userId: author.userId }) },
+    ...(replies && { replies: replies.map(redact) })
+  };
+}
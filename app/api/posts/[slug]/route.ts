@@ -0,0 +1,24 @@
+/**
+ * Single Post API Route
+ *
+ * GET /api/posts/:slug - one published post, with previous/next links when
+ * it is part of a series
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, conditionalJson, errorResponse } from '@/lib/api/http';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest, { params }: { params: { slug: string } }) {
+  try {
+    const post = await serverContentAPI.getPost(params.slug);
+    if (!post || post.status !== 'published') {
+      return apiError('not_found', `No post with slug "${params.slug}"`);
+    }
+
+    const series = await serverContentAPI.getSeriesNavigation(post.id);
+    return conditionalJson(request, { post, series });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load post');
+  }
+}
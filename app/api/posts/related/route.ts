@@ -0,0 +1,32 @@
+/**
+ * Related Posts API Route
+ *
+ * GET /api/posts/related?slug=... (or ?id=...) - "read next" posts ranked
+ * by content similarity. Query: limit (default 3, max 12)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, conditionalJson, errorResponse, parsePagination } from '@/lib/api/http';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const id = params.get('id');
+    const slug = params.get('slug');
+    if (!id && !slug) {
+      throw new ApiError('bad_request', 'Either id or slug is required', { slug: 'required without id' });
+    }
+
+    const { limit } = parsePagination(params, { defaultLimit: 3, maxLimit: 12 });
+    const post = id ? await serverContentAPI.getPostById(id) : await serverContentAPI.getPost(slug!);
+    if (!post || post.status !== 'published') {
+      throw new ApiError('not_found', 'Post not found');
+    }
+
+    const related = await serverContentAPI.getRelatedPosts(post.id, limit);
+    return conditionalJson(request, { postId: post.id, items: related });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load related posts');
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Posts API Route
+ *
+ * GET /api/posts - paginated list of published posts
+ *
+ * Query: category, tags (comma-separated) or repeated tag, author (id),
+ * sortBy (publishedAt|updatedAt|readingTime), sortOrder (asc|desc),
+ * limit plus cursor (the previous page's nextCursor), or offset/page/pageSize.
+ * Cursors are stable while posts are added; offsets are kept for simple paging.
+ */
+
+import { NextRequest } from 'next/server';
+import { conditionalJson, errorResponse, parsePagination, parsePostFilters } from '@/lib/api/http';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const filters = parsePostFilters(params);
+    const { limit, offset } = parsePagination(params);
+    const cursor = params.get('cursor') || undefined;
+
+    const page = await serverContentAPI.getPosts({ ...filters, limit, offset, cursor });
+    const end = offset + page.items.length;
+
+    return conditionalJson(request, {
+      items: page.items,
+      pagination: cursor
+        ? { total: page.total, limit, nextCursor: page.nextCursor }
+        : { total: page.total, limit, offset, nextOffset: end < page.total ? end : null, nextCursor: page.nextCursor }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list posts');
+  }
+}
@@ -8,22 +8,20 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { AIResearchAutomation, ResearchSession } from '@/lib/ai-research-automation';
-import { contentAPI } from '@/lib/content-api';
-
-// Simple auth check (replace with proper auth in production)
-const INGEST_SECRET = process.env.INGEST_SECRET || 'your-secret-key';
+import { AIResearchAutomation } from '@/lib/ai-research-automation';
+import { ApiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { serverContentAPI } from '@/lib/content/server';
+import { parseChatGPTConversation } from '@/lib/research/chatgpt';
+import { parseClaudeConversation } from '@/lib/research/claude';
+import { fingerprintSession } from '@/lib/research/fingerprint';
+import { researchLedger } from '@/lib/research/server';
+import { IngestOptions, ResearchSession } from '@/lib/research/types';
 
 export async function POST(request: NextRequest) {
   try {
-    // Check authorization
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.includes(INGEST_SECRET)) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    // Session cookie or bearer API token of an editor or owner
+    await auth.authorize(request, 'research:ingest');
 
     const data = await request.json();
 
@@ -38,13 +36,12 @@ export async function POST(request: NextRequest) {
       session = parseChatGPT(data);
     } else if (data.type === 'raw') {
       // Direct markdown/text input
-      session = {
-        id: `manual-${Date.now()}`,
+      session = withContentId('manual', data, {
         timestamp: new Date(data.timestamp || Date.now()),
         topic: data.topic || 'Research Session',
         rawContent: data.content,
         metadata: data.metadata
-      };
+      });
     } else {
       return NextResponse.json(
         { error: 'Invalid input type' },
@@ -52,48 +49,81 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert to blog post
-    const automation = new AIResearchAutomation([]);
-    const post = await automation.convertToPost(session);
-
-    // Optionally auto-publish or save as draft
-    const autoPublish = data.autoPublish !== false;
+    // Optionally auto-publish, or hold as a draft / scheduled post for review
+    const options: IngestOptions = {};
+    if (data.autoPublish === false) {
+      const scheduledFor = data.scheduledFor ? new Date(data.scheduledFor) : undefined;
+      if (scheduledFor && Number.isNaN(scheduledFor.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid scheduledFor date' },
+          { status: 400 }
+        );
+      }
+      options.status = scheduledFor ? 'scheduled' : 'draft';
+      options.scheduledFor = scheduledFor;
+    }
 
-    if (autoPublish) {
-      const created = await contentAPI.createPost(post);
-      return NextResponse.json({
-        success: true,
-        published: true,
-        post: created
-      });
-    } else {
-      // Save as draft (would store in database)
-      return NextResponse.json({
-        success: true,
-        published: false,
-        draft: post
+    // The ledger skips sessions that were already ingested and holds
+    // overlapping ones back as drafts, as for the daily automation
+    const item = await new AIResearchAutomation([], serverContentAPI, researchLedger).ingestSession(session, options);
+    if (item.action === 'skipped') {
+      throw new ApiError('conflict', `Session ${session.id} was already ingested`, {
+        reason: item.reason!,
+        sessionId: item.duplicateOf!.sessionId,
+        ...(item.duplicateOf!.postId && { postId: item.duplicateOf!.postId })
       });
     }
+    if (item.action === 'failed') {
+      throw new Error(item.error);
+    }
 
+    const post = (await serverContentAPI.getPostById(item.postId!))!;
+    return NextResponse.json({
+      success: true,
+      published: item.action === 'published',
+      status: post.status,
+      [item.action === 'published' ? 'post' : 'draft']: post,
+      ...(item.reason && { reason: item.reason }),
+      ...(item.duplicateOf && { duplicateOf: item.duplicateOf }),
+      lint: await serverContentAPI.lintPost(post)
+    });
   } catch (error) {
-    console.error('Research ingestion error:', error);
-    return NextResponse.json(
-      { error: 'Failed to ingest research' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to ingest research');
   }
 }
 
+/**
+ * Session for a payload without a conversation id: the one sent as `id`,
+ * or one derived from the content so resending it is recognized
+ */
+function withContentId(prefix: string, data: any, session: Omit<ResearchSession, 'id'>): ResearchSession {
+  if (typeof data.id === 'string' && data.id) return { id: data.id, ...session };
+  return { id: `${prefix}-${fingerprintSession({ id: '', ...session }).hash.slice(0, 16)}`, ...session };
+}
+
 function parseClaude(data: any): ResearchSession {
-  // Parse Claude's export format
+  // One conversation from the data export's conversations.json, sent as is
+  // or as { conversation }
+  const conversation = data.conversation ?? (Array.isArray(data.chat_messages) ? data : null);
+  if (conversation) {
+    if (typeof conversation.uuid !== 'string') {
+      throw new ApiError('bad_request', 'Invalid Claude conversation', { uuid: 'is required' });
+    }
+    const session = parseClaudeConversation(conversation);
+    if (!session) {
+      throw new ApiError('bad_request', 'Invalid Claude conversation', { chat_messages: 'has no messages' });
+    }
+    return data.metadata ? { ...session, metadata: { ...session.metadata, ...data.metadata } } : session;
+  }
+
+  // Flat { title, messages: [{ role, content }] } payloads
   const messages = data.messages || [];
   const content = messages.map((msg: any) => {
     const role = msg.role === 'human' ? '**You:**' : '**Claude:**';
     return `${role}\n\n${msg.content}\n\n---\n`;
   }).join('\n');
 
-  return {
-    id: `claude-${Date.now()}`,
+  return withContentId('claude', data, {
     timestamp: new Date(data.timestamp || Date.now()),
     topic: data.title || extractTopic(messages),
     rawContent: content,
@@ -102,19 +132,32 @@ function parseClaude(data: any): ResearchSession {
       content: msg.content
     })),
     metadata: data.metadata
-  };
+  });
 }
 
 function parseChatGPT(data: any): ResearchSession {
-  // Parse ChatGPT's export format
+  // One conversation from the data export's conversations.json, sent as is
+  // or as { conversation }
+  const conversation = data.conversation ?? (data.mapping && typeof data.mapping === 'object' ? data : null);
+  if (conversation) {
+    if (!conversation.mapping || typeof conversation.mapping !== 'object') {
+      throw new ApiError('bad_request', 'Invalid ChatGPT conversation', { mapping: 'is required' });
+    }
+    const session = parseChatGPTConversation(conversation);
+    if (!session) {
+      throw new ApiError('bad_request', 'Invalid ChatGPT conversation', { mapping: 'has no visible messages on the current branch' });
+    }
+    return data.metadata ? { ...session, metadata: { ...session.metadata, ...data.metadata } } : session;
+  }
+
+  // Flat { title, messages: [{ author, content }] } payloads
   const messages = data.messages || data.conversation || [];
   const content = messages.map((msg: any) => {
     const role = msg.author?.role === 'user' ? '**You:**' : '**ChatGPT:**';
     return `${role}\n\n${msg.content?.parts?.[0] || msg.content || ''}\n\n---\n`;
   }).join('\n');
 
-  return {
-    id: `chatgpt-${Date.now()}`,
+  return withContentId('chatgpt', data, {
     timestamp: new Date(data.create_time || Date.now()),
     topic: data.title || extractTopic(messages),
     rawContent: content,
@@ -123,7 +166,7 @@ function parseChatGPT(data: any): ResearchSession {
       content: msg.content?.parts?.[0] || msg.content || ''
     })),
     metadata: data.metadata
-  };
+  });
 }
 
 function extractTopic(messages: any[]): string {
@@ -149,6 +192,6 @@ export async function GET(request: NextRequest) {
     endpoint: '/api/research/ingest',
     methods: ['POST'],
     formats: ['claude', 'chatgpt', 'raw'],
-    authentication: 'Bearer token required'
+    authentication: 'Session cookie or bearer API token with research:ingest'
   });
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Research Job API Route
+ *
+ * GET /api/research/jobs/:id - job status, each source's step (attempts,
+ * next retry, error, ingestion report) and the run log
+ * DELETE /api/research/jobs/:id - cancel the job; a running step finishes
+ * first
+ *
+ * Requires research:schedule (editors and owners).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { researchJobs } from '@/lib/research/server';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await auth.authorize(request, 'research:schedule');
+
+    const job = await researchJobs.get(params.id);
+    if (!job) {
+      return apiError('not_found', `No ingestion job with id "${params.id}"`);
+    }
+
+    return NextResponse.json(job, { headers: { 'Cache-Control': 'private, no-store' } });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load ingestion job');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await auth.authorize(request, 'research:schedule');
+    return NextResponse.json(await researchJobs.cancel(params.id, user.email));
+  } catch (error) {
+    return errorResponse(error, 'Failed to cancel ingestion job');
+  }
+}
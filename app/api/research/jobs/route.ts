@@ -0,0 +1,27 @@
+/**
+ * Research Jobs API Route
+ *
+ * GET /api/research/jobs - recent ingestion jobs, newest first, with their
+ * steps but without the run log
+ *
+ * Requires research:schedule (editors and owners).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { researchJobs } from '@/lib/research/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    await auth.authorize(request, 'research:schedule');
+
+    const jobs = await researchJobs.list();
+    return NextResponse.json(
+      { items: jobs.map(({ log, ...job }) => job) },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to load ingestion jobs');
+  }
+}
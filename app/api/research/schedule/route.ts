@@ -4,11 +4,17 @@
  * "The Revolution Will Not be in a Structured Format"
  * © 2025 Paul Phillips - Clear Seas Solutions LLC
  *
- * Automated daily research ingestion and publishing
+ * Automated daily research ingestion and publishing. POST queues an
+ * ingestion job with one step per configured source and answers 202 with
+ * the job; follow it at GET /api/research/jobs/:id.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { AIResearchAutomation } from '@/lib/ai-research-automation';
+import { ApiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { publishScheduler } from '@/lib/content/server';
+import { researchJobs } from '@/lib/research/server';
+import { configuredSources } from '@/lib/research/sources';
 
 // This would be triggered by:
 // 1. GitHub Actions (scheduled workflow)
@@ -18,58 +24,37 @@ import { AIResearchAutomation } from '@/lib/ai-research-automation';
 
 export async function POST(request: NextRequest) {
   try {
-    // Simple auth check
-    const authHeader = request.headers.get('authorization');
-    const secret = process.env.SCHEDULE_SECRET || 'schedule-secret';
+    // Session cookie (admin "Run Now") or bearer API token (scheduled workflow)
+    const user = await auth.authorize(request, 'research:schedule');
+    const body = await request.json().catch(() => ({}));
 
-    if (!authHeader || !authHeader.includes(secret)) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    console.log('🚀 Starting scheduled research ingestion...');
-
-    // Configure sources based on environment variables
-    const sources = [];
-
-    // Add Claude source if configured
-    if (process.env.CLAUDE_EXPORT_PATH) {
-      sources.push({
-        type: 'file' as const,
-        filePath: process.env.CLAUDE_EXPORT_PATH
-      });
-    }
-
-    // Add API source if configured
-    if (process.env.RESEARCH_API_ENDPOINT) {
-      sources.push({
-        type: 'api' as const,
-        endpoint: process.env.RESEARCH_API_ENDPOINT,
-        apiKey: process.env.RESEARCH_API_KEY
-      });
-    }
+    // Sources configured by environment variables (see lib/research/sources.ts)
+    const sources = configuredSources();
 
-    // Add default mock source for testing
-    if (sources.length === 0) {
-      sources.push({
-        type: 'claude' as const
-      });
-    }
-
-    const automation = new AIResearchAutomation(sources);
+    // Queue the run and start it now rather than at the worker's next poll
+    const job = await researchJobs.enqueue(sources, {
+      trigger: body?.source === 'scheduled' ? 'scheduled' : 'manual',
+      requestedBy: user.email
+    });
+    researchJobs.runDue().catch(error => console.error('Research job queue failed:', error));
 
-    // Run the automation
-    await automation.runDailyAutomation();
+    // Release any scheduled posts that are due
+    const released = await publishScheduler.runDue();
 
     return NextResponse.json({
       success: true,
-      message: 'Daily research automation completed',
+      message: 'Daily research ingestion queued',
+      job,
+      statusUrl: `/api/research/jobs/${job.id}`,
+      scheduledPublished: released.map(post => post.slug),
       timestamp: new Date().toISOString()
-    });
+    }, { status: 202 });
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      return errorResponse(error, 'Failed to run scheduled automation');
+    }
+
     console.error('Schedule error:', error);
     return NextResponse.json(
       { error: 'Failed to run scheduled automation' },
@@ -96,8 +81,10 @@ export async function GET(request: NextRequest) {
     schedule: 'Daily at 9:00 AM',
     sources: {
       claude: !!process.env.CLAUDE_EXPORT_PATH,
-      api: !!process.env.RESEARCH_API_ENDPOINT,
-      mock: true
+      chatgpt: !!process.env.CHATGPT_EXPORT_PATH,
+      gemini: !!process.env.GEMINI_TAKEOUT_PATH,
+      perplexity: !!process.env.PERPLEXITY_EXPORT_PATH,
+      api: !!process.env.RESEARCH_API_ENDPOINT
     }
   });
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+/**
+ * Search API Route
+ *
+ * GET /api/search?q=... - ranked search over published posts with
+ * highlighted titles and snippets. Query: limit/offset or page/pageSize,
+ * prefix=false and fuzzy=false to disable term expansion
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, conditionalJson, errorResponse, paginate, parsePagination } from '@/lib/api/http';
+import { defaultBlogConfig } from '@/lib/blog-config';
+import { serverContentAPI } from '@/lib/content/server';
+
+// Upper bound on hits ranked per query; pages are cut from this window
+const MAX_RESULTS = 500;
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim();
+    if (!query) {
+      throw new ApiError('bad_request', 'Search query is required', { q: 'required' });
+    }
+
+    const page = parsePagination(params);
+
+    if (defaultBlogConfig.integrations.search !== 'built-in') {
+      const posts = await serverContentAPI.searchPosts(query);
+      return conditionalJson(request, { query, ...paginate(posts.map(post => ({ post })), page) });
+    }
+
+    const hits = await serverContentAPI.search(query, {
+      limit: MAX_RESULTS,
+      prefix: params.get('prefix') !== 'false',
+      fuzzy: params.get('fuzzy') !== 'false'
+    });
+
+    return conditionalJson(request, { query, ...paginate(hits, page) });
+  } catch (error) {
+    return errorResponse(error, 'Search failed');
+  }
+}
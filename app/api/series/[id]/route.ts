@@ -0,0 +1,84 @@
+/**
+ * Series Landing API Route
+ *
+ * GET /api/series/:id - series record and its published parts in order
+ * PATCH /api/series/:id - { title?, description?, topic?, status?, parts? };
+ * updates the record; `parts` lists every post id in the new reading order
+ * and the response lists the renumbered parts' slugs
+ * DELETE /api/series/:id - removes the series; its parts stay as standalone
+ * posts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiError, conditionalJson, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const landing = await serverContentAPI.getSeriesLanding(params.id);
+    if (!landing) {
+      return apiError('not_found', `No series with id "${params.id}"`);
+    }
+
+    return conditionalJson(request, landing);
+  } catch (error) {
+    return errorResponse(error, 'Failed to load series');
+  }
+}
+
+const TEXT_FIELDS = ['title', 'description', 'topic'];
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await auth.authorize(request, 'series:manage');
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      throw new ApiError('bad_request', 'Send the fields to change');
+    }
+    const invalid = TEXT_FIELDS.find(field => body[field] !== undefined && typeof body[field] !== 'string');
+    if (invalid) {
+      throw new ApiError('bad_request', `Invalid ${invalid}`, { [invalid]: 'must be a string' });
+    }
+    if (body.title !== undefined && !body.title.trim()) {
+      throw new ApiError('bad_request', 'Series need a title', { title: 'must not be empty' });
+    }
+    if (body.status !== undefined && body.status !== 'open' && body.status !== 'complete') {
+      throw new ApiError('bad_request', 'Invalid status', { status: 'must be open or complete' });
+    }
+    if (body.parts !== undefined && (!Array.isArray(body.parts) || body.parts.some((id: unknown) => typeof id !== 'string'))) {
+      throw new ApiError('bad_request', 'Invalid parts', { parts: 'must be a list of post ids' });
+    }
+
+    const existing = await serverContentAPI.getSeries(params.id);
+    if (!existing) {
+      return apiError('not_found', `No series with id "${params.id}"`);
+    }
+
+    // Reorder first: it rejects an incomplete list before anything is written
+    const parts = body.parts ? await serverContentAPI.reorderSeries(existing.id, body.parts, { author: user.name }) : null;
+    const series = await serverContentAPI.saveSeries({
+      ...existing,
+      ...(body.title !== undefined && { title: body.title.trim() }),
+      ...(body.description !== undefined && { description: body.description || undefined }),
+      ...(body.topic !== undefined && { topic: body.topic || undefined }),
+      ...(body.status !== undefined && { status: body.status })
+    });
+
+    return NextResponse.json({ series, ...(parts && { parts: parts.map(post => post.slug) }) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update series');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await auth.authorize(request, 'series:manage');
+
+    const updatedPosts = await serverContentAPI.deleteSeries(params.id, { author: user.name });
+    return NextResponse.json({ updatedPosts: updatedPosts.map(post => post.slug) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete series');
+  }
+}
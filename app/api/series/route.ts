@@ -0,0 +1,68 @@
+/**
+ * Series API Route
+ *
+ * GET /api/series - all series with their published part counts
+ * POST /api/series - { title, id?, description?, topic?, status? }; creates
+ * a series (id defaults to the slug of the title). Posts join it through
+ * their series field.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, conditionalJson, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { contentUtils } from '@/lib/content-api';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const [series, { items: posts }] = await Promise.all([
+      serverContentAPI.listSeries(),
+      serverContentAPI.getPosts({ status: 'published' })
+    ]);
+
+    const items = series.map(entry => ({
+      ...entry,
+      partCount: posts.filter(post => post.series?.id === entry.id).length
+    }));
+
+    return conditionalJson(request, { items });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list series');
+  }
+}
+
+const OPTIONAL_FIELDS = ['id', 'description', 'topic'];
+
+export async function POST(request: NextRequest) {
+  try {
+    await auth.authorize(request, 'series:manage');
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.title !== 'string') {
+      throw new ApiError('bad_request', 'Send a series title', { title: 'is required' });
+    }
+    const invalid = OPTIONAL_FIELDS.find(field => body[field] !== undefined && typeof body[field] !== 'string');
+    if (invalid) {
+      throw new ApiError('bad_request', `Invalid ${invalid}`, { [invalid]: 'must be a string' });
+    }
+    if (body.status !== undefined && body.status !== 'open' && body.status !== 'complete') {
+      throw new ApiError('bad_request', 'Invalid status', { status: 'must be open or complete' });
+    }
+
+    const id = body.id || contentUtils.generateSlug(body.title);
+    if (await serverContentAPI.getSeries(id)) {
+      throw new ApiError('conflict', `A series with id "${id}" already exists`);
+    }
+
+    const series = await serverContentAPI.saveSeries({
+      id,
+      title: body.title.trim(),
+      ...(body.description && { description: body.description }),
+      ...(body.topic && { topic: body.topic }),
+      status: body.status ?? 'open'
+    });
+    return NextResponse.json({ series }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create series');
+  }
+}
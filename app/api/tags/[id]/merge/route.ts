@@ -0,0 +1,28 @@
+/**
+ * Tag Merge API Route
+ *
+ * POST /api/tags/:id/merge - { sources: [tagId, ...] }; folds the source
+ * tags into this one. Their names become synonyms, registered sources are
+ * removed and every affected post is retagged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await auth.authorize(request, 'tags:manage');
+
+    const body = await request.json().catch(() => null);
+    if (!body || !Array.isArray(body.sources) || body.sources.some((id: unknown) => typeof id !== 'string')) {
+      throw new ApiError('bad_request', 'Send the tags to merge', { sources: 'must be a list of tag ids' });
+    }
+
+    const { tag, updatedPosts } = await serverContentAPI.mergeTags(body.sources, params.id, { author: user.name });
+    return NextResponse.json({ tag, updatedPosts: updatedPosts.map(post => post.slug) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to merge tags');
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Tag API Route
+ *
+ * GET /api/tags/:id - tag with its synonyms and a page of published posts
+ * PUT /api/tags/:id - { name }; renames the tag on every post, keeping the
+ * old name as a synonym
+ *
+ * Query (GET): sortBy, sortOrder, limit plus cursor or offset/page/pageSize,
+ * as for /api/posts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, apiError, conditionalJson, errorResponse, parsePagination, parsePostFilters } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const tag = await serverContentAPI.getTag(params.id);
+    if (!tag) {
+      return apiError('not_found', `No tag with id "${params.id}"`);
+    }
+
+    const query = request.nextUrl.searchParams;
+    const { sortBy, sortOrder } = parsePostFilters(query);
+    const { limit, offset } = parsePagination(query);
+    const cursor = query.get('cursor') || undefined;
+
+    const page = await serverContentAPI.getPosts({
+      tags: [tag.name], status: 'published', sortBy, sortOrder, limit, offset, cursor
+    });
+
+    return conditionalJson(request, {
+      tag,
+      items: page.items,
+      pagination: { total: page.total, limit, nextCursor: page.nextCursor }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load tag');
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await auth.authorize(request, 'tags:manage');
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.name !== 'string') {
+      throw new ApiError('bad_request', 'Send the new tag name', { name: 'is required' });
+    }
+
+    const { tag, updatedPosts } = await serverContentAPI.renameTag(params.id, body.name, { author: user.name });
+    return NextResponse.json({ tag, updatedPosts: updatedPosts.map(post => post.slug) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to rename tag');
+  }
+}
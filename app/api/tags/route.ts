@@ -0,0 +1,51 @@
+/**
+ * Tags API Route
+ *
+ * GET /api/tags - registered and implicit tags with published post counts
+ * and a tag cloud level (1-5) for tags in use
+ * POST /api/tags - { name, synonyms?, description? }; registers or updates
+ * a tag and retags every post using one of its synonyms
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, conditionalJson, errorResponse } from '@/lib/api/http';
+import { auth } from '@/lib/auth/server';
+import { serverContentAPI } from '@/lib/content/server';
+import { tagCloud } from '@/lib/content/tags';
+
+export async function GET(request: NextRequest) {
+  try {
+    const usage = await serverContentAPI.getTags();
+    const levels = new Map(tagCloud(usage).map(tag => [tag.id, tag.level] as [string, number]));
+
+    return conditionalJson(request, {
+      items: usage.map(tag => ({ ...tag, ...(levels.has(tag.id) && { level: levels.get(tag.id) }) }))
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list tags');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await auth.authorize(request, 'tags:manage');
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.name !== 'string') {
+      throw new ApiError('bad_request', 'Send a tag name', { name: 'is required' });
+    }
+    if (body.synonyms !== undefined && (!Array.isArray(body.synonyms) || body.synonyms.some((s: unknown) => typeof s !== 'string'))) {
+      throw new ApiError('bad_request', 'Invalid synonyms', { synonyms: 'must be a list of strings' });
+    }
+
+    const { tag, updatedPosts } = await serverContentAPI.saveTag({
+      name: body.name,
+      synonyms: body.synonyms,
+      description: typeof body.description === 'string' ? body.description : undefined
+    }, { author: user.name });
+
+    return NextResponse.json({ tag, updatedPosts: updatedPosts.map(post => post.slug) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save tag');
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * VIB3CODE-0 Author Page
+ *
+ * An author's bio and published posts, newest first, with their feed.
+ * Byline-only authors without a registered profile get a page too.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { siteRoutes } from '@/lib/blog-config';
+import { feedPath } from '@/lib/content/feeds';
+import { serverContentAPI } from '@/lib/content/server';
+import PostArchive, { loadArchivePage } from '@/components/posts/PostArchive';
+
+export const dynamic = 'force-dynamic';
+
+interface AuthorPageProps {
+  params: { id: string };
+  searchParams: { cursor?: string | string[] };
+}
+
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const author = await serverContentAPI.getAuthor(params.id);
+  if (!author) return {};
+
+  return {
+    title: author.name,
+    description: author.bio ?? `Posts by ${author.name}`,
+    alternates: { canonical: siteRoutes.author(author.id) },
+  };
+}
+
+export default async function AuthorPage({ params, searchParams }: AuthorPageProps) {
+  const author = await serverContentAPI.getAuthor(params.id);
+  if (!author) notFound();
+
+  const page = await loadArchivePage({ author: author.id }, searchParams.cursor);
+
+  return (
+    <PostArchive
+      eyebrow="Author"
+      title={author.name}
+      description={author.bio}
+      posts={page.items}
+      feedHref={feedPath({ format: 'rss', variant: 'full', scope: { type: 'author', author: author.id } })}
+      nextHref={page.nextCursor && `${siteRoutes.author(author.id)}?cursor=${encodeURIComponent(page.nextCursor)}`}
+    />
+  );
+}
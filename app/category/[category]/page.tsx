@@ -0,0 +1,55 @@
+/**
+ * VIB3CODE-0 Category Page
+ *
+ * Published posts in one content category, newest first, with the
+ * category's feed. Listed in sitemap.xml and linked from the category feeds.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { contentCategories, siteRoutes } from '@/lib/blog-config';
+import { feedPath } from '@/lib/content/feeds';
+import PostArchive, { loadArchivePage } from '@/components/posts/PostArchive';
+
+export const dynamic = 'force-dynamic';
+
+type CategoryKey = keyof typeof contentCategories;
+
+interface CategoryPageProps {
+  params: { category: string };
+  searchParams: { cursor?: string | string[] };
+}
+
+function findCategory(key: string) {
+  return key in contentCategories ? { key: key as CategoryKey, ...contentCategories[key as CategoryKey] } : null;
+}
+
+export async function generateMetadata({ params }: CategoryPageProps): Promise<Metadata> {
+  const category = findCategory(params.category);
+  if (!category) return {};
+
+  return {
+    title: category.name,
+    description: category.description,
+    alternates: { canonical: siteRoutes.category(category.key) },
+  };
+}
+
+export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
+  const category = findCategory(params.category);
+  if (!category) notFound();
+
+  const page = await loadArchivePage({ category: category.key }, searchParams.cursor);
+
+  return (
+    <PostArchive
+      eyebrow="Category"
+      title={category.name}
+      description={category.description}
+      accentColor={category.holographicTheme.primaryColor}
+      posts={page.items}
+      feedHref={feedPath({ format: 'rss', variant: 'full', scope: { type: 'category', category: category.key } })}
+      nextHref={page.nextCursor && `${siteRoutes.category(category.key)}?cursor=${encodeURIComponent(page.nextCursor)}`}
+    />
+  );
+}
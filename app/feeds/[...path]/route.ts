@@ -0,0 +1,34 @@
+/**
+ * Syndication Feeds Route
+ *
+ * GET /feeds/rss.xml, /feeds/atom.xml, /feeds/feed.json (site-wide)
+ * GET /feeds/category/<key>/<file>, /feeds/tag/<tag-slug>/<file>,
+ *     /feeds/author/<author-id>/<file>
+ * Append "-excerpt" to the file name (rss-excerpt.xml) for summary-only items
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, conditionalResponse, errorResponse } from '@/lib/api/http';
+import { generateFeed, parseFeedPath } from '@/lib/content/feeds';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest, { params }: { params: { path: string[] } }) {
+  try {
+    const feedRequest = parseFeedPath(params.path);
+    if (!feedRequest) {
+      return apiError('not_found', `No feed at /feeds/${params.path.join('/')}`);
+    }
+
+    const feed = await generateFeed(serverContentAPI, feedRequest);
+    if (!feed) {
+      const { scope } = feedRequest;
+      return apiError('not_found', scope.type === 'author'
+        ? `No author with id "${scope.author}"`
+        : 'No published posts carry this tag');
+    }
+
+    return conditionalResponse(request, feed.body, feed.contentType, { maxAge: 900 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate feed');
+  }
+}
@@ -21,6 +21,13 @@ export const metadata: Metadata = {
   description: 'Agentic research-and-writing powered blog with holographic transitions and 4D visualizations',
   keywords: ['holographic', 'AI', 'blog', 'VIB34D', 'WebGL', '4D visualization', 'agentic content'],
   authors: [{ name: 'VIB3CODE Research Division' }],
+  alternates: {
+    types: {
+      'application/rss+xml': '/feeds/rss.xml',
+      'application/atom+xml': '/feeds/atom.xml',
+      'application/feed+json': '/feeds/feed.json',
+    },
+  },
   openGraph: {
     title: 'VIB3CODE-0 Holographic AI Blog',
     description: 'Experience the future of AI content through advanced holographic interfaces',
@@ -95,6 +95,7 @@ function buildPlaceholderPosts(
     },
     publishedAt: new Date(now - index * 86400000),
     updatedAt: new Date(now - index * 86400000),
+    status: 'published' as const,
     tags: [base.name.split(' ')[0], 'VIB3CODE'],
     category,
     readingTime: 6 + index,
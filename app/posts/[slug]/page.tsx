@@ -0,0 +1,74 @@
+/**
+ * VIB3CODE-0 Article Page
+ *
+ * Renders a published post's MDX body with heading anchors, a table of
+ * contents and inline holograms. Pages render on request, so posts
+ * published at runtime (research pipeline, scheduler) show up at once.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { contentCategories, siteRoutes } from '@/lib/blog-config';
+import { compileMdx } from '@/lib/content/mdx';
+import { serverContentAPI } from '@/lib/content/server';
+import MDXContent from '@/components/mdx/MDXContent';
+import TableOfContents from '@/components/mdx/TableOfContents';
+
+export const dynamic = 'force-dynamic';
+
+export async function generateMetadata({ params }: { params: { slug: string } }): Promise<Metadata> {
+  const post = await serverContentAPI.getPost(params.slug);
+  if (!post || post.status !== 'published') return {};
+
+  return {
+    title: post.seo.metaTitle ?? post.title,
+    description: post.seo.metaDescription ?? post.excerpt,
+    alternates: { canonical: siteRoutes.post(post.slug) },
+    ...(post.seo.noindex && { robots: { index: false } }),
+    openGraph: {
+      title: post.title,
+      description: post.excerpt,
+      type: 'article',
+      publishedTime: post.publishedAt.toISOString(),
+      ...(post.seo.ogImage && { images: [post.seo.ogImage] }),
+    },
+  };
+}
+
+export default async function PostPage({ params }: { params: { slug: string } }) {
+  const post = await serverContentAPI.getPost(params.slug);
+  if (!post || post.status !== 'published') notFound();
+
+  // Inline holograms default to the post's colour and density
+  const { body, toc } = compileMdx(post.content, {
+    hologram: post.holographicParams && {
+      hue: post.holographicParams.hue,
+      density: post.holographicParams.density,
+    },
+  });
+  const category = contentCategories[post.category];
+
+  return (
+    <main className="relative min-h-screen bg-[#05070d] px-6 py-24 text-white">
+      <div className="mx-auto flex max-w-6xl gap-12">
+        <article className="min-w-0 flex-1">
+          <header className="mb-12">
+            <p className="mb-4 text-xs uppercase tracking-[0.3em]" style={{ color: category.holographicTheme.primaryColor }}>
+              {category.name}
+            </p>
+            <h1 className="mb-6 text-4xl font-bold md:text-5xl">{post.title}</h1>
+            <p className="text-sm text-white/60">
+              {post.author.name} · <time dateTime={post.publishedAt.toISOString()}>{post.publishedAt.toDateString()}</time> · {post.readingTime} min read
+            </p>
+          </header>
+          <MDXContent body={body} className="mdx-content space-y-6 leading-relaxed text-white/85" />
+        </article>
+        {toc.length > 0 && (
+          <aside className="sticky top-24 hidden h-fit w-64 shrink-0 lg:block">
+            <TableOfContents entries={toc} />
+          </aside>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * Robots Route
+ *
+ * GET /robots.txt - crawl rules that hide admin/API routes and
+ * noindex or archived posts, plus the sitemap location
+ */
+
+import { NextRequest } from 'next/server';
+import { conditionalResponse, errorResponse } from '@/lib/api/http';
+import { generateRobots } from '@/lib/content/sitemap';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const robots = await generateRobots(serverContentAPI);
+    return conditionalResponse(request, robots, 'text/plain; charset=utf-8', { maxAge: 3600 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate robots.txt');
+  }
+}
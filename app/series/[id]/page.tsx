@@ -0,0 +1,47 @@
+/**
+ * VIB3CODE-0 Series Page
+ *
+ * A series landing: its description and published parts in reading order,
+ * numbered the way the "Part n of m" navigation on each post counts them.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { siteRoutes } from '@/lib/blog-config';
+import { serverContentAPI } from '@/lib/content/server';
+import PostArchive from '@/components/posts/PostArchive';
+
+export const dynamic = 'force-dynamic';
+
+interface SeriesPageProps {
+  params: { id: string };
+}
+
+export async function generateMetadata({ params }: SeriesPageProps): Promise<Metadata> {
+  const series = await serverContentAPI.getSeries(params.id);
+  if (!series) return {};
+
+  return {
+    title: series.title,
+    description: series.description ?? `The ${series.title} series`,
+    alternates: { canonical: siteRoutes.series(series.id) },
+  };
+}
+
+export default async function SeriesPage({ params }: SeriesPageProps) {
+  const landing = await serverContentAPI.getSeriesLanding(params.id);
+  if (!landing) notFound();
+
+  const { series, parts, readingTime } = landing;
+  const partNumbers = new Map(parts.map((post, index) => [post.id, index + 1] as [string, number]));
+
+  return (
+    <PostArchive
+      eyebrow={`Series · ${parts.length} ${parts.length === 1 ? 'part' : 'parts'} · ${readingTime} min read`}
+      title={series.title}
+      description={series.description}
+      posts={parts}
+      label={post => `Part ${partNumbers.get(post.id)}`}
+    />
+  );
+}
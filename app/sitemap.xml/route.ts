@@ -0,0 +1,20 @@
+/**
+ * Sitemap Route
+ *
+ * GET /sitemap.xml - every indexable page, or a sitemap index pointing at
+ * /sitemaps/<n>.xml once there are more than 50,000 URLs
+ */
+
+import { NextRequest } from 'next/server';
+import { conditionalResponse, errorResponse } from '@/lib/api/http';
+import { generateSitemap } from '@/lib/content/sitemap';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const sitemap = await generateSitemap(serverContentAPI, null);
+    return conditionalResponse(request, sitemap!, 'application/xml; charset=utf-8', { maxAge: 3600 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate sitemap');
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Numbered Sitemap Route
+ *
+ * GET /sitemaps/<n>.xml - one page of URLs listed by the sitemap index
+ */
+
+import { NextRequest } from 'next/server';
+import { apiError, conditionalResponse, errorResponse } from '@/lib/api/http';
+import { generateSitemap } from '@/lib/content/sitemap';
+import { serverContentAPI } from '@/lib/content/server';
+
+export async function GET(request: NextRequest, { params }: { params: { page: string } }) {
+  try {
+    const match = params.page.match(/^(\d+)\.xml$/);
+    const sitemap = match ? await generateSitemap(serverContentAPI, Number(match[1])) : null;
+    if (!sitemap) {
+      return apiError('not_found', `No sitemap at /sitemaps/${params.page}`);
+    }
+
+    return conditionalResponse(request, sitemap, 'application/xml; charset=utf-8', { maxAge: 3600 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate sitemap');
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * VIB3CODE-0 Tag Page
+ *
+ * Published posts carrying one tag (matched through its synonyms), newest
+ * first, with the tag's feed. Tags no published post carries are a 404.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { siteRoutes } from '@/lib/blog-config';
+import { feedPath } from '@/lib/content/feeds';
+import { serverContentAPI } from '@/lib/content/server';
+import PostArchive, { loadArchivePage } from '@/components/posts/PostArchive';
+
+export const dynamic = 'force-dynamic';
+
+interface TagPageProps {
+  params: { tag: string };
+  searchParams: { cursor?: string | string[] };
+}
+
+async function findTag(id: string) {
+  const tag = await serverContentAPI.getTag(id);
+  return tag && tag.count > 0 ? tag : null;
+}
+
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const tag = await findTag(params.tag);
+  if (!tag) return {};
+
+  return {
+    title: `Posts tagged ${tag.name}`,
+    description: tag.description ?? `Posts tagged "${tag.name}"`,
+    alternates: { canonical: siteRoutes.tag(tag.id) },
+  };
+}
+
+export default async function TagPage({ params, searchParams }: TagPageProps) {
+  const tag = await findTag(params.tag);
+  if (!tag) notFound();
+
+  const page = await loadArchivePage({ tags: [tag.name] }, searchParams.cursor);
+
+  return (
+    <PostArchive
+      eyebrow="Tag"
+      title={tag.name}
+      description={tag.description}
+      posts={page.items}
+      feedHref={feedPath({ format: 'rss', variant: 'full', scope: { type: 'tag', tag: tag.name } })}
+      nextHref={page.nextCursor && `${siteRoutes.tag(tag.id)}?cursor=${encodeURIComponent(page.nextCursor)}`}
+    />
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * VIB3CODE-0 Callout Shortcode
+ *
+ * `<Callout type="warning" title="...">Markdown</Callout>` in an article.
+ */
+
+import type { ReactNode } from 'react';
+import type { CalloutType } from '@/lib/content/mdx';
+
+const STYLES: Record<CalloutType, { icon: string; className: string }> = {
+  note: { icon: 'ℹ', className: 'border-cyan-400/40 bg-cyan-400/5' },
+  tip: { icon: '✦', className: 'border-emerald-400/40 bg-emerald-400/5' },
+  warning: { icon: '⚠', className: 'border-amber-400/40 bg-amber-400/5' },
+  danger: { icon: '⛔', className: 'border-rose-500/40 bg-rose-500/5' },
+};
+
+export type CalloutProps = {
+  type?: CalloutType;
+  title?: string;
+  children?: ReactNode;
+};
+
+export default function Callout({ type = 'note', title, children }: CalloutProps) {
+  const style = STYLES[type] ?? STYLES.note;
+
+  return (
+    <aside className={`my-8 rounded-xl border-l-4 px-5 py-4 ${style.className}`} role="note">
+      {title && (
+        <p className="mb-2 font-semibold text-white">
+          <span aria-hidden="true" className="mr-2">{style.icon}</span>
+          {title}
+        </p>
+      )}
+      <div className="text-white/80">{children}</div>
+    </aside>
+  );
+}
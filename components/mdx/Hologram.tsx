@@ -0,0 +1,86 @@
+/**
+ * VIB3CODE-0 Hologram Shortcode
+ *
+ * `<Hologram geometry="torus" hue={0.8} />` in an article: mounts a
+ * VIB3Engine with the given VIB3GeometryParams in its own canvas.
+ * - Props are normalized by hologramProps (defaults, names, clamping)
+ * - The engine loads on the client only, like the section canvases
+ */
+
+'use client';
+
+import { Suspense, useMemo } from 'react';
+import dynamic from 'next/dynamic';
+import { Canvas } from '@react-three/fiber';
+import { hologramProps } from '@/lib/content/hologram';
+import { VIB3GeometryParams, VIB3_GEOMETRY_NAMES } from '@/lib/vib34d-geometries';
+
+const VIB3Engine = dynamic(() => import('@/components/engines/VIB3Engine'), {
+  ssr: false,
+});
+
+export type HologramShortcodeProps = Partial<Omit<VIB3GeometryParams, 'geometry'>> & {
+  /** Index 0-7 or a name such as "hypercube" */
+  geometry?: number | string;
+  height?: number;
+  caption?: string;
+};
+
+export default function Hologram({
+  geometry,
+  morph,
+  chaos,
+  density,
+  hue,
+  noiseFreq,
+  dispAmp,
+  timeScale,
+  beatPhase,
+  height: heightProp,
+  caption: captionProp,
+}: HologramShortcodeProps) {
+  const { params, height, caption } = useMemo(
+    () =>
+      hologramProps({
+        geometry,
+        morph,
+        chaos,
+        density,
+        hue,
+        noiseFreq,
+        dispAmp,
+        timeScale,
+        beatPhase,
+        height: heightProp,
+        caption: captionProp,
+      }),
+    [geometry, morph, chaos, density, hue, noiseFreq, dispAmp, timeScale, beatPhase, heightProp, captionProp]
+  );
+
+  return (
+    <figure className="my-10">
+      <div
+        className="relative overflow-hidden rounded-2xl border border-white/10 bg-[#0a0f1a]"
+        style={{ height }}
+        role="img"
+        aria-label={caption ?? `${VIB3_GEOMETRY_NAMES[params.geometry]} hologram`}
+      >
+        <Canvas className="w-full h-full" camera={{ position: [0, 0, 6], fov: 45 }}>
+          <color attach="background" args={['#0a0f1a']} />
+          <Suspense fallback={null}>
+            <VIB3Engine
+              sectionId={`hologram-${params.geometry}`}
+              layerType="content"
+              params={params}
+              opacity={0.9}
+              pointSize={2.2}
+            />
+          </Suspense>
+        </Canvas>
+      </div>
+      {caption && (
+        <figcaption className="mt-3 text-center text-sm text-white/60">{caption}</figcaption>
+      )}
+    </figure>
+  );
+}
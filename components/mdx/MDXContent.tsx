@@ -0,0 +1,146 @@
+/**
+ * VIB3CODE-0 MDX Renderer
+ *
+ * Renders a compileMdx tree with React. Works in server and client
+ * components alike; only the shortcodes that need the browser (Hologram)
+ * are client components.
+ * - Headings carry their anchor id and a hover link to it
+ * - Code blocks render highlightCode tokens as `token <type>` spans
+ * - Shortcodes resolve through `components` (mdxComponents by default)
+ */
+
+import { createElement, type ComponentType, type ReactNode } from 'react';
+import Image from 'next/image';
+import type { MdxBlock, MdxComponentName, MdxInline, MdxPropValue } from '@/lib/content/mdx';
+import Callout, { type CalloutProps } from './Callout';
+import Hologram, { type HologramShortcodeProps } from './Hologram';
+
+export interface MdxComponentProps {
+  Hologram: HologramShortcodeProps;
+  Callout: CalloutProps;
+}
+
+export type MdxComponentMap = { [Name in MdxComponentName]: ComponentType<MdxComponentProps[Name]> };
+
+export const mdxComponents: MdxComponentMap = { Hologram, Callout };
+
+export default function MDXContent({
+  body,
+  components = mdxComponents,
+  className = 'mdx-content',
+}: {
+  body: MdxBlock[];
+  components?: MdxComponentMap;
+  className?: string;
+}) {
+  return <div className={className}>{renderBlocks(body, components)}</div>;
+}
+
+function renderBlocks(blocks: MdxBlock[], components: MdxComponentMap): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading':
+        return createElement(
+          `h${block.depth}`,
+          { key: index, id: block.id, className: 'group scroll-mt-24' },
+          renderInline(block.children),
+          <a
+            key="anchor"
+            href={`#${block.id}`}
+            className="heading-anchor ml-2 opacity-0 transition-opacity group-hover:opacity-60"
+            aria-label="Link to this section"
+          >
+            #
+          </a>
+        );
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+        return block.ordered ? <ol key={index}>{items}</ol> : <ul key={index}>{items}</ul>;
+      }
+      case 'blockquote':
+        return <blockquote key={index}>{renderBlocks(block.children, components)}</blockquote>;
+      case 'code':
+        return (
+          <pre key={index} className="code-block" data-language={block.lang}>
+            <code className={block.lang ? `language-${block.lang}` : undefined}>
+              {block.tokens.map((token, tokenIndex) =>
+                token.type === 'plain' ? (
+                  token.value
+                ) : (
+                  <span key={tokenIndex} className={`token ${token.type}`}>
+                    {token.value}
+                  </span>
+                )
+              )}
+            </code>
+          </pre>
+        );
+      case 'thematicBreak':
+        return <hr key={index} />;
+      case 'component': {
+        const children = block.children.length ? renderBlocks(block.children, components) : undefined;
+        return renderShortcode(block.name, block.props, children, components, index);
+      }
+    }
+  });
+}
+
+// compileMdx has already checked the props against each shortcode (validateProps)
+function renderShortcode(
+  name: MdxComponentName,
+  props: Record<string, MdxPropValue>,
+  children: ReactNode,
+  components: MdxComponentMap,
+  key: number
+): ReactNode {
+  switch (name) {
+    case 'Hologram': {
+      const Shortcode = components.Hologram;
+      return <Shortcode key={key} {...(props as HologramShortcodeProps)} />;
+    }
+    case 'Callout': {
+      const Shortcode = components.Callout;
+      return <Shortcode key={key} {...(props as CalloutProps)}>{children}</Shortcode>;
+    }
+  }
+}
+
+function renderInline(nodes: MdxInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'inlineCode':
+        return <code key={index}>{node.value}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'delete':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link': {
+        const external = /^https?:\/\//.test(node.href);
+        return (
+          <a key={index} href={node.href} {...(external && { target: '_blank', rel: 'noopener noreferrer' })}>
+            {renderInline(node.children)}
+          </a>
+        );
+      }
+      case 'image':
+        // Article images have no known size, so they keep their natural one
+        return (
+          <Image
+            key={index}
+            src={node.src}
+            alt={node.alt}
+            width={0}
+            height={0}
+            sizes="100vw"
+            style={{ width: 'auto', height: 'auto', maxWidth: '100%' }}
+          />
+        );
+    }
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * VIB3CODE-0 Table of Contents
+ *
+ * Links to the heading anchors compileMdx collected, indented by level.
+ */
+
+import type { TocEntry } from '@/lib/content/mdx';
+
+export default function TableOfContents({ entries, title = 'Contents' }: { entries: TocEntry[]; title?: string }) {
+  if (entries.length === 0) return null;
+  const top = Math.min(...entries.map((entry) => entry.depth));
+
+  return (
+    <nav aria-label={title} className="text-sm">
+      <p className="mb-3 font-semibold uppercase tracking-widest text-white/50">{title}</p>
+      <ol className="space-y-2">
+        {entries.map((entry) => (
+          <li key={entry.id} style={{ paddingLeft: `${entry.depth - top}rem` }}>
+            <a href={`#${entry.id}`} className="text-white/70 transition-colors hover:text-cyan-300">
+              {entry.text}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * VIB3CODE-0 Post Archive
+ *
+ * Shared layout of the category, tag, author and series pages: a heading
+ * with an optional description and feed link, then the posts in the order
+ * given, with a link to the next page.
+ */
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { BlogPost, contentCategories, siteRoutes } from '@/lib/blog-config';
+import { ContentError, GetPostsOptions, PostPage } from '@/lib/content-api';
+import { serverContentAPI } from '@/lib/content/server';
+
+export const ARCHIVE_PAGE_SIZE = 20;
+
+/** One page of published posts; a stale or forged cursor is a 404 rather than a 500 */
+export async function loadArchivePage(options: GetPostsOptions, cursor?: string | string[]): Promise<PostPage> {
+  try {
+    return await serverContentAPI.getPosts({
+      ...options,
+      status: 'published',
+      limit: ARCHIVE_PAGE_SIZE,
+      ...(typeof cursor === 'string' && { cursor })
+    });
+  } catch (error) {
+    if (error instanceof ContentError && error.code === 'invalid') notFound();
+    throw error;
+  }
+}
+
+interface PostArchiveProps {
+  eyebrow: string;
+  title: string;
+  description?: string;
+  accentColor?: string;
+  posts: BlogPost[];
+  /** Site-relative feed of the same posts */
+  feedHref?: string;
+  /** Link to the following page, when there is one */
+  nextHref?: string | null;
+  /** Label shown before each post's date, e.g. "Part 2" */
+  label?: (post: BlogPost) => string | undefined;
+}
+
+export default function PostArchive({
+  eyebrow,
+  title,
+  description,
+  accentColor = '#67e8f9',
+  posts,
+  feedHref,
+  nextHref,
+  label
+}: PostArchiveProps) {
+  return (
+    <main className="relative min-h-screen bg-[#05070d] px-6 py-24 text-white">
+      <div className="mx-auto max-w-3xl">
+        <header className="mb-12">
+          <p className="mb-4 text-xs uppercase tracking-[0.3em]" style={{ color: accentColor }}>
+            {eyebrow}
+          </p>
+          <h1 className="mb-6 text-4xl font-bold md:text-5xl">{title}</h1>
+          {description && <p className="text-white/70">{description}</p>}
+          {feedHref && (
+            <a href={feedHref} className="mt-4 inline-block text-sm text-white/50 transition-colors hover:text-cyan-300">
+              RSS feed
+            </a>
+          )}
+        </header>
+
+        {posts.length === 0 ? (
+          <p className="text-white/60">No posts here yet.</p>
+        ) : (
+          <ol className="space-y-10">
+            {posts.map((post) => (
+              <li key={post.id}>
+                <article>
+                  <p className="mb-2 text-xs uppercase tracking-widest text-white/50">
+                    {label?.(post) && <span>{label(post)} · </span>}
+                    {contentCategories[post.category].name} ·{' '}
+                    <time dateTime={post.publishedAt.toISOString()}>{post.publishedAt.toDateString()}</time>
+                  </p>
+                  <h2 className="mb-2 text-2xl font-semibold">
+                    <Link href={siteRoutes.post(post.slug)} className="transition-colors hover:text-cyan-300">
+                      {post.title}
+                    </Link>
+                  </h2>
+                  <p className="text-white/70">{post.excerpt}</p>
+                  <p className="mt-2 text-sm text-white/50">
+                    {post.author.name} · {post.readingTime} min read
+                  </p>
+                </article>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {nextHref && (
+          <nav className="mt-12">
+            <Link href={nextHref} className="text-cyan-300 hover:underline">
+              Older posts →
+            </Link>
+          </nav>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * Startup
+ *
+ * Runs once when the server boots: refuse to start with a missing or
+ * placeholder AUTH_SECRET (or a weak bootstrap OWNER_PASSWORD), then start
+ * the background workers. Workers start here rather than when their module
+ * is imported, so builds, tests and scripts don't spin up timers.
+ */
+
+import { assertAuthConfig } from '@/lib/auth/secrets';
+
+export async function register() {
+  assertAuthConfig();
+
+  // The workers need Node (fs); the edge runtime calls register too, and
+  // this exact check is what keeps their imports out of its bundle
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    if (process.env.PUBLISH_SCHEDULER !== 'off') {
+      const { publishScheduler } = await import('@/lib/content/server');
+      publishScheduler.start();
+    }
+
+    if (process.env.RESEARCH_JOBS !== 'off') {
+      const { researchJobs } = await import('@/lib/research/server');
+      researchJobs.start();
+    }
+  }
+}
@@ -8,27 +8,28 @@
  */
 
 import { BlogPost, contentCategories } from './blog-config';
-import { contentAPI, contentUtils } from './content-api';
-
-// Configuration for different AI research sources
-export interface ResearchSource {
-  type: 'claude' | 'chatgpt' | 'gemini' | 'perplexity' | 'file' | 'api';
-  endpoint?: string;
-  apiKey?: string;
-  filePath?: string;
-}
-
-export interface ResearchSession {
-  id: string;
-  timestamp: Date;
-  topic: string;
-  rawContent: string;
-  messages?: Array<{
-    role: 'user' | 'assistant';
-    content: string;
-  }>;
-  metadata?: Record<string, any>;
-}
+import { ContentAPI, LintError, contentUtils } from './content-api';
+import { parseChatGPTExport } from './research/chatgpt';
+import { parseClaudeExport } from './research/claude';
+import { ExportFormatError, readExportEntries, readExportFiles } from './research/export-files';
+import { parseGeminiActivity } from './research/gemini';
+import { IngestLedger } from './research/ledger';
+import { parsePerplexityExport } from './research/perplexity';
+import { configuredSources } from './research/sources';
+import { renderReferences } from './research/transcript';
+import {
+  IngestOptions,
+  IngestionItem,
+  IngestionLogger,
+  IngestionReport,
+  ResearchSession,
+  ResearchSource
+} from './research/types';
+
+const logToConsole: IngestionLogger = (level, message) => {
+  if (level === 'info') console.log(message);
+  else console[level](message);
+};
 
 // Holographic parameter randomization ranges per category
 const PARAM_RANGES = {
@@ -68,15 +69,22 @@ const PARAM_RANGES = {
 
 export class AIResearchAutomation {
   private sources: ResearchSource[] = [];
+  private api: ContentAPI;
+  private ledger: IngestLedger;
+  // Highest series part created in this run; a part is only taken once its post exists
+  private seriesParts = new Map<string, number>();
 
-  constructor(sources: ResearchSource[]) {
+  constructor(sources: ResearchSource[], api: ContentAPI, ledger: IngestLedger) {
     this.sources = sources;
+    this.api = api;
+    this.ledger = ledger;
   }
 
   /**
-   * Ingest research from various sources
+   * Ingest research from various sources; a source that fails is logged
+   * and left out
    */
-  async ingestDailyResearch(): Promise<ResearchSession[]> {
+  async ingestDailyResearch(log: IngestionLogger = logToConsole): Promise<ResearchSession[]> {
     const sessions: ResearchSession[] = [];
 
     for (const source of this.sources) {
@@ -84,7 +92,7 @@ export class AIResearchAutomation {
         const research = await this.ingestFromSource(source);
         sessions.push(...research);
       } catch (error) {
-        console.error(`Failed to ingest from ${source.type}:`, error);
+        log('error', `Failed to ingest from ${source.type}: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
 
@@ -100,6 +108,10 @@ export class AIResearchAutomation {
         return this.ingestFromClaude(source);
       case 'chatgpt':
         return this.ingestFromChatGPT(source);
+      case 'gemini':
+        return this.ingestFromGemini(source);
+      case 'perplexity':
+        return this.ingestFromPerplexity(source);
       case 'file':
         return this.ingestFromFile(source);
       case 'api':
@@ -110,53 +122,73 @@ export class AIResearchAutomation {
   }
 
   /**
-   * Parse Claude conversation exports
+   * Parse a Claude data export: the zip archive, its unpacked folder or its
+   * conversations.json
    */
   private async ingestFromClaude(source: ResearchSource): Promise<ResearchSession[]> {
-    // This would parse Claude conversation JSON/markdown exports
-    // For now, return mock data
-    return [{
-      id: `claude-${Date.now()}`,
-      timestamp: new Date(),
-      topic: 'Advanced Polytope Visualizations in 4D Space',
-      rawContent: `
-# Research Session: 4D Polytope Visualizations
-
-## Key Insights
-- Discovered new projection methods for 120-cell polytopes
-- Implemented quaternion-based rotation system
-- Optimized WebGL shader performance by 40%
-
-## Technical Breakthroughs
-The use of Hopf fibration for visualizing 4D rotations provides intuitive understanding...
-
-## Code Examples
-\`\`\`javascript
-function project4DTo3D(point4D, rotationMatrix) {
-  // Stereographic projection with quaternion rotation
-  const rotated = quaternionRotate(point4D, rotationMatrix);
-  return stereographicProject(rotated);
-}
-\`\`\`
-
-## Future Directions
-- Implement real-time morphing between polytopes
-- Add haptic feedback for 4D interactions
-- Explore applications in quantum computing visualization
-      `,
-      messages: [
-        { role: 'user', content: 'How can we visualize 4D polytopes effectively?' },
-        { role: 'assistant', content: 'Using stereographic projection combined with quaternion rotations...' }
-      ]
-    }];
+    if (!source.filePath) return [];
+
+    const files = await readExportFiles(source.filePath, ['conversations.json', 'projects.json']);
+    if (!files['conversations.json']) {
+      throw new ExportFormatError(`No conversations.json in the Claude export at ${source.filePath}`);
+    }
+
+    return parseClaudeExport(files['conversations.json'], {
+      projectIndex: files['projects.json'],
+      since: source.since,
+      until: source.until,
+      projects: source.projects
+    });
   }
 
   /**
-   * Parse ChatGPT exports
+   * Parse a ChatGPT data export: the zip archive, its unpacked folder or its
+   * conversations.json
    */
   private async ingestFromChatGPT(source: ResearchSource): Promise<ResearchSession[]> {
-    // Parse ChatGPT conversation exports
-    return [];
+    if (!source.filePath) return [];
+
+    const files = await readExportFiles(source.filePath, ['conversations.json']);
+    if (!files['conversations.json']) {
+      throw new ExportFormatError(`No conversations.json in the ChatGPT export at ${source.filePath}`);
+    }
+
+    return parseChatGPTExport(files['conversations.json'], {
+      since: source.since,
+      until: source.until,
+      projects: source.projects
+    });
+  }
+
+  /**
+   * Parse a Google Takeout export of Gemini Apps activity: the zip archive,
+   * its unpacked folder or MyActivity.json
+   */
+  private async ingestFromGemini(source: ResearchSource): Promise<ResearchSession[]> {
+    if (!source.filePath) return [];
+
+    // Takeout still files activity from before the rename under "Bard"
+    const files = await readExportFiles(source.filePath, ['Gemini Apps/MyActivity.json', 'Bard/MyActivity.json']);
+    const activity = Object.keys(files);
+    if (activity.length === 0) {
+      throw new ExportFormatError(`No Gemini Apps/MyActivity.json in the Takeout export at ${source.filePath}`);
+    }
+
+    return activity
+      .map(name => parseGeminiActivity(files[name], { since: source.since, until: source.until, projects: source.projects }))
+      .reduce((all, sessions) => all.concat(sessions), [] as ResearchSession[])
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Parse Perplexity threads exported as Markdown: one file, a folder of
+   * them or a zip archive
+   */
+  private async ingestFromPerplexity(source: ResearchSource): Promise<ResearchSession[]> {
+    if (!source.filePath) return [];
+
+    const threads = await readExportEntries(source.filePath, entry => /\.md$/i.test(entry));
+    return parsePerplexityExport(threads, { since: source.since, until: source.until, projects: source.projects });
   }
 
   /**
@@ -176,19 +208,18 @@ function project4DTo3D(point4D, rotationMatrix) {
   private async ingestFromAPI(source: ResearchSource): Promise<ResearchSession[]> {
     if (!source.endpoint) return [];
 
-    try {
-      const response = await fetch(source.endpoint, {
-        headers: source.apiKey ? {
-          'Authorization': `Bearer ${source.apiKey}`
-        } : {}
-      });
-
-      const data = await response.json();
-      return this.parseAPIResponse(data);
-    } catch (error) {
-      console.error('API ingestion failed:', error);
-      return [];
+    // Failures propagate so the job queue can retry the source
+    const response = await fetch(source.endpoint, {
+      headers: source.apiKey ? {
+        'Authorization': `Bearer ${source.apiKey}`
+      } : {}
+    });
+    if (!response.ok) {
+      throw new Error(`Research API responded ${response.status} ${response.statusText}`);
     }
+
+    const data = await response.json();
+    return this.parseAPIResponse(data);
   }
 
   /**
@@ -218,9 +249,13 @@ function project4DTo3D(point4D, rotationMatrix) {
     // Format content with proper markdown
     const formattedContent = this.formatContent(session);
 
+    // Follow-up sessions continue an open series on the same topic
+    const series = await this.continueSeries(title);
+    const slug = contentUtils.generateSlug(title);
+
     return {
       title,
-      slug: contentUtils.generateSlug(title),
+      slug: series && !slug.endsWith(`-part-${series.part}`) ? `${slug}-part-${series.part}` : slug,
       excerpt,
       content: formattedContent,
       author: {
@@ -229,6 +264,7 @@ function project4DTo3D(point4D, rotationMatrix) {
       },
       publishedAt: session.timestamp,
       updatedAt: session.timestamp,
+      status: 'published',
       tags: this.extractTags(session.rawContent),
       category,
       readingTime: contentUtils.calculateReadingTime(formattedContent),
@@ -237,10 +273,22 @@ function project4DTo3D(point4D, rotationMatrix) {
         metaDescription: excerpt,
         ogImage: contentUtils.generateOGImage(title, category)
       },
-      holographicParams
+      holographicParams,
+      ...(series && { series })
     };
   }
 
+  /**
+   * Next part of the open series matching the topic, if there is one
+   */
+  private async continueSeries(topic: string): Promise<BlogPost['series']> {
+    const series = await this.api.findOpenSeries(topic);
+    if (!series) return undefined;
+
+    const next = await this.api.nextSeriesPart(series.id);
+    return { id: series.id, part: Math.max(next, (this.seriesParts.get(series.id) ?? 0) + 1) };
+  }
+
   /**
    * Categorize content using keywords and patterns
    */
@@ -389,6 +437,10 @@ function project4DTo3D(point4D, rotationMatrix) {
       formatted = `# ${session.topic}\n\n${formatted}`;
     }
 
+    if (session.citations && session.citations.length > 0) {
+      formatted += `\n\n${renderReferences(session.citations)}`;
+    }
+
     // Add timestamp
     formatted += `\n\n---\n\n*Research conducted on ${session.timestamp.toLocaleDateString('en-US', {
       weekday: 'long',
@@ -407,53 +459,154 @@ function project4DTo3D(point4D, rotationMatrix) {
   }
 
   /**
-   * Automated daily publishing workflow
+   * Automated daily publishing workflow. Sessions already in the ledger are
+   * skipped, so running it twice publishes nothing new; sessions that
+   * overlap earlier research are saved as drafts for an editor to compare.
    */
-  async runDailyAutomation(): Promise<void> {
-    console.log('🤖 Starting daily research automation...');
+  async runDailyAutomation(log: IngestionLogger = logToConsole): Promise<IngestionReport> {
+    log('info', '🤖 Starting daily research automation...');
 
     // 1. Ingest all research from sources
-    const sessions = await this.ingestDailyResearch();
-    console.log(`📚 Ingested ${sessions.length} research sessions`);
+    const sessions = await this.ingestDailyResearch(log);
+    log('info', `📚 Ingested ${sessions.length} research sessions`);
 
-    // 2. Convert to blog posts
-    const posts = await Promise.all(
-      sessions.map(session => this.convertToPost(session))
-    );
+    // 2. Convert new sessions to blog posts and publish them
+    const report = await this.publishSessions(sessions, log);
+    log('info', `🎉 Daily automation complete! Published ${report.summary.published} posts, scheduled ${report.summary.scheduled}, skipped ${report.summary.skipped}`);
+    return report;
+  }
 
-    // 3. Publish to blog
-    let published = 0;
-    for (const post of posts) {
-      try {
-        await contentAPI.createPost(post);
-        published++;
-        console.log(`✅ Published: ${post.title}`);
-      } catch (error) {
-        console.error(`❌ Failed to publish: ${post.title}`, error);
+  /**
+   * Ingest and publish a single source. Unlike runDailyAutomation, a source
+   * that cannot be read rejects, so the job queue can retry it.
+   */
+  async runSource(source: ResearchSource, log: IngestionLogger = logToConsole): Promise<IngestionReport> {
+    const sessions = await this.ingestFromSource(source);
+    log('info', `📚 Ingested ${sessions.length} research sessions from ${source.type}`);
+    return this.publishSessions(sessions, log);
+  }
+
+  private async publishSessions(sessions: ResearchSession[], log: IngestionLogger): Promise<IngestionReport> {
+    const items: IngestionItem[] = [];
+    for (const session of sessions) {
+      const item = await this.ingestSession(session);
+      items.push(item);
+
+      if (item.action === 'published') log('info', `✅ Published: ${item.title}`);
+      if (item.action === 'scheduled') log('info', `🗓️ Scheduled: ${item.title}`);
+      if (item.action === 'draft') log('warn', `📝 Held back as a draft: ${item.title} (${item.reason})`);
+      if (item.action === 'skipped') log('info', `⏭️ Skipped: ${item.title} (${item.reason})`);
+      if (item.action === 'failed') log('error', `❌ Failed to publish: ${item.title} (${item.error})`);
+    }
+
+    const count = (action: IngestionItem['action']) => items.filter(item => item.action === action).length;
+    return {
+      items,
+      summary: {
+        sessions: sessions.length,
+        published: count('published'),
+        scheduled: count('scheduled'),
+        drafts: count('draft'),
+        skipped: count('skipped'),
+        failed: count('failed'),
+        nearDuplicates: items.filter(item => item.reason === 'near_duplicate').length
       }
+    };
+  }
+
+  /**
+   * Publish one session unless the ledger already has it. The session is
+   * claimed in the ledger before its post is created and the claim is
+   * completed with the post id, so concurrent ingests of it make one post.
+   */
+  async ingestSession(session: ResearchSession, options: IngestOptions = {}): Promise<IngestionItem> {
+    const check = await this.ledger.claim(session);
+    const base = { sessionId: session.id, title: session.topic };
+
+    if (check.status === 'duplicate') {
+      return {
+        ...base,
+        action: 'skipped',
+        reason: check.reason,
+        duplicateOf: { sessionId: check.match.sessionId, postId: check.match.postId, similarity: 1 }
+      };
+    }
+
+    let post: Omit<BlogPost, 'id'> | undefined;
+    let created: BlogPost;
+    let reason: IngestionItem['reason'];
+    try {
+      post = await this.convertToPost(session);
+      // Conversations often share a title; number the slug rather than fail
+      const slug = post.slug;
+      for (let n = 2; await this.api.getPost(post.slug); n++) post.slug = `${slug}-${n}`;
+
+      if (check.status === 'near_duplicate') {
+        reason = 'near_duplicate';
+        created = await this.api.createPost({ ...post, status: 'draft' });
+      } else {
+        try {
+          created = await this.api.createPost({
+            ...post,
+            ...(options.status && { status: options.status }),
+            ...(options.scheduledFor && { scheduledFor: options.scheduledFor })
+          });
+        } catch (error) {
+          if (!(error instanceof LintError)) throw error;
+          // Lint errors hold the post back as a draft for an editor to fix
+          reason = 'lint';
+          created = await this.api.createPost({ ...post, status: 'draft' });
+        }
+      }
+    } catch (error) {
+      await this.ledger.release(session.id);
+      return {
+        ...base,
+        ...(post && { title: post.title }),
+        action: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    if (created.series) {
+      this.seriesParts.set(created.series.id, Math.max(created.series.part, this.seriesParts.get(created.series.id) ?? 0));
     }
 
-    console.log(`🎉 Daily automation complete! Published ${published} posts`);
+    await this.ledger.save({
+      sessionId: session.id,
+      fingerprint: check.fingerprint.hash,
+      signature: check.fingerprint.signature,
+      topic: session.topic,
+      ...(session.metadata?.source && { source: String(session.metadata.source) }),
+      postId: created.id,
+      ingestedAt: new Date()
+    });
+
+    return {
+      ...base,
+      title: created.title,
+      action: created.status === 'published' ? 'published' : created.status === 'scheduled' ? 'scheduled' : 'draft',
+      postId: created.id,
+      ...(reason && { reason }),
+      ...(check.status === 'near_duplicate' && {
+        duplicateOf: { sessionId: check.match.sessionId, postId: check.match.postId, similarity: check.similarity }
+      })
+    };
   }
 }
 
-// Example automation setup
-export function setupDailyAutomation() {
-  const automation = new AIResearchAutomation([
-    {
-      type: 'claude',
-      // Add your Claude export configuration
-    },
-    {
-      type: 'api',
-      endpoint: '/api/research/daily',
-      apiKey: process.env.RESEARCH_API_KEY
-    },
-    {
-      type: 'file',
-      filePath: '/content/research/daily.md'
-    }
-  ]);
+// Example automation setup: the sources come from the environment (see
+// lib/research/sources.ts) unless given
+export function setupDailyAutomation(
+  api: ContentAPI,
+  ledger: IngestLedger,
+  sources: ResearchSource[] = configuredSources()
+) {
+  const automation = new AIResearchAutomation(
+    sources.map(source => (source.type === 'api' ? { ...source, apiKey: process.env.RESEARCH_API_KEY } : source)),
+    api,
+    ledger
+  );
 
   // Run immediately
   automation.runDailyAutomation();
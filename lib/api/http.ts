@@ -0,0 +1,276 @@
+/**
+ * VIB3CODE-0 API Helpers
+ *
+ * Shared plumbing for the JSON route handlers under app/api:
+ * - Typed error bodies ({ error, code, details }) with matching HTTP statuses
+ * - ETag-based conditional GETs (If-None-Match -> 304) for JSON and other bodies
+ * - Query-string parsing for pagination and GetPostsOptions filters
+ * - The client IP reported by the proxy, for rate limits and fingerprints
+ */
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { contentCategories } from '../blog-config';
+import { ContentError, GetPostsOptions, LintError } from '../content-api';
+
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'internal';
+
+export interface ApiErrorBody {
+  /** Human-readable message */
+  error: string;
+  code: ApiErrorCode;
+  /** Per-parameter problems for bad_request */
+  details?: Record<string, string>;
+}
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  bad_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  rate_limited: 429,
+  internal: 500
+};
+
+// Thrown inside route handlers and turned into a typed response by errorResponse
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly details?: Record<string, string>;
+
+  constructor(code: ApiErrorCode, message: string, details?: Record<string, string>) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.details = details;
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+export function apiError(code: ApiErrorCode, message: string, details?: Record<string, string>) {
+  const body: ApiErrorBody = details ? { error: message, code, details } : { error: message, code };
+  const headers = code === 'rate_limited' && details?.retryAfter ? { 'Retry-After': details.retryAfter } : undefined;
+  return NextResponse.json(body, { status: STATUS_BY_CODE[code], headers });
+}
+
+/**
+ * Client IP as reported by the proxies in front of the app. Each proxy
+ * appends the address it saw to X-Forwarded-For, so only the rightmost
+ * `TRUSTED_PROXIES` entries (default 1) are trustworthy; anything left of
+ * them is client-supplied. With `TRUSTED_PROXIES=0` the headers are ignored.
+ */
+export function clientIp(headers: Headers, env: Record<string, string | undefined> = process.env): string | undefined {
+  const trusted = trustedProxies(env);
+  if (trusted === 0) return undefined;
+
+  const hops = (headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  if (hops.length > 0) return hops[Math.max(0, hops.length - trusted)];
+  return headers.get('x-real-ip') || undefined;
+}
+
+function trustedProxies(env: Record<string, string | undefined>): number {
+  const count = Number(env.TRUSTED_PROXIES);
+  return env.TRUSTED_PROXIES && Number.isInteger(count) && count >= 0 ? count : 1;
+}
+
+/**
+ * Map anything a handler throws to a typed error response.
+ * Unexpected errors are logged with `context` and reported as 500s.
+ */
+export function errorResponse(error: unknown, context: string) {
+  if (error instanceof ApiError) {
+    return apiError(error.code, error.message, error.details);
+  }
+
+  if (error instanceof LintError) {
+    // Lint errors by post field, e.g. { excerpt: 'Excerpt is empty; ...' }
+    const details: Record<string, string> = {};
+    for (const issue of error.report.issues) {
+      if (issue.severity !== 'error') continue;
+      details[issue.field] = details[issue.field] ? `${details[issue.field]}; ${issue.message}` : issue.message;
+    }
+    return apiError('bad_request', error.message, details);
+  }
+
+  if (error instanceof ContentError) {
+    switch (error.code) {
+      case 'not_found':
+        return apiError('not_found', error.message);
+      case 'slug_conflict':
+        return apiError('conflict', error.message);
+      case 'invalid':
+        return apiError('bad_request', error.message);
+    }
+  }
+
+  console.error(`${context}:`, error);
+  return apiError('internal', context);
+}
+
+/**
+ * Response with a strong ETag over the body. Answers 304 without a body
+ * when the request's If-None-Match already has it.
+ */
+export function conditionalResponse(
+  request: NextRequest,
+  body: string,
+  contentType: string,
+  init: { maxAge?: number } = {}
+) {
+  const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+  const headers = {
+    ETag: etag,
+    'Cache-Control': `public, max-age=${init.maxAge ?? 0}, must-revalidate`
+  };
+
+  if (matchesETag(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': contentType }
+  });
+}
+
+export function conditionalJson(request: NextRequest, body: unknown, init: { maxAge?: number } = {}) {
+  return conditionalResponse(request, JSON.stringify(body), 'application/json; charset=utf-8', init);
+}
+
+function matchesETag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+
+  // Weak comparison: W/"x" matches "x"
+  return header.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag);
+}
+
+export interface PageParams {
+  limit: number;
+  offset: number;
+}
+
+export interface Pagination extends PageParams {
+  total: number;
+  /** Offset of the next page, or null on the last page */
+  nextOffset: number | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+/**
+ * Read `limit`/`offset`, or `page`/`pageSize` (1-based), from the query.
+ */
+export function parsePagination(
+  params: URLSearchParams,
+  { defaultLimit = 20, maxLimit = 100 }: { defaultLimit?: number; maxLimit?: number } = {}
+): PageParams {
+  const details: Record<string, string> = {};
+  const read = (name: string, min: number) => {
+    const raw = params.get(name);
+    if (raw === null) return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min) {
+      details[name] = `must be an integer >= ${min}`;
+      return undefined;
+    }
+    return value;
+  };
+
+  const pageSize = read('pageSize', 1);
+  const page = read('page', 1);
+  const limit = read('limit', 1) ?? pageSize ?? defaultLimit;
+  const offset = read('offset', 0) ?? (page !== undefined ? (page - 1) * (pageSize ?? limit) : 0);
+
+  if (limit > maxLimit) {
+    details.limit = `must be at most ${maxLimit}`;
+  }
+  if (Object.keys(details).length > 0) {
+    throw new ApiError('bad_request', 'Invalid pagination parameters', details);
+  }
+
+  return { limit, offset };
+}
+
+export function paginate<T>(items: T[], { limit, offset }: PageParams): Page<T> {
+  const end = offset + limit;
+  return {
+    items: items.slice(offset, end),
+    pagination: {
+      total: items.length,
+      limit,
+      offset,
+      nextOffset: end < items.length ? end : null
+    }
+  };
+}
+
+const SORT_FIELDS: NonNullable<GetPostsOptions['sortBy']>[] = ['publishedAt', 'updatedAt', 'readingTime'];
+
+/**
+ * Filters and sort order for public post listings. Pagination is parsed
+ * separately; the status filter is always 'published'.
+ */
+export function parsePostFilters(params: URLSearchParams): GetPostsOptions {
+  const details: Record<string, string> = {};
+  const options: GetPostsOptions = { status: 'published', sortBy: 'publishedAt', sortOrder: 'desc' };
+
+  const category = params.get('category');
+  if (category !== null) {
+    if (category in contentCategories) {
+      options.category = category as keyof typeof contentCategories;
+    } else {
+      details.category = `must be one of ${Object.keys(contentCategories).join(', ')}`;
+    }
+  }
+
+  // ?tags=a,b and ?tag=a&tag=b are equivalent
+  const tags = [...params.getAll('tag'), ...params.getAll('tags').flatMap(value => value.split(','))]
+    .map(tag => tag.trim())
+    .filter(Boolean);
+  if (tags.length > 0) {
+    options.tags = tags;
+  }
+
+  const author = params.get('author');
+  if (author) {
+    options.author = author;
+  }
+
+  const sortBy = params.get('sortBy');
+  if (sortBy !== null) {
+    if ((SORT_FIELDS as string[]).includes(sortBy)) {
+      options.sortBy = sortBy as GetPostsOptions['sortBy'];
+    } else {
+      details.sortBy = `must be one of ${SORT_FIELDS.join(', ')}`;
+    }
+  }
+
+  const sortOrder = params.get('sortOrder');
+  if (sortOrder !== null) {
+    if (sortOrder === 'asc' || sortOrder === 'desc') {
+      options.sortOrder = sortOrder;
+    } else {
+      details.sortOrder = 'must be asc or desc';
+    }
+  }
+
+  if (Object.keys(details).length > 0) {
+    throw new ApiError('bad_request', 'Invalid filter parameters', details);
+  }
+
+  return options;
+}
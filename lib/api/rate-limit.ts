@@ -0,0 +1,70 @@
+/**
+ * VIB3CODE-0 Rate Limiting
+ *
+ * Sliding-window attempt counters for public routes (sign-in, newsletter
+ * signup), keyed by client IP, account or anything else. Counters live in
+ * memory, which covers the single server process the site runs as.
+ */
+
+import { ApiError } from './http';
+
+export interface RateLimit {
+  /** Attempts allowed per window */
+  count: number;
+  windowMs: number;
+}
+
+// Sweep keys without recent attempts once this many are tracked
+const SWEEP_THRESHOLD = 10000;
+
+export class RateLimiter {
+  private readonly limit: RateLimit;
+  private attempts = new Map<string, number[]>();
+
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+  }
+
+  /** Seconds until `key` may try again; 0 while it is under the limit */
+  retryAfter(key: string, now: number = Date.now()): number {
+    const recent = this.recent(key, now);
+    if (recent.length < this.limit.count) return 0;
+    return Math.max(1, Math.ceil((recent[recent.length - this.limit.count] + this.limit.windowMs - now) / 1000));
+  }
+
+  /** Throws ApiError rate_limited (with details.retryAfter in seconds) once `key` is at the limit */
+  check(key: string, message: string, now: number = Date.now()): void {
+    const retryAfter = this.retryAfter(key, now);
+    if (retryAfter > 0) {
+      throw new ApiError('rate_limited', message, { retryAfter: String(retryAfter) });
+    }
+  }
+
+  /** Count an attempt against `key` */
+  hit(key: string, now: number = Date.now()): void {
+    if (this.attempts.size >= SWEEP_THRESHOLD) this.sweep(now);
+    this.attempts.set(key, this.recent(key, now).concat(now));
+  }
+
+  /** Take back one attempt counted at `at`, e.g. once it proves not to be a failure */
+  refund(key: string, at: number): void {
+    const attempts = this.attempts.get(key);
+    const index = attempts ? attempts.lastIndexOf(at) : -1;
+    if (attempts && index !== -1) attempts.splice(index, 1);
+  }
+
+  reset(key: string): void {
+    this.attempts.delete(key);
+  }
+
+  private recent(key: string, now: number): number[] {
+    const windowStart = now - this.limit.windowMs;
+    return (this.attempts.get(key) ?? []).filter(at => at > windowStart);
+  }
+
+  private sweep(now: number) {
+    Array.from(this.attempts.keys()).forEach(key => {
+      if (this.recent(key, now).length === 0) this.attempts.delete(key);
+    });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the author API routes
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+
+const request = (url: string, method = 'GET', body?: unknown, token?: string) =>
+  new NextRequest(new URL(url, 'http://localhost'), {
+    method,
+    headers: { 'content-type': 'application/json', ...(token && { authorization: `Bearer ${token}` }) },
+    ...(body !== undefined && { body: JSON.stringify(body) })
+  });
+
+describe('author API routes', () => {
+  let editor: string;
+  let writer: string;
+
+  beforeAll(async () => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-authors-'));
+    process.env.CONTENT_DIR = path.join(process.env.DATA_DIR, 'missing');
+    process.env.AUTH_SECRET = 'test-secret-0123456789abcdef0123456789';
+
+    const { auth } = await import('../../auth/server');
+    const tokenFor = async (role: 'editor' | 'writer') => {
+      const user = await auth.createUser({ email: `${role}@example.com`, name: role, role });
+      return (await auth.issueApiToken(user.id)).token;
+    };
+    editor = await tokenFor('editor');
+    writer = await tokenFor('writer');
+  });
+
+  afterAll(() => {
+    fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+    delete process.env.AUTH_SECRET;
+  });
+
+  it('registers profiles for editors only', async () => {
+    const { GET, POST } = await import('../../../app/api/authors/route');
+
+    expect((await POST(request('/api/authors', 'POST', { name: 'Grace Hopper' }))).status).toBe(401);
+    expect((await POST(request('/api/authors', 'POST', { name: 'Grace Hopper' }, writer))).status).toBe(403);
+
+    const invalid = await POST(request('/api/authors', 'POST', { name: 'Grace Hopper', bio: 42 }, editor));
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).details).toEqual({ bio: 'must be a string' });
+
+    const created = await POST(request('/api/authors', 'POST', { name: 'Grace Hopper', bio: 'Compilers' }, editor));
+    expect(created.status).toBe(200);
+    expect((await created.json()).author).toEqual({ id: 'grace-hopper', name: 'Grace Hopper', bio: 'Compilers' });
+
+    const { items } = await (await GET(request('/api/authors'))).json();
+    expect(items).toContainEqual(expect.objectContaining({ id: 'grace-hopper', postCount: 0 }));
+  });
+
+  it('renames an author on every byline', async () => {
+    const { GET, PUT } = await import('../../../app/api/authors/[id]/route');
+    const { items: authors } = await (await (await import('../../../app/api/authors/route')).GET(request('/api/authors'))).json();
+    const author = authors.find((candidate: { postCount: number }) => candidate.postCount > 0);
+    const { items: before } = await (await GET(request(`/api/authors/${author.id}`), { params: { id: author.id } })).json();
+    expect(before.length).toBeGreaterThan(0);
+
+    const anonymous = await PUT(request(`/api/authors/${author.id}`, 'PUT', { name: 'Renamed' }), { params: { id: author.id } });
+    expect(anonymous.status).toBe(401);
+
+    const renamed = await PUT(request(`/api/authors/${author.id}`, 'PUT', { name: 'Renamed' }, editor), { params: { id: author.id } });
+    const body = await renamed.json();
+    expect(renamed.status).toBe(200);
+    expect(body.author).toEqual(expect.objectContaining({ id: author.id, name: 'Renamed' }));
+
+    const { items: after } = await (await GET(request(`/api/authors/${author.id}`), { params: { id: author.id } })).json();
+    expect(after.map((post: { author: { name: string } }) => post.author.name)).toEqual(before.map(() => 'Renamed'));
+
+    const missing = await PUT(request('/api/authors/nobody', 'PUT', { name: 'Renamed' }, editor), { params: { id: 'nobody' } });
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the shared API route helpers
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { ContentError, LintError } from '../../content-api';
+import {
+  ApiError,
+  clientIp,
+  conditionalJson,
+  errorResponse,
+  paginate,
+  parsePagination,
+  parsePostFilters
+} from '../http';
+
+const request = (url: string, headers: Record<string, string> = {}) =>
+  new NextRequest(new URL(url, 'http://localhost'), { headers });
+
+describe('parsePagination', () => {
+  it('reads limit/offset and page/pageSize', () => {
+    expect(parsePagination(new URLSearchParams(''))).toEqual({ limit: 20, offset: 0 });
+    expect(parsePagination(new URLSearchParams('limit=5&offset=10'))).toEqual({ limit: 5, offset: 10 });
+    expect(parsePagination(new URLSearchParams('page=3&pageSize=4'))).toEqual({ limit: 4, offset: 8 });
+  });
+
+  it('rejects malformed and oversized values with per-parameter details', () => {
+    expect(() => parsePagination(new URLSearchParams('limit=0&offset=-1'))).toThrow(ApiError);
+
+    let thrown: ApiError | undefined;
+    try {
+      parsePagination(new URLSearchParams('limit=500'), { maxLimit: 100 });
+    } catch (error) {
+      thrown = error as ApiError;
+    }
+    expect(thrown?.details).toEqual({ limit: 'must be at most 100' });
+  });
+
+  it('reports the next page offset', () => {
+    const items = Array.from({ length: 5 }, (_, i) => i);
+    expect(paginate(items, { limit: 2, offset: 2 })).toEqual({
+      items: [2, 3],
+      pagination: { total: 5, limit: 2, offset: 2, nextOffset: 4 }
+    });
+    expect(paginate(items, { limit: 2, offset: 4 }).pagination.nextOffset).toBeNull();
+  });
+});
+
+describe('parsePostFilters', () => {
+  it('maps query parameters onto GetPostsOptions', () => {
+    const options = parsePostFilters(new URLSearchParams('category=ai-news&tags=LLMs,Agents&tag=AI&sortBy=readingTime&sortOrder=asc'));
+
+    expect(options).toEqual({
+      status: 'published',
+      category: 'ai-news',
+      tags: ['AI', 'LLMs', 'Agents'],
+      sortBy: 'readingTime',
+      sortOrder: 'asc'
+    });
+  });
+
+  it('rejects unknown categories and sort fields', () => {
+    expect(() => parsePostFilters(new URLSearchParams('category=nope'))).toThrow('Invalid filter parameters');
+    expect(() => parsePostFilters(new URLSearchParams('sortBy=title'))).toThrow(ApiError);
+  });
+});
+
+describe('errorResponse', () => {
+  it('returns typed bodies with matching statuses', async () => {
+    const conflict = errorResponse(new ContentError('Slug "x" is already in use', 'slug_conflict'), 'Failed');
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toEqual({ error: 'Slug "x" is already in use', code: 'conflict' });
+
+    const invalid = errorResponse(new ApiError('bad_request', 'Bad', { q: 'required' }), 'Failed');
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: 'Bad', code: 'bad_request', details: { q: 'required' } });
+  });
+
+  it('lists lint errors by post field', async () => {
+    const errors = [
+      { rule: 'excerpt' as const, severity: 'error' as const, field: 'excerpt', message: 'Excerpt is empty' },
+      { rule: 'image-alt' as const, severity: 'error' as const, field: 'content', message: 'Image /a.png has no alt text' },
+      { rule: 'image-alt' as const, severity: 'error' as const, field: 'content', message: 'Image /b.png has no alt text' }
+    ];
+    const report = {
+      slug: 'x',
+      title: 'X',
+      errors: 3,
+      warnings: 1,
+      issues: [...errors, { rule: 'og-image' as const, severity: 'warning' as const, field: 'seo.ogImage', message: 'No image' }]
+    };
+
+    const response = errorResponse(new LintError(report, errors), 'Failed');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Post has 3 lint errors: Excerpt is empty',
+      code: 'bad_request',
+      details: { excerpt: 'Excerpt is empty', content: 'Image /a.png has no alt text; Image /b.png has no alt text' }
+    });
+  });
+
+  it('hides unexpected errors behind a 500', async () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const response = errorResponse(new Error('disk on fire'), 'Failed to list posts');
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to list posts', code: 'internal' });
+    spy.mockRestore();
+  });
+});
+
+describe('clientIp', () => {
+  const forwarded = (value: string) => new Headers({ 'X-Forwarded-For': value, 'X-Real-IP': '10.0.0.9' });
+
+  it('takes the hop appended by the trusted proxy, not a spoofed leftmost entry', () => {
+    expect(clientIp(forwarded('1.2.3.4, 203.0.113.7'), {})).toBe('203.0.113.7');
+    expect(clientIp(forwarded('203.0.113.7'), {})).toBe('203.0.113.7');
+    expect(clientIp(new Headers({ 'X-Real-IP': '10.0.0.9' }), {})).toBe('10.0.0.9');
+    expect(clientIp(new Headers(), {})).toBeUndefined();
+  });
+
+  it('skips as many hops as TRUSTED_PROXIES names', () => {
+    const headers = forwarded('1.2.3.4, 203.0.113.7, 10.0.0.2');
+
+    expect(clientIp(headers, { TRUSTED_PROXIES: '2' })).toBe('203.0.113.7');
+    expect(clientIp(headers, { TRUSTED_PROXIES: '5' })).toBe('1.2.3.4');
+    expect(clientIp(headers, { TRUSTED_PROXIES: 'many' })).toBe('10.0.0.2');
+    expect(clientIp(headers, { TRUSTED_PROXIES: '0' })).toBeUndefined();
+  });
+});
+
+describe('conditionalJson', () => {
+  it('answers 304 when If-None-Match carries the current ETag', async () => {
+    const first = conditionalJson(request('/api/posts'), { items: [1, 2] });
+    const etag = first.headers.get('etag')!;
+    expect(first.status).toBe(200);
+    expect(await first.json()).toEqual({ items: [1, 2] });
+
+    expect(conditionalJson(request('/api/posts', { 'If-None-Match': etag }), { items: [1, 2] }).status).toBe(304);
+    expect(conditionalJson(request('/api/posts', { 'If-None-Match': `W/${etag}` }), { items: [1, 2] }).status).toBe(304);
+    expect(conditionalJson(request('/api/posts', { 'If-None-Match': etag }), { items: [1, 2, 3] }).status).toBe(200);
+  });
+});
+
+describe('GET /api/posts', () => {
+  beforeAll(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-api-'));
+    process.env.CONTENT_DIR = path.join(process.env.DATA_DIR, 'missing');
+  });
+
+  it('pages published posts and validates filters', async () => {
+    const { GET } = await import('../../../app/api/posts/route');
+
+    const response = await GET(request('/api/posts?limit=2&sortBy=publishedAt'));
+    const body = await response.json();
+    expect(response.status).toBe(200);
+    expect(body.items).toHaveLength(2);
+    expect(body.pagination).toEqual(expect.objectContaining({ limit: 2, offset: 0, nextOffset: 2 }));
+
+    const invalid = await GET(request('/api/posts?category=unknown'));
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).code).toBe('bad_request');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the newsletter unsubscribe route
+ */
+
+import { createHmac } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+
+const SECRET = 'test-secret-0123456789abcdef0123456789';
+
+const request = (url: string, method = 'GET', form?: Record<string, string>) =>
+  new NextRequest(new URL(url, 'http://localhost'), {
+    method,
+    ...(form && { body: new URLSearchParams(form) })
+  });
+
+describe('newsletter unsubscribe route', () => {
+  beforeAll(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-newsletter-'));
+    process.env.AUTH_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+    delete process.env.AUTH_SECRET;
+  });
+
+  const subscribe = async (email: string) => {
+    const { newsletterService } = await import('../../newsletter/server');
+    const { id } = await newsletterService.subscribe(email);
+    const token = createHmac('sha256', SECRET).update(`newsletter:unsubscribe:${id}`).digest('base64url');
+    return { id, url: `/api/newsletter/unsubscribe?${new URLSearchParams({ id, token })}` };
+  };
+
+  const status = async (id: string) => {
+    const { newsletterService } = await import('../../newsletter/server');
+    return (await newsletterService.listSubscribers()).find(subscriber => subscriber.id === id)?.status;
+  };
+
+  it('only shows a confirmation form on GET', async () => {
+    const { GET } = await import('../../../app/api/newsletter/unsubscribe/route');
+    const { id, url } = await subscribe('reader@example.com');
+
+    const response = await GET(request(url));
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(await response.text()).toContain('<form method="post" action="?id=');
+    expect(await status(id)).toBe('pending');
+  });
+
+  it('unsubscribes from the form and redirects home', async () => {
+    const { POST } = await import('../../../app/api/newsletter/unsubscribe/route');
+    const { id, url } = await subscribe('form@example.com');
+
+    const response = await POST(request(url, 'POST', { confirmed: '1' }));
+    expect(response.status).toBe(303);
+    expect(response.headers.get('location')).toBe('http://localhost/?newsletter=unsubscribed');
+    expect(await status(id)).toBe('unsubscribed');
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const invalid = await POST(request(`/api/newsletter/unsubscribe?id=${id}&token=forged`, 'POST', { confirmed: '1' }));
+    expect(invalid.headers.get('location')).toBe('http://localhost/?newsletter=invalid');
+    error.mockRestore();
+  });
+
+  it('supports RFC 8058 one-click unsubscribe', async () => {
+    const { POST } = await import('../../../app/api/newsletter/unsubscribe/route');
+    const { id, url } = await subscribe('one-click@example.com');
+
+    const response = await POST(request(url, 'POST', { 'List-Unsubscribe': 'One-Click' }));
+    expect(await response.json()).toEqual({ success: true });
+    expect(await status(id)).toBe('unsubscribed');
+  });
+});
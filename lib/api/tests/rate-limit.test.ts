@@ -0,0 +1,44 @@
+/**
+ * Unit tests for the sliding-window rate limiter
+ */
+
+import { RateLimiter } from '../rate-limit';
+
+describe('RateLimiter', () => {
+  it('refuses a key at its limit until the oldest attempt leaves the window', () => {
+    const limiter = new RateLimiter({ count: 2, windowMs: 10000 });
+
+    limiter.hit('10.0.0.1', 0);
+    limiter.check('10.0.0.1', 'Slow down', 1000);
+    limiter.hit('10.0.0.1', 4000);
+
+    expect(limiter.retryAfter('10.0.0.1', 5000)).toBe(5);
+    expect(() => limiter.check('10.0.0.1', 'Slow down', 5000)).toThrow('Slow down');
+    expect(() => limiter.check('10.0.0.2', 'Slow down', 5000)).not.toThrow();
+    expect(limiter.retryAfter('10.0.0.1', 10001)).toBe(0);
+  });
+
+  it('reports the wait as rate_limited details and forgets reset keys', () => {
+    const limiter = new RateLimiter({ count: 1, windowMs: 60000 });
+    limiter.hit('ed@example.com', 0);
+
+    expect(() => limiter.check('ed@example.com', 'Slow down', 500))
+      .toThrow(expect.objectContaining({ code: 'rate_limited', status: 429, details: { retryAfter: '60' } }));
+
+    limiter.reset('ed@example.com');
+    expect(limiter.retryAfter('ed@example.com', 500)).toBe(0);
+  });
+
+  it('refunds a single counted attempt', () => {
+    const limiter = new RateLimiter({ count: 2, windowMs: 60000 });
+    limiter.hit('10.0.0.1', 0);
+    limiter.hit('10.0.0.1', 100);
+
+    limiter.refund('10.0.0.1', 100);
+    limiter.refund('10.0.0.2', 100);
+
+    expect(() => limiter.check('10.0.0.1', 'Slow down', 200)).not.toThrow();
+    limiter.hit('10.0.0.1', 200);
+    expect(() => limiter.check('10.0.0.1', 'Slow down', 300)).toThrow('Slow down');
+  });
+});
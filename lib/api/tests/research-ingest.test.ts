@@ -0,0 +1,64 @@
+/**
+ * Unit tests for the research ingest route
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+
+const request = (body: unknown, token: string) =>
+  new NextRequest(new URL('/api/research/ingest', 'http://localhost'), {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+    body: JSON.stringify(body)
+  });
+
+const raw = {
+  type: 'raw',
+  topic: 'Raymarching step sizes',
+  content: [
+    '# Raymarching step sizes',
+    'Scale each step by a relaxation factor below one, then fall back to the plain distance when a step overshoots.',
+    'Thin features need a minimum step and a hit threshold that grows with distance so the ray neither tunnels through nor stalls.'
+  ].join('\n\n'),
+  autoPublish: false
+};
+
+describe('POST /api/research/ingest', () => {
+  let editor: string;
+
+  beforeAll(async () => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-ingest-'));
+    process.env.CONTENT_DIR = path.join(process.env.DATA_DIR, 'missing');
+    process.env.AUTH_SECRET = 'test-secret-0123456789abcdef0123456789';
+
+    const { auth } = await import('../../auth/server');
+    const user = await auth.createUser({ email: 'editor@example.com', name: 'editor', role: 'editor' });
+    editor = (await auth.issueApiToken(user.id)).token;
+  });
+
+  afterAll(() => {
+    fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+    delete process.env.AUTH_SECRET;
+  });
+
+  it('records sessions in the ledger and refuses to ingest one twice', async () => {
+    const { POST } = await import('../../../app/api/research/ingest/route');
+    const { researchLedger } = await import('../../research/server');
+
+    const responses = await Promise.all([POST(request(raw, editor)), POST(request(raw, editor))]);
+    expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+
+    const created = await responses.find(response => response.status === 200)!.json();
+    expect(created).toMatchObject({ success: true, published: false, status: 'draft' });
+
+    const records = await researchLedger.list();
+    expect(records).toEqual([expect.objectContaining({ sessionId: expect.stringMatching(/^manual-[0-9a-f]{16}$/), postId: created.draft.id })]);
+    expect(records[0].pending).toBeUndefined();
+
+    const resent = await POST(request({ ...raw, id: 'notes-2' }, editor));
+    expect(resent.status).toBe(409);
+    expect((await resent.json()).details).toEqual({ reason: 'same_content', sessionId: records[0].sessionId, postId: created.draft.id });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the series API routes
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+
+const request = (url: string, method = 'GET', body?: unknown, token?: string) =>
+  new NextRequest(new URL(url, 'http://localhost'), {
+    method,
+    headers: { 'content-type': 'application/json', ...(token && { authorization: `Bearer ${token}` }) },
+    ...(body !== undefined && { body: JSON.stringify(body) })
+  });
+
+describe('series API routes', () => {
+  let editor: string;
+  let writer: string;
+
+  beforeAll(async () => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-series-api-'));
+    process.env.CONTENT_DIR = path.join(process.env.DATA_DIR, 'missing');
+    process.env.AUTH_SECRET = 'test-secret-0123456789abcdef0123456789';
+
+    const { auth } = await import('../../auth/server');
+    const tokenFor = async (role: 'editor' | 'writer') => {
+      const user = await auth.createUser({ email: `${role}@example.com`, name: role, role });
+      return (await auth.issueApiToken(user.id)).token;
+    };
+    editor = await tokenFor('editor');
+    writer = await tokenFor('writer');
+  });
+
+  afterAll(() => {
+    fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+    delete process.env.AUTH_SECRET;
+  });
+
+  it('creates, updates and deletes series for editors only', async () => {
+    const { POST } = await import('../../../app/api/series/route');
+    const { DELETE, GET, PATCH } = await import('../../../app/api/series/[id]/route');
+    const context = { params: { id: 'shader-notes' } };
+
+    expect((await POST(request('/api/series', 'POST', { title: 'Shader Notes' }))).status).toBe(401);
+    expect((await POST(request('/api/series', 'POST', { title: 'Shader Notes' }, writer))).status).toBe(403);
+    expect((await POST(request('/api/series', 'POST', { title: 'Shader Notes', status: 'paused' }, editor))).status).toBe(400);
+
+    const created = await POST(request('/api/series', 'POST', { title: 'Shader Notes', topic: 'Shaders' }, editor));
+    expect(created.status).toBe(201);
+    expect((await created.json()).series).toMatchObject({ id: 'shader-notes', title: 'Shader Notes', topic: 'Shaders', status: 'open' });
+    expect((await POST(request('/api/series', 'POST', { title: 'Shader Notes' }, editor))).status).toBe(409);
+
+    const patched = await PATCH(request('/api/series/shader-notes', 'PATCH', { status: 'complete', topic: '' }, editor), context);
+    expect(patched.status).toBe(200);
+    const { series } = await patched.json();
+    expect(series).toMatchObject({ id: 'shader-notes', title: 'Shader Notes', status: 'complete' });
+    expect(series.topic).toBeUndefined();
+
+    const reorder = await PATCH(request('/api/series/shader-notes', 'PATCH', { parts: ['missing'] }, editor), context);
+    expect(reorder.status).toBe(400);
+
+    expect((await DELETE(request('/api/series/shader-notes', 'DELETE', undefined, writer), context)).status).toBe(403);
+    const deleted = await DELETE(request('/api/series/shader-notes', 'DELETE', undefined, editor), context);
+    expect(deleted.status).toBe(200);
+    expect((await GET(request('/api/series/shader-notes'), context)).status).toBe(404);
+    expect((await PATCH(request('/api/series/shader-notes', 'PATCH', { title: 'Gone' }, editor), context)).status).toBe(404);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * VIB3CODE-0 File User Store
+ *
+ * Accounts, with their password hashes, in a single JSON file (server
+ * only). JsonMapFile writes it with mode 0600.
+ */
+
+import { JsonMapFile } from '../storage/json-file';
+import { Account, InMemoryUserStore } from './users';
+
+export class FileUserStore extends InMemoryUserStore {
+  private readonly file: JsonMapFile<Account>;
+
+  constructor(file: string) {
+    const accounts = new JsonMapFile<Account>(file, {
+      name: 'user file',
+      key: account => account.id,
+      dates: ['createdAt'],
+      indent: 2,
+      mode: 0o600
+    });
+    super(accounts.values());
+    this.file = accounts;
+  }
+
+  async save(account: Account): Promise<Account> {
+    this.accounts = await this.file.write(next => {
+      next.set(account.id, { ...account });
+    });
+    return { ...account };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * VIB3CODE-0 Login Throttle
+ *
+ * Limits failed sign-ins per client IP (password spraying from one host)
+ * and per account (guessing one user's password from many hosts). Each
+ * attempt is counted before the password is checked, so parallel requests
+ * can't all slip under the limit; it is refunded unless the credentials
+ * were wrong, and a successful sign-in clears the account's counter.
+ */
+
+import { ApiError } from '../api/http';
+import { RateLimit, RateLimiter } from '../api/rate-limit';
+import { normalizeEmail } from './users';
+
+export interface LoginLimits {
+  perIp: RateLimit;
+  perAccount: RateLimit;
+}
+
+export const DEFAULT_LOGIN_LIMITS: LoginLimits = {
+  perIp: { count: 20, windowMs: 15 * 60 * 1000 },
+  perAccount: { count: 5, windowMs: 15 * 60 * 1000 }
+};
+
+export class LoginThrottle {
+  private readonly byIp: RateLimiter;
+  private readonly byAccount: RateLimiter;
+
+  constructor(limits: LoginLimits = DEFAULT_LOGIN_LIMITS) {
+    this.byIp = new RateLimiter(limits.perIp);
+    this.byAccount = new RateLimiter(limits.perAccount);
+  }
+
+  /**
+   * Run `login` unless the IP or the account is over its limit (ApiError
+   * rate_limited). The attempt counts against both while `login` runs and
+   * is kept only if it rejects as unauthorized.
+   */
+  async attempt<T>(ip: string | undefined, email: string, login: () => Promise<T>, now: number = Date.now()): Promise<T> {
+    const ipKey = ip ?? 'unknown';
+    const account = normalizeEmail(email);
+    this.byIp.check(ipKey, 'Too many failed sign-ins from this address; try again later', now);
+    this.byAccount.check(account, 'Too many failed sign-ins for this account; try again later', now);
+
+    this.byIp.hit(ipKey, now);
+    this.byAccount.hit(account, now);
+    try {
+      const result = await login();
+      this.byIp.refund(ipKey, now);
+      this.byAccount.reset(account);
+      return result;
+    } catch (error) {
+      if (!(error instanceof ApiError && error.code === 'unauthorized')) {
+        this.byIp.refund(ipKey, now);
+        this.byAccount.refund(account, now);
+      }
+      throw error;
+    }
+  }
+}
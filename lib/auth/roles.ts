@@ -0,0 +1,118 @@
+/**
+ * VIB3CODE-0 Roles & Permissions
+ *
+ * What each User['role'] may do, and which permission every protected
+ * route needs. Pure data and lookups, so the edge middleware and the route
+ * handlers share one table.
+ *
+ * - /admin pages need admin:access (the login page stays public)
+ * - Mutating /api requests need the permission listed in ROUTE_PERMISSIONS;
+ *   unlisted mutating routes are owner-only until they are added here
+ * - Reads are public unless listed (e.g. /api/admin, /api/research/jobs)
+ *
+ * Rule paths match by segment prefix; "*" stands for any one segment.
+ */
+
+import { User } from '../blog-config';
+
+export type Role = User['role'];
+
+export type Permission =
+  | 'admin:access'
+  | 'posts:write'
+  | 'posts:publish'
+  | 'posts:delete'
+  | 'authors:manage'
+  | 'series:manage'
+  | 'tags:manage'
+  | 'content:transfer'
+  | 'comments:moderate'
+  | 'newsletter:send'
+  | 'research:ingest'
+  | 'research:schedule'
+  | 'tokens:issue'
+  | 'users:manage'
+  | 'settings:manage';
+
+const WRITER: Permission[] = ['admin:access', 'posts:write', 'tokens:issue'];
+const EDITOR: Permission[] = [
+  ...WRITER,
+  'posts:publish',
+  'posts:delete',
+  'authors:manage',
+  'series:manage',
+  'tags:manage',
+  'content:transfer',
+  'comments:moderate',
+  'newsletter:send',
+  'research:ingest',
+  'research:schedule'
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [...EDITOR, 'users:manage', 'settings:manage'],
+  editor: EDITOR,
+  writer: WRITER,
+  subscriber: []
+};
+
+export function can(role: Role, permission: Permission): boolean {
+  return (ROLE_PERMISSIONS[role] ?? []).indexOf(permission) !== -1;
+}
+
+export const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const ALL_METHODS = ['GET', 'HEAD', ...MUTATING_METHODS];
+
+export interface RouteRule {
+  /** Path prefix; matches the path itself and everything below it */
+  path: string;
+  methods: string[];
+  /** null marks the route public */
+  permission: Permission | null;
+}
+
+// First match wins, so specific paths go before their prefixes
+export const ROUTE_PERMISSIONS: RouteRule[] = [
+  { path: '/admin/login', methods: ALL_METHODS, permission: null },
+  { path: '/admin', methods: ALL_METHODS, permission: 'admin:access' },
+  { path: '/api/auth/login', methods: ['POST'], permission: null },
+  { path: '/api/auth/logout', methods: ['POST'], permission: null },
+  { path: '/api/auth/tokens', methods: ['POST'], permission: 'tokens:issue' },
+  { path: '/api/posts/*/comments', methods: ['POST'], permission: null },
+  { path: '/api/newsletter/subscribe', methods: ['POST'], permission: null },
+  { path: '/api/newsletter/unsubscribe', methods: ['POST'], permission: null },
+  { path: '/api/newsletter/digest', methods: ALL_METHODS, permission: 'newsletter:send' },
+  { path: '/api/authors', methods: MUTATING_METHODS, permission: 'authors:manage' },
+  { path: '/api/series', methods: MUTATING_METHODS, permission: 'series:manage' },
+  { path: '/api/tags', methods: MUTATING_METHODS, permission: 'tags:manage' },
+  { path: '/api/research/ingest', methods: MUTATING_METHODS, permission: 'research:ingest' },
+  { path: '/api/research/schedule', methods: MUTATING_METHODS, permission: 'research:schedule' },
+  { path: '/api/research/jobs', methods: ALL_METHODS, permission: 'research:schedule' },
+  { path: '/api/admin/content', methods: ALL_METHODS, permission: 'content:transfer' },
+  { path: '/api/admin/lint', methods: ALL_METHODS, permission: 'posts:write' },
+  { path: '/api/admin/moderation', methods: ALL_METHODS, permission: 'comments:moderate' },
+  { path: '/api/admin', methods: ALL_METHODS, permission: 'admin:access' }
+];
+
+// Mutating API routes nobody has classified yet
+const UNLISTED_MUTATION: Permission = 'settings:manage';
+
+/** Permission a request needs, or null when it is public */
+export function requiredPermission(method: string, pathname: string): Permission | null {
+  const verb = method.toUpperCase();
+  const rule = ROUTE_PERMISSIONS.find(candidate =>
+    matchesPath(candidate.path, pathname) && candidate.methods.indexOf(verb) !== -1
+  );
+  if (rule) return rule.permission;
+
+  if (pathname.startsWith('/api/') && MUTATING_METHODS.indexOf(verb) !== -1) {
+    return UNLISTED_MUTATION;
+  }
+  return null;
+}
+
+function matchesPath(rulePath: string, pathname: string): boolean {
+  const rule = rulePath.split('/');
+  const path = pathname.split('/');
+  return path.length >= rule.length && rule.every((segment, index) => segment === '*' ? path[index] !== '' : segment === path[index]);
+}
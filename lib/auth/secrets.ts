@@ -0,0 +1,60 @@
+/**
+ * VIB3CODE-0 Auth Secrets
+ *
+ * Reads the signing secret and refuses placeholder values. AUTH_SECRET must
+ * be at least 32 characters and not one of the defaults that used to ship
+ * with the ingest and schedule routes. Safe to call from the edge runtime.
+ */
+
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigError';
+  }
+}
+
+export const MIN_SECRET_LENGTH = 32;
+
+// Placeholders seen in old configs and examples
+const DEFAULT_SECRETS = [
+  'your-secret-key',
+  'schedule-secret',
+  'secret',
+  'changeme',
+  'change-me',
+  'password',
+  'development'
+];
+
+type Env = Record<string, string | undefined>;
+
+/** The named secret, or an AuthConfigError when it is missing, short or a placeholder */
+export function checkSecret(name: string, value: string | undefined, minLength: number = MIN_SECRET_LENGTH): string {
+  if (!value) {
+    throw new AuthConfigError(`${name} is not set`);
+  }
+  if (DEFAULT_SECRETS.indexOf(value.trim().toLowerCase()) !== -1) {
+    throw new AuthConfigError(`${name} is still set to a default value; generate a random one`);
+  }
+  if (value.length < minLength) {
+    throw new AuthConfigError(`${name} must be at least ${minLength} characters`);
+  }
+  return value;
+}
+
+/** Key for signing session and API tokens */
+export function authSecret(env: Env = process.env): string {
+  return checkSecret('AUTH_SECRET', env.AUTH_SECRET);
+}
+
+/**
+ * Startup check: the signing secret, plus the bootstrap owner password when
+ * one is configured. Run from instrumentation so the server will not boot
+ * with placeholder credentials.
+ */
+export function assertAuthConfig(env: Env = process.env): void {
+  authSecret(env);
+  if (env.OWNER_PASSWORD !== undefined) {
+    checkSecret('OWNER_PASSWORD', env.OWNER_PASSWORD, 12);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * VIB3CODE-0 Server Auth
+ *
+ * Server-side AuthService with accounts in DATA_DIR/users.json. AUTH_SECRET
+ * is read when a token is signed or checked: without a real secret login
+ * and authorize fail with a 500, while importing this module (in builds and
+ * routes that don't need auth) still works. An owner account is created
+ * from OWNER_EMAIL / OWNER_PASSWORD on first start; `loginThrottle` limits
+ * failed sign-ins per IP and per account.
+ */
+
+import path from 'path';
+import { DATA_DIRECTORY } from '../content/server';
+import { FileUserStore } from './file-user-store';
+import { LoginThrottle } from './login-throttle';
+import { authSecret } from './secrets';
+import { AuthService } from './service';
+
+export const auth = new AuthService(() => authSecret(), new FileUserStore(path.join(DATA_DIRECTORY, 'users.json')));
+
+export const loginThrottle = new LoginThrottle();
+
+export const ownerBootstrap = auth.bootstrapOwner().then(owner => {
+  if (owner) console.log(`[auth] Created owner account ${owner.email}`);
+  return owner;
+}, error => {
+  console.error('[auth] Could not create the owner account:', error);
+  return null;
+});
@@ -0,0 +1,208 @@
+/**
+ * VIB3CODE-0 Auth Service
+ *
+ * Accounts, password login and token checks for route handlers (server
+ * only). The middleware already rejects requests without a valid token for
+ * the route's permission; authorize() repeats that check against the
+ * stored account, so deleted users, role changes and revoked tokens take
+ * effect immediately.
+ */
+
+import { randomUUID } from 'crypto';
+import { User } from '../blog-config';
+import { ApiError } from '../api/http';
+import { MIN_PASSWORD_LENGTH, hashPassword, verifyPassword } from './passwords';
+import { Permission, Role, can } from './roles';
+import {
+  API_TOKEN_TTL_SECONDS,
+  SESSION_TTL_SECONDS,
+  SessionClaims,
+  isCrossOrigin,
+  readSessionToken,
+  signSession,
+  verifySession
+} from './session';
+import { Account, InMemoryUserStore, UserStore, normalizeEmail, publicUser } from './users';
+
+export interface NewUser {
+  email: string;
+  name: string;
+  role: Role;
+  password?: string;
+}
+
+export interface IssuedToken {
+  token: string;
+  expiresAt: Date;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class AuthService {
+  private users: UserStore;
+  private secret: string | (() => string);
+  // Compared against on unknown emails so lookups and bad passwords take equally long
+  private dummyHash: Promise<string> | null = null;
+
+  /** `secret` may be a function, read when a token is signed or checked */
+  constructor(secret: string | (() => string), users: UserStore = new InMemoryUserStore()) {
+    this.secret = secret;
+    this.users = users;
+  }
+
+  async createUser(input: NewUser): Promise<User> {
+    const email = normalizeEmail(input.email);
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new ApiError('bad_request', 'Invalid email address', { email: 'must be an email address' });
+    }
+    if (!input.name.trim()) {
+      throw new ApiError('bad_request', 'Users need a name', { name: 'is required' });
+    }
+    if (await this.users.findByEmail(email)) {
+      throw new ApiError('conflict', `A user with email ${email} already exists`);
+    }
+
+    const account = await this.users.save({
+      id: randomUUID(),
+      email,
+      name: input.name.trim(),
+      role: input.role,
+      preferences: { newsletter: false, notifications: true, theme: 'auto' },
+      passwordHash: input.password === undefined ? undefined : await this.hashChecked(input.password),
+      tokenVersion: 0,
+      createdAt: new Date()
+    });
+    return publicUser(account);
+  }
+
+  async setPassword(userId: string, password: string): Promise<void> {
+    const account = await this.requireAccount(userId);
+    // A new password signs out every existing session
+    await this.users.save({ ...account, passwordHash: await this.hashChecked(password), tokenVersion: account.tokenVersion + 1 });
+  }
+
+  async setRole(userId: string, role: Role): Promise<User> {
+    const account = await this.requireAccount(userId);
+    return publicUser(await this.users.save({ ...account, role, tokenVersion: account.tokenVersion + 1 }));
+  }
+
+  /** Invalidate every session and API token the user holds */
+  async revokeTokens(userId: string): Promise<void> {
+    const account = await this.requireAccount(userId);
+    await this.users.save({ ...account, tokenVersion: account.tokenVersion + 1 });
+  }
+
+  async login(email: string, password: string): Promise<IssuedToken & { user: User }> {
+    const account = await this.users.findByEmail(email);
+    if (!account?.passwordHash) {
+      await verifyPassword(password, await this.getDummyHash());
+      throw new ApiError('unauthorized', 'Invalid email or password');
+    }
+    if (!(await verifyPassword(password, account.passwordHash))) {
+      throw new ApiError('unauthorized', 'Invalid email or password');
+    }
+
+    return { user: publicUser(account), ...(await this.sign(account, 'session', SESSION_TTL_SECONDS)) };
+  }
+
+  /** Long-lived bearer token for scripts and schedulers, carrying the user's role */
+  async issueApiToken(userId: string, ttlSeconds: number = API_TOKEN_TTL_SECONDS): Promise<IssuedToken> {
+    return this.sign(await this.requireAccount(userId), 'api', ttlSeconds);
+  }
+
+  /** The signed-in user behind a request, or null */
+  async authenticate(request: Request): Promise<User | null> {
+    // Anonymous requests don't need the secret
+    const source = readSessionToken(request.headers);
+    if (!source) return null;
+
+    const claims = await verifySession(source.token, this.signingKey());
+    if (!claims) return null;
+
+    const account = await this.users.get(claims.sub);
+    if (!account || account.tokenVersion !== claims.ver) return null;
+    return publicUser(account);
+  }
+
+  /**
+   * The signed-in user if they hold the permission (any signed-in user when
+   * none is given). Throws ApiError unauthorized without a valid token and
+   * forbidden without the permission or for cookie-authenticated mutations
+   * from another origin.
+   */
+  async authorize(request: Request, permission?: Permission): Promise<User> {
+    const user = await this.authenticate(request);
+    if (!user) {
+      throw new ApiError('unauthorized', 'Sign in or send a bearer token');
+    }
+    if (permission && !can(user.role, permission)) {
+      throw new ApiError('forbidden', `The ${user.role} role cannot ${permission}`);
+    }
+    if (request.method !== 'GET' && readSessionToken(request.headers)?.from === 'cookie' && isCrossOrigin(request)) {
+      throw new ApiError('forbidden', 'Cross-origin requests need a bearer token');
+    }
+    return user;
+  }
+
+  /**
+   * Create the first owner from OWNER_EMAIL / OWNER_PASSWORD when the store
+   * has no accounts yet. Returns the new owner, or null when nothing was done.
+   */
+  async bootstrapOwner(env: Record<string, string | undefined> = process.env): Promise<User | null> {
+    if (!env.OWNER_EMAIL || !env.OWNER_PASSWORD) return null;
+    if ((await this.users.list()).length > 0) return null;
+
+    return this.createUser({
+      email: env.OWNER_EMAIL,
+      name: env.OWNER_NAME || 'Owner',
+      role: 'owner',
+      password: env.OWNER_PASSWORD
+    });
+  }
+
+  private async sign(account: Account, kind: SessionClaims['kind'], ttlSeconds: number): Promise<IssuedToken> {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const claims: SessionClaims = {
+      sub: account.id,
+      role: account.role,
+      ver: account.tokenVersion,
+      kind,
+      iat: issuedAt,
+      exp: issuedAt + ttlSeconds
+    };
+    return { token: await signSession(claims, this.signingKey()), expiresAt: new Date(claims.exp * 1000) };
+  }
+
+  // A missing or placeholder secret fails the request with a 500, not the import
+  private signingKey(): string {
+    if (typeof this.secret === 'string') return this.secret;
+    try {
+      return this.secret();
+    } catch (error) {
+      console.error('[auth] Cannot sign or verify tokens:', (error as Error).message);
+      throw new ApiError('internal', 'Authentication is not configured on this server');
+    }
+  }
+
+  private async requireAccount(userId: string): Promise<Account> {
+    const account = await this.users.get(userId);
+    if (!account) {
+      throw new ApiError('not_found', 'User not found');
+    }
+    return account;
+  }
+
+  private async hashChecked(password: string): Promise<string> {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new ApiError('bad_request', `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`, {
+        password: `must be at least ${MIN_PASSWORD_LENGTH} characters`
+      });
+    }
+    return hashPassword(password);
+  }
+
+  private getDummyHash(): Promise<string> {
+    this.dummyHash = this.dummyHash ?? hashPassword(randomUUID());
+    return this.dummyHash;
+  }
+}
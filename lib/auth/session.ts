@@ -0,0 +1,112 @@
+/**
+ * VIB3CODE-0 Session Tokens
+ *
+ * Signed, stateless tokens for browser sessions (HttpOnly cookie) and API
+ * clients (Authorization: Bearer). A token is base64url(JSON claims) + "." +
+ * base64url(HMAC-SHA256). Uses Web Crypto only, so the edge middleware can
+ * verify tokens without touching the user store; route handlers re-check
+ * the account and its token version (see AuthService).
+ */
+
+import { Role } from './roles';
+
+export interface SessionClaims {
+  /** User id */
+  sub: string;
+  role: Role;
+  /** Account token version; bumping it revokes every outstanding token */
+  ver: number;
+  kind: 'session' | 'api';
+  /** Issued at / expires at, seconds since the epoch */
+  iat: number;
+  exp: number;
+}
+
+export const SESSION_COOKIE = 'vib3_session';
+export const SESSION_TTL_SECONDS = 60 * 60 * 12;
+export const API_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 90;
+
+export async function signSession(claims: SessionClaims, secret: string): Promise<string> {
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/** Claims of a well-formed, correctly signed, unexpired token; otherwise null */
+export async function verifySession(token: string | null | undefined, secret: string, now: number = Date.now()): Promise<SessionClaims | null> {
+  if (!token) return null;
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(payload)
+    );
+    if (!valid) return null;
+
+    const claims: SessionClaims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp * 1000 <= now) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+export interface TokenSource {
+  token: string;
+  from: 'bearer' | 'cookie';
+}
+
+/** Bearer token if present, else the session cookie */
+export function readSessionToken(headers: Headers): TokenSource | null {
+  const authorization = headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (bearer) return { token: bearer[1], from: 'bearer' };
+
+  for (const part of (headers.get('cookie') ?? '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE && value.length) {
+      return { token: decodeURIComponent(value.join('=')), from: 'cookie' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Request whose Origin names another host. Cookie-authenticated mutations
+ * from such origins are refused so other sites cannot act for a signed-in
+ * admin; bearer tokens are never sent implicitly, so they are exempt.
+ */
+export function isCrossOrigin(request: Request): boolean {
+  const origin = request.headers.get('origin');
+  if (!origin) return false;
+
+  const host = request.headers.get('x-forwarded-host') ?? request.headers.get('host') ?? new URL(request.url).host;
+  try {
+    return new URL(origin).host !== host;
+  } catch {
+    return true;
+  }
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(text: string) {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
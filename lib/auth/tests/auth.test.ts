@@ -0,0 +1,225 @@
+/**
+ * Unit tests for roles, session tokens, secrets and the auth service
+ */
+
+import { ApiError } from '../../api/http';
+import { hashPassword, verifyPassword } from '../passwords';
+import { can, requiredPermission } from '../roles';
+import { AuthConfigError, assertAuthConfig, authSecret } from '../secrets';
+import { LoginThrottle } from '../login-throttle';
+import { AuthService } from '../service';
+import { SESSION_COOKIE, SessionClaims, readSessionToken, signSession, verifySession } from '../session';
+
+const SECRET = 'test-secret-0123456789abcdef0123456789';
+
+const claims = (overrides: Partial<SessionClaims> = {}): SessionClaims => ({
+  sub: 'user-1',
+  role: 'editor',
+  ver: 0,
+  kind: 'session',
+  iat: Math.floor(Date.now() / 1000),
+  exp: Math.floor(Date.now() / 1000) + 60,
+  ...overrides
+});
+
+const request = (method: string, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/api/research/ingest', { method, headers: { host: 'localhost', ...headers } });
+
+describe('roles', () => {
+  it('grants permissions by role', () => {
+    expect(can('owner', 'users:manage')).toBe(true);
+    expect(can('editor', 'research:ingest')).toBe(true);
+    expect(can('writer', 'posts:publish')).toBe(false);
+    expect(can('subscriber', 'admin:access')).toBe(false);
+  });
+
+  it('maps routes to permissions, failing closed for unlisted mutations', () => {
+    expect(requiredPermission('GET', '/admin')).toBe('admin:access');
+    expect(requiredPermission('GET', '/admin/login')).toBeNull();
+    expect(requiredPermission('POST', '/api/research/ingest')).toBe('research:ingest');
+    expect(requiredPermission('GET', '/api/research/ingest')).toBeNull();
+    expect(requiredPermission('POST', '/api/auth/login')).toBeNull();
+    expect(requiredPermission('DELETE', '/api/posts/hello')).toBe('settings:manage');
+    expect(requiredPermission('GET', '/api/posts')).toBeNull();
+    expect(requiredPermission('POST', '/api/posts/hello/comments')).toBeNull();
+    expect(requiredPermission('GET', '/api/admin/moderation')).toBe('comments:moderate');
+    expect(requiredPermission('GET', '/api/research/jobs/job-1')).toBe('research:schedule');
+  });
+});
+
+describe('session tokens', () => {
+  it('round-trips signed claims', async () => {
+    const token = await signSession(claims(), SECRET);
+    expect(await verifySession(token, SECRET)).toMatchObject({ sub: 'user-1', role: 'editor' });
+  });
+
+  it('rejects tampered, expired and foreign tokens', async () => {
+    const token = await signSession(claims(), SECRET);
+    const [, signature] = token.split('.');
+    const forged = `${btoa(JSON.stringify(claims({ role: 'owner' }))).replace(/=+$/, '')}.${signature}`;
+
+    expect(await verifySession(forged, SECRET)).toBeNull();
+    expect(await verifySession(await signSession(claims({ exp: 1 }), SECRET), SECRET)).toBeNull();
+    expect(await verifySession(token, `${SECRET}-other`)).toBeNull();
+    expect(await verifySession('garbage', SECRET)).toBeNull();
+  });
+
+  it('reads bearer tokens before the session cookie', () => {
+    const headers = new Headers({ authorization: 'Bearer abc', cookie: `theme=dark; ${SESSION_COOKIE}=def` });
+    expect(readSessionToken(headers)).toEqual({ token: 'abc', from: 'bearer' });
+    expect(readSessionToken(new Headers({ cookie: `${SESSION_COOKIE}=def` }))).toEqual({ token: 'def', from: 'cookie' });
+    expect(readSessionToken(new Headers())).toBeNull();
+  });
+});
+
+describe('secrets', () => {
+  it('refuses missing, placeholder and short secrets', () => {
+    expect(() => authSecret({})).toThrow(AuthConfigError);
+    expect(() => authSecret({ AUTH_SECRET: 'your-secret-key' })).toThrow('default value');
+    expect(() => authSecret({ AUTH_SECRET: 'short' })).toThrow('at least 32');
+    expect(authSecret({ AUTH_SECRET: SECRET })).toBe(SECRET);
+    expect(() => assertAuthConfig({ AUTH_SECRET: SECRET, OWNER_PASSWORD: 'changeme' })).toThrow(AuthConfigError);
+  });
+});
+
+describe('passwords', () => {
+  it('verifies only the original password', async () => {
+    const hash = await hashPassword('correct horse battery');
+    expect(hash).toMatch(/^scrypt\$/);
+    expect(await verifyPassword('correct horse battery', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse battery', hash)).toBe(false);
+  });
+});
+
+describe('AuthService', () => {
+  const setup = async () => {
+    const auth = new AuthService(SECRET);
+    const editor = await auth.createUser({ email: 'Ed@Example.com', name: 'Ed', role: 'editor', password: 'editor-password' });
+    return { auth, editor };
+  };
+
+  it('logs in with a password and authorizes by role', async () => {
+    const { auth, editor } = await setup();
+    const { token, user } = await auth.login('ed@example.com', 'editor-password');
+
+    expect(user).toEqual(editor);
+    expect(user).not.toHaveProperty('passwordHash');
+    await expect(auth.authorize(request('POST', { authorization: `Bearer ${token}` }), 'research:ingest')).resolves.toEqual(editor);
+    await expect(auth.authorize(request('POST', { authorization: `Bearer ${token}` }), 'users:manage'))
+      .rejects.toMatchObject({ code: 'forbidden' });
+    await expect(auth.login('ed@example.com', 'wrong-password')).rejects.toMatchObject({ code: 'unauthorized' });
+    await expect(auth.login('nobody@example.com', 'editor-password')).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('revokes tokens and reads the current role from the store', async () => {
+    const { auth, editor } = await setup();
+    const { token } = await auth.issueApiToken(editor.id);
+    const bearer = () => request('POST', { authorization: `Bearer ${token}` });
+
+    await auth.setRole(editor.id, 'writer');
+    await expect(auth.authorize(bearer(), 'research:ingest')).rejects.toMatchObject({ code: 'unauthorized' });
+
+    const fresh = await auth.issueApiToken(editor.id);
+    await auth.revokeTokens(editor.id);
+    expect(await auth.authenticate(request('GET', { authorization: `Bearer ${fresh.token}` }))).toBeNull();
+  });
+
+  it('refuses cross-origin mutations authenticated by cookie', async () => {
+    const { auth } = await setup();
+    const { token } = await auth.login('ed@example.com', 'editor-password');
+    const cookie = `${SESSION_COOKIE}=${token}`;
+
+    await expect(auth.authorize(request('POST', { cookie, origin: 'http://localhost' }), 'research:ingest')).resolves.toBeTruthy();
+    await expect(auth.authorize(request('POST', { cookie, origin: 'https://evil.example' }), 'research:ingest'))
+      .rejects.toMatchObject({ code: 'forbidden' });
+  });
+
+  it('checks the origin for signed-in actions that need no permission', async () => {
+    const auth = new AuthService(SECRET);
+    const reader = await auth.createUser({ email: 'sub@example.com', name: 'Sub', role: 'subscriber', password: 'reader-password' });
+    const { token } = await auth.login('sub@example.com', 'reader-password');
+    const cookie = `${SESSION_COOKIE}=${token}`;
+
+    await expect(auth.authorize(request('POST', { cookie, origin: 'http://localhost' }))).resolves.toEqual(reader);
+    await expect(auth.authorize(request('POST', { cookie, origin: 'https://evil.example' })))
+      .rejects.toMatchObject({ code: 'forbidden' });
+    await expect(auth.authorize(request('POST'))).rejects.toMatchObject({ code: 'unauthorized' });
+  });
+
+  it('fails sign-in with a 500 only once a missing secret is needed', async () => {
+    const auth = new AuthService(() => authSecret({}));
+    await auth.createUser({ email: 'ed@example.com', name: 'Ed', role: 'editor', password: 'editor-password' });
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(auth.login('ed@example.com', 'editor-password')).rejects.toMatchObject({ code: 'internal', status: 500 });
+    await expect(auth.authorize(request('POST', { authorization: 'Bearer token' }), 'research:ingest'))
+      .rejects.toMatchObject({ code: 'internal' });
+    expect(error).toHaveBeenCalledWith('[auth] Cannot sign or verify tokens:', 'AUTH_SECRET is not set');
+    error.mockRestore();
+  });
+
+  it('bootstraps the owner only into an empty store', async () => {
+    const auth = new AuthService(SECRET);
+    const env = { OWNER_EMAIL: 'owner@example.com', OWNER_PASSWORD: 'owner-password-1' };
+
+    expect(await auth.bootstrapOwner(env)).toMatchObject({ email: 'owner@example.com', role: 'owner' });
+    expect(await auth.bootstrapOwner(env)).toBeNull();
+    await expect(auth.createUser({ email: 'x@example.com', name: 'X', role: 'writer', password: 'short' }))
+      .rejects.toMatchObject({ code: 'bad_request' });
+  });
+});
+
+describe('LoginThrottle', () => {
+  const limits = { perIp: { count: 3, windowMs: 60000 }, perAccount: { count: 2, windowMs: 60000 } };
+  const wrong = () => Promise.reject(new ApiError('unauthorized', 'Invalid email or password'));
+  const right = () => Promise.resolve('signed in');
+
+  it('locks an account after repeated failures until the window passes', async () => {
+    const throttle = new LoginThrottle(limits);
+
+    await expect(throttle.attempt('10.0.0.1', 'ed@example.com', wrong, 0)).rejects.toMatchObject({ code: 'unauthorized' });
+    await expect(throttle.attempt('10.0.0.2', 'Ed@Example.com', wrong, 1000)).rejects.toMatchObject({ code: 'unauthorized' });
+    await expect(throttle.attempt('10.0.0.3', 'ed@example.com', right, 2000))
+      .rejects.toMatchObject({ code: 'rate_limited', status: 429, details: { retryAfter: '58' } });
+
+    await expect(throttle.attempt('10.0.0.3', 'ed@example.com', right, 60001)).resolves.toBe('signed in');
+  });
+
+  it('limits failures per IP across accounts and ignores other errors', async () => {
+    const throttle = new LoginThrottle(limits);
+    const broken = () => Promise.reject(new ApiError('internal', 'Authentication is not configured on this server'));
+
+    await expect(throttle.attempt('10.0.0.1', 'a@example.com', broken, 0)).rejects.toMatchObject({ code: 'internal' });
+    for (const email of ['a@example.com', 'b@example.com', 'c@example.com']) {
+      await expect(throttle.attempt('10.0.0.1', email, wrong, 0)).rejects.toMatchObject({ code: 'unauthorized' });
+    }
+
+    await expect(throttle.attempt('10.0.0.1', 'd@example.com', right, 0)).rejects.toMatchObject({ code: 'rate_limited' });
+    await expect(throttle.attempt('10.0.0.2', 'd@example.com', right, 0)).resolves.toBe('signed in');
+  });
+
+  it('counts attempts before the password check so parallel requests share the limit', async () => {
+    const throttle = new LoginThrottle(limits);
+    let checked = 0;
+    const slowWrong = () => {
+      checked++;
+      return new Promise<string>((_, reject) => setTimeout(() => reject(new ApiError('unauthorized', 'Invalid email or password')), 10));
+    };
+
+    const results = await Promise.all(Array.from({ length: 10 }, (_, i) =>
+      throttle.attempt(`10.0.0.${i}`, 'ed@example.com', slowWrong, 0).catch((error: ApiError) => error.code)
+    ));
+
+    expect(checked).toBe(2);
+    expect(results.filter(code => code === 'rate_limited')).toHaveLength(8);
+  });
+
+  it('clears the account counter after a successful sign-in', async () => {
+    const throttle = new LoginThrottle(limits);
+
+    await expect(throttle.attempt('10.0.0.1', 'ed@example.com', wrong, 0)).rejects.toBeInstanceOf(ApiError);
+    await throttle.attempt('10.0.0.1', 'ed@example.com', right, 0);
+    await expect(throttle.attempt('10.0.0.1', 'ed@example.com', wrong, 0)).rejects.toMatchObject({ code: 'unauthorized' });
+    await expect(throttle.attempt('10.0.0.1', 'ed@example.com', right, 0)).resolves.toBe('signed in');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the auth middleware
+ */
+
+import { NextRequest } from 'next/server';
+import { middleware } from '../../../middleware';
+import { SESSION_COOKIE, signSession } from '../session';
+
+const SECRET = 'test-secret-0123456789abcdef0123456789';
+
+const token = (role: 'owner' | 'writer') => {
+  const now = Math.floor(Date.now() / 1000);
+  return signSession({ sub: 'user-1', role, ver: 0, kind: 'session', iat: now, exp: now + 60 }, SECRET);
+};
+
+const request = (path: string, method = 'GET', headers: Record<string, string> = {}) =>
+  new NextRequest(new URL(path, 'http://localhost'), { method, headers: { host: 'localhost', ...headers } });
+
+describe('auth middleware', () => {
+  beforeEach(() => {
+    process.env.AUTH_SECRET = SECRET;
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_SECRET;
+  });
+
+  it('lets public requests through', async () => {
+    const response = await middleware(request('/api/posts'));
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+  });
+
+  it('redirects anonymous admin visits to the login page', async () => {
+    const response = await middleware(request('/admin?tab=posts'));
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe('http://localhost/admin/login?next=%2Fadmin%3Ftab%3Dposts');
+  });
+
+  it('checks the role for mutating API routes', async () => {
+    const anonymous = await middleware(request('/api/research/schedule', 'POST'));
+    expect(anonymous.status).toBe(401);
+    expect(await anonymous.json()).toEqual({ error: 'Sign in or send a bearer token', code: 'unauthorized' });
+
+    const writer = await middleware(request('/api/research/schedule', 'POST', { authorization: `Bearer ${await token('writer')}` }));
+    expect(writer.status).toBe(403);
+
+    const owner = await middleware(request('/api/research/schedule', 'POST', { authorization: `Bearer ${await token('owner')}` }));
+    expect(owner.headers.get('x-middleware-next')).toBe('1');
+  });
+
+  it('refuses cross-origin cookie mutations', async () => {
+    const cookie = `${SESSION_COOKIE}=${await token('owner')}`;
+    const response = await middleware(request('/api/research/ingest', 'POST', { cookie, origin: 'https://evil.example' }));
+    expect(response.status).toBe(403);
+  });
+
+  it('refuses protected routes while the secret is a placeholder', async () => {
+    process.env.AUTH_SECRET = 'your-secret-key';
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const response = await middleware(request('/admin'));
+    error.mockRestore();
+
+    expect(response.status).toBe(503);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * VIB3CODE-0 User Accounts
+ *
+ * A User plus its credentials: scrypt password hash, token version (bumped
+ * to revoke sessions) and creation time. Credentials never leave the
+ * server; publicUser strips them for responses.
+ */
+
+import { User } from '../blog-config';
+
+export interface Account extends User {
+  passwordHash?: string;
+  tokenVersion: number;
+  createdAt: Date;
+}
+
+export interface UserStore {
+  list(): Promise<Account[]>;
+  get(id: string): Promise<Account | null>;
+  /** Case-insensitive lookup */
+  findByEmail(email: string): Promise<Account | null>;
+  /** Insert or replace the account with the same id */
+  save(account: Account): Promise<Account>;
+}
+
+// In-memory store used in tests and as the AuthService default
+export class InMemoryUserStore implements UserStore {
+  protected accounts = new Map<string, Account>();
+
+  constructor(accounts: Account[] = []) {
+    accounts.forEach(account => this.accounts.set(account.id, { ...account }));
+  }
+
+  async list(): Promise<Account[]> {
+    return Array.from(this.accounts.values()).map(account => ({ ...account }));
+  }
+
+  async get(id: string): Promise<Account | null> {
+    const account = this.accounts.get(id);
+    return account ? { ...account } : null;
+  }
+
+  async findByEmail(email: string): Promise<Account | null> {
+    const wanted = normalizeEmail(email);
+    const account = Array.from(this.accounts.values()).find(candidate => normalizeEmail(candidate.email) === wanted);
+    return account ? { ...account } : null;
+  }
+
+  async save(account: Account): Promise<Account> {
+    this.accounts.set(account.id, { ...account });
+    return { ...account };
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** The account without credentials */
+export function publicUser(account: Account): User {
+  const { passwordHash: _passwordHash, tokenVersion: _tokenVersion, createdAt: _createdAt, ...user } = account;
+  return user;
+}
@@ -21,7 +21,7 @@ export interface BlogConfig {
     cms?: 'sanity' | 'strapi' | 'contentful';
     analytics?: 'google' | 'plausible' | 'fathom';
     comments?: 'disqus' | 'giscus' | 'custom';
-    newsletter?: 'mailchimp' | 'convertkit' | 'substack';
+    newsletter?: 'mailchimp' | 'convertkit' | 'substack' | 'built-in';
     search?: 'algolia' | 'elasticsearch' | 'built-in';
   };
   ai: {
@@ -54,9 +54,9 @@ export const defaultBlogConfig: BlogConfig = {
   integrations: {
     cms: 'sanity',
     analytics: 'plausible', 
-    comments: 'giscus',
-    newsletter: 'convertkit',
-    search: 'algolia'
+    comments: 'custom', // built-in threaded comments with moderation (lib/comments)
+    newsletter: 'built-in', // double opt-in list and weekly digest (lib/newsletter)
+    search: 'built-in'
   },
   ai: {
     contentGeneration: true,
@@ -73,19 +73,25 @@ export const defaultBlogConfig: BlogConfig = {
 };
 
 // Content types for the blog
+export type PostStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
 export interface BlogPost {
   id: string;
   title: string;
   slug: string;
   excerpt: string;
   content: string; // MDX content
+  // Byline; id references an Author, name/avatar/bio are a display copy kept in sync by ContentAPI
   author: {
+    id?: string;
     name: string;
     avatar?: string;
     bio?: string;
   };
   publishedAt: Date;
   updatedAt: Date;
+  status: PostStatus; // only 'published' posts are listed publicly
+  scheduledFor?: Date; // release time for 'scheduled' posts
   tags: string[];
   category: 'ai-news' | 'vibe-coding' | 'info-theory' | 'philosophy';
   readingTime: number;
@@ -93,6 +99,7 @@ export interface BlogPost {
     metaTitle?: string;
     metaDescription?: string;
     ogImage?: string;
+    noindex?: boolean; // keep out of sitemap.xml and disallow in robots.txt
   };
   holographicParams?: {
     hue: number;
@@ -100,6 +107,11 @@ export interface BlogPost {
     intensity: number;
     theme: string;
   };
+  // Membership in a multi-part series; parts are numbered from 1
+  series?: {
+    id: string;
+    part: number;
+  };
 }
 
 // User management types
@@ -122,6 +134,37 @@ export interface User {
   };
 }
 
+// Author profile referenced by BlogPost.author.id (also its URL slug)
+export interface Author {
+  id: string;
+  name: string;
+  avatar?: string;
+  bio?: string;
+  userId?: string; // linked User account
+  social?: User['social'];
+}
+
+// Canonical tag; posts carry the name, synonyms are normalized onto it
+export interface Tag {
+  id: string; // slug of the name, also its URL slug
+  name: string;
+  synonyms: string[]; // other spellings, e.g. "LLMs", "Large Language Models"
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Ordered run of posts, e.g. a research topic that spans several sessions
+export interface Series {
+  id: string; // also its URL slug
+  title: string;
+  description?: string;
+  topic?: string; // research topic new sessions are matched against
+  status: 'open' | 'complete'; // only open series take new parts
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Content categories with holographic themes
 export const contentCategories = {
   'ai-news': {
@@ -170,13 +213,32 @@ export const contentCategories = {
   }
 } as const;
 
+// Public page paths; absolute URLs are built from defaultBlogConfig.site.url
+export const siteRoutes = {
+  home: '/',
+  post: (slug: string) => `/posts/${slug}`,
+  category: (category: string) => `/category/${category}`,
+  tag: (tagSlug: string) => `/tag/${tagSlug}`,
+  author: (authorId: string) => `/authors/${authorId}`,
+  series: (seriesId: string) => `/series/${seriesId}`,
+  admin: '/admin',
+  adminLogin: '/admin/login',
+  section: (sectionId: string) => (sectionId === 'home' ? '/' : `/${sectionId}`),
+  feeds: '/feeds',
+  sitemap: '/sitemap.xml',
+  robots: '/robots.txt'
+};
+
 // API integration endpoints
 export const apiEndpoints = {
   content: {
     posts: '/api/posts',
     categories: '/api/categories',
     search: '/api/search',
-    related: '/api/posts/related'
+    related: '/api/posts/related',
+    authors: '/api/authors',
+    series: '/api/series',
+    tags: '/api/tags'
   },
   ai: {
     generate: '/api/ai/generate',
@@ -190,9 +252,23 @@ export const apiEndpoints = {
     preferences: '/api/user/preferences',
     subscription: '/api/user/subscription'
   },
+  newsletter: {
+    subscribe: '/api/newsletter/subscribe',
+    confirm: '/api/newsletter/confirm',
+    unsubscribe: '/api/newsletter/unsubscribe',
+    digest: '/api/newsletter/digest'
+  },
+  research: {
+    ingest: '/api/research/ingest',
+    schedule: '/api/research/schedule',
+    jobs: '/api/research/jobs'
+  },
   admin: {
     analytics: '/api/admin/analytics',
     moderation: '/api/admin/moderation',
+    export: '/api/admin/content/export',
+    import: '/api/admin/content/import',
+    lint: '/api/admin/lint',
     settings: '/api/admin/settings',
     holographic: '/api/admin/holographic'
   }
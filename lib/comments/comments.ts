@@ -0,0 +1,136 @@
+/**
+ * VIB3CODE-0 Comments
+ *
+ * Threaded reader comments behind a provider interface. Comments reference
+ * a post by id and optionally a parent comment; only approved comments are
+ * shown, everything else waits in the moderation queue. Bans block an
+ * email address or a client fingerprint (hashed IP) from commenting.
+ */
+
+export type CommentStatus = 'pending' | 'approved' | 'rejected' | 'spam';
+
+export interface Comment {
+  id: string;
+  postId: string;
+  /** Comment this replies to; null for top-level comments */
+  parentId: string | null;
+  author: {
+    name: string;
+    email?: string;
+    userId?: string;
+  };
+  body: string;
+  status: CommentStatus;
+  /** Salted hash of the client IP, for rate limits and bans */
+  fingerprint?: string;
+  /** Why the spam checks held or flagged the comment */
+  flags?: string[];
+  createdAt: Date;
+  moderatedAt?: Date;
+  moderatedBy?: string;
+}
+
+export interface CommentThread extends Comment {
+  replies: CommentThread[];
+}
+
+export interface CommentBan {
+  /** Lower-cased email or fingerprint */
+  key: string;
+  reason?: string;
+  createdAt: Date;
+  createdBy?: string;
+}
+
+export interface CommentFilter {
+  postId?: string;
+  status?: CommentStatus | CommentStatus[];
+  /** Comments by this email or fingerprint */
+  authorKey?: string;
+  since?: Date;
+}
+
+export interface CommentProvider {
+  /** Matching comments, oldest first */
+  list(filter?: CommentFilter): Promise<Comment[]>;
+  get(id: string): Promise<Comment | null>;
+  /** Insert or replace the comment with the same id */
+  save(comment: Comment): Promise<Comment>;
+  listBans(): Promise<CommentBan[]>;
+  addBan(ban: CommentBan): Promise<CommentBan>;
+}
+
+// In-memory provider used in tests and as the CommentService default
+export class InMemoryCommentProvider implements CommentProvider {
+  protected comments = new Map<string, Comment>();
+  protected bans = new Map<string, CommentBan>();
+
+  constructor(comments: Comment[] = [], bans: CommentBan[] = []) {
+    comments.forEach(comment => this.comments.set(comment.id, { ...comment }));
+    bans.forEach(ban => this.bans.set(ban.key, { ...ban }));
+  }
+
+  async list(filter: CommentFilter = {}): Promise<Comment[]> {
+    const statuses = filter.status === undefined ? null : ([] as CommentStatus[]).concat(filter.status);
+    return Array.from(this.comments.values())
+      .filter(comment =>
+        (!filter.postId || comment.postId === filter.postId) &&
+        (!statuses || statuses.indexOf(comment.status) !== -1) &&
+        (!filter.authorKey || authorKeys(comment).indexOf(filter.authorKey) !== -1) &&
+        (!filter.since || comment.createdAt.getTime() >= filter.since.getTime())
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id))
+      .map(comment => ({ ...comment }));
+  }
+
+  async get(id: string): Promise<Comment | null> {
+    const comment = this.comments.get(id);
+    return comment ? { ...comment } : null;
+  }
+
+  async save(comment: Comment): Promise<Comment> {
+    this.comments.set(comment.id, { ...comment });
+    return { ...comment };
+  }
+
+  async listBans(): Promise<CommentBan[]> {
+    return Array.from(this.bans.values()).map(ban => ({ ...ban }));
+  }
+
+  async addBan(ban: CommentBan): Promise<CommentBan> {
+    this.bans.set(ban.key, { ...ban });
+    return { ...ban };
+  }
+}
+
+/** Keys a comment's author can be rate-limited or banned by */
+export function authorKeys(comment: Pick<Comment, 'author' | 'fingerprint'>): string[] {
+  return [
+    ...(comment.author.email ? [comment.author.email.trim().toLowerCase()] : []),
+    ...(comment.fingerprint ? [comment.fingerprint] : [])
+  ];
+}
+
+/**
+ * Nest approved comments under their parents, oldest first at every level.
+ * Replies whose parent is not approved are left out with it.
+ */
+export function buildThreads(comments: Comment[]): CommentThread[] {
+  const approved = comments
+    .filter(comment => comment.status === 'approved')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id));
+
+  const nodes = new Map<string, CommentThread>();
+  approved.forEach(comment => nodes.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentThread[] = [];
+  approved.forEach(comment => {
+    const node = nodes.get(comment.id)!;
+    if (comment.parentId === null) {
+      roots.push(node);
+    } else {
+      nodes.get(comment.parentId)?.replies.push(node);
+    }
+  });
+  return roots;
+}
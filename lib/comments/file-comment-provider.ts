@@ -0,0 +1,67 @@
+/**
+ * VIB3CODE-0 File Comment Provider
+ *
+ * Comments and bans together in one JSON file, { comments, bans } (server
+ * only). Two record types in one file don't fit JsonMapFile, so this
+ * provider queues its own writes and rolls both maps back when one fails.
+ */
+
+import { WriteQueue, readJsonFile, reviveDates, writeJsonAtomic } from '../storage/json-file';
+import { Comment, CommentBan, InMemoryCommentProvider } from './comments';
+
+interface CommentFile {
+  comments: Comment[];
+  bans: CommentBan[];
+}
+
+export class FileCommentProvider extends InMemoryCommentProvider {
+  private readonly file: string;
+  private readonly queue = new WriteQueue();
+
+  constructor(file: string) {
+    const { comments, bans } = FileCommentProvider.load(file);
+    super(comments, bans);
+    this.file = file;
+  }
+
+  async save(comment: Comment): Promise<Comment> {
+    return this.write(() => {
+      this.comments.set(comment.id, { ...comment });
+      return { ...comment };
+    });
+  }
+
+  async addBan(ban: CommentBan): Promise<CommentBan> {
+    return this.write(() => {
+      this.bans.set(ban.key, { ...ban });
+      return { ...ban };
+    });
+  }
+
+  // Apply a change and persist the whole file; the change is rolled back if the write fails
+  private write<T>(change: () => T): Promise<T> {
+    return this.queue.run(async () => {
+      const previous = { comments: new Map(this.comments), bans: new Map(this.bans) };
+      const value = change();
+      const contents: CommentFile = { comments: Array.from(this.comments.values()), bans: Array.from(this.bans.values()) };
+
+      try {
+        await writeJsonAtomic(this.file, contents, { indent: 2 });
+      } catch (error) {
+        this.comments = previous.comments;
+        this.bans = previous.bans;
+        throw error;
+      }
+      return value;
+    });
+  }
+
+  private static load(file: string): CommentFile {
+    const data = readJsonFile<CommentFile>(file, reviveDates(['createdAt', 'moderatedAt']));
+    if (data === undefined) return { comments: [], bans: [] };
+    if (!data || !Array.isArray(data.comments) || !Array.isArray(data.bans)) {
+      throw new Error(`Corrupt comment file ${file}: expected { comments, bans }`);
+    }
+    return data;
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * VIB3CODE-0 Server Comments
+ *
+ * Server-side CommentService with comments and bans in
+ * DATA_DIR/comments.json. Client IPs are fingerprinted with AUTH_SECRET as
+ * the salt (read when a fingerprint is taken, not at import), so
+ * fingerprints cannot be reversed without the secret.
+ */
+
+import path from 'path';
+import { authSecret } from '../auth/secrets';
+import { defaultBlogConfig } from '../blog-config';
+import { DATA_DIRECTORY } from '../content/server';
+import { FileCommentProvider } from './file-comment-provider';
+import { CommentService } from './service';
+
+export const commentsEnabled =
+  defaultBlogConfig.content.enableComments && defaultBlogConfig.integrations.comments === 'custom';
+
+export const commentService = new CommentService(new FileCommentProvider(path.join(DATA_DIRECTORY, 'comments.json')), {
+  fingerprintSalt: () => authSecret()
+});
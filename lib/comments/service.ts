@@ -0,0 +1,208 @@
+/**
+ * VIB3CODE-0 Comment Service
+ *
+ * Submission, threading and moderation on top of a CommentProvider (server
+ * only). New comments run through the spam checks: clean ones from trusted
+ * users (staff accounts) are approved straight away, everything else is
+ * pending, flagged ones are marked spam, and rate-limited or banned authors
+ * are refused.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { ApiError } from '../api/http';
+import {
+  Comment,
+  CommentBan,
+  CommentProvider,
+  CommentStatus,
+  CommentThread,
+  InMemoryCommentProvider,
+  authorKeys,
+  buildThreads
+} from './comments';
+import { DEFAULT_SPAM_POLICY, SpamPolicy, assessComment } from './spam';
+
+export interface CommentServiceOptions {
+  spam?: SpamPolicy;
+  /** Hold clean comments from anonymous readers for review (default: true) */
+  requireApproval?: boolean;
+  /** Deepest reply level; 0 is a top-level comment (default: 4) */
+  maxDepth?: number;
+  /** Salt for hashing client IPs into fingerprints; a function is read on each use */
+  fingerprintSalt?: string | (() => string);
+}
+
+export interface NewComment {
+  postId: string;
+  parentId?: string | null;
+  name: string;
+  email?: string;
+  body: string;
+  /** Client IP; only its salted hash is stored */
+  ip?: string;
+  userId?: string;
+  /** Signed-in staff skip the approval queue */
+  trusted?: boolean;
+}
+
+export type ModerationAction = 'approve' | 'reject' | 'ban';
+
+export interface ModerationResult {
+  comment: Comment;
+  /** Other pending comments rejected along with a ban */
+  alsoRejected: Comment[];
+  ban?: CommentBan;
+}
+
+const MAX_NAME_LENGTH = 80;
+const MAX_BODY_LENGTH = 5000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const QUEUE_STATUSES: CommentStatus[] = ['pending', 'spam'];
+
+export class CommentService {
+  private provider: CommentProvider;
+  private policy: SpamPolicy;
+  private requireApproval: boolean;
+  private maxDepth: number;
+  private fingerprintSalt: string | (() => string);
+
+  constructor(provider: CommentProvider = new InMemoryCommentProvider(), options: CommentServiceOptions = {}) {
+    this.provider = provider;
+    this.policy = options.spam ?? DEFAULT_SPAM_POLICY;
+    this.requireApproval = options.requireApproval ?? true;
+    this.maxDepth = options.maxDepth ?? 4;
+    this.fingerprintSalt = options.fingerprintSalt ?? '';
+  }
+
+  async submit(input: NewComment, now: Date = new Date()): Promise<Comment> {
+    const name = input.name.trim();
+    const body = input.body.trim();
+    const email = input.email?.trim().toLowerCase() || undefined;
+    const details: Record<string, string> = {};
+    if (!name || name.length > MAX_NAME_LENGTH) details.name = `must be 1-${MAX_NAME_LENGTH} characters`;
+    if (!body || body.length > MAX_BODY_LENGTH) details.body = `must be 1-${MAX_BODY_LENGTH} characters`;
+    if (email && !EMAIL_PATTERN.test(email)) details.email = 'must be an email address';
+    if (Object.keys(details).length) {
+      throw new ApiError('bad_request', 'Invalid comment', details);
+    }
+
+    const parentId = input.parentId ?? null;
+    if (parentId !== null) {
+      await this.checkParent(input.postId, parentId);
+    }
+
+    const candidate = {
+      postId: input.postId,
+      author: { name, ...(email && { email }), ...(input.userId && { userId: input.userId }) },
+      body,
+      fingerprint: input.ip ? this.fingerprint(input.ip) : undefined
+    };
+
+    const bans = await this.provider.listBans();
+    if (bans.some(ban => authorKeys(candidate).indexOf(ban.key) !== -1)) {
+      throw new ApiError('forbidden', 'You can no longer comment on this site');
+    }
+
+    const windowMs = Math.max(this.policy.rateLimit.windowMs, this.policy.duplicateWindowMs);
+    const recent = await this.provider.list({ since: new Date(now.getTime() - windowMs) });
+    const assessment = assessComment(candidate, recent, this.policy, now);
+    if (assessment.verdict === 'rate_limited') {
+      throw new ApiError('rate_limited', 'Too many comments; try again later', {
+        retryAfter: String(assessment.retryAfter)
+      });
+    }
+
+    const status: CommentStatus =
+      assessment.verdict === 'spam' ? 'spam'
+        : assessment.verdict === 'hold' || (this.requireApproval && !input.trusted) ? 'pending'
+          : 'approved';
+
+    return this.provider.save({
+      id: randomUUID(),
+      ...candidate,
+      parentId,
+      status,
+      ...(assessment.flags.length && { flags: assessment.flags }),
+      createdAt: now
+    });
+  }
+
+  /** Approved comments on a post, nested */
+  async thread(postId: string): Promise<CommentThread[]> {
+    return buildThreads(await this.provider.list({ postId, status: 'approved' }));
+  }
+
+  async countApproved(postId: string): Promise<number> {
+    return (await this.provider.list({ postId, status: 'approved' })).length;
+  }
+
+  /** Comments awaiting a decision (pending and spam by default), oldest first */
+  async queue(status: CommentStatus | CommentStatus[] = QUEUE_STATUSES): Promise<Comment[]> {
+    return this.provider.list({ status });
+  }
+
+  async listBans(): Promise<CommentBan[]> {
+    return this.provider.listBans();
+  }
+
+  /**
+   * Approve or reject a comment, or reject it and ban its author's email and
+   * fingerprint (which also rejects their other queued comments).
+   */
+  async moderate(id: string, action: ModerationAction, moderator: string, reason?: string, now: Date = new Date()): Promise<ModerationResult> {
+    const comment = await this.provider.get(id);
+    if (!comment) {
+      throw new ApiError('not_found', 'Comment not found');
+    }
+
+    // Refuse an impossible ban before the comment is rejected
+    const keys = action === 'ban' ? authorKeys(comment) : [];
+    if (action === 'ban' && keys.length === 0) {
+      throw new ApiError('bad_request', 'This comment has no email or fingerprint to ban');
+    }
+
+    const decided = { moderatedAt: now, moderatedBy: moderator };
+    const updated = await this.provider.save({
+      ...comment,
+      ...decided,
+      status: action === 'approve' ? 'approved' : 'rejected'
+    });
+    if (action !== 'ban') {
+      return { comment: updated, alsoRejected: [] };
+    }
+
+    let ban: CommentBan | undefined;
+    for (const key of keys) {
+      ban = await this.provider.addBan({ key, ...(reason && { reason }), createdAt: now, createdBy: moderator });
+    }
+
+    const alsoRejected: Comment[] = [];
+    for (const queued of await this.provider.list({ status: QUEUE_STATUSES })) {
+      if (authorKeys(queued).some(key => keys.indexOf(key) !== -1)) {
+        alsoRejected.push(await this.provider.save({ ...queued, ...decided, status: 'rejected' }));
+      }
+    }
+    return { comment: updated, alsoRejected, ban };
+  }
+
+  fingerprint(ip: string): string {
+    const salt = typeof this.fingerprintSalt === 'function' ? this.fingerprintSalt() : this.fingerprintSalt;
+    return createHash('sha256').update(`${salt}:${ip.trim()}`).digest('base64url').slice(0, 22);
+  }
+
+  private async checkParent(postId: string, parentId: string): Promise<void> {
+    let depth = 0;
+    let current = await this.provider.get(parentId);
+    if (!current || current.postId !== postId || current.status !== 'approved') {
+      throw new ApiError('bad_request', 'Replies need an approved comment on the same post', { parentId: 'is not a comment here' });
+    }
+
+    while (current) {
+      depth++;
+      current = current.parentId ? await this.provider.get(current.parentId) : null;
+    }
+    if (depth > this.maxDepth) {
+      throw new ApiError('bad_request', `Replies nest at most ${this.maxDepth} levels deep`, { parentId: 'is nested too deeply' });
+    }
+  }
+}
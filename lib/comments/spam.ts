@@ -0,0 +1,93 @@
+/**
+ * VIB3CODE-0 Comment Spam Checks
+ *
+ * Cheap heuristics run on every submission:
+ * - Links: more than maxLinks holds the comment for review, more than
+ *   spamLinks marks it as spam
+ * - Rate limit: more than rateLimit.count comments per author key within
+ *   rateLimit.windowMs are refused outright
+ * - Duplicates: the same text (ignoring case, spacing and punctuation) from
+ *   the same author, or on several posts, within duplicateWindowMs is spam
+ */
+
+import { Comment, authorKeys } from './comments';
+
+export interface SpamPolicy {
+  maxLinks: number;
+  spamLinks: number;
+  rateLimit: { count: number; windowMs: number };
+  duplicateWindowMs: number;
+}
+
+export const DEFAULT_SPAM_POLICY: SpamPolicy = {
+  maxLinks: 2,
+  spamLinks: 5,
+  rateLimit: { count: 5, windowMs: 10 * 60 * 1000 },
+  duplicateWindowMs: 24 * 60 * 60 * 1000
+};
+
+export interface SpamAssessment {
+  /** ok: publishable; hold: needs review; spam: flagged; rate_limited: refuse */
+  verdict: 'ok' | 'hold' | 'spam' | 'rate_limited';
+  flags: string[];
+  /** Seconds until the author may comment again (rate_limited only) */
+  retryAfter?: number;
+}
+
+export type CandidateComment = Pick<Comment, 'postId' | 'author' | 'body' | 'fingerprint'>;
+
+/**
+ * Judge a new comment against recent ones (any post, any status, covering
+ * at least the longer of the rate-limit and duplicate windows).
+ */
+export function assessComment(
+  candidate: CandidateComment,
+  recent: Comment[],
+  policy: SpamPolicy = DEFAULT_SPAM_POLICY,
+  now: Date = new Date()
+): SpamAssessment {
+  const keys = authorKeys(candidate);
+  const byAuthor = recent.filter(comment => authorKeys(comment).some(key => keys.indexOf(key) !== -1));
+
+  const windowStart = now.getTime() - policy.rateLimit.windowMs;
+  const inWindow = byAuthor.filter(comment => comment.createdAt.getTime() > windowStart);
+  if (inWindow.length >= policy.rateLimit.count) {
+    const oldest = Math.min(...inWindow.map(comment => comment.createdAt.getTime()));
+    return {
+      verdict: 'rate_limited',
+      flags: ['rate_limit'],
+      retryAfter: Math.max(1, Math.ceil((oldest - windowStart) / 1000))
+    };
+  }
+
+  const flags: string[] = [];
+  const links = countLinks(candidate.body);
+  if (links > policy.spamLinks) {
+    flags.push('too_many_links');
+  } else if (links > policy.maxLinks) {
+    flags.push('links');
+  }
+
+  const text = normalizeText(candidate.body);
+  const duplicateStart = now.getTime() - policy.duplicateWindowMs;
+  const duplicates = recent.filter(comment =>
+    comment.createdAt.getTime() > duplicateStart && normalizeText(comment.body) === text
+  );
+  if (text && duplicates.some(comment => byAuthor.indexOf(comment) !== -1 || comment.postId !== candidate.postId)) {
+    flags.push('duplicate');
+  }
+
+  const spam = flags.indexOf('too_many_links') !== -1 || flags.indexOf('duplicate') !== -1;
+  return { verdict: spam ? 'spam' : flags.length ? 'hold' : 'ok', flags };
+}
+
+/** URLs, www. hosts and markdown/HTML links in a comment body */
+export function countLinks(body: string): number {
+  const urls = body.match(/\bhttps?:\/\/[^\s<>()]+|\bwww\.[^\s<>()]+/gi) ?? [];
+  const anchors = body.match(/<a\s[^>]*href=["']?[^"'\s>]*/gi) ?? [];
+  return urls.length + anchors.filter(anchor => !/https?:\/\/|www\./i.test(anchor)).length;
+}
+
+function normalizeText(body: string): string {
+  return body.toLowerCase().replace(/[^a-z0-9\u00c0-\uffff]+/g, ' ').trim();
+}
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for comment threading, submission and moderation
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiError } from '../../api/http';
+import { InMemoryCommentProvider } from '../comments';
+import { FileCommentProvider } from '../file-comment-provider';
+import { CommentService } from '../service';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 8, 20, 12, minutes));
+
+const reader = (name: string, body: string, overrides: Record<string, unknown> = {}) => ({
+  postId: 'post-1',
+  name,
+  email: `${name.toLowerCase()}@example.com`,
+  body,
+  ip: `10.0.0.${name.length}`,
+  ...overrides
+});
+
+describe('CommentService', () => {
+  it('queues reader comments and publishes trusted ones', async () => {
+    const service = new CommentService();
+    const queued = await service.submit(reader('Ada', 'First!'), at(0));
+    const staff = await service.submit(reader('Editor', 'Thanks for reading', { trusted: true }), at(1));
+
+    expect(queued.status).toBe('pending');
+    expect(staff.status).toBe('approved');
+    expect(queued.fingerprint).toMatch(/^[\w-]{22}$/);
+    expect((await service.queue()).map(comment => comment.id)).toEqual([queued.id]);
+  });
+
+  it('threads approved replies and hides unapproved ones', async () => {
+    const service = new CommentService(new InMemoryCommentProvider(), { requireApproval: false });
+    const root = await service.submit(reader('Ada', 'Root'), at(0));
+    const reply = await service.submit(reader('Grace', 'Reply', { parentId: root.id }), at(1));
+    await service.submit(reader('Alan', 'Nested', { parentId: reply.id }), at(2));
+    const rejected = await service.submit(reader('Bob', 'Rude'), at(3));
+    await service.moderate(rejected.id, 'reject', 'editor@example.com', undefined, at(4));
+
+    const threads = await service.thread('post-1');
+    expect(threads).toHaveLength(1);
+    expect(threads[0].replies[0].body).toBe('Reply');
+    expect(threads[0].replies[0].replies[0].body).toBe('Nested');
+  });
+
+  it('validates parents and depth', async () => {
+    const service = new CommentService(new InMemoryCommentProvider(), { requireApproval: false, maxDepth: 1 });
+    const root = await service.submit(reader('Ada', 'Root'), at(0));
+    const reply = await service.submit(reader('Grace', 'Reply', { parentId: root.id }), at(1));
+
+    await expect(service.submit(reader('Alan', 'Too deep', { parentId: reply.id }), at(2))).rejects.toMatchObject({ code: 'bad_request' });
+    await expect(service.submit(reader('Alan', 'Elsewhere', { parentId: root.id, postId: 'post-2' }), at(2))).rejects.toBeInstanceOf(ApiError);
+    await expect(service.submit(reader('Alan', '   '), at(2))).rejects.toMatchObject({ details: { body: 'must be 1-5000 characters' } });
+  });
+
+  it('reads a salt function each time it fingerprints an IP', async () => {
+    let salt = 'first';
+    const service = new CommentService(undefined, { fingerprintSalt: () => salt });
+
+    const before = service.fingerprint('10.0.0.1');
+    salt = 'second';
+
+    expect(service.fingerprint('10.0.0.1')).not.toBe(before);
+    expect(service.fingerprint('10.0.0.1')).toBe(new CommentService(undefined, { fingerprintSalt: 'second' }).fingerprint('10.0.0.1'));
+  });
+
+  it('bans an author and rejects their queued comments', async () => {
+    const service = new CommentService();
+    const first = await service.submit(reader('Spammer', 'Visit https://a.example https://b.example https://c.example'), at(0));
+    const second = await service.submit(reader('Spammer', 'Another one', { postId: 'post-2' }), at(1));
+    expect(first).toMatchObject({ status: 'pending', flags: ['links'] });
+
+    const result = await service.moderate(first.id, 'ban', 'editor@example.com', 'link spam', at(2));
+    expect(result.comment).toMatchObject({ status: 'rejected', moderatedBy: 'editor@example.com' });
+    expect(result.alsoRejected.map(comment => comment.id)).toEqual([second.id]);
+    expect((await service.listBans()).map(ban => ban.key)).toContain('spammer@example.com');
+
+    // The same IP under another email is still banned
+    await expect(service.submit(reader('Spammer', 'Back again', { email: 'new@example.com' }), at(3)))
+      .rejects.toMatchObject({ code: 'forbidden' });
+  });
+
+  it('leaves a comment untouched when there is nothing to ban', async () => {
+    const service = new CommentService();
+    const anonymous = await service.submit(reader('Ada', 'No trace', { email: undefined, ip: undefined }), at(0));
+
+    await expect(service.moderate(anonymous.id, 'ban', 'editor@example.com', undefined, at(1)))
+      .rejects.toMatchObject({ code: 'bad_request' });
+    expect((await service.queue()).map(comment => comment.id)).toEqual([anonymous.id]);
+  });
+
+  it('refuses authors over the rate limit', async () => {
+    const service = new CommentService(new InMemoryCommentProvider(), { spam: {
+      maxLinks: 2, spamLinks: 5, rateLimit: { count: 2, windowMs: 60 * 60 * 1000 }, duplicateWindowMs: 0
+    } });
+    await service.submit(reader('Ada', 'One'), at(0));
+    await service.submit(reader('Ada', 'Two'), at(1));
+
+    await expect(service.submit(reader('Ada', 'Three'), at(2))).rejects.toMatchObject({ code: 'rate_limited', status: 429 });
+  });
+});
+
+describe('FileCommentProvider', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-comments-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('persists comments, decisions and bans across instances', async () => {
+    const file = path.join(directory, 'data', 'comments.json');
+    const service = new CommentService(new FileCommentProvider(file));
+    const comment = await service.submit(reader('Ada', 'Persist me'), at(0));
+    await service.moderate(comment.id, 'ban', 'owner@example.com', undefined, at(1));
+
+    const reopened = new FileCommentProvider(file);
+    expect(await reopened.get(comment.id)).toMatchObject({ status: 'rejected', moderatedAt: at(1) });
+    expect(await reopened.listBans()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for the comment spam heuristics
+ */
+
+import { Comment } from '../comments';
+import { DEFAULT_SPAM_POLICY, assessComment, countLinks } from '../spam';
+
+const now = new Date('2024-09-20T12:00:00Z');
+
+const comment = (id: string, overrides: Partial<Comment> = {}): Comment => ({
+  id,
+  postId: 'post-1',
+  parentId: null,
+  author: { name: 'Reader', email: 'reader@example.com' },
+  body: `Comment ${id}`,
+  status: 'approved',
+  createdAt: new Date(now.getTime() - 60 * 1000),
+  ...overrides
+});
+
+const candidate = (body: string, overrides: Partial<Comment> = {}) => ({
+  postId: 'post-1',
+  author: { name: 'Reader', email: 'reader@example.com' },
+  body,
+  ...overrides
+});
+
+describe('countLinks', () => {
+  it('counts URLs, bare www hosts and anchors', () => {
+    expect(countLinks('see https://a.example and www.b.example or <a href="/c">c</a>')).toBe(3);
+    expect(countLinks('<a href="https://a.example">a</a>')).toBe(1);
+    expect(countLinks('no links here')).toBe(0);
+  });
+});
+
+describe('assessComment', () => {
+  it('passes ordinary comments', () => {
+    expect(assessComment(candidate('Great write-up on polytopes'), [], DEFAULT_SPAM_POLICY, now)).toEqual({ verdict: 'ok', flags: [] });
+  });
+
+  it('holds link-heavy comments and flags link spam', () => {
+    const links = (count: number) => Array.from({ length: count }, (_, i) => `https://site${i}.example`).join(' ');
+    expect(assessComment(candidate(links(3)), [], DEFAULT_SPAM_POLICY, now).verdict).toBe('hold');
+    expect(assessComment(candidate(links(6)), [], DEFAULT_SPAM_POLICY, now)).toMatchObject({ verdict: 'spam', flags: ['too_many_links'] });
+  });
+
+  it('rate-limits by email or fingerprint', () => {
+    const recent = Array.from({ length: 5 }, (_, i) => comment(String(i), { author: { name: 'Other' }, fingerprint: 'fp-1' }));
+    const result = assessComment(candidate('One more', { fingerprint: 'fp-1', author: { name: 'Anon' } }), recent, DEFAULT_SPAM_POLICY, now);
+
+    expect(result.verdict).toBe('rate_limited');
+    expect(result.retryAfter).toBe(9 * 60);
+    expect(assessComment(candidate('One more', { fingerprint: 'fp-2', author: { name: 'Anon' } }), recent, DEFAULT_SPAM_POLICY, now).verdict).toBe('ok');
+  });
+
+  it('flags repeated text from the same author or across posts', () => {
+    const previous = [comment('1', { body: 'Buy cheap tokens now!', author: { name: 'X', email: 'x@example.com' }, postId: 'post-2' })];
+
+    expect(assessComment(candidate('buy cheap   TOKENS now'), previous, DEFAULT_SPAM_POLICY, now).flags).toEqual(['duplicate']);
+    // Another reader agreeing on the same post is not a duplicate
+    const agreement = [comment('2', { body: '+1', author: { name: 'Y', email: 'y@example.com' } })];
+    expect(assessComment(candidate('+1'), agreement, DEFAULT_SPAM_POLICY, now).verdict).toBe('ok');
+  });
+});
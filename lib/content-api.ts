@@ -11,11 +11,35 @@
  * - AI services for content generation
  */
 
-import { BlogPost, User, contentCategories } from './blog-config';
+import { randomUUID } from 'crypto';
+import { Author, BlogPost, PostStatus, Series, Tag, User, contentCategories, defaultBlogConfig } from './blog-config';
+import { AuthorStore, InMemoryAuthorStore, bylineFor } from './content/authors';
+import {
+  FieldChange,
+  InMemoryRevisionStore,
+  PostRevision,
+  RevisionMeta,
+  RevisionStore,
+  diffPosts
+} from './content/revisions';
+import { LintReport, lintPost, lintPosts } from './content/lint';
+import { SearchHit, SearchIndex, SearchOptions } from './content/search-index';
+import {
+  InMemorySeriesStore,
+  SeriesLanding,
+  SeriesNavigation,
+  SeriesStore,
+  buildSeriesLanding,
+  seriesNavigation,
+  seriesTopicKey
+} from './content/series';
+import { SimilarityModel } from './content/similarity';
+import { InMemoryTagStore, TagStore, TagUsage, buildTagLookup, countTags, normalizeTags, tagKey } from './content/tags';
 
 export interface ContentProvider {
-  getPosts(options?: GetPostsOptions): Promise<BlogPost[]>;
+  getPosts(options?: GetPostsOptions): Promise<PostPage>;
   getPost(slug: string): Promise<BlogPost | null>;
+  getPostById(id: string): Promise<BlogPost | null>;
   createPost(post: Omit<BlogPost, 'id'>): Promise<BlogPost>;
   updatePost(id: string, updates: Partial<BlogPost>): Promise<BlogPost>;
   deletePost(id: string): Promise<void>;
@@ -25,28 +49,93 @@ export interface ContentProvider {
 export interface GetPostsOptions {
   category?: keyof typeof contentCategories;
   limit?: number;
-  offset?: number;
-  sortBy?: 'publishedAt' | 'updatedAt' | 'readingTime';
-  sortOrder?: 'asc' | 'desc';
+  offset?: number; // ignored when a cursor is given
+  cursor?: string; // nextCursor from the previous page
+  sortBy?: 'publishedAt' | 'updatedAt' | 'readingTime'; // defaults to 'publishedAt'
+  sortOrder?: 'asc' | 'desc'; // defaults to 'desc'
   tags?: string[];
-  author?: string;
+  author?: string; // author id (see contentUtils.authorId)
+  series?: string; // series id
+  status?: PostStatus | PostStatus[] | 'all'; // defaults to 'published'
+}
+
+export interface PostPage {
+  items: BlogPost[];
+  // Opaque cursor for the following page; null on the last page
+  nextCursor: string | null;
+  // Posts matching the filters across all pages
+  total: number;
+}
+
+export type ContentErrorCode = 'not_found' | 'slug_conflict' | 'invalid';
+
+// Error thrown by providers for conditions callers can act on (e.g. map to HTTP status)
+export class ContentError extends Error {
+  readonly code: ContentErrorCode;
+
+  constructor(message: string, code: ContentErrorCode) {
+    super(message);
+    this.name = 'ContentError';
+    this.code = code;
+  }
+}
+
+// Thrown when a save would publish a post with lint errors
+export class LintError extends ContentError {
+  readonly report: LintReport;
+
+  constructor(report: LintReport, errors: LintReport['issues']) {
+    super(`Post has ${errors.length} lint error${errors.length === 1 ? '' : 's'}: ${errors[0].message}`, 'invalid');
+    this.name = 'LintError';
+    this.report = report;
+  }
 }
 
 // Unified Content API that abstracts different content sources
+export interface ContentAPIOptions {
+  revisions?: RevisionStore;
+  // Built-in ranked search; without it searches go to the provider
+  search?: SearchIndex;
+  // Model behind getRelatedPosts (defaults to TF-IDF with standard boosts)
+  similarity?: SimilarityModel;
+  authors?: AuthorStore;
+  series?: SeriesStore;
+  tags?: TagStore;
+  // Statuses a post cannot be saved in while lint finds errors (default: published, scheduled)
+  enforceLint?: PostStatus[];
+}
+
 export class ContentAPI {
   private provider: ContentProvider;
+  private revisions: RevisionStore;
+  private searchIndex: SearchIndex | null;
+  private searchIndexReady: Promise<void> | null = null;
+  private similarity: SimilarityModel;
+  private similarityGeneration = 0;
+  private authors: AuthorStore;
+  private series: SeriesStore;
+  private tags: TagStore;
+  private enforceLint: PostStatus[];
 
-  constructor(provider: ContentProvider) {
+  constructor(provider: ContentProvider, options: ContentAPIOptions = {}) {
     this.provider = provider;
+    this.revisions = options.revisions ?? new InMemoryRevisionStore();
+    this.searchIndex = options.search ?? null;
+    this.similarity = options.similarity ?? new SimilarityModel();
+    this.authors = options.authors ?? new InMemoryAuthorStore();
+    this.series = options.series ?? new InMemorySeriesStore();
+    this.tags = options.tags ?? new InMemoryTagStore();
+    this.enforceLint = options.enforceLint ?? ['published', 'scheduled'];
   }
 
   // Get featured posts for homepage
   async getFeaturedPosts(): Promise<BlogPost[]> {
-    return this.provider.getPosts({
+    const page = await this.provider.getPosts({
       limit: 6,
       sortBy: 'publishedAt',
       sortOrder: 'desc'
     });
+    return page.items;
   }
 
   // Get posts by category with holographic theming
@@ -54,23 +143,400 @@ export class ContentAPI {
     posts: BlogPost[];
     theme: typeof contentCategories[keyof typeof contentCategories]['holographicTheme'];
   }> {
-    const posts = await this.provider.getPosts({ category });
+    const { items: posts } = await this.provider.getPosts({ category });
     const theme = contentCategories[category].holographicTheme;
     
     return { posts, theme };
   }
 
-  // Get related posts using AI-powered similarity
+  // Get related published posts ranked by content similarity
   async getRelatedPosts(postId: string, limit: number = 3): Promise<BlogPost[]> {
-    // This would integrate with semantic search API
-    // For now, return posts from same category
-    const currentPost = await this.provider.getPost(postId);
+    const currentPost = await this.provider.getPostById(postId);
     if (!currentPost) return [];
-    
-    return this.provider.getPosts({
-      category: currentPost.category,
-      limit: limit + 1
-    }).then(posts => posts.filter(p => p.id !== postId).slice(0, limit));
+
+    await this.ensureSimilarity();
+    return this.similarity.related(currentPost, limit).map(related => related.post);
+  }
+
+  // Registered authors plus implicit ones behind bylines of published posts
+  async getAuthors(): Promise<Author[]> {
+    const registered = await this.authors.list();
+    const known = new Set(registered.map(author => author.id));
+    const { items: posts } = await this.provider.getPosts({ status: 'published' });
+
+    const implicit: Author[] = [];
+    for (const post of posts) {
+      const id = contentUtils.authorId(post.author);
+      if (known.has(id)) continue;
+      known.add(id);
+      implicit.push({ ...post.author, id });
+    }
+    return [...registered, ...implicit].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getAuthor(id: string): Promise<Author | null> {
+    const registered = await this.authors.get(id);
+    if (registered) return registered;
+
+    const { items: [latest] } = await this.provider.getPosts({ author: id, status: 'all', limit: 1 });
+    return latest ? { ...latest.author, id } : null;
+  }
+
+  async getPostsByAuthor(id: string, options: Omit<GetPostsOptions, 'author'> = {}): Promise<PostPage> {
+    return this.provider.getPosts({ ...options, author: id });
+  }
+
+  /**
+   * Create or update an author profile and rewrite the byline on every post
+   * by that author (any status), so a rename lands everywhere at once.
+   */
+  async saveAuthor(author: Author, meta: RevisionMeta = {}): Promise<{ author: Author; updatedPosts: BlogPost[] }> {
+    if (!author.id || !author.name.trim()) {
+      throw new ContentError('Authors need an id and a name', 'invalid');
+    }
+
+    const saved = await this.authors.save(author);
+    const byline = bylineFor(saved);
+    const { items: posts } = await this.provider.getPosts({ author: saved.id, status: 'all' });
+
+    const updatedPosts: BlogPost[] = [];
+    for (const post of posts) {
+      if (diffPosts({ author: post.author }, { author: byline }).length === 0) continue;
+      updatedPosts.push(await this.updatePost(post.id, { author: byline }, {
+        author: meta.author,
+        message: meta.message ?? `Author profile "${saved.name}" updated`
+      }));
+    }
+    return { author: saved, updatedPosts };
+  }
+
+  async renameAuthor(id: string, name: string, meta?: RevisionMeta): Promise<{ author: Author; updatedPosts: BlogPost[] }> {
+    const author = await this.getAuthor(id);
+    if (!author) {
+      throw new ContentError('Author not found', 'not_found');
+    }
+    return this.saveAuthor({ ...author, name }, meta);
+  }
+
+  // Registered tags plus implicit ones on published posts, most used first
+  async getTags(): Promise<TagUsage[]> {
+    const [registered, { items: posts }] = await Promise.all([
+      this.tags.list(),
+      this.provider.getPosts({ status: 'published' })
+    ]);
+    return countTags(posts, registered, contentUtils.generateSlug);
+  }
+
+  async getTag(id: string): Promise<TagUsage | null> {
+    return (await this.getTags()).find(tag => tag.id === id) ?? null;
+  }
+
+  /**
+   * Create or update a registered tag and rewrite every post whose tags
+   * normalize differently afterwards (e.g. a spelling that became a synonym).
+   */
+  async saveTag(
+    tag: Pick<Tag, 'name'> & Partial<Pick<Tag, 'synonyms' | 'description'>>,
+    meta: RevisionMeta = {}
+  ): Promise<{ tag: Tag; updatedPosts: BlogPost[] }> {
+    const name = tag.name.replace(/\s+/g, ' ').trim();
+    const id = contentUtils.generateSlug(name);
+    if (!id) {
+      throw new ContentError('Tags need a name with letters or digits', 'invalid');
+    }
+
+    const existing = await this.tags.get(id);
+    const saved = await this.storeTag({
+      id,
+      name,
+      synonyms: tag.synonyms ?? existing?.synonyms ?? [],
+      description: tag.description ?? existing?.description,
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date()
+    }, [id]);
+    return { tag: saved, updatedPosts: await this.retagPosts(`Tag "${saved.name}" updated`, meta) };
+  }
+
+  /** Rename a tag everywhere; the old name stays on as a synonym */
+  async renameTag(id: string, name: string, meta: RevisionMeta = {}): Promise<{ tag: Tag; updatedPosts: BlogPost[] }> {
+    const current = await this.getTag(id);
+    if (!current) {
+      throw new ContentError('Tag not found', 'not_found');
+    }
+
+    const renamed = name.replace(/\s+/g, ' ').trim();
+    const newId = contentUtils.generateSlug(renamed);
+    if (!newId) {
+      throw new ContentError('Tags need a name with letters or digits', 'invalid');
+    }
+    if (newId !== id && await this.tags.get(newId)) {
+      throw new ContentError(`Tag "${newId}" already exists; merge the tags instead`, 'slug_conflict');
+    }
+
+    const existing = await this.tags.get(id);
+    const saved = await this.storeTag({
+      id: newId,
+      name: renamed,
+      synonyms: [...current.synonyms, current.name],
+      ...(current.description && { description: current.description }),
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date()
+    }, [id, newId]);
+    if (newId !== id) await this.tags.delete(id);
+
+    return { tag: saved, updatedPosts: await this.retagPosts(`Tag "${current.name}" renamed to "${saved.name}"`, meta) };
+  }
+
+  /** Fold other tags into the target: their names become synonyms and posts are retagged */
+  async mergeTags(sourceIds: string[], targetId: string, meta: RevisionMeta = {}): Promise<{ tag: Tag; updatedPosts: BlogPost[] }> {
+    const usage = await this.getTags();
+    const find = (id: string) => {
+      const found = usage.find(tag => tag.id === id);
+      if (!found) throw new ContentError(`Tag "${id}" not found`, 'not_found');
+      return found;
+    };
+    const target = find(targetId);
+    const sources = sourceIds.filter(id => id !== targetId).map(find);
+    if (sources.length === 0) {
+      throw new ContentError('Name at least one tag to merge into the target', 'invalid');
+    }
+
+    const existing = await this.tags.get(target.id);
+    const saved = await this.storeTag({
+      id: target.id,
+      name: target.name,
+      synonyms: sources.reduce((synonyms, source) => [...synonyms, source.name, ...source.synonyms], target.synonyms),
+      ...(target.description && { description: target.description }),
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date()
+    }, [target.id, ...sources.map(source => source.id)]);
+    for (const source of sources) {
+      if (source.registered) await this.tags.delete(source.id);
+    }
+
+    const names = sources.map(source => `"${source.name}"`).join(', ');
+    return { tag: saved, updatedPosts: await this.retagPosts(`Tags ${names} merged into "${saved.name}"`, meta) };
+  }
+
+  // Save a tag after dropping redundant synonyms; spellings owned by another tag are rejected
+  private async storeTag(tag: Tag, replacing: string[]): Promise<Tag> {
+    const others = (await this.tags.list()).filter(other => replacing.indexOf(other.id) === -1);
+    const lookup = buildTagLookup(others);
+    const keys = new Set([tagKey(tag.name)]);
+    const synonyms: string[] = [];
+
+    for (const spelling of [tag.name, ...tag.synonyms]) {
+      const key = tagKey(spelling);
+      const owner = lookup.get(key);
+      if (owner) {
+        throw new ContentError(`"${spelling}" already belongs to tag "${owner.name}"`, 'invalid');
+      }
+      if (!key || keys.has(key)) continue;
+      keys.add(key);
+      synonyms.push(spelling.replace(/\s+/g, ' ').trim());
+    }
+    return this.tags.save({ ...tag, synonyms });
+  }
+
+  private async normalizeTags(tags: string[]): Promise<string[]> {
+    return normalizeTags(tags, buildTagLookup(await this.tags.list()));
+  }
+
+  private async retagPosts(message: string, meta: RevisionMeta): Promise<BlogPost[]> {
+    const lookup = buildTagLookup(await this.tags.list());
+    const { items: posts } = await this.provider.getPosts({ status: 'all' });
+
+    const updatedPosts: BlogPost[] = [];
+    for (const post of posts) {
+      const tags = normalizeTags(post.tags, lookup);
+      if (tags.length === post.tags.length && tags.every((tag, index) => tag === post.tags[index])) continue;
+      updatedPosts.push(await this.updatePost(post.id, { tags }, {
+        author: meta.author,
+        message: meta.message ?? message
+      }));
+    }
+    return updatedPosts;
+  }
+
+  async listSeries(): Promise<Series[]> {
+    return (await this.series.list()).sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  async getSeries(id: string): Promise<Series | null> {
+    return this.series.get(id);
+  }
+
+  async saveSeries(series: Omit<Series, 'createdAt' | 'updatedAt'>): Promise<Series> {
+    if (!series.id || !series.title.trim()) {
+      throw new ContentError('Series need an id and a title', 'invalid');
+    }
+
+    const existing = await this.series.get(series.id);
+    const now = new Date();
+    return this.series.save({ ...series, createdAt: existing?.createdAt ?? now, updatedAt: now });
+  }
+
+  /**
+   * Remove a series record; its parts (any status) stay as standalone posts.
+   * Returns the posts that left the series.
+   */
+  async deleteSeries(id: string, meta: RevisionMeta = {}): Promise<BlogPost[]> {
+    const series = await this.series.get(id);
+    if (!series) {
+      throw new ContentError('Series not found', 'not_found');
+    }
+
+    const { items: parts } = await this.provider.getPosts({ series: id, status: 'all' });
+    const updatedPosts: BlogPost[] = [];
+    for (const part of parts) {
+      updatedPosts.push(await this.removeFromSeries(part.id, {
+        author: meta.author,
+        message: meta.message ?? `Series "${series.title}" deleted`
+      }));
+    }
+    await this.series.delete(id);
+    return updatedPosts;
+  }
+
+  /** Open series whose topic matches, e.g. "4D Polytopes" for "4D Polytopes (Part 3)" */
+  async findOpenSeries(topic: string): Promise<Series | null> {
+    const key = seriesTopicKey(topic);
+    if (!key) return null;
+
+    const matches = (await this.series.list())
+      .filter(series => series.status === 'open' && seriesTopicKey(series.topic ?? series.title) === key)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    return matches[0] ?? null;
+  }
+
+  /** Part number the next post added to the series gets (drafts included) */
+  async nextSeriesPart(seriesId: string): Promise<number> {
+    const { items: parts } = await this.provider.getPosts({ series: seriesId, status: 'all' });
+    return parts.reduce((max, post) => Math.max(max, post.series!.part), 0) + 1;
+  }
+
+  /** Series record plus its parts in reading order; null for an unknown series */
+  async getSeriesLanding(id: string, options: Pick<GetPostsOptions, 'status'> = {}): Promise<SeriesLanding | null> {
+    const series = await this.series.get(id);
+    if (!series) return null;
+
+    const { items: parts } = await this.provider.getPosts({ series: id, status: options.status ?? 'published' });
+    return buildSeriesLanding(series, parts);
+  }
+
+  /**
+   * "Part n of m" with previous/next links for a post. Counts published
+   * parts only unless another status filter is given (e.g. for previews).
+   */
+  async getSeriesNavigation(postId: string, options: Pick<GetPostsOptions, 'status'> = {}): Promise<SeriesNavigation | null> {
+    const post = await this.provider.getPostById(postId);
+    const series = post?.series && await this.series.get(post.series.id);
+    if (!post || !series) return null;
+
+    const { items: parts } = await this.provider.getPosts({ series: series.id, status: options.status ?? 'published' });
+    return seriesNavigation(series, parts, postId);
+  }
+
+  /** Append a post to a series as its next part */
+  async addToSeries(postId: string, seriesId: string, meta: RevisionMeta = {}): Promise<BlogPost> {
+    const part = await this.nextSeriesPart(seriesId);
+    return this.updatePost(postId, { series: { id: seriesId, part } }, {
+      author: meta.author,
+      message: meta.message ?? `Added to series "${seriesId}" as part ${part}`
+    });
+  }
+
+  async removeFromSeries(postId: string, meta: RevisionMeta = {}): Promise<BlogPost> {
+    return this.updatePost(postId, { series: undefined }, {
+      author: meta.author,
+      message: meta.message ?? 'Removed from series'
+    });
+  }
+
+  /** Renumber a series 1..n in the given order; postIds must list every part */
+  async reorderSeries(seriesId: string, postIds: string[], meta: RevisionMeta = {}): Promise<BlogPost[]> {
+    const { items: parts } = await this.provider.getPosts({ series: seriesId, status: 'all' });
+    const members = new Set(parts.map(post => post.id));
+    if (postIds.length !== members.size || new Set(postIds).size !== postIds.length || !postIds.every(id => members.has(id))) {
+      throw new ContentError('Reordering must list every part of the series exactly once', 'invalid');
+    }
+
+    const updated: BlogPost[] = [];
+    for (let index = 0; index < postIds.length; index++) {
+      const post = parts.find(part => part.id === postIds[index])!;
+      const part = index + 1;
+      if (post.series!.part === part) {
+        updated.push(post);
+        continue;
+      }
+      updated.push(await this.updatePost(post.id, { series: { id: seriesId, part } }, {
+        author: meta.author,
+        message: meta.message ?? `Moved to part ${part} of series "${seriesId}"`
+      }));
+    }
+    return updated;
+  }
+
+  // Editorial lint (see content/lint.ts) against every stored post
+  async lintPost(post: Partial<BlogPost>): Promise<LintReport> {
+    const { items } = await this.provider.getPosts({ status: 'all' });
+    return lintPost(post, { posts: items });
+  }
+
+  async lintPosts(options: Pick<GetPostsOptions, 'status'> = {}): Promise<LintReport[]> {
+    const [{ items: selected }, { items: all }] = await Promise.all([
+      this.provider.getPosts({ status: options.status ?? 'all' }),
+      this.provider.getPosts({ status: 'all' })
+    ]);
+    return lintPosts(selected, all);
+  }
+
+  /**
+   * A slug another post uses is a conflict in any status. Lint errors block
+   * published and scheduled posts (enforceLint), unless the post already had
+   * them before this update, so retagging or renaming older posts still works.
+   */
+  private async checkLint(post: Omit<BlogPost, 'id'> | BlogPost, before?: BlogPost): Promise<void> {
+    const { items } = await this.provider.getPosts({ status: 'all' });
+    const report = lintPost(post, { posts: items });
+
+    if (!before || before.slug !== post.slug) {
+      const duplicate = report.issues.find(issue => issue.rule === 'duplicate-slug');
+      if (duplicate) throw new ContentError(`Slug "${post.slug}" is already in use`, 'slug_conflict');
+    }
+    if (this.enforceLint.indexOf(post.status) === -1) return;
+
+    const key = (issue: LintReport['issues'][number]) => `${issue.rule}:${issue.message}`;
+    const known = new Set(
+      before && this.enforceLint.indexOf(before.status) !== -1
+        ? lintPost(before, { posts: items }).issues.map(key)
+        : []
+    );
+    const errors = report.issues.filter(issue => issue.severity === 'error' && !known.has(key(issue)));
+    if (errors.length) throw new LintError(report, errors);
+  }
+
+  // Posts may only reference registered series that still take parts
+  private async checkSeries(membership: BlogPost['series'], current?: BlogPost['series']): Promise<void> {
+    if (!membership || membership.id === current?.id) return;
+
+    const series = await this.series.get(membership.id);
+    if (!series) {
+      throw new ContentError(`Unknown series "${membership.id}"`, 'invalid');
+    }
+    if (series.status !== 'open') {
+      throw new ContentError(`Series "${series.title}" is complete`, 'invalid');
+    }
+    if (!Number.isInteger(membership.part) || membership.part < 1) {
+      throw new ContentError('Series parts are numbered from 1', 'invalid');
+    }
+  }
+
+  // Registered profiles are the source of truth for bylines on new and edited posts
+  private async resolveByline(byline: BlogPost['author']): Promise<BlogPost['author']> {
+    const id = contentUtils.authorId(byline);
+    const registered = await this.authors.get(id);
+    return registered ? bylineFor(registered) : { ...byline, id };
   }
 
   // AI-powered content generation
@@ -91,12 +557,110 @@ export class ContentAPI {
 
   // Search with AI semantic understanding
   async searchPosts(query: string): Promise<BlogPost[]> {
+    if (this.searchIndex) {
+      return (await this.search(query)).map(hit => hit.post);
+    }
     // This would integrate with Algolia or custom semantic search
     return this.provider.searchPosts(query);
   }
 
+  // Ranked search with highlighted snippets (requires the built-in index)
+  async search(query: string, options?: SearchOptions): Promise<SearchHit[]> {
+    if (!this.searchIndex) {
+      throw new ContentError('Built-in search is not enabled', 'invalid');
+    }
+    await this.ensureSearchIndex();
+    return this.searchIndex.search(query, options);
+  }
+
+  // Rebuild the search index from the provider, e.g. after files changed on disk
+  async reindex(): Promise<void> {
+    this.searchIndexReady = null;
+    this.invalidateSimilarity();
+    await this.ensureSearchIndex();
+  }
+
+  private ensureSearchIndex(): Promise<void> {
+    if (!this.searchIndex) return Promise.resolve();
+    if (!this.searchIndexReady) {
+      const index = this.searchIndex;
+      this.searchIndexReady = this.provider.getPosts({ status: 'published' })
+        .then(page => index.rebuild(page.items))
+        .catch(error => {
+          this.searchIndexReady = null;
+          throw error;
+        });
+    }
+    return this.searchIndexReady;
+  }
+
+  private async ensureSimilarity() {
+    if (!this.similarity.isStale) return;
+
+    const generation = this.similarityGeneration;
+    const { items: posts } = await this.provider.getPosts({ status: 'published' });
+    this.similarity.rebuild(posts);
+    // A write landed while the corpus was loading; rebuild again next time
+    if (generation !== this.similarityGeneration) {
+      this.similarity.invalidate();
+    }
+  }
+
+  private invalidateSimilarity() {
+    this.similarityGeneration++;
+    this.similarity.invalidate();
+  }
+
+  // Keep derived indexes in step with writes; only published posts are searchable
+  private async syncIndexes(post: BlogPost | null, id: string) {
+    this.invalidateSimilarity();
+    if (!this.searchIndex || !this.searchIndexReady) return;
+    await this.searchIndexReady;
+
+    if (post && post.status === 'published') {
+      this.searchIndex.update(post);
+    } else {
+      this.searchIndex.remove(id);
+    }
+  }
+
+  // Lifecycle transitions
+  async publishPost(id: string, meta?: RevisionMeta): Promise<BlogPost> {
+    return this.updatePost(id, { status: 'published', publishedAt: new Date() }, meta);
+  }
+
+  async schedulePost(id: string, scheduledFor: Date, meta?: RevisionMeta): Promise<BlogPost> {
+    if (Number.isNaN(scheduledFor.getTime())) {
+      throw new ContentError('Invalid scheduledFor date', 'invalid');
+    }
+    return this.updatePost(id, { status: 'scheduled', scheduledFor }, meta);
+  }
+
+  async archivePost(id: string, meta?: RevisionMeta): Promise<BlogPost> {
+    return this.updatePost(id, { status: 'archived' }, meta);
+  }
+
+  // Publish scheduled posts whose release time has passed
+  async publishDuePosts(now: Date = new Date()): Promise<BlogPost[]> {
+    const { items: scheduled } = await this.provider.getPosts({ status: 'scheduled' });
+    const due = scheduled.filter(post => post.scheduledFor && post.scheduledFor.getTime() <= now.getTime());
+
+    const published: BlogPost[] = [];
+    for (const post of due) {
+      published.push(await this.updatePost(post.id, {
+        status: 'published',
+        publishedAt: post.scheduledFor
+      }, { author: 'scheduler', message: 'Scheduled release' }));
+    }
+    return published;
+  }
+
   // Direct provider methods (delegated)
-  async getPosts(options?: GetPostsOptions): Promise<BlogPost[]> {
+  async getPosts(options?: GetPostsOptions): Promise<PostPage> {
+    // Filtering by a synonym finds posts under the canonical name
+    if (options?.tags?.length) {
+      return this.provider.getPosts({ ...options, tags: await this.normalizeTags(options.tags) });
+    }
     return this.provider.getPosts(options);
   }
 
@@ -104,30 +668,177 @@ export class ContentAPI {
     return this.provider.getPost(slug);
   }
 
-  async createPost(post: Omit<BlogPost, 'id'>): Promise<BlogPost> {
-    return this.provider.createPost(post);
+  async getPostById(id: string): Promise<BlogPost | null> {
+    return this.provider.getPostById(id);
   }
 
-  async updatePost(id: string, updates: Partial<BlogPost>): Promise<BlogPost> {
-    return this.provider.updatePost(id, updates);
+  async createPost(post: Omit<BlogPost, 'id'>, meta: RevisionMeta = {}): Promise<BlogPost> {
+    await this.checkSeries(post.series);
+    await this.checkLint(post);
+    const created = await this.provider.createPost({
+      ...post,
+      author: await this.resolveByline(post.author),
+      tags: await this.normalizeTags(post.tags)
+    });
+    await this.revisions.record({
+      postId: created.id,
+      author: meta.author ?? created.author.name,
+      createdAt: new Date(),
+      message: meta.message ?? 'Created',
+      snapshot: created,
+      changes: diffPosts(null, created)
+    });
+    await this.syncIndexes(created, created.id);
+    return created;
+  }
+
+  /**
+   * Create a post brought in from another site or archive. Its earlier
+   * revisions are replayed under the new post id, followed by an import
+   * revision; series membership is taken as-is, so importers check it first.
+   */
+  async importPost(post: Omit<BlogPost, 'id'>, history: PostRevision[] = [], meta: RevisionMeta = {}): Promise<BlogPost> {
+    const created = await this.provider.createPost({
+      ...post,
+      author: await this.resolveByline(post.author),
+      tags: await this.normalizeTags(post.tags)
+    });
+    let previous: BlogPost | null = null;
+
+    for (const revision of history) {
+      const snapshot = { ...revision.snapshot, id: created.id };
+      await this.revisions.record({
+        postId: created.id,
+        author: revision.author,
+        createdAt: revision.createdAt,
+        message: revision.message,
+        snapshot,
+        changes: diffPosts(previous, snapshot)
+      });
+      previous = snapshot;
+    }
+
+    await this.revisions.record({
+      postId: created.id,
+      author: meta.author ?? created.author.name,
+      createdAt: new Date(),
+      message: meta.message ?? 'Imported',
+      snapshot: created,
+      changes: diffPosts(previous, created)
+    });
+    await this.syncIndexes(created, created.id);
+    return created;
+  }
+
+  // Every update is recorded as an immutable revision with a field-level diff
+  async updatePost(id: string, updates: Partial<BlogPost>, meta: RevisionMeta = {}): Promise<BlogPost> {
+    const before = await this.provider.getPostById(id);
+    if (!before) {
+      throw new ContentError('Post not found', 'not_found');
+    }
+    await this.checkSeries(updates.series, before.series);
+    await this.checkLint({ ...before, ...updates }, before);
+
+    const history = await this.revisions.list(id);
+    if (history.length === 0) {
+      // Posts loaded from files or created before revisions existed get a baseline
+      await this.revisions.record({
+        postId: id,
+        author: before.author.name,
+        createdAt: before.updatedAt,
+        message: 'Baseline',
+        snapshot: before,
+        changes: diffPosts(null, before)
+      });
+    }
+
+    const updated = await this.provider.updatePost(id, {
+      ...updates,
+      ...(updates.author && { author: await this.resolveByline(updates.author) }),
+      ...(updates.tags && { tags: await this.normalizeTags(updates.tags) })
+    });
+    await this.revisions.record({
+      postId: id,
+      author: meta.author ?? 'system',
+      createdAt: new Date(),
+      message: meta.message,
+      snapshot: updated,
+      changes: diffPosts(before, updated)
+    });
+    await this.syncIndexes(updated, id);
+    return updated;
   }
 
   async deletePost(id: string): Promise<void> {
-    return this.provider.deletePost(id);
+    await this.provider.deletePost(id);
+    await this.syncIndexes(null, id);
+  }
+
+  // Revision history
+  async getRevisions(id: string): Promise<PostRevision[]> {
+    return this.revisions.list(id);
+  }
+
+  async diffRevisions(fromRevisionId: string, toRevisionId: string): Promise<FieldChange[]> {
+    const [from, to] = await Promise.all([
+      this.revisions.get(fromRevisionId),
+      this.revisions.get(toRevisionId)
+    ]);
+    if (!from || !to) {
+      throw new ContentError('Revision not found', 'not_found');
+    }
+    if (from.postId !== to.postId) {
+      throw new ContentError('Revisions belong to different posts', 'invalid');
+    }
+
+    return diffPosts(from.snapshot, to.snapshot);
+  }
+
+  // Roll a post back to an earlier revision; the rollback itself becomes a new revision
+  async restoreRevision(id: string, revisionId: string, meta: RevisionMeta = {}): Promise<BlogPost> {
+    const revision = await this.revisions.get(revisionId);
+    if (!revision || revision.postId !== id) {
+      throw new ContentError('Revision not found', 'not_found');
+    }
+
+    const current = await this.provider.getPostById(id);
+    if (!current) {
+      throw new ContentError('Post not found', 'not_found');
+    }
+
+    // Replace the post with the snapshot: fields added since (a series,
+    // a schedule) are cleared rather than merged over
+    const { id: _id, updatedAt: _updatedAt, ...restored } = revision.snapshot;
+    const cleared: Partial<BlogPost> = {};
+    Object.keys(current).forEach(key => {
+      if (key !== 'id' && key !== 'updatedAt' && !Object.prototype.hasOwnProperty.call(restored, key)) {
+        (cleared as Record<string, unknown>)[key] = undefined;
+      }
+    });
+
+    return this.updatePost(id, { ...cleared, ...restored }, {
+      author: meta.author,
+      message: meta.message ?? `Restored revision ${revision.number}`
+    });
   }
 }
 
 // MDX File Provider (for development/static content)
 export class MDXContentProvider implements ContentProvider {
-  private posts: BlogPost[] = [];
+  protected posts: BlogPost[] = [];
 
-  constructor() {
-    // In real implementation, this would read MDX files from filesystem
-    this.loadMDXFiles();
+  constructor(posts?: BlogPost[]) {
+    // Seed posts are loaded from /content on the server;
+    // without them fall back to the bundled sample posts
+    if (posts) {
+      this.posts = posts;
+    } else {
+      this.loadMDXFiles();
+    }
   }
 
   private loadMDXFiles() {
-    // Mock data for now - in production, read from /content directory
+    // Sample posts used in the browser and when no /content directory exists
     this.posts = [
       // AI News & Research Posts
       {
@@ -142,6 +853,7 @@ export class MDXContentProvider implements ContentProvider {
         },
         publishedAt: new Date('2024-09-20'),
         updatedAt: new Date('2024-09-20'),
+        status: 'published',
         tags: ['AI', 'LLM', 'Research', 'GPT-4'],
         category: 'ai-news',
         readingTime: 8,
@@ -164,6 +876,7 @@ export class MDXContentProvider implements ContentProvider {
         },
         publishedAt: new Date('2024-09-18'),
         updatedAt: new Date('2024-09-18'),
+        status: 'published',
         tags: ['AI', 'Computer Vision', 'Multimodal', 'Deep Learning'],
         category: 'ai-news',
         readingTime: 6,
@@ -188,6 +901,7 @@ export class MDXContentProvider implements ContentProvider {
         },
         publishedAt: new Date('2024-09-15'),
         updatedAt: new Date('2024-09-15'),
+        status: 'published',
         tags: ['WebGL', 'Shaders', 'Generative Art', 'Creative Coding'],
         category: 'vibe-coding',
         readingTime: 12,
@@ -210,6 +924,7 @@ export class MDXContentProvider implements ContentProvider {
         },
         publishedAt: new Date('2024-09-12'),
         updatedAt: new Date('2024-09-12'),
+        status: 'published',
         tags: ['4D Visualization', '3D Graphics', 'Mathematics', 'Interactive'],
         category: 'vibe-coding',
         readingTime: 15,
@@ -234,6 +949,7 @@ export class MDXContentProvider implements ContentProvider {
         },
         publishedAt: new Date('2024-09-10'),
         updatedAt: new Date('2024-09-10'),
+        status: 'published',
         tags: ['Information Theory', 'Shannon Entropy', 'Neural Networks', 'Compression'],
         category: 'info-theory',
         readingTime: 9,
@@ -258,6 +974,7 @@ export class MDXContentProvider implements ContentProvider {
         },
         publishedAt: new Date('2024-09-08'),
         updatedAt: new Date('2024-09-08'),
+        status: 'published',
         tags: ['AGI', 'AI Ethics', 'Philosophy', 'Society'],
         category: 'philosophy',
         readingTime: 11,
@@ -280,6 +997,7 @@ export class MDXContentProvider implements ContentProvider {
         },
         publishedAt: new Date('2024-09-05'),
         updatedAt: new Date('2024-09-05'),
+        status: 'published',
         tags: ['Consciousness', 'Philosophy of Mind', 'AI', 'Cognitive Science'],
         category: 'philosophy',
         readingTime: 13,
@@ -293,9 +1011,16 @@ export class MDXContentProvider implements ContentProvider {
     ];
   }
 
-  async getPosts(options: GetPostsOptions = {}): Promise<BlogPost[]> {
+  async getPosts(options: GetPostsOptions = {}): Promise<PostPage> {
     let posts = [...this.posts];
 
+    // Filter by lifecycle status (public listings only see published posts)
+    const status = options.status ?? 'published';
+    if (status !== 'all') {
+      const allowed = Array.isArray(status) ? status : [status];
+      posts = posts.filter(post => allowed.includes(post.status));
+    }
+
     // Filter by category
     if (options.category) {
       posts = posts.filter(post => post.category === options.category);
@@ -308,44 +1033,32 @@ export class MDXContentProvider implements ContentProvider {
       );
     }
 
-    // Sort posts
-    if (options.sortBy) {
-      posts.sort((a, b) => {
-        const aVal = a[options.sortBy!];
-        const bVal = b[options.sortBy!];
-        
-        if (aVal instanceof Date && bVal instanceof Date) {
-          return options.sortOrder === 'desc' ? bVal.getTime() - aVal.getTime() : aVal.getTime() - bVal.getTime();
-        }
-        
-        if (typeof aVal === 'number' && typeof bVal === 'number') {
-          return options.sortOrder === 'desc' ? bVal - aVal : aVal - bVal;
-        }
-        
-        return 0;
-      });
+    // Filter by author id
+    if (options.author) {
+      posts = posts.filter(post => contentUtils.authorId(post.author) === options.author);
     }
 
-    // Apply limit and offset
-    if (options.offset) {
-      posts = posts.slice(options.offset);
-    }
-    
-    if (options.limit) {
-      posts = posts.slice(0, options.limit);
+    // Filter by series id
+    if (options.series) {
+      posts = posts.filter(post => post.series?.id === options.series);
     }
 
-    return posts;
+    // Sort, then cut the page by cursor or offset
+    return paginatePosts(posts, options);
   }
 
   async getPost(slug: string): Promise<BlogPost | null> {
     return this.posts.find(post => post.slug === slug) || null;
   }
 
+  async getPostById(id: string): Promise<BlogPost | null> {
+    return this.posts.find(post => post.id === id) || null;
+  }
+
   async createPost(post: Omit<BlogPost, 'id'>): Promise<BlogPost> {
     const newPost: BlogPost = {
       ...post,
-      id: Math.random().toString(36).substr(2, 9)
+      id: randomUUID()
     };
     this.posts.push(newPost);
     return newPost;
@@ -354,10 +1067,15 @@ export class MDXContentProvider implements ContentProvider {
   async updatePost(id: string, updates: Partial<BlogPost>): Promise<BlogPost> {
     const index = this.posts.findIndex(post => post.id === id);
     if (index === -1) {
-      throw new Error('Post not found');
+      throw new ContentError('Post not found', 'not_found');
     }
     
-    this.posts[index] = { ...this.posts[index], ...updates, updatedAt: new Date() };
+    const updated: Record<string, unknown> = { ...this.posts[index], ...updates, updatedAt: new Date() };
+    // An undefined update clears the field
+    Object.keys(updated).forEach(key => {
+      if (updated[key] === undefined) delete updated[key];
+    });
+    this.posts[index] = updated as unknown as BlogPost;
     return this.posts[index];
   }
 
@@ -368,14 +1086,96 @@ export class MDXContentProvider implements ContentProvider {
   async searchPosts(query: string): Promise<BlogPost[]> {
     const lowercaseQuery = query.toLowerCase();
     return this.posts.filter(post =>
-      post.title.toLowerCase().includes(lowercaseQuery) ||
-      post.excerpt.toLowerCase().includes(lowercaseQuery) ||
-      post.content.toLowerCase().includes(lowercaseQuery) ||
-      post.tags.some(tag => tag.toLowerCase().includes(lowercaseQuery))
+      post.status === 'published' && (
+        post.title.toLowerCase().includes(lowercaseQuery) ||
+        post.excerpt.toLowerCase().includes(lowercaseQuery) ||
+        post.content.toLowerCase().includes(lowercaseQuery) ||
+        post.tags.some(tag => tag.toLowerCase().includes(lowercaseQuery))
+      )
     );
   }
 }
 
+type PostSortField = NonNullable<GetPostsOptions['sortBy']>;
+
+interface PostCursor {
+  sortBy: PostSortField;
+  sortOrder: 'asc' | 'desc';
+  value: number;
+  id: string;
+}
+
+/**
+ * Order already-filtered posts and cut one page. Posts are sorted by
+ * sortBy/sortOrder with ties broken by id, and a cursor resumes strictly
+ * after the last post it saw, so pages never repeat or skip posts when
+ * dates collide or posts are added between requests.
+ */
+export function paginatePosts(posts: BlogPost[], options: GetPostsOptions = {}): PostPage {
+  const sortBy = options.sortBy ?? 'publishedAt';
+  const sortOrder = options.sortOrder ?? 'desc';
+  const sorted = [...posts].sort((a, b) => comparePostPosition(a, sortValue(b, sortBy), b.id, sortBy, sortOrder));
+
+  let start = options.offset ?? 0;
+  if (options.cursor) {
+    const cursor = decodePostCursor(options.cursor);
+    if (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder) {
+      throw new ContentError('Cursor was issued for a different sort order', 'invalid');
+    }
+    const next = sorted.findIndex(post => comparePostPosition(post, cursor.value, cursor.id, sortBy, sortOrder) > 0);
+    start = next === -1 ? sorted.length : next;
+  }
+
+  const end = options.limit ? start + options.limit : sorted.length;
+  const items = sorted.slice(start, end);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: last && end < sorted.length
+      ? encodePostCursor({ sortBy, sortOrder, value: sortValue(last, sortBy), id: last.id })
+      : null,
+    total: sorted.length
+  };
+}
+
+export function encodePostCursor(cursor: PostCursor): string {
+  const json = JSON.stringify([cursor.sortBy, cursor.sortOrder, cursor.value, cursor.id]);
+  return btoa(encodeURIComponent(json)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodePostCursor(cursor: string): PostCursor {
+  try {
+    const json = decodeURIComponent(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+    const [sortBy, sortOrder, value, id] = JSON.parse(json);
+    if (
+      ['publishedAt', 'updatedAt', 'readingTime'].includes(sortBy) &&
+      (sortOrder === 'asc' || sortOrder === 'desc') &&
+      typeof value === 'number' &&
+      typeof id === 'string'
+    ) {
+      return { sortBy, sortOrder, value, id };
+    }
+  } catch {
+    // Fall through to the typed error below
+  }
+  throw new ContentError('Invalid pagination cursor', 'invalid');
+}
+
+function sortValue(post: BlogPost, sortBy: PostSortField): number {
+  const value = post[sortBy];
+  return value instanceof Date ? value.getTime() : value;
+}
+
+// Negative when `post` comes before the (value, id) position in the listing order
+function comparePostPosition(post: BlogPost, value: number, id: string, sortBy: PostSortField, sortOrder: 'asc' | 'desc'): number {
+  const difference = sortValue(post, sortBy) - value;
+  if (difference !== 0) {
+    return sortOrder === 'asc' ? difference : -difference;
+  }
+  return post.id < id ? -1 : post.id > id ? 1 : 0;
+}
+
 // Sanity CMS Provider (for production)
 export class SanityCMSProvider implements ContentProvider {
   private client: any; // SanityClient type
@@ -385,8 +1185,10 @@ export class SanityCMSProvider implements ContentProvider {
     // this.client = createClient(config);
   }
 
-  async getPosts(options: GetPostsOptions = {}): Promise<BlogPost[]> {
+  async getPosts(options: GetPostsOptions = {}): Promise<PostPage> {
     // Implement Sanity GROQ queries
+    // Order by `${sortBy} ${sortOrder}, _id asc` and filter past decodePostCursor(cursor)
+    // so cursors stay interchangeable with the in-memory providers
     throw new Error('Sanity integration not implemented yet');
   }
 
@@ -395,6 +1197,11 @@ export class SanityCMSProvider implements ContentProvider {
     throw new Error('Sanity integration not implemented yet');
   }
 
+  async getPostById(id: string): Promise<BlogPost | null> {
+    // Implement fetch by document id
+    throw new Error('Sanity integration not implemented yet');
+  }
+
   async createPost(post: Omit<BlogPost, 'id'>): Promise<BlogPost> {
     // Create post in Sanity
     throw new Error('Sanity integration not implemented yet');
@@ -417,7 +1224,9 @@ export class SanityCMSProvider implements ContentProvider {
 }
 
 // Export singleton instance
-export const contentAPI = new ContentAPI(new MDXContentProvider());
+export const contentAPI = new ContentAPI(new MDXContentProvider(), {
+  search: defaultBlogConfig.integrations.search === 'built-in' ? new SearchIndex() : undefined
+});
 
 // Utility functions for content operations
 export const contentUtils = {
@@ -429,6 +1238,11 @@ export const contentUtils = {
       .replace(/(^-|-$)/g, '');
   },
 
+  // Author id behind a byline; bylines without one use the slug of the name
+  authorId: (author: { id?: string; name: string }): string => {
+    return author.id || contentUtils.generateSlug(author.name);
+  },
+
   // Calculate reading time
   calculateReadingTime: (content: string): number => {
     const wordsPerMinute = 200;
@@ -445,11 +1259,19 @@ export const contentUtils = {
   },
 
   // Generate Open Graph image URL
-  generateOGImage: (title: string, category: keyof typeof contentCategories): string => {
+  generateOGImage: (
+    title: string,
+    category: keyof typeof contentCategories,
+    holographicParams?: Pick<NonNullable<BlogPost['holographicParams']>, 'hue' | 'density' | 'intensity'>
+  ): string => {
     const theme = contentCategories[category];
     const encodedTitle = encodeURIComponent(title);
     const color = theme.holographicTheme.primaryColor.replace('#', '');
+    // Per-post lattice overrides; the category theme is the default
+    const lattice = holographicParams
+      ? `&hue=${holographicParams.hue}&density=${holographicParams.density}&intensity=${holographicParams.intensity}`
+      : '';
     
-    return `/api/og?title=${encodedTitle}&category=${category}&color=${color}`;
+    return `/api/og?title=${encodedTitle}&category=${category}&color=${color}${lattice}`;
   }
 };
\ No newline at end of file
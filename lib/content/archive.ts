@@ -0,0 +1,173 @@
+/**
+ * VIB3CODE-0 Content Archive
+ *
+ * Portable export of everything ContentAPI holds: one Markdown file with
+ * frontmatter per post (readable by the filesystem provider as-is) plus a
+ * manifest.json with revision history, holographicParams, author profiles
+ * and series. Archives round-trip through importContent.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Author, BlogPost, PostStatus, Series, defaultBlogConfig } from '../blog-config';
+import { ContentAPI, ContentError } from '../content-api';
+import { stringifyFrontmatter } from './frontmatter';
+import { PostRevision } from './revisions';
+
+export const ARCHIVE_FORMAT = 'vib3code-archive';
+export const ARCHIVE_VERSION = 1;
+export const MANIFEST_FILE = 'manifest.json';
+
+export interface ArchiveEntry {
+  id: string;
+  slug: string;
+  /** Path of the Markdown file, relative to the archive root */
+  file: string;
+  status: PostStatus;
+  holographicParams?: BlogPost['holographicParams'];
+  /** Oldest first */
+  revisions: PostRevision[];
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: Date;
+  site: string;
+  authors: Author[];
+  series: Series[];
+  posts: ArchiveEntry[];
+}
+
+export interface ContentArchive {
+  manifest: ArchiveManifest;
+  /** Markdown sources by archive path */
+  files: Record<string, string>;
+}
+
+const DATE_FIELDS = new Set(['exportedAt', 'createdAt', 'updatedAt', 'publishedAt', 'scheduledFor']);
+
+/** Every post in any status, with its revisions */
+export async function exportArchive(api: ContentAPI, now: Date = new Date()): Promise<ContentArchive> {
+  const [{ items: posts }, authors, series] = await Promise.all([
+    api.getPosts({ status: 'all', sortBy: 'publishedAt', sortOrder: 'asc' }),
+    api.getAuthors(),
+    api.listSeries()
+  ]);
+
+  const files: Record<string, string> = {};
+  const entries: ArchiveEntry[] = [];
+  for (const post of posts) {
+    const file = `posts/${post.slug}.md`;
+    files[file] = postToMarkdown(post);
+    entries.push({
+      id: post.id,
+      slug: post.slug,
+      file,
+      status: post.status,
+      ...(post.holographicParams && { holographicParams: post.holographicParams }),
+      revisions: await api.getRevisions(post.id)
+    });
+  }
+
+  return {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: now,
+      site: defaultBlogConfig.site.url,
+      authors,
+      series,
+      posts: entries
+    },
+    files
+  };
+}
+
+/** Markdown source for a post; readingTime is left out since loaders recompute it */
+export function postToMarkdown(post: BlogPost): string {
+  return stringifyFrontmatter({
+    id: post.id,
+    title: post.title,
+    slug: post.slug,
+    excerpt: post.excerpt,
+    author: post.author,
+    publishedAt: post.publishedAt,
+    updatedAt: post.updatedAt,
+    status: post.status,
+    scheduledFor: post.scheduledFor,
+    category: post.category,
+    tags: post.tags,
+    seo: post.seo,
+    holographicParams: post.holographicParams,
+    series: post.series
+  }, post.content.endsWith('\n') ? post.content : `${post.content}\n`);
+}
+
+export async function writeArchive(directory: string, archive: ContentArchive): Promise<void> {
+  for (const file of Object.keys(archive.files)) {
+    const target = path.join(directory, file);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, archive.files[file], 'utf8');
+  }
+  await fs.promises.writeFile(
+    path.join(directory, MANIFEST_FILE),
+    `${JSON.stringify(archive.manifest, null, 2)}\n`,
+    'utf8'
+  );
+}
+
+export async function readArchive(directory: string): Promise<ContentArchive> {
+  const manifestPath = path.join(directory, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new ContentError(`No ${MANIFEST_FILE} in ${directory}`, 'invalid');
+  }
+
+  const manifest = parseManifest(await fs.promises.readFile(manifestPath, 'utf8'));
+  const files: Record<string, string> = {};
+  for (const entry of manifest.posts) {
+    const target = path.resolve(directory, entry.file);
+    if (path.relative(directory, target).startsWith('..')) {
+      throw new ContentError(`Archive entry "${entry.file}" points outside the archive`, 'invalid');
+    }
+    if (fs.existsSync(target)) {
+      files[entry.file] = await fs.promises.readFile(target, 'utf8');
+    }
+  }
+  return { manifest, files };
+}
+
+/** Revive an archive sent as JSON, e.g. to the import endpoint */
+export function reviveArchive(value: unknown): ContentArchive {
+  const archive = value as Partial<ContentArchive> | null;
+  if (!archive || typeof archive !== 'object' || !archive.files || typeof archive.files !== 'object') {
+    throw new ContentError('Archive needs a manifest and files', 'invalid');
+  }
+  return { manifest: parseManifest(JSON.stringify(archive.manifest ?? null)), files: archive.files };
+}
+
+function parseManifest(json: string): ArchiveManifest {
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(json, reviveDates);
+  } catch (error) {
+    throw new ContentError(`Corrupt archive manifest: ${(error as Error).message}`, 'invalid');
+  }
+
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT) {
+    throw new ContentError(`Not a ${ARCHIVE_FORMAT} manifest`, 'invalid');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new ContentError(`Archive version ${manifest.version} is newer than supported (${ARCHIVE_VERSION})`, 'invalid');
+  }
+  return {
+    ...manifest,
+    authors: manifest.authors ?? [],
+    series: manifest.series ?? [],
+    posts: (manifest.posts ?? []).map(entry => ({ ...entry, revisions: entry.revisions ?? [] }))
+  };
+}
+
+function reviveDates(key: string, value: unknown) {
+  return DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value;
+}
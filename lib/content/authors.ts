@@ -0,0 +1,61 @@
+/**
+ * VIB3CODE-0 Authors
+ *
+ * Author profiles referenced by BlogPost.author.id. A registered author can
+ * link to a User account; bylines without a registered profile still
+ * resolve to an implicit author whose id is the slug of the name.
+ */
+
+import { Author, User } from '../blog-config';
+
+export interface AuthorStore {
+  list(): Promise<Author[]>;
+  get(id: string): Promise<Author | null>;
+  /** Insert or replace the profile with the same id */
+  save(author: Author): Promise<Author>;
+}
+
+// In-memory store used in the browser, in tests and as the ContentAPI default
+export class InMemoryAuthorStore implements AuthorStore {
+  protected authors = new Map<string, Author>();
+
+  constructor(authors: Author[] = []) {
+    authors.forEach(author => this.authors.set(author.id, { ...author }));
+  }
+
+  async list(): Promise<Author[]> {
+    return Array.from(this.authors.values()).map(author => ({ ...author }));
+  }
+
+  async get(id: string): Promise<Author | null> {
+    const author = this.authors.get(id);
+    return author ? { ...author } : null;
+  }
+
+  async save(author: Author): Promise<Author> {
+    this.authors.set(author.id, { ...author });
+    return { ...author };
+  }
+}
+
+/** Author profile for a User account, keeping the user's id as the link */
+export function authorFromUser(user: User, id: string): Author {
+  return {
+    id,
+    name: user.name,
+    avatar: user.avatar,
+    bio: user.bio,
+    userId: user.id,
+    social: user.social
+  };
+}
+
+/** The display copy of an author stored on each post */
+export function bylineFor(author: Author): { id: string; name: string; avatar?: string; bio?: string } {
+  return {
+    id: author.id,
+    name: author.name,
+    ...(author.avatar && { avatar: author.avatar }),
+    ...(author.bio && { bio: author.bio })
+  };
+}
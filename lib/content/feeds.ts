@@ -0,0 +1,342 @@
+/**
+ * VIB3CODE-0 Syndication Feeds
+ *
+ * RSS 2.0, Atom 1.0 and JSON Feed 1.1 for the whole site, each content
+ * category, each tag and each author, in full-content and excerpt-only variants.
+ * Channel metadata comes from defaultBlogConfig.site.
+ *
+ * Feed paths (under siteRoutes.feeds):
+ *   /rss.xml, /atom.xml, /feed.json                  site-wide
+ *   /category/<key>/rss.xml ...                      one category
+ *   /tag/<tag-slug>/rss.xml ...                      one tag
+ *   /author/<author-id>/rss.xml ...                  one author
+ * An "-excerpt" suffix (rss-excerpt.xml, feed-excerpt.json) drops the body.
+ */
+
+import { BlogConfig, BlogPost, contentCategories, defaultBlogConfig, siteRoutes } from '../blog-config';
+import { ContentAPI, contentUtils } from '../content-api';
+import { escapeHtml, markdownToHtml } from './markdown';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+export type FeedVariant = 'full' | 'excerpt';
+
+export type FeedScope =
+  | { type: 'site' }
+  | { type: 'category'; category: keyof typeof contentCategories }
+  | { type: 'tag'; tag: string }
+  // name is filled in from the author profile when the feed is generated
+  | { type: 'author'; author: string; name?: string };
+
+export interface FeedRequest {
+  format: FeedFormat;
+  variant: FeedVariant;
+  scope: FeedScope;
+}
+
+export interface FeedOptions {
+  /** Most recent posts to include (default: 20) */
+  limit?: number;
+  site?: BlogConfig['site'];
+}
+
+export interface RenderedFeed {
+  body: string;
+  contentType: string;
+}
+
+const FILE_NAMES: Record<FeedFormat, string> = { rss: 'rss', atom: 'atom', json: 'feed' };
+const EXTENSIONS: Record<FeedFormat, string> = { rss: 'xml', atom: 'xml', json: 'json' };
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+};
+
+const GENERATOR = 'VIB3CODE-0';
+
+/** Site-relative path of a feed */
+export function feedPath({ format, variant, scope }: FeedRequest): string {
+  const file = `${FILE_NAMES[format]}${variant === 'excerpt' ? '-excerpt' : ''}.${EXTENSIONS[format]}`;
+  switch (scope.type) {
+    case 'site':
+      return `${siteRoutes.feeds}/${file}`;
+    case 'category':
+      return `${siteRoutes.feeds}/category/${scope.category}/${file}`;
+    case 'tag':
+      return `${siteRoutes.feeds}/tag/${contentUtils.generateSlug(scope.tag)}/${file}`;
+    case 'author':
+      return `${siteRoutes.feeds}/author/${encodeURIComponent(scope.author)}/${file}`;
+  }
+}
+
+/**
+ * Inverse of feedPath for the segments after siteRoutes.feeds. Tag scopes
+ * carry the tag slug; null when the path names no feed.
+ */
+export function parseFeedPath(segments: string[]): FeedRequest | null {
+  const file = segments[segments.length - 1]?.match(/^(rss|atom|feed)(-excerpt)?\.(xml|json)$/);
+  if (!file) return null;
+
+  const format: FeedFormat = file[1] === 'feed' ? 'json' : (file[1] as FeedFormat);
+  if (file[3] !== EXTENSIONS[format]) return null;
+  const variant: FeedVariant = file[2] ? 'excerpt' : 'full';
+
+  const scopeSegments = segments.slice(0, -1);
+  if (scopeSegments.length === 0) {
+    return { format, variant, scope: { type: 'site' } };
+  }
+  if (scopeSegments.length !== 2) return null;
+
+  const [type, value] = scopeSegments;
+  if (type === 'category' && value in contentCategories) {
+    return { format, variant, scope: { type: 'category', category: value as keyof typeof contentCategories } };
+  }
+  if (type === 'tag' && value) {
+    return { format, variant, scope: { type: 'tag', tag: value } };
+  }
+  if (type === 'author' && value) {
+    return { format, variant, scope: { type: 'author', author: value } };
+  }
+  return null;
+}
+
+/**
+ * Load the newest published posts for the scope and render the feed.
+ * Returns null for a tag no published post carries and for unknown authors.
+ */
+export async function generateFeed(api: ContentAPI, request: FeedRequest, options: FeedOptions = {}): Promise<RenderedFeed | null> {
+  const limit = options.limit ?? 20;
+  const { items: published } = await api.getPosts({
+    status: 'published',
+    category: request.scope.type === 'category' ? request.scope.category : undefined,
+    author: request.scope.type === 'author' ? request.scope.author : undefined,
+    sortBy: 'publishedAt',
+    sortOrder: 'desc'
+  });
+
+  let scope = request.scope;
+  let posts = published;
+  if (scope.type === 'tag') {
+    // Tag scopes match by slug so "Machine Learning" and "machine-learning" share a feed
+    const slug = contentUtils.generateSlug(scope.tag);
+    posts = published.filter(post => post.tags.some(tag => contentUtils.generateSlug(tag) === slug));
+    if (posts.length === 0) return null;
+    scope = { type: 'tag', tag: posts[0].tags.find(tag => contentUtils.generateSlug(tag) === slug)! };
+  }
+  if (scope.type === 'author') {
+    const author = await api.getAuthor(scope.author);
+    if (!author) return null;
+    scope = { type: 'author', author: author.id, name: author.name };
+  }
+
+  return {
+    body: renderFeed(posts.slice(0, limit), { ...request, scope }, options.site),
+    contentType: CONTENT_TYPES[request.format]
+  };
+}
+
+/** Render already-selected posts (newest first) as a feed document */
+export function renderFeed(posts: BlogPost[], request: FeedRequest, site: BlogConfig['site'] = defaultBlogConfig.site): string {
+  const channel = describeChannel(request, site);
+  const items = posts.map(post => describeItem(post, request.variant, site));
+
+  switch (request.format) {
+    case 'rss':
+      return renderRss(channel, items);
+    case 'atom':
+      return renderAtom(channel, items);
+    case 'json':
+      return renderJsonFeed(channel, items);
+  }
+}
+
+interface Channel {
+  title: string;
+  description: string;
+  homeUrl: string;
+  feedUrl: string;
+  author: string;
+}
+
+interface Item {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  contentHtml?: string;
+  published: Date;
+  updated: Date;
+  author: string;
+  categories: string[];
+  image?: string;
+}
+
+function describeChannel(request: FeedRequest, site: BlogConfig['site']): Channel {
+  const base = { feedUrl: absoluteUrl(site, feedPath(request)), author: site.author };
+  const { scope } = request;
+
+  switch (scope.type) {
+    case 'site':
+      return { ...base, title: site.name, description: site.description, homeUrl: absoluteUrl(site, siteRoutes.home) };
+    case 'category': {
+      const category = contentCategories[scope.category];
+      return {
+        ...base,
+        title: `${site.name} - ${category.name}`,
+        description: category.description,
+        homeUrl: absoluteUrl(site, siteRoutes.category(scope.category))
+      };
+    }
+    case 'tag':
+      return {
+        ...base,
+        title: `${site.name} - ${scope.tag}`,
+        description: `Posts tagged "${scope.tag}" on ${site.name}`,
+        homeUrl: absoluteUrl(site, siteRoutes.tag(contentUtils.generateSlug(scope.tag)))
+      };
+    case 'author': {
+      const name = scope.name ?? scope.author;
+      return {
+        ...base,
+        title: `${site.name} - ${name}`,
+        description: `Posts by ${name} on ${site.name}`,
+        homeUrl: absoluteUrl(site, siteRoutes.author(scope.author)),
+        author: name
+      };
+    }
+  }
+}
+
+function describeItem(post: BlogPost, variant: FeedVariant, site: BlogConfig['site']): Item {
+  const url = absoluteUrl(site, siteRoutes.post(post.slug));
+  return {
+    id: url,
+    url,
+    title: post.title,
+    summary: post.excerpt,
+    contentHtml: variant === 'full' ? markdownToHtml(post.content) : undefined,
+    published: post.publishedAt,
+    updated: post.updatedAt,
+    author: post.author.name,
+    categories: [contentCategories[post.category].name, ...post.tags],
+    image: post.seo.ogImage ? absoluteUrl(site, post.seo.ogImage) : undefined
+  };
+}
+
+function renderRss(channel: Channel, items: Item[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    `<title>${xml(channel.title)}</title>`,
+    `<link>${xml(channel.homeUrl)}</link>`,
+    `<description>${xml(channel.description)}</description>`,
+    '<language>en</language>',
+    `<lastBuildDate>${lastUpdated(items).toUTCString()}</lastBuildDate>`,
+    `<generator>${GENERATOR}</generator>`,
+    `<atom:link href="${xml(channel.feedUrl)}" rel="self" type="application/rss+xml" />`
+  ];
+
+  for (const item of items) {
+    lines.push(
+      '<item>',
+      `<title>${xml(item.title)}</title>`,
+      `<link>${xml(item.url)}</link>`,
+      `<guid isPermaLink="true">${xml(item.id)}</guid>`,
+      `<pubDate>${item.published.toUTCString()}</pubDate>`,
+      `<dc:creator>${xml(item.author)}</dc:creator>`,
+      ...item.categories.map(category => `<category>${xml(category)}</category>`),
+      `<description>${xml(item.summary)}</description>`
+    );
+    if (item.contentHtml !== undefined) {
+      lines.push(`<content:encoded>${cdata(item.contentHtml)}</content:encoded>`);
+    }
+    lines.push('</item>');
+  }
+
+  lines.push('</channel>', '</rss>');
+  return `${lines.join('\n')}\n`;
+}
+
+function renderAtom(channel: Channel, items: Item[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    `<title>${xml(channel.title)}</title>`,
+    `<subtitle>${xml(channel.description)}</subtitle>`,
+    `<id>${xml(channel.feedUrl)}</id>`,
+    `<link rel="alternate" type="text/html" href="${xml(channel.homeUrl)}" />`,
+    `<link rel="self" type="application/atom+xml" href="${xml(channel.feedUrl)}" />`,
+    `<updated>${lastUpdated(items).toISOString()}</updated>`,
+    `<author><name>${xml(channel.author)}</name></author>`,
+    `<generator>${GENERATOR}</generator>`
+  ];
+
+  for (const item of items) {
+    lines.push(
+      '<entry>',
+      `<title>${xml(item.title)}</title>`,
+      `<id>${xml(item.id)}</id>`,
+      `<link rel="alternate" type="text/html" href="${xml(item.url)}" />`,
+      `<published>${item.published.toISOString()}</published>`,
+      `<updated>${item.updated.toISOString()}</updated>`,
+      `<author><name>${xml(item.author)}</name></author>`,
+      ...item.categories.map(category => `<category term="${xml(category)}" />`),
+      `<summary type="text">${xml(item.summary)}</summary>`
+    );
+    if (item.contentHtml !== undefined) {
+      lines.push(`<content type="html">${xml(item.contentHtml)}</content>`);
+    }
+    lines.push('</entry>');
+  }
+
+  lines.push('</feed>');
+  return `${lines.join('\n')}\n`;
+}
+
+function renderJsonFeed(channel: Channel, items: Item[]): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: channel.title,
+    home_page_url: channel.homeUrl,
+    feed_url: channel.feedUrl,
+    description: channel.description,
+    language: 'en',
+    authors: [{ name: channel.author }],
+    items: items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      // Every item needs a body; the excerpt variant ships the summary as text
+      ...(item.contentHtml !== undefined ? { content_html: item.contentHtml } : { content_text: item.summary }),
+      ...(item.image ? { image: item.image } : {}),
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: [{ name: item.author }],
+      tags: item.categories
+    }))
+  };
+
+  return `${JSON.stringify(feed, null, 2)}\n`;
+}
+
+function absoluteUrl(site: BlogConfig['site'], pathOrUrl: string): string {
+  if (/^https?:\/\//.test(pathOrUrl)) return pathOrUrl;
+  return `${site.url.replace(/\/$/, '')}${pathOrUrl.startsWith('/') ? '' : '/'}${pathOrUrl}`;
+}
+
+// Newest modification among the items; the epoch for an empty feed keeps output stable
+function lastUpdated(items: Item[]): Date {
+  return new Date(Math.max(0, ...items.map(item => item.updated.getTime())));
+}
+
+function xml(text: string): string {
+  return escapeHtml(text).replace(/&#39;/g, '&apos;');
+}
+
+// "]]>" cannot appear inside CDATA; split it across two sections
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
@@ -0,0 +1,27 @@
+/**
+ * VIB3CODE-0 File Author Store
+ *
+ * Author profiles in a single JSON file (server only), rewritten by
+ * JsonMapFile on every save.
+ */
+
+import { Author } from '../blog-config';
+import { JsonMapFile } from '../storage/json-file';
+import { InMemoryAuthorStore } from './authors';
+
+export class FileAuthorStore extends InMemoryAuthorStore {
+  private readonly file: JsonMapFile<Author>;
+
+  constructor(file: string) {
+    const authors = new JsonMapFile<Author>(file, { name: 'author file', key: author => author.id, indent: 2 });
+    super(authors.values());
+    this.file = authors;
+  }
+
+  async save(author: Author): Promise<Author> {
+    this.authors = await this.file.write(next => {
+      next.set(author.id, { ...author });
+    });
+    return { ...author };
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * VIB3CODE-0 File Revision Store
+ *
+ * Append-only JSON-lines log of post revisions (server only). The log is
+ * loaded into memory at startup; revisions are never rewritten.
+ */
+
+import { WriteQueue, appendJsonLine, readJsonLines, reviveDates } from '../storage/json-file';
+import { InMemoryRevisionStore, NewRevision, PostRevision, revisionId } from './revisions';
+
+const reviveRevision = reviveDates(['createdAt', 'publishedAt', 'updatedAt', 'scheduledFor']);
+
+export class FileRevisionStore extends InMemoryRevisionStore {
+  private readonly file: string;
+  private readonly queue = new WriteQueue();
+
+  constructor(file: string) {
+    super();
+    this.file = file;
+    readJsonLines<PostRevision>(file, 'revision log', reviveRevision)
+      .forEach(({ id: _id, number: _number, ...revision }) => this.add(revision));
+  }
+
+  async record(revision: NewRevision): Promise<PostRevision> {
+    return this.queue.run(async () => {
+      const number = (await this.list(revision.postId)).length + 1;
+      await appendJsonLine(this.file, { ...revision, id: revisionId(revision.postId, number), number });
+      return this.add(revision);
+    });
+  }
+}
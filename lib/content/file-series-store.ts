@@ -0,0 +1,39 @@
+/**
+ * VIB3CODE-0 File Series Store
+ *
+ * Series records in a single JSON file (server only); saves and deletes
+ * go through JsonMapFile.
+ */
+
+import { Series } from '../blog-config';
+import { JsonMapFile } from '../storage/json-file';
+import { InMemorySeriesStore } from './series';
+
+export class FileSeriesStore extends InMemorySeriesStore {
+  private readonly file: JsonMapFile<Series>;
+
+  constructor(file: string) {
+    const series = new JsonMapFile<Series>(file, {
+      name: 'series file',
+      key: entry => entry.id,
+      dates: ['createdAt', 'updatedAt'],
+      indent: 2
+    });
+    super(series.values());
+    this.file = series;
+  }
+
+  async save(series: Series): Promise<Series> {
+    this.series = await this.file.write(next => {
+      next.set(series.id, { ...series });
+    });
+    return { ...series };
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.series.has(id)) return;
+    this.series = await this.file.write(next => {
+      next.delete(id);
+    });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * VIB3CODE-0 File Tag Store
+ *
+ * Registered tags and their synonyms in a single JSON file (server only),
+ * kept by JsonMapFile.
+ */
+
+import { Tag } from '../blog-config';
+import { JsonMapFile } from '../storage/json-file';
+import { InMemoryTagStore } from './tags';
+
+export class FileTagStore extends InMemoryTagStore {
+  private readonly file: JsonMapFile<Tag>;
+
+  constructor(file: string) {
+    const tags = new JsonMapFile<Tag>(file, { name: 'tag file', key: tag => tag.id, dates: ['createdAt', 'updatedAt'], indent: 2 });
+    super(tags.values());
+    this.file = tags;
+  }
+
+  async save(tag: Tag): Promise<Tag> {
+    this.tags = await this.file.write(next => {
+      next.set(tag.id, { ...tag, synonyms: [...tag.synonyms] });
+    });
+    return { ...tag, synonyms: [...tag.synonyms] };
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.tags.has(id)) return;
+    this.tags = await this.file.write(next => {
+      next.delete(id);
+    });
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * VIB3CODE-0 Frontmatter Parser
+ *
+ * Splits Markdown/MDX sources into a YAML frontmatter block and a body.
+ * Supports the YAML subset used by post files: nested maps, block and
+ * flow sequences, quoted/plain scalars and literal (|) / folded (>) text.
+ * Every failure carries the 1-based source line it was detected on.
+ * stringifyFrontmatter writes the same subset back, so exported posts
+ * parse to the same values.
+ */
+
+export type FrontmatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontmatterValue[]
+  | { [key: string]: FrontmatterValue };
+
+export type FrontmatterData = { [key: string]: FrontmatterValue };
+
+export interface ParsedFrontmatter {
+  data: FrontmatterData;
+  body: string;
+  /** 1-based line number where the body starts in the original source */
+  bodyLine: number;
+  /** 1-based line number of each top-level key, for error reporting */
+  keyLines: Record<string, number>;
+}
+
+export class ContentParseError extends Error {
+  readonly line: number;
+  readonly file?: string;
+  /** Message without the file/line prefix */
+  readonly detail: string;
+
+  constructor(detail: string, line: number, file?: string) {
+    super(file ? `${file}:${line}: ${detail}` : `line ${line}: ${detail}`);
+    this.name = 'ContentParseError';
+    this.line = line;
+    this.file = file;
+    this.detail = detail;
+  }
+}
+
+interface SourceLine {
+  indent: number;
+  text: string;
+  line: number;
+}
+
+const FENCE = /^---\s*$/;
+
+export function parseFrontmatter(source: string): ParsedFrontmatter {
+  const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  if (!FENCE.test(lines[0] ?? '')) {
+    throw new ContentParseError('Missing frontmatter: file must start with "---"', 1);
+  }
+
+  const closing = lines.findIndex((line, index) => index > 0 && FENCE.test(line));
+  if (closing === -1) {
+    throw new ContentParseError('Unterminated frontmatter: no closing "---"', lines.length);
+  }
+
+  const yamlLines: SourceLine[] = [];
+  for (let index = 1; index < closing; index++) {
+    const raw = lines[index];
+    if (/\t/.test(raw.match(/^\s*/)![0])) {
+      throw new ContentParseError('Tabs are not allowed for indentation', index + 1);
+    }
+    const text = raw.trimEnd();
+    if (!text.trim() || text.trim().startsWith('#')) continue;
+    yamlLines.push({
+      indent: text.length - text.trimStart().length,
+      text: text.trim(),
+      line: index + 1,
+    });
+  }
+
+  const keyLines: Record<string, number> = {};
+  let data: FrontmatterData = {};
+
+  if (yamlLines.length > 0) {
+    if (yamlLines[0].indent !== 0) {
+      throw new ContentParseError('Top-level frontmatter keys must not be indented', yamlLines[0].line);
+    }
+    const [value, next] = parseBlock(lines, yamlLines, 0, 0);
+    if (next < yamlLines.length) {
+      throw new ContentParseError('Unexpected indentation', yamlLines[next].line);
+    }
+    if (Array.isArray(value) || value === null || typeof value !== 'object') {
+      throw new ContentParseError('Frontmatter must be a map of keys to values', yamlLines[0].line);
+    }
+    data = value;
+    for (const entry of yamlLines) {
+      if (entry.indent === 0) {
+        const key = splitKey(entry.text, entry.line)?.key;
+        if (key) keyLines[key] = entry.line;
+      }
+    }
+  }
+
+  return {
+    data,
+    body: lines.slice(closing + 1).join('\n').replace(/^\n+/, ''),
+    bodyLine: closing + 2,
+    keyLines,
+  };
+}
+
+function parseBlock(
+  source: string[],
+  lines: SourceLine[],
+  start: number,
+  indent: number
+): [FrontmatterValue, number] {
+  return lines[start].text.startsWith('- ') || lines[start].text === '-'
+    ? parseSequence(source, lines, start, indent)
+    : parseMap(source, lines, start, indent);
+}
+
+function parseMap(
+  source: string[],
+  lines: SourceLine[],
+  start: number,
+  indent: number
+): [FrontmatterData, number] {
+  const result: FrontmatterData = {};
+  let index = start;
+
+  while (index < lines.length && lines[index].indent === indent) {
+    const current = lines[index];
+    if (current.text.startsWith('- ')) {
+      throw new ContentParseError('Unexpected list item inside a map', current.line);
+    }
+
+    const entry = splitKey(current.text, current.line);
+    if (!entry) {
+      throw new ContentParseError(`Expected "key: value", got "${current.text}"`, current.line);
+    }
+    if (Object.prototype.hasOwnProperty.call(result, entry.key)) {
+      throw new ContentParseError(`Duplicate key "${entry.key}"`, current.line);
+    }
+
+    index++;
+    if (entry.rest === '|' || entry.rest === '>' || entry.rest === '|-' || entry.rest === '>-') {
+      const [text, next] = parseBlockScalar(source, lines, index, indent, entry.rest);
+      result[entry.key] = text;
+      index = next;
+    } else if (entry.rest === '') {
+      if (index < lines.length && lines[index].indent > indent) {
+        const [value, next] = parseBlock(source, lines, index, lines[index].indent);
+        result[entry.key] = value;
+        index = next;
+      } else if (index < lines.length && lines[index].indent === indent && lines[index].text.startsWith('- ')) {
+        // YAML allows sequences at the same indent as their parent key
+        const [value, next] = parseSequence(source, lines, index, indent);
+        result[entry.key] = value;
+        index = next;
+      } else {
+        result[entry.key] = null;
+      }
+    } else {
+      result[entry.key] = parseScalar(entry.rest, current.line);
+    }
+  }
+
+  if (index < lines.length && lines[index].indent > indent) {
+    throw new ContentParseError('Unexpected indentation', lines[index].line);
+  }
+
+  return [result, index];
+}
+
+function parseSequence(
+  source: string[],
+  lines: SourceLine[],
+  start: number,
+  indent: number
+): [FrontmatterValue[], number] {
+  const result: FrontmatterValue[] = [];
+  let index = start;
+
+  while (index < lines.length && lines[index].indent === indent && (lines[index].text.startsWith('- ') || lines[index].text === '-')) {
+    const current = lines[index];
+    const rest = current.text === '-' ? '' : current.text.slice(2).trim();
+    index++;
+
+    if (rest === '') {
+      if (index < lines.length && lines[index].indent > indent) {
+        const [value, next] = parseBlock(source, lines, index, lines[index].indent);
+        result.push(value);
+        index = next;
+      } else {
+        result.push(null);
+      }
+    } else if (splitKey(rest, current.line)) {
+      // "- key: value" starts an inline map; continuation keys align with "key"
+      const childIndent = indent + (current.text.length - rest.length);
+      const synthetic: SourceLine[] = [{ indent: childIndent, text: rest, line: current.line }];
+      let next = index;
+      while (next < lines.length && lines[next].indent >= childIndent) {
+        synthetic.push(lines[next]);
+        next++;
+      }
+      const [value, consumed] = parseMap(source, synthetic, 0, childIndent);
+      if (consumed < synthetic.length) {
+        throw new ContentParseError('Unexpected indentation', synthetic[consumed].line);
+      }
+      result.push(value);
+      index = next;
+    } else {
+      result.push(parseScalar(rest, current.line));
+    }
+  }
+
+  return [result, index];
+}
+
+function parseBlockScalar(
+  source: string[],
+  lines: SourceLine[],
+  start: number,
+  indent: number,
+  style: string
+): [string, number] {
+  let index = start;
+  while (index < lines.length && lines[index].indent > indent) index++;
+  if (index === start) return ['', index];
+
+  // Re-read the raw source so blank lines inside the block are preserved
+  const firstLine = lines[start].line;
+  const lastLine = lines[index - 1].line;
+  const blockIndent = lines[start].indent;
+  const raw = source
+    .slice(firstLine - 1, lastLine)
+    .map(line => line.slice(Math.min(blockIndent, line.length - line.trimStart().length)).trimEnd());
+
+  const text = style.startsWith('|')
+    ? raw.join('\n')
+    : raw.reduce((acc, line) => (line === '' ? `${acc}\n` : acc && !acc.endsWith('\n') ? `${acc} ${line}` : `${acc}${line}`), '');
+
+  return [style.endsWith('-') ? text : `${text}\n`, index];
+}
+
+function splitKey(text: string, line: number): { key: string; rest: string } | null {
+  const quoted = text.match(/^(["'])(.*?)\1\s*:(?:\s+(.*))?$/);
+  if (quoted) return { key: quoted[2], rest: stripComment(quoted[3] ?? '', line) };
+
+  const plain = text.match(/^([A-Za-z0-9_$][\w$.-]*)\s*:(?:\s+(.*))?$/);
+  if (plain) return { key: plain[1], rest: stripComment(plain[2] ?? '', line) };
+
+  return null;
+}
+
+function stripComment(value: string, line: number): string {
+  let quote: string | null = null;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(value[i - 1]))) {
+      return value.slice(0, i).trim();
+    }
+  }
+  if (quote) throw new ContentParseError('Unterminated quoted string', line);
+  return value.trim();
+}
+
+function parseScalar(raw: string, line: number): FrontmatterValue {
+  const value = stripComment(raw, line);
+
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) {
+      throw new ContentParseError('Unterminated flow sequence: missing "]"', line);
+    }
+    return splitFlowItems(value.slice(1, -1), line).map(item => parseScalar(item, line));
+  }
+
+  if (value.startsWith('{')) {
+    throw new ContentParseError('Flow maps ({...}) are not supported; use indented keys', line);
+  }
+
+  if (value.startsWith('"')) {
+    if (!value.endsWith('"') || value.length < 2) {
+      throw new ContentParseError('Unterminated quoted string', line);
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new ContentParseError(`Invalid escape sequence in ${value}`, line);
+    }
+  }
+
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw new ContentParseError('Unterminated quoted string', line);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value)) return Number(value);
+
+  return value;
+}
+
+function splitFlowItems(inner: string, line: number): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        current += char + (inner[++i] ?? '');
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      throw new ContentParseError('Nested flow collections are not supported', line);
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (quote) throw new ContentParseError('Unterminated quoted string', line);
+  if (current.trim()) items.push(current.trim());
+  else if (items.length > 0) throw new ContentParseError('Trailing comma in flow sequence', line);
+
+  return items;
+}
+
+/**
+ * Serialize data and body into a Markdown source with a frontmatter block.
+ * Strings are always double-quoted, scalar lists use flow style and maps
+ * nest by two spaces; null and undefined entries are omitted.
+ */
+export function stringifyFrontmatter(data: { [key: string]: unknown }, body: string): string {
+  return `---\n${stringifyMap(data, 0).join('\n')}\n---\n\n${body.replace(/^\n+/, '')}`;
+}
+
+function stringifyMap(data: { [key: string]: unknown }, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const lines: string[] = [];
+
+  for (const key of Object.keys(data)) {
+    const value = data[key];
+    if (value === null || value === undefined) continue;
+
+    const name = /^[A-Za-z0-9_$][\w$.-]*$/.test(key) ? key : JSON.stringify(key);
+    if (typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      const nested = stringifyMap(value as { [key: string]: unknown }, indent + 2);
+      if (nested.length) lines.push(`${pad}${name}:`, ...nested);
+    } else {
+      lines.push(`${pad}${name}: ${stringifyScalar(value, key)}`);
+    }
+  }
+  return lines;
+}
+
+function stringifyScalar(value: unknown, key: string): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stringifyScalar(item, key)).join(', ')}]`;
+  }
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'number' && isFinite(value)) return String(value);
+  if (typeof value === 'boolean') return String(value);
+  throw new Error(`Cannot write "${key}" to frontmatter: unsupported value ${String(value)}`);
+}
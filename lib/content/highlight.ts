@@ -0,0 +1,158 @@
+/**
+ * VIB3CODE-0 Syntax Highlighting
+ *
+ * Dependency-free tokenizer for the languages articles actually use
+ * (TypeScript/JavaScript, JSON, shell, Python, GLSL, CSS). Each language is
+ * an ordered list of patterns; the first one that matches at a position
+ * wins and everything in between is plain text. Unknown languages come back
+ * as a single plain token, so callers never have to special-case them.
+ */
+
+export type TokenType =
+  | 'plain'
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'literal'
+  | 'type'
+  | 'function'
+  | 'property'
+  | 'variable'
+  | 'operator'
+  | 'punctuation';
+
+export interface HighlightToken {
+  type: TokenType;
+  value: string;
+}
+
+// Patterns must not contain capturing groups: the combined expression
+// finds the matching rule by group index
+type Grammar = Array<[TokenType, RegExp]>;
+
+const words = (list: string) => new RegExp(`\\b(?:${list.split(' ').join('|')})\\b`);
+
+const SCRIPT: Grammar = [
+  ['comment', /\/\/.*|\/\*[\s\S]*?\*\//],
+  ['string', /`(?:\\[\s\S]|[^\\`])*`|"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'/],
+  ['keyword', words('as async await break case catch class const continue debugger default delete do else enum export extends finally for from function if implements import in instanceof interface let new of private protected public readonly return static super switch this throw try type typeof var void while with yield')],
+  ['literal', words('true false null undefined NaN Infinity')],
+  ['type', words('string number boolean any unknown never object symbol bigint')],
+  ['number', /\b(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/],
+  ['function', /[A-Za-z_$][\w$]*(?=\s*\()/],
+  ['operator', /=>|[-+*/%=!<>&|^~?:]+/],
+  ['punctuation', /[{}[\]();,.]/]
+];
+
+const JSON_GRAMMAR: Grammar = [
+  ['property', /"(?:\\.|[^\\"\n])*"(?=\s*:)/],
+  ['string', /"(?:\\.|[^\\"\n])*"/],
+  ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+  ['literal', words('true false null')],
+  ['punctuation', /[{}[\],:]/]
+];
+
+const SHELL: Grammar = [
+  ['comment', /(?:^|\s)#.*/],
+  ['string', /"(?:\\.|[^\\"])*"|'[^']*'/],
+  ['variable', /\$(?:\{[^}\n]*\}|\w+|[@#?$!*-])/],
+  ['keyword', words('if then else elif fi for while until do done case esac in function return export local set unset')],
+  ['function', /^\s*[\w.-]+(?=\s|$)/m],
+  ['operator', /&&|\|\||[|&;<>]=?/]
+];
+
+const PYTHON: Grammar = [
+  ['comment', /#.*/],
+  ['string', /[rbfu]{0,2}(?:"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*')/],
+  ['keyword', words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield')],
+  ['literal', words('True False None')],
+  ['number', /\b\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?j?\b/],
+  ['function', /[A-Za-z_]\w*(?=\s*\()/],
+  ['operator', /[-+*/%=!<>&|^~@]+/],
+  ['punctuation', /[{}[\]();,.:]/]
+];
+
+const GLSL: Grammar = [
+  ['comment', /\/\/.*|\/\*[\s\S]*?\*\//],
+  ['keyword', /#\w+|\b(?:attribute|uniform|varying|in|out|inout|const|precision|highp|mediump|lowp|if|else|for|while|do|return|break|continue|discard|struct)\b/],
+  ['type', words('void bool int uint float double vec2 vec3 vec4 ivec2 ivec3 ivec4 bvec2 bvec3 bvec4 mat2 mat3 mat4 sampler2D samplerCube')],
+  ['literal', words('true false')],
+  ['number', /\b\d+(?:\.\d*)?(?:[eE][+-]?\d+)?[fu]?\b|\.\d+(?:[eE][+-]?\d+)?\b/],
+  ['function', /[A-Za-z_]\w*(?=\s*\()/],
+  ['operator', /[-+*/%=!<>&|^~?:]+/],
+  ['punctuation', /[{}[\]();,.]/]
+];
+
+const CSS: Grammar = [
+  ['comment', /\/\*[\s\S]*?\*\//],
+  ['string', /"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'/],
+  ['keyword', /@[\w-]+|!important\b/],
+  ['property', /[\w-]+(?=\s*:(?!:))/],
+  ['number', /#[\da-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:%|[a-z]+)?/],
+  ['function', /[\w-]+(?=\()/],
+  ['punctuation', /[{}();,:]/]
+];
+
+const GRAMMARS: Record<string, Grammar> = {
+  ts: SCRIPT,
+  typescript: SCRIPT,
+  tsx: SCRIPT,
+  js: SCRIPT,
+  javascript: SCRIPT,
+  jsx: SCRIPT,
+  mjs: SCRIPT,
+  json: JSON_GRAMMAR,
+  bash: SHELL,
+  sh: SHELL,
+  shell: SHELL,
+  zsh: SHELL,
+  console: SHELL,
+  py: PYTHON,
+  python: PYTHON,
+  glsl: GLSL,
+  frag: GLSL,
+  vert: GLSL,
+  css: CSS
+};
+
+const compiled: Record<string, RegExp> = {};
+
+/** Tokens covering `code` exactly; adjacent tokens of one type are merged */
+export function highlightCode(code: string, language?: string): HighlightToken[] {
+  if (!code) return [];
+  const key = (language || '').toLowerCase();
+  const grammar = GRAMMARS.hasOwnProperty(key) ? GRAMMARS[key] : null;
+  if (!grammar) return [{ type: 'plain', value: code }];
+
+  if (!compiled[key]) {
+    compiled[key] = new RegExp(grammar.map(([, pattern]) => `(${pattern.source})`).join('|'), 'gm');
+  }
+  const pattern = compiled[key];
+  pattern.lastIndex = 0;
+
+  const tokens: HighlightToken[] = [];
+  const push = (type: TokenType, value: string) => {
+    if (!value) return;
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.value += value;
+    else tokens.push({ type, value });
+  };
+
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code))) {
+    if (!match[0]) {
+      // Zero-width match (a lookahead-only pattern); step past it
+      pattern.lastIndex++;
+      continue;
+    }
+    let rule = 0;
+    while (match[rule + 1] === undefined) rule++;
+    push('plain', code.slice(position, match.index));
+    push(grammar[rule][0], match[0]);
+    position = match.index + match[0].length;
+  }
+  push('plain', code.slice(position));
+  return tokens;
+}
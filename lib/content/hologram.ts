@@ -0,0 +1,118 @@
+/**
+ * VIB3CODE-0 Hologram Shortcode
+ *
+ * Props of the `<Hologram />` MDX component turned into VIB3GeometryParams.
+ * Geometry takes an index (0-7) or a name from VIB3_GEOMETRY_NAMES
+ * ("hypercube", "Klein Bottle Lattice"); hue takes 0-1 or degrees. Values
+ * outside a parameter's range are clamped and reported, so a typo in an
+ * article shows up at compile time instead of as a blank canvas.
+ */
+
+import { VIB3GeometryParams, VIB3_GEOMETRY_NAMES } from '../vib34d-geometries';
+
+export interface HologramProps {
+  params: VIB3GeometryParams;
+  /** Canvas height in pixels */
+  height: number;
+  caption?: string;
+}
+
+export const HOLOGRAM_DEFAULTS: VIB3GeometryParams = {
+  geometry: 1,
+  morph: 0.6,
+  chaos: 0.2,
+  density: 0.5,
+  hue: 0.55,
+  noiseFreq: 2,
+  dispAmp: 0.2,
+  timeScale: 1,
+  beatPhase: 0
+};
+
+export const HOLOGRAM_HEIGHT = { default: 360, min: 160, max: 960 };
+
+// Ranges documented on VIB3GeometryParams
+const RANGES: Record<Exclude<keyof VIB3GeometryParams, 'geometry' | 'hue'>, [number, number]> = {
+  morph: [0, 2],
+  chaos: [0, 1],
+  density: [0, 1],
+  noiseFreq: [1, 5],
+  dispAmp: [0, 1],
+  timeScale: [0.1, 3],
+  beatPhase: [0, 1]
+};
+
+const GEOMETRY_ALIASES: Record<string, number> = { tesseract: 1, klein: 5, fractal: 7 };
+
+/** Geometry index for a name ("torus", "Wave Lattice") or null */
+export function geometryIndex(name: string): number | null {
+  const key = name.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+  if (GEOMETRY_ALIASES.hasOwnProperty(key)) return GEOMETRY_ALIASES[key];
+
+  for (let index = 0; index < VIB3_GEOMETRY_NAMES.length; index++) {
+    const full = VIB3_GEOMETRY_NAMES[index].toLowerCase();
+    if (key === full || key === full.split(' ')[0]) return index;
+  }
+  return null;
+}
+
+/** Normalized props plus one message per value that was ignored or clamped; undefined props keep their default */
+export function hologramProps(
+  props: Record<string, unknown>,
+  defaults: Partial<VIB3GeometryParams> = {}
+): HologramProps & { issues: string[] } {
+  const params: VIB3GeometryParams = { ...HOLOGRAM_DEFAULTS, ...defaults };
+  const issues: string[] = [];
+  let height = HOLOGRAM_HEIGHT.default;
+  let caption: string | undefined;
+
+  for (const name of Object.keys(props)) {
+    const value = props[name];
+    if (value === undefined) continue;
+
+    if (name === 'caption') {
+      if (typeof value === 'string') caption = value;
+      else issues.push('caption must be a string');
+      continue;
+    }
+
+    if (name === 'geometry') {
+      const index = typeof value === 'string' && !/^\d+$/.test(value) ? geometryIndex(value) : Number(value);
+      if (index !== null && Math.floor(index) === index && index >= 0 && index < VIB3_GEOMETRY_NAMES.length) {
+        params.geometry = index;
+      } else {
+        issues.push(`Unknown geometry ${JSON.stringify(value)}; use 0-${VIB3_GEOMETRY_NAMES.length - 1} or one of: ${VIB3_GEOMETRY_NAMES.join(', ')}`);
+      }
+      continue;
+    }
+
+    const isRange = RANGES.hasOwnProperty(name);
+    if (name !== 'hue' && name !== 'height' && !isRange) {
+      issues.push(`Unknown prop "${name}"`);
+      continue;
+    }
+    if (typeof value !== 'number' || !isFinite(value)) {
+      issues.push(`${name} must be a number`);
+      continue;
+    }
+
+    if (name === 'hue') {
+      // Anything above 1 is read as degrees on the colour wheel
+      if (value < 0) issues.push(`hue ${value} is negative; use 0-1 or degrees`);
+      else params.hue = value > 1 ? (value % 360) / 360 : value;
+    } else if (name === 'height') {
+      height = clamp(value, HOLOGRAM_HEIGHT.min, HOLOGRAM_HEIGHT.max, name, issues);
+    } else {
+      const [min, max] = RANGES[name as keyof typeof RANGES];
+      params[name as keyof typeof RANGES] = clamp(value, min, max, name, issues);
+    }
+  }
+
+  return { params, height, ...(caption !== undefined && { caption }), issues };
+}
+
+function clamp(value: number, min: number, max: number, name: string, issues: string[]): number {
+  const clamped = Math.min(max, Math.max(min, value));
+  if (clamped !== value) issues.push(`${name} ${value} is outside ${min}-${max}; using ${clamped}`);
+  return clamped;
+}
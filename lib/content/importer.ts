@@ -0,0 +1,337 @@
+/**
+ * VIB3CODE-0 Content Import
+ *
+ * Brings posts into ContentAPI from a content archive, a folder of
+ * Markdown files or a WordPress WXR export. Every run produces the same
+ * report; with dryRun nothing is written, so a migration can be checked
+ * first. Foreign categories are mapped onto contentCategories and slugs
+ * already in use are renamed, skipped or overwritten.
+ */
+
+import { BlogPost, PostStatus, contentCategories, defaultBlogConfig } from '../blog-config';
+import { ContentAPI, ContentError, contentUtils } from '../content-api';
+import { ContentArchive } from './archive';
+import { ContentLoadIssue, parsePostSource } from './loader';
+import { ContentParseError } from './frontmatter';
+import { PostRevision } from './revisions';
+import { parseWxr } from './wxr';
+
+type CategoryKey = keyof typeof contentCategories;
+
+export type ImportInput =
+  | { format: 'archive'; archive: ContentArchive }
+  /** Markdown sources by relative path; other extensions are ignored */
+  | { format: 'markdown'; files: Record<string, string> }
+  | { format: 'wxr'; xml: string };
+
+export type SlugConflictStrategy = 'rename' | 'skip' | 'overwrite';
+
+export interface ImportOptions {
+  dryRun?: boolean;
+  /** What to do when a slug is already taken (default: rename to "<slug>-2", ...) */
+  onConflict?: SlugConflictStrategy;
+  /** Source category name or slug -> contentCategories key, matched case-insensitively */
+  categoryMap?: Record<string, string>;
+  /** Category for posts whose categories do not map */
+  defaultCategory?: CategoryKey;
+  /** Revision author for imported posts */
+  author?: string;
+}
+
+export interface ImportItem {
+  /** File path or WXR item */
+  source: string;
+  title: string;
+  slug: string;
+  /** Slug in the source, when conflict resolution changed it */
+  sourceSlug?: string;
+  action: 'create' | 'update' | 'skip';
+  category: CategoryKey;
+  /** Category name in the source, when it was mapped */
+  sourceCategory?: string;
+  status: PostStatus;
+  /** Earlier revisions carried over from an archive */
+  revisions: number;
+  /** Id of the created or updated post (not set on dry runs) */
+  postId?: string;
+}
+
+export interface ImportReport {
+  format: ImportInput['format'];
+  dryRun: boolean;
+  items: ImportItem[];
+  issues: ContentLoadIssue[];
+  /** Author profiles and series registered from an archive */
+  authors: string[];
+  series: string[];
+  summary: { created: number; updated: number; skipped: number; failed: number };
+}
+
+interface ImportCandidate {
+  source: string;
+  post: Omit<BlogPost, 'id'>;
+  sourceCategory?: string;
+  revisions: PostRevision[];
+}
+
+const MARKDOWN_FILE = /\.mdx?$/i;
+
+/**
+ * Map a foreign category onto a contentCategories key: the key itself, an
+ * explicit categoryMap entry, the category's display name, then the default.
+ */
+export function categoryResolver(
+  categoryMap: Record<string, string> = {},
+  defaultCategory?: CategoryKey
+): (category: string) => CategoryKey | undefined {
+  const lookup: Record<string, CategoryKey> = {};
+  for (const key of Object.keys(contentCategories) as CategoryKey[]) {
+    lookup[key] = key;
+    lookup[contentUtils.generateSlug(contentCategories[key].name)] = key;
+  }
+  for (const name of Object.keys(categoryMap)) {
+    const target = categoryMap[name];
+    if (!(target in contentCategories)) {
+      throw new ContentError(`categoryMap["${name}"]: unknown category "${target}"`, 'invalid');
+    }
+    lookup[contentUtils.generateSlug(name)] = target as CategoryKey;
+  }
+  if (defaultCategory && !(defaultCategory in contentCategories)) {
+    throw new ContentError(`Unknown default category "${defaultCategory}"`, 'invalid');
+  }
+
+  return category => lookup[contentUtils.generateSlug(category)] ?? defaultCategory;
+}
+
+export async function importContent(api: ContentAPI, input: ImportInput, options: ImportOptions = {}): Promise<ImportReport> {
+  const resolveCategory = categoryResolver(options.categoryMap, options.defaultCategory);
+  const { candidates, issues } = loadCandidates(input, resolveCategory);
+  const report: ImportReport = {
+    format: input.format,
+    dryRun: !!options.dryRun,
+    items: [],
+    issues,
+    authors: [],
+    series: [],
+    // Sources that could not be read count as failed
+    summary: { created: 0, updated: 0, skipped: 0, failed: issues.filter(issue => issue.severity === 'error').length }
+  };
+  const meta = (source: string) => ({ author: options.author, message: `Imported from ${source}` });
+
+  // Profiles and series first, so bylines and memberships resolve
+  const knownSeries = new Set((await api.listSeries()).map(series => series.id));
+  if (input.format === 'archive') {
+    for (const author of input.archive.manifest.authors) {
+      if (await api.getAuthor(author.id)) continue;
+      report.authors.push(author.id);
+      // Accounts do not carry over between sites
+      const { userId: _userId, ...profile } = author;
+      if (!options.dryRun) await api.saveAuthor(profile);
+    }
+    for (const series of input.archive.manifest.series) {
+      if (knownSeries.has(series.id)) continue;
+      knownSeries.add(series.id);
+      report.series.push(series.id);
+      const { createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = series;
+      if (!options.dryRun) await api.saveSeries(fields);
+    }
+  }
+
+  const { items: existing } = await api.getPosts({ status: 'all' });
+  const owners = new Map(existing.map(post => [post.slug, post] as [string, BlogPost]));
+  const claimed = new Set<string>();
+
+  for (const candidate of candidates) {
+    const post = { ...candidate.post };
+    if (post.series && !knownSeries.has(post.series.id)) {
+      issues.push(warning(candidate.source, `Unknown series "${post.series.id}"; imported without it`));
+      delete post.series;
+    }
+
+    let action: ImportItem['action'] = 'create';
+    let target: BlogPost | undefined;
+    if (owners.has(post.slug) || claimed.has(post.slug)) {
+      const strategy = options.onConflict ?? 'rename';
+      if (strategy === 'overwrite' && !claimed.has(post.slug)) {
+        action = 'update';
+        target = owners.get(post.slug);
+      } else if (strategy === 'skip') {
+        action = 'skip';
+        issues.push(warning(candidate.source, `Slug "${post.slug}" is already in use; skipped`));
+      } else {
+        post.slug = freeSlug(post.slug, owners, claimed);
+        issues.push(warning(candidate.source, `Slug "${candidate.post.slug}" is already in use; imported as "${post.slug}"`));
+      }
+    }
+    if (action !== 'skip') claimed.add(post.slug);
+
+    const item: ImportItem = {
+      source: candidate.source,
+      title: post.title,
+      slug: post.slug,
+      ...(post.slug !== candidate.post.slug && { sourceSlug: candidate.post.slug }),
+      action,
+      category: post.category,
+      ...(candidate.sourceCategory && candidate.sourceCategory !== post.category && { sourceCategory: candidate.sourceCategory }),
+      status: post.status,
+      revisions: candidate.revisions.length
+    };
+    report.items.push(item);
+
+    if (action === 'skip') {
+      report.summary.skipped++;
+      continue;
+    }
+    if (options.dryRun) {
+      report.summary[action === 'create' ? 'created' : 'updated']++;
+      continue;
+    }
+
+    try {
+      const saved = target
+        ? await api.updatePost(target.id, post, meta(candidate.source))
+        : await api.importPost(post, candidate.revisions, meta(candidate.source));
+      item.postId = saved.id;
+      report.summary[target ? 'updated' : 'created']++;
+    } catch (error) {
+      claimed.delete(post.slug);
+      report.summary.failed++;
+      issues.push({ file: candidate.source, line: 1, message: (error as Error).message, severity: 'error' });
+    }
+  }
+
+  return report;
+}
+
+function loadCandidates(
+  input: ImportInput,
+  resolveCategory: (category: string) => CategoryKey | undefined
+): { candidates: ImportCandidate[]; issues: ContentLoadIssue[] } {
+  switch (input.format) {
+    case 'archive': {
+      const { candidates, issues } = parseMarkdownFiles(input.archive.files, resolveCategory);
+      const history = new Map(input.archive.manifest.posts.map(entry => [entry.file, entry] as [string, typeof entry]));
+      for (const entry of input.archive.manifest.posts) {
+        if (!(entry.file in input.archive.files)) {
+          issues.push({ file: entry.file, line: 1, message: `Missing from the archive (post "${entry.slug}")`, severity: 'error' });
+        }
+      }
+      return {
+        candidates: candidates.map(candidate => {
+          const entry = history.get(candidate.source);
+          return entry
+            ? {
+                ...candidate,
+                post: { ...candidate.post, ...(entry.holographicParams && { holographicParams: entry.holographicParams }) },
+                revisions: entry.revisions
+              }
+            : candidate;
+        }),
+        issues
+      };
+    }
+    case 'markdown':
+      return parseMarkdownFiles(input.files, resolveCategory);
+    case 'wxr':
+      return wxrCandidates(input.xml, resolveCategory);
+  }
+}
+
+function parseMarkdownFiles(
+  files: Record<string, string>,
+  resolveCategory: (category: string) => CategoryKey | undefined
+): { candidates: ImportCandidate[]; issues: ContentLoadIssue[] } {
+  const candidates: ImportCandidate[] = [];
+  const issues: ContentLoadIssue[] = [];
+
+  for (const file of Object.keys(files).filter(name => MARKDOWN_FILE.test(name)).sort()) {
+    let sourceCategory: string | undefined;
+    try {
+      const { post, warnings } = parsePostSource(files[file], file, {
+        mapCategory: category => {
+          sourceCategory = category;
+          return resolveCategory(category);
+        }
+      });
+      const { id: _id, ...fields } = post;
+      candidates.push({ source: file, post: fields, sourceCategory, revisions: [] });
+      issues.push(...warnings);
+    } catch (error) {
+      issues.push({
+        file,
+        line: error instanceof ContentParseError ? error.line : 1,
+        message: error instanceof ContentParseError ? error.detail : (error as Error).message,
+        severity: 'error'
+      });
+    }
+  }
+  return { candidates, issues };
+}
+
+function wxrCandidates(
+  xml: string,
+  resolveCategory: (category: string) => CategoryKey | undefined
+): { candidates: ImportCandidate[]; issues: ContentLoadIssue[] } {
+  const { posts, issues } = parseWxr(xml);
+  const candidates: ImportCandidate[] = [];
+
+  for (const item of posts) {
+    const names = item.categories.length ? item.categories : ['Uncategorized'];
+    let category: CategoryKey | undefined;
+    let sourceCategory = names[0];
+    for (const name of names) {
+      category = resolveCategory(name);
+      sourceCategory = name;
+      if (category) break;
+    }
+    if (!category) {
+      issues.push({
+        file: item.source,
+        line: item.line,
+        message: `No category maps onto ${Object.keys(contentCategories).join(', ')}: ${names.join(', ')} (set categoryMap or defaultCategory)`,
+        severity: 'error'
+      });
+      continue;
+    }
+
+    const slug = /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(item.slug) ? item.slug : contentUtils.generateSlug(item.slug || item.title);
+    const excerpt = item.excerpt || contentUtils.extractExcerpt(item.content, defaultBlogConfig.content.excerptLength);
+    const theme = contentCategories[category].holographicTheme;
+    candidates.push({
+      source: item.source,
+      sourceCategory,
+      revisions: [],
+      post: {
+        title: item.title,
+        slug: slug || 'untitled',
+        excerpt,
+        content: item.content,
+        author: { name: item.author || defaultBlogConfig.site.author },
+        publishedAt: item.publishedAt,
+        updatedAt: item.updatedAt,
+        status: item.status,
+        ...(item.scheduledFor && { scheduledFor: item.scheduledFor }),
+        tags: item.tags,
+        category,
+        readingTime: contentUtils.calculateReadingTime(item.content),
+        seo: {
+          metaTitle: `${item.title} - ${defaultBlogConfig.site.name}`,
+          metaDescription: excerpt,
+          ogImage: contentUtils.generateOGImage(item.title, category)
+        },
+        holographicParams: { hue: theme.hue, density: theme.density, intensity: theme.intensity, theme: theme.theme }
+      }
+    });
+  }
+  return { candidates, issues };
+}
+
+function freeSlug(slug: string, owners: Map<string, BlogPost>, claimed: Set<string>): string {
+  let suffix = 2;
+  while (owners.has(`${slug}-${suffix}`) || claimed.has(`${slug}-${suffix}`)) suffix++;
+  return `${slug}-${suffix}`;
+}
+
+function warning(file: string, message: string): ContentLoadIssue {
+  return { file, line: 1, message, severity: 'warning' };
+}
@@ -0,0 +1,193 @@
+/**
+ * VIB3CODE-0 Journal Content Provider
+ *
+ * Durable ContentProvider backed by an append-only JSON-lines journal.
+ * Posts from /content (or the bundled samples) form the base layer and every
+ * create/update/delete is appended to the journal before it is applied, so
+ * posts created by the research pipeline survive server restarts.
+ *
+ * - Appends are serialized; a torn trailing line from a crash is ignored on replay
+ * - Updates list the fields they clear (set to undefined) under `unset`,
+ *   since JSON has no undefined and a dropped key would come back on replay
+ * - Compaction folds the journal into one entry per post and swaps it in
+ *   atomically (write temp file, fsync, rename)
+ * - IDs are UUIDs and slugs are unique across all posts
+ */
+
+import { randomUUID } from 'crypto';
+import { BlogPost } from '../blog-config';
+import { ContentError, MDXContentProvider } from '../content-api';
+import { WriteQueue, appendJsonLine, readJsonLines, reviveDates, writeJsonLines } from '../storage/json-file';
+
+export interface JournalProviderOptions {
+  /** Path of the .jsonl journal file; created on first write */
+  file: string;
+  /** Base posts the journal is replayed on top of (defaults to bundled samples) */
+  seedPosts?: BlogPost[];
+  /** Compact automatically once the journal holds this many entries */
+  compactAfter?: number;
+}
+
+type JournalEntry =
+  | { op: 'create'; at: string; post: BlogPost }
+  | { op: 'update'; at: string; id: string; updates: Partial<BlogPost>; unset?: string[] }
+  | { op: 'delete'; at: string; id: string };
+
+const reviveEntry = reviveDates(['publishedAt', 'updatedAt', 'scheduledFor']);
+
+export class JournalContentProvider extends MDXContentProvider {
+  private readonly file: string;
+  private readonly compactAfter: number;
+  private entryCount = 0;
+  // Runs mutations one at a time so journal order matches in-memory order
+  private readonly queue = new WriteQueue();
+
+  constructor(options: JournalProviderOptions) {
+    super(options.seedPosts ? [...options.seedPosts] : undefined);
+    this.file = options.file;
+    this.compactAfter = options.compactAfter ?? 500;
+    this.replay();
+  }
+
+  async createPost(post: Omit<BlogPost, 'id'>): Promise<BlogPost> {
+    return this.queue.run(async () => {
+      this.assertSlugAvailable(post.slug);
+
+      const newPost: BlogPost = { ...post, id: randomUUID() };
+      await this.append({ op: 'create', at: new Date().toISOString(), post: newPost });
+      this.posts.push(newPost);
+      return newPost;
+    });
+  }
+
+  async updatePost(id: string, updates: Partial<BlogPost>): Promise<BlogPost> {
+    return this.queue.run(async () => {
+      const index = this.posts.findIndex(post => post.id === id);
+      if (index === -1) {
+        throw new ContentError('Post not found', 'not_found');
+      }
+
+      const { id: _ignored, ...changes } = updates;
+      if (changes.slug && changes.slug !== this.posts[index].slug) {
+        this.assertSlugAvailable(changes.slug);
+      }
+
+      const applied: Partial<BlogPost> = { ...changes, updatedAt: new Date() };
+      const unset = Object.keys(applied).filter(key => applied[key as keyof BlogPost] === undefined);
+      const entry: JournalEntry = { op: 'update', at: new Date().toISOString(), id, updates: applied, ...(unset.length > 0 && { unset }) };
+      await this.append(entry);
+      this.posts[index] = applyUpdate(this.posts[index], entry);
+      return this.posts[index];
+    });
+  }
+
+  async deletePost(id: string): Promise<void> {
+    return this.queue.run(async () => {
+      if (!this.posts.some(post => post.id === id)) return;
+
+      await this.append({ op: 'delete', at: new Date().toISOString(), id });
+      this.posts = this.posts.filter(post => post.id !== id);
+    });
+  }
+
+  /**
+   * Rewrite the journal with one entry per touched post.
+   * The new file is written beside the old one and renamed over it.
+   */
+  async compact(): Promise<void> {
+    return this.queue.run(() => this.compactNow());
+  }
+
+  private assertSlugAvailable(slug: string) {
+    if (this.posts.some(post => post.slug === slug)) {
+      throw new ContentError(`Slug "${slug}" is already in use`, 'slug_conflict');
+    }
+  }
+
+  private async append(entry: JournalEntry) {
+    await appendJsonLine(this.file, entry);
+
+    this.entryCount++;
+    if (this.entryCount >= this.compactAfter) {
+      await this.compactNow();
+    }
+  }
+
+  private async compactNow() {
+    const entries = foldEntries(this.readEntries());
+    await writeJsonLines(this.file, entries);
+
+    this.entryCount = entries.length;
+  }
+
+  private readEntries(): JournalEntry[] {
+    return readJsonLines<JournalEntry>(this.file, 'content journal', reviveEntry);
+  }
+
+  private replay() {
+    const entries = this.readEntries();
+
+    for (const entry of entries) {
+      switch (entry.op) {
+        case 'create': {
+          const clash = this.posts.findIndex(post => post.id === entry.post.id || post.slug === entry.post.slug);
+          if (clash !== -1) {
+            console.warn(`[content] Journal post "${entry.post.slug}" replaces a base post with the same id or slug`);
+            this.posts.splice(clash, 1);
+          }
+          // Entries written before lifecycle states existed were always live
+          this.posts.push({ ...entry.post, status: entry.post.status ?? 'published' });
+          break;
+        }
+        case 'update': {
+          const index = this.posts.findIndex(post => post.id === entry.id);
+          if (index !== -1) {
+            this.posts[index] = applyUpdate(this.posts[index], entry);
+          }
+          break;
+        }
+        case 'delete':
+          this.posts = this.posts.filter(post => post.id !== entry.id);
+          break;
+      }
+    }
+
+    this.entryCount = entries.length;
+  }
+}
+
+// Collapse a journal into the minimal entries that reproduce the same state
+function foldEntries(entries: JournalEntry[]): JournalEntry[] {
+  const folded = new Map<string, JournalEntry>();
+
+  for (const entry of entries) {
+    const id = entry.op === 'create' ? entry.post.id : entry.id;
+    const previous = folded.get(id);
+
+    if (entry.op === 'update' && previous?.op === 'create') {
+      folded.set(id, { ...previous, at: entry.at, post: applyUpdate(previous.post, entry) });
+    } else if (entry.op === 'update' && previous?.op === 'update') {
+      const unset = (previous.unset ?? [])
+        .filter(key => !Object.prototype.hasOwnProperty.call(entry.updates, key))
+        .concat(entry.unset ?? []);
+      const { unset: _cleared, ...rest } = previous;
+      folded.set(id, { ...rest, at: entry.at, updates: applyUpdate(previous.updates, entry), ...(unset.length > 0 && { unset }) });
+    } else if (entry.op === 'delete' && previous?.op === 'create') {
+      folded.delete(id);
+    } else {
+      folded.set(id, entry);
+    }
+  }
+
+  return Array.from(folded.values());
+}
+
+// Merge an update into a post (or into earlier updates) and drop the fields it clears
+function applyUpdate<T extends Partial<BlogPost>>(target: T, entry: { updates: Partial<BlogPost>; unset?: string[] }): T {
+  const next: Record<string, unknown> = { ...target, ...entry.updates };
+  Object.keys(next).forEach(key => {
+    if (next[key] === undefined) delete next[key];
+  });
+  (entry.unset ?? []).forEach(key => delete next[key]);
+  return next as T;
+}
@@ -0,0 +1,204 @@
+/**
+ * VIB3CODE-0 Editorial Lint
+ *
+ * Checks a post before readers see it: SEO field lengths, the excerpt,
+ * slug format and uniqueness, heading hierarchy, image alt text and
+ * internal link targets, plus anything compileMdx reports. Errors mean the
+ * page is broken or inaccessible; warnings are editorial advice.
+ * ContentAPI runs this on every save and refuses to publish posts with
+ * errors; the admin lint endpoint runs it over the whole site.
+ */
+
+import { BlogPost, contentCategories, defaultBlogConfig } from '../blog-config';
+import { MdxBlock, MdxInline, compileMdx, plainText } from './mdx';
+
+export type LintRule =
+  | 'title'
+  | 'excerpt'
+  | 'slug'
+  | 'duplicate-slug'
+  | 'seo-title'
+  | 'seo-description'
+  | 'og-image'
+  | 'heading-hierarchy'
+  | 'image-alt'
+  | 'internal-link'
+  | 'mdx';
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: 'error' | 'warning';
+  /** Post field the issue is about, e.g. "seo.metaTitle" or "content" */
+  field: string;
+  message: string;
+  /** Line in the content, when known */
+  line?: number;
+}
+
+export interface LintReport {
+  postId?: string;
+  slug: string;
+  title: string;
+  errors: number;
+  warnings: number;
+  issues: LintIssue[];
+}
+
+export interface LintContext {
+  /** Every stored post, for duplicate slugs and link targets */
+  posts?: BlogPost[];
+}
+
+/** Lengths search engines display without truncating */
+export const LINT_LIMITS = {
+  metaTitle: { max: 60 },
+  metaDescription: { min: 50, max: 160 }
+};
+
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function lintPost(post: Partial<BlogPost>, context: LintContext = {}): LintReport {
+  const issues: LintIssue[] = [];
+  const add = (rule: LintRule, severity: LintIssue['severity'], field: string, message: string, line?: number) => {
+    issues.push({ rule, severity, field, message, ...(line !== undefined && { line }) });
+  };
+  const title = (post.title ?? '').trim();
+  const slug = post.slug ?? '';
+  const excerpt = (post.excerpt ?? '').trim();
+  const seo = post.seo ?? {};
+  const others = (context.posts ?? []).filter(other => !post.id || other.id !== post.id);
+
+  if (!title) add('title', 'error', 'title', 'Title is empty');
+  if (!excerpt) add('excerpt', 'error', 'excerpt', 'Excerpt is empty; listings, feeds and digests show it');
+
+  if (!SLUG.test(slug)) {
+    add('slug', 'error', 'slug', `Slug "${slug}" must be lowercase words joined by hyphens`);
+  } else if (others.some(other => other.slug === slug)) {
+    add('duplicate-slug', 'error', 'slug', `Slug "${slug}" is already used by another post`);
+  }
+
+  // Pages fall back to the title and excerpt when the SEO fields are empty
+  const metaTitle = (seo.metaTitle ?? '').trim() || title;
+  if (metaTitle.length > LINT_LIMITS.metaTitle.max) {
+    add('seo-title', 'warning', 'seo.metaTitle',
+      `Meta title is ${metaTitle.length} characters; search results cut it off after ${LINT_LIMITS.metaTitle.max}`);
+  }
+  const description = (seo.metaDescription ?? '').trim() || excerpt;
+  if (description && description.length > LINT_LIMITS.metaDescription.max) {
+    add('seo-description', 'warning', 'seo.metaDescription',
+      `Meta description is ${description.length} characters; keep it under ${LINT_LIMITS.metaDescription.max}`);
+  } else if (description && description.length < LINT_LIMITS.metaDescription.min) {
+    add('seo-description', 'warning', 'seo.metaDescription',
+      `Meta description is only ${description.length} characters; aim for ${LINT_LIMITS.metaDescription.min}-${LINT_LIMITS.metaDescription.max}`);
+  }
+  if (!seo.ogImage) {
+    add('og-image', 'warning', 'seo.ogImage', 'No social preview image (seo.ogImage)');
+  }
+
+  const compiled = compileMdx(post.content ?? '');
+  for (const issue of compiled.issues) {
+    add('mdx', issue.severity, 'content', issue.message, issue.line);
+  }
+
+  const headings: Array<{ depth: number; id: string; text: string }> = [];
+  const images: Array<{ src: string; alt: string }> = [];
+  const links: string[] = [];
+  walk(compiled.body, block => {
+    if (block.type === 'heading') headings.push({ depth: block.depth, id: block.id, text: plainText(block.children) });
+  }, node => {
+    if (node.type === 'image') images.push(node);
+    if (node.type === 'link') links.push(node.href);
+  });
+
+  // The title renders as the page's h1, so the body starts at h2
+  let previous = 1;
+  for (const heading of headings) {
+    if (heading.depth === 1) {
+      add('heading-hierarchy', 'warning', 'content', `"${heading.text}" is a second h1; the title is already the page heading`);
+    } else if (heading.depth > previous + 1) {
+      add('heading-hierarchy', 'warning', 'content', `"${heading.text}" jumps from h${previous} to h${heading.depth}`);
+    }
+    previous = heading.depth;
+  }
+
+  for (const image of images) {
+    if (!image.alt.trim()) add('image-alt', 'error', 'content', `Image ${image.src} has no alt text`);
+  }
+
+  const anchors = new Set(headings.map(heading => heading.id));
+  const bySlug = new Map(others.map(other => [other.slug, other] as [string, BlogPost]));
+  const checked = new Set<string>();
+  for (const href of links) {
+    if (checked.has(href)) continue;
+    checked.add(href);
+    const problem = checkLink(href, post, anchors, bySlug);
+    if (problem) add('internal-link', problem.severity, 'content', problem.message);
+  }
+
+  return {
+    ...(post.id && { postId: post.id }),
+    slug,
+    title,
+    errors: issues.filter(issue => issue.severity === 'error').length,
+    warnings: issues.filter(issue => issue.severity === 'warning').length,
+    issues
+  };
+}
+
+/** Reports for `posts`, each checked against `all` stored posts, worst first */
+export function lintPosts(posts: BlogPost[], all: BlogPost[] = posts): LintReport[] {
+  return posts
+    .map(post => lintPost(post, { posts: all }))
+    .sort((a, b) => b.errors - a.errors || b.warnings - a.warnings || a.slug.localeCompare(b.slug));
+}
+
+function checkLink(
+  href: string,
+  post: Partial<BlogPost>,
+  anchors: Set<string>,
+  bySlug: Map<string, BlogPost>
+): Pick<LintIssue, 'severity' | 'message'> | null {
+  const site = defaultBlogConfig.site.url.replace(/\/$/, '');
+  const path = href.indexOf(site) === 0 ? href.slice(site.length) || '/' : href;
+
+  if (path === '#') {
+    // Also what script URLs are rewritten to
+    return { severity: 'error', message: 'Link has no target' };
+  }
+  if (path.charAt(0) === '#') {
+    return anchors.has(path.slice(1))
+      ? null
+      : { severity: 'error', message: `Link ${href} points to a heading that does not exist` };
+  }
+  if (path.charAt(0) !== '/' || path.charAt(1) === '/') return null;
+
+  const segments = path.replace(/[?#].*$/, '').split('/').filter(Boolean);
+  if (segments[0] === 'posts' && segments.length === 2) {
+    if (segments[1] === post.slug) return null;
+    const target = bySlug.get(segments[1]);
+    if (!target) return { severity: 'error', message: `Link ${href} points to a post that does not exist` };
+    if (target.status !== 'published' && post.status === 'published') {
+      return { severity: 'warning', message: `Link ${href} points to a post that is ${target.status}` };
+    }
+  }
+  if (segments[0] === 'category' && segments.length === 2 && !contentCategories.hasOwnProperty(segments[1])) {
+    return { severity: 'error', message: `Link ${href} points to an unknown category` };
+  }
+  return null;
+}
+
+function walk(blocks: MdxBlock[], onBlock: (block: MdxBlock) => void, onInline: (node: MdxInline) => void) {
+  const inline = (nodes: MdxInline[]) => {
+    for (const node of nodes) {
+      onInline(node);
+      if ('children' in node) inline(node.children);
+    }
+  };
+
+  for (const block of blocks) {
+    onBlock(block);
+    if (block.type === 'heading' || block.type === 'paragraph') inline(block.children);
+    if (block.type === 'list') block.items.forEach(inline);
+    if (block.type === 'blockquote' || block.type === 'component') walk(block.children, onBlock, onInline);
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * VIB3CODE-0 Content Loader
+ *
+ * Loads Markdown/MDX posts from the /content directory (server only); the
+ * server content API serves them as the base layer under its journal.
+ * Frontmatter is validated against the BlogPost shape; malformed files are
+ * reported with file and line instead of being dropped silently.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BlogPost, PostStatus, contentCategories, defaultBlogConfig } from '../blog-config';
+import { contentUtils } from '../content-api';
+import { ContentParseError, FrontmatterData, FrontmatterValue, parseFrontmatter } from './frontmatter';
+
+export interface ContentLoadIssue {
+  file: string;
+  line: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ContentLoadResult {
+  posts: BlogPost[];
+  issues: ContentLoadIssue[];
+}
+
+const CONTENT_EXTENSIONS = new Set(['.md', '.mdx']);
+
+const KNOWN_KEYS = new Set([
+  'id', 'title', 'slug', 'excerpt', 'author', 'publishedAt', 'updatedAt',
+  'status', 'scheduledFor', 'tags', 'category', 'seo', 'holographicParams', 'series',
+]);
+
+const POST_STATUSES: PostStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Log load issues, or throw when `strict` is set and any file failed to load.
+ */
+export function reportContentIssues(result: ContentLoadResult, strict = false) {
+  const errors = result.issues.filter(issue => issue.severity === 'error');
+
+  if (strict && errors.length > 0) {
+    throw new Error(
+      `Failed to load ${errors.length} content file(s):\n` +
+      errors.map(issue => `  ${issue.file}:${issue.line}: ${issue.message}`).join('\n')
+    );
+  }
+
+  for (const issue of result.issues) {
+    console.warn(`[content] ${issue.severity} ${issue.file}:${issue.line}: ${issue.message}`);
+  }
+}
+
+/**
+ * Scan a directory recursively for .md/.mdx files and parse them into posts.
+ * File paths in issues are relative to the scanned directory.
+ */
+export function loadContentDirectory(directory: string): ContentLoadResult {
+  const posts: BlogPost[] = [];
+  const issues: ContentLoadIssue[] = [];
+  const slugOwners = new Map<string, string>();
+
+  if (!fs.existsSync(directory)) {
+    return { posts, issues };
+  }
+
+  for (const absolutePath of listContentFiles(directory)) {
+    const file = path.relative(directory, absolutePath);
+
+    try {
+      const source = fs.readFileSync(absolutePath, 'utf8');
+      const { post, warnings } = parsePostSource(source, file);
+      const owner = slugOwners.get(post.slug);
+
+      if (owner) {
+        issues.push({
+          file,
+          line: 1,
+          message: `Duplicate slug "${post.slug}" (already used by ${owner})`,
+          severity: 'error',
+        });
+        continue;
+      }
+
+      slugOwners.set(post.slug, file);
+      posts.push(post);
+      issues.push(...warnings);
+    } catch (error) {
+      issues.push({
+        file,
+        line: error instanceof ContentParseError ? error.line : 1,
+        message: error instanceof ContentParseError ? error.detail : (error as Error).message,
+        severity: 'error',
+      });
+    }
+  }
+
+  return { posts, issues };
+}
+
+function listContentFiles(directory: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listContentFiles(fullPath));
+    } else if (CONTENT_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+export interface ParsePostOptions {
+  /** Translate foreign category names (e.g. during imports); unmapped names fail as unknown */
+  mapCategory?: (category: string) => keyof typeof contentCategories | undefined;
+}
+
+/**
+ * Parse a single Markdown/MDX source into a BlogPost.
+ * Throws ContentParseError (with file and line) for invalid frontmatter.
+ */
+export function parsePostSource(
+  source: string,
+  file: string,
+  options: ParsePostOptions = {}
+): { post: BlogPost; warnings: ContentLoadIssue[] } {
+  let parsed;
+  try {
+    parsed = parseFrontmatter(source);
+  } catch (error) {
+    if (error instanceof ContentParseError) {
+      throw new ContentParseError(error.detail, error.line, file);
+    }
+    throw error;
+  }
+
+  const { data, body, keyLines } = parsed;
+  const lineOf = (key: string) => keyLines[key] ?? 1;
+  const fail = (key: string, message: string): never => {
+    throw new ContentParseError(message, lineOf(key), file);
+  };
+
+  const warnings: ContentLoadIssue[] = Object.keys(data)
+    .filter(key => !KNOWN_KEYS.has(key))
+    .map(key => ({ file, line: lineOf(key), message: `Unknown frontmatter key "${key}"`, severity: 'warning' as const }));
+
+  const title = readString(data, 'title') ?? fail('title', 'Missing required field "title"');
+
+  const rawCategory = readString(data, 'category') ?? fail('category', 'Missing required field "category"');
+  const category = options.mapCategory?.(rawCategory) ?? rawCategory;
+  if (!(category in contentCategories)) {
+    fail('category', `Unknown category "${category}" (expected one of: ${Object.keys(contentCategories).join(', ')})`);
+  }
+  const categoryKey = category as keyof typeof contentCategories;
+
+  const fileSlug = path.basename(file, path.extname(file));
+  const slug = readString(data, 'slug') ?? (fileSlug === 'index' ? contentUtils.generateSlug(title) : fileSlug);
+  if (!SLUG_PATTERN.test(slug)) {
+    fail('slug', `Invalid slug "${slug}": use lowercase letters, digits and single hyphens`);
+  }
+
+  const publishedAt = readDate(data, 'publishedAt', fail) ?? fail('publishedAt', 'Missing required field "publishedAt"');
+  const updatedAt = readDate(data, 'updatedAt', fail) ?? publishedAt;
+
+  const status = (readString(data, 'status') ?? 'published') as PostStatus;
+  if (!POST_STATUSES.includes(status)) {
+    fail('status', `Unknown status "${status}" (expected one of: ${POST_STATUSES.join(', ')})`);
+  }
+  const scheduledFor = readDate(data, 'scheduledFor', fail);
+  if (status === 'scheduled' && !scheduledFor) {
+    fail('status', 'Scheduled posts need a "scheduledFor" date');
+  }
+
+  const excerpt = readString(data, 'excerpt')
+    ?? contentUtils.extractExcerpt(body, defaultBlogConfig.content.excerptLength);
+
+  const seo = readMap(data, 'seo', fail);
+  const theme = contentCategories[categoryKey].holographicTheme;
+  const holographic = readMap(data, 'holographicParams', fail);
+  const holographicParams = {
+    ...readNumbers(holographic, 'holographicParams', fail),
+    hue: readNumber(holographic, 'hue', fail) ?? theme.hue,
+    density: readNumber(holographic, 'density', fail) ?? theme.density,
+    intensity: readNumber(holographic, 'intensity', fail) ?? theme.intensity,
+    theme: readString(holographic, 'theme') ?? theme.theme,
+  };
+
+  const series = readSeries(data, fail);
+
+  const post: BlogPost = {
+    id: readString(data, 'id') ?? slug,
+    title,
+    slug,
+    excerpt,
+    content: body,
+    author: readAuthor(data, fail),
+    publishedAt,
+    updatedAt,
+    status,
+    ...(scheduledFor && { scheduledFor }),
+    tags: readTags(data, fail),
+    category: categoryKey,
+    readingTime: contentUtils.calculateReadingTime(body),
+    seo: {
+      metaTitle: readString(seo, 'metaTitle') ?? `${title} - ${defaultBlogConfig.site.name}`,
+      metaDescription: readString(seo, 'metaDescription') ?? excerpt,
+      // Custom holographicParams also shape the preview card's lattice
+      ogImage: readString(seo, 'ogImage')
+        ?? contentUtils.generateOGImage(title, categoryKey, Object.keys(holographic).length ? holographicParams : undefined),
+      ...(readBoolean(seo, 'noindex', fail) && { noindex: true }),
+    },
+    holographicParams,
+    ...(series && { series }),
+  };
+
+  return { post, warnings };
+}
+
+type Fail = (key: string, message: string) => never;
+
+function readString(data: FrontmatterData, key: string): string | undefined {
+  const value = data[key];
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'object') return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+function readNumber(data: FrontmatterData, key: string, fail: Fail): number | undefined {
+  const value = data[key];
+  if (value === null || value === undefined) return undefined;
+  if (typeof value !== 'number') fail(key, `"${key}" must be a number`);
+  return value as number;
+}
+
+function readBoolean(data: FrontmatterData, key: string, fail: Fail): boolean | undefined {
+  const value = data[key];
+  if (value === null || value === undefined) return undefined;
+  if (typeof value !== 'boolean') fail(key, `"${key}" must be true or false`);
+  return value as boolean;
+}
+
+function readNumbers(data: FrontmatterData, parent: string, fail: Fail): Record<string, number> {
+  const numbers: Record<string, number> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'theme') continue;
+    if (typeof value !== 'number') fail(parent, `"${parent}.${key}" must be a number`);
+    numbers[key] = value as number;
+  }
+  return numbers;
+}
+
+function readDate(data: FrontmatterData, key: string, fail: Fail): Date | undefined {
+  const value = readString(data, key);
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) fail(key, `"${key}" is not a valid date: ${value}`);
+  return date;
+}
+
+function readMap(data: FrontmatterData, key: string, fail: Fail): FrontmatterData {
+  const value = data[key];
+  if (value === null || value === undefined) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) fail(key, `"${key}" must be a map`);
+  return value as FrontmatterData;
+}
+
+function readSeries(data: FrontmatterData, fail: Fail): BlogPost['series'] {
+  if (data.series === null || data.series === undefined) return undefined;
+
+  const series = readMap(data, 'series', fail);
+  const id = readString(series, 'id') ?? fail('series', '"series.id" is required');
+  const part = readNumber(series, 'part', fail) ?? fail('series', '"series.part" is required');
+  if (!Number.isInteger(part) || part < 1) fail('series', '"series.part" must be a whole number from 1');
+  return { id, part };
+}
+
+function readTags(data: FrontmatterData, fail: Fail): string[] {
+  const value: FrontmatterValue | undefined = data.tags;
+  if (value === null || value === undefined) return [];
+  if (typeof value === 'string') return value.split(',').map(tag => tag.trim()).filter(Boolean);
+  if (!Array.isArray(value) || value.some(tag => tag === null || typeof tag === 'object')) {
+    fail('tags', '"tags" must be a list of strings');
+  }
+  return (value as Array<string | number | boolean>).map(tag => String(tag).trim()).filter(Boolean);
+}
+
+function readAuthor(data: FrontmatterData, fail: Fail): BlogPost['author'] {
+  const value = data.author;
+  if (value === null || value === undefined) return { name: defaultBlogConfig.site.author };
+  if (typeof value === 'string') return { name: value };
+
+  const author = readMap(data, 'author', fail);
+  const name = readString(author, 'name') ?? fail('author', '"author.name" is required');
+  return {
+    id: readString(author, 'id'),
+    name,
+    avatar: readString(author, 'avatar'),
+    bio: readString(author, 'bio'),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * VIB3CODE-0 Markdown to HTML
+ *
+ * Small, dependency-free Markdown renderer for places that need static HTML
+ * outside React (feeds, digests). Covers headings, paragraphs, lists,
+ * blockquotes, fenced code, rules, emphasis, inline code, links and images.
+ * Raw HTML is escaped and MDX component lines are dropped.
+ */
+
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let quote: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) {
+      blocks.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      list = null;
+    }
+    if (quote.length) {
+      blocks.push(`<blockquote>${markdownToHtml(quote.join('\n'))}</blockquote>`);
+      quote = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      const language = fence[2] ? ` class="language-${fence[2]}"` : '';
+      blocks.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    // MDX imports/exports and component tags have no static equivalent
+    if (/^\s*(import|export)\s/.test(line) || /^\s*<\/?[A-Z][\w.]*[\s/>]/.test(line)) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      blocks.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      blocks.push('<hr />');
+      continue;
+    }
+
+    const quoted = line.match(/^\s*>\s?(.*)$/);
+    if (quoted) {
+      if (!quote.length) flush();
+      quote.push(quoted[1]);
+      continue;
+    }
+
+    const item = line.match(/^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+    if (item) {
+      const ordered = item[2] !== undefined;
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, items: [] };
+      }
+      list.items.push(item[3]);
+      continue;
+    }
+
+    if (list && /^\s+\S/.test(line)) {
+      // Indented continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+
+    if (list || quote.length) flush();
+    paragraph.push(line.trim());
+  }
+
+  flush();
+  return blocks.join('\n');
+}
+
+function renderInline(text: string): string {
+  // Code spans are rendered first and protected from emphasis rules
+  const spans: string[] = [];
+  let html = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    spans.push(`<code>${escapeHtml(code)}</code>`);
+    return `\u0000${spans.length - 1}\u0000`;
+  });
+
+  html = escapeHtml(html)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g, (_, alt: string, src: string) => `<img src="${safeUrl(src)}" alt="${alt}" />`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g, (_, label: string, href: string) => `<a href="${safeUrl(href)}">${label}</a>`)
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    // Underscores inside words (snake_case) are not emphasis
+    .replace(/(^|\W)_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => spans[Number(index)]);
+}
+
+// Only neutralizes script URLs; escaping is up to the caller
+export function safeUrl(url: string): string {
+  return /^\s*(javascript|vbscript|data):/i.test(url) ? '#' : url;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,500 @@
+/**
+ * VIB3CODE-0 MDX Compiler
+ *
+ * Compiles article MDX into a serializable tree that components/mdx renders
+ * with React, so the same output works in server components and the admin
+ * preview. Headings get anchor ids (also collected into a
+ * table of contents), fenced code is tokenized by highlightCode, and
+ * capitalized tags become registered components such as `<Hologram />`.
+ *
+ * Nothing in a document is evaluated: props must be strings or `{literal}`
+ * values (numbers, booleans, JSON), imports and exports are ignored, and
+ * unknown components are reported and left out.
+ */
+
+import { VIB3GeometryParams } from '../vib34d-geometries';
+import { HighlightToken, highlightCode } from './highlight';
+import { hologramProps } from './hologram';
+import { safeUrl } from './markdown';
+
+export const MDX_COMPONENTS = ['Hologram', 'Callout'] as const;
+export type MdxComponentName = typeof MDX_COMPONENTS[number];
+
+export const CALLOUT_TYPES = ['note', 'tip', 'warning', 'danger'] as const;
+export type CalloutType = typeof CALLOUT_TYPES[number];
+
+export type MdxPropValue = string | number | boolean | null | MdxPropValue[] | { [key: string]: MdxPropValue };
+
+export type MdxInline =
+  | { type: 'text'; value: string }
+  | { type: 'inlineCode'; value: string }
+  | { type: 'strong' | 'emphasis' | 'delete'; children: MdxInline[] }
+  | { type: 'link'; href: string; children: MdxInline[] }
+  | { type: 'image'; src: string; alt: string };
+
+export type MdxBlock =
+  | { type: 'heading'; depth: number; id: string; children: MdxInline[] }
+  | { type: 'paragraph'; children: MdxInline[] }
+  | { type: 'list'; ordered: boolean; items: MdxInline[][] }
+  | { type: 'blockquote'; children: MdxBlock[] }
+  | { type: 'code'; lang?: string; value: string; tokens: HighlightToken[] }
+  | { type: 'thematicBreak' }
+  | { type: 'component'; name: MdxComponentName; props: Record<string, MdxPropValue>; children: MdxBlock[] };
+
+export interface TocEntry {
+  depth: number;
+  text: string;
+  /** Anchor id of the heading */
+  id: string;
+}
+
+export interface MdxIssue {
+  line: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface CompiledMdx {
+  body: MdxBlock[];
+  toc: TocEntry[];
+  issues: MdxIssue[];
+}
+
+export interface CompileMdxOptions {
+  /** Heading levels listed in the table of contents (default [2, 3]) */
+  tocDepth?: [number, number];
+  /** Parameters a Hologram falls back to, e.g. from the post's holographicParams */
+  hologram?: Partial<VIB3GeometryParams>;
+}
+
+interface CompileContext {
+  options: CompileMdxOptions;
+  ids: Record<string, true>;
+  toc: TocEntry[];
+  issues: MdxIssue[];
+}
+
+export function compileMdx(source: string, options: CompileMdxOptions = {}): CompiledMdx {
+  const context: CompileContext = { options, ids: {}, toc: [], issues: [] };
+  const body = parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'), 0, context);
+  return { body, toc: context.toc, issues: context.issues };
+}
+
+/** Anchor id for a heading: the slug of its text, "section" when it has none */
+export function headingId(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '') || 'section';
+}
+
+/** Text content of inline nodes (image alt text included) */
+export function plainText(nodes: MdxInline[]): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'inlineCode':
+          return node.value;
+        case 'image':
+          return node.alt;
+        default:
+          return plainText(node.children);
+      }
+    })
+    .join('');
+}
+
+function parseBlocks(lines: string[], offset: number, context: CompileContext): MdxBlock[] {
+  const blocks: MdxBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let quote: { start: number; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+      list = null;
+    }
+    if (quote) {
+      blocks.push({ type: 'blockquote', children: parseBlocks(quote.lines, quote.start, context) });
+      quote = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      flush();
+      const start = i;
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      if (i >= lines.length) issue(context, offset + start, 'Code block is never closed', 'warning');
+      const value = code.join('\n');
+      blocks.push({ type: 'code', ...(fence[2] && { lang: fence[2] }), value, tokens: highlightCode(value, fence[2]) });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    // Components come from the registry; {/* comments */} have no output
+    if (/^\s*(import|export)\s/.test(line) || /^\s*\{\/\*[\s\S]*\*\/\}\s*$/.test(line)) {
+      flush();
+      continue;
+    }
+
+    const tag = line.match(/^\s*<(\/?)([A-Z][\w.]*)/);
+    if (tag) {
+      flush();
+      if (tag[1]) {
+        issue(context, offset + i, `Unexpected closing tag </${tag[2]}>`, 'error');
+        continue;
+      }
+      const component = readComponent(lines, i, offset, context);
+      if (component.block) blocks.push(component.block);
+      i = component.end;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      blocks.push(headingBlock(heading[1].length, heading[2], context));
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      blocks.push({ type: 'thematicBreak' });
+      continue;
+    }
+
+    const quoted = line.match(/^\s*>\s?(.*)$/);
+    if (quoted) {
+      if (!quote) {
+        flush();
+        quote = { start: offset + i, lines: [] };
+      }
+      quote.lines.push(quoted[1]);
+      continue;
+    }
+
+    const item = line.match(/^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+    if (item) {
+      const ordered = item[2] !== undefined;
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, items: [] };
+      }
+      list.items.push(item[3]);
+      continue;
+    }
+
+    if (list && /^\s+\S/.test(line)) {
+      // Indented continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+
+    if (list || quote) flush();
+    paragraph.push(line.trim());
+  }
+
+  flush();
+  return blocks;
+}
+
+function headingBlock(depth: number, source: string, context: CompileContext): MdxBlock {
+  // "## Title {#custom-id}" pins the anchor
+  const custom = source.match(/\s*\{#([\w-]+)\}$/);
+  const children = parseInline(custom ? source.slice(0, custom.index) : source);
+  const text = plainText(children);
+
+  const base = custom ? custom[1] : headingId(text);
+  let id = base;
+  for (let suffix = 1; context.ids[id]; suffix++) id = `${base}-${suffix}`;
+  context.ids[id] = true;
+
+  const [min, max] = context.options.tocDepth ?? [2, 3];
+  if (depth >= min && depth <= max) context.toc.push({ depth, text, id });
+  return { type: 'heading', depth, id, children };
+}
+
+/**
+ * Component starting at lines[start]; the opening tag may span lines and
+ * children run to the matching closing tag. `end` is the last line used.
+ */
+function readComponent(
+  lines: string[],
+  start: number,
+  offset: number,
+  context: CompileContext
+): { block: MdxBlock | null; end: number } {
+  const name = lines[start].match(/<([A-Z][\w.]*)/)![1];
+  let text = lines[start].slice(lines[start].indexOf('<') + 1 + name.length);
+  let end = start;
+  let tagEnd = scanTag(text);
+  while (tagEnd < 0 && end + 1 < lines.length) {
+    text += `\n${lines[++end]}`;
+    tagEnd = scanTag(text);
+  }
+  if (tagEnd < 0) {
+    issue(context, offset + start, `<${name}> tag is never closed`, 'error');
+    return { block: null, end: lines.length - 1 };
+  }
+
+  const selfClosing = text.charAt(tagEnd - 1) === '/';
+  const attributes = text.slice(0, selfClosing ? tagEnd - 1 : tagEnd);
+  const rest = text.slice(tagEnd + 1);
+  const children: string[] = [];
+  let childOffset = offset + end;
+
+  if (!selfClosing) {
+    const close = `</${name}>`;
+    const sameLine = rest.indexOf(close);
+    if (sameLine >= 0) {
+      children.push(rest.slice(0, sameLine));
+    } else {
+      if (rest.trim()) children.push(rest);
+      else childOffset++;
+      const opening = new RegExp(`^\\s*<${name.replace(/\./g, '\\.')}[\\s>]`);
+      let depth = 1;
+      while (++end < lines.length) {
+        const line = lines[end];
+        if (opening.test(line) && !/\/>\s*$/.test(line)) depth++;
+        if (line.trim() === close && --depth === 0) break;
+        children.push(line);
+      }
+      if (end >= lines.length) {
+        issue(context, offset + start, `<${name}> is never closed (expected ${close})`, 'error');
+        end = lines.length - 1;
+      }
+    }
+  }
+
+  if (!isComponent(name)) {
+    issue(context, offset + start, `Unknown component <${name}>; it is left out (available: ${MDX_COMPONENTS.join(', ')})`, 'warning');
+    return { block: null, end };
+  }
+
+  const props = validateProps(name, parseProps(attributes, name, offset + start, context), offset + start, context);
+  return {
+    block: { type: 'component', name, props, children: parseBlocks(children, childOffset, context) },
+    end
+  };
+}
+
+function isComponent(name: string): name is MdxComponentName {
+  return (MDX_COMPONENTS as readonly string[]).indexOf(name) >= 0;
+}
+
+function validateProps(
+  name: MdxComponentName,
+  props: Record<string, MdxPropValue>,
+  line: number,
+  context: CompileContext
+): Record<string, MdxPropValue> {
+  switch (name) {
+    case 'Hologram': {
+      const { params, height, caption, issues } = hologramProps(props, context.options.hologram);
+      issues.forEach(message => issue(context, line, `<Hologram> ${message}`, 'warning'));
+      return { ...params, height, ...(caption !== undefined && { caption }) };
+    }
+    case 'Callout': {
+      const type = props.type ?? 'note';
+      if ((CALLOUT_TYPES as readonly MdxPropValue[]).indexOf(type) < 0) {
+        issue(context, line, `<Callout> type must be one of ${CALLOUT_TYPES.join(', ')}`, 'warning');
+        return { ...props, type: 'note' };
+      }
+      return props;
+    }
+  }
+}
+
+function parseProps(source: string, component: string, line: number, context: CompileContext): Record<string, MdxPropValue> {
+  const props: Record<string, MdxPropValue> = {};
+  let i = 0;
+
+  while (i < source.length) {
+    if (/\s/.test(source.charAt(i))) {
+      i++;
+      continue;
+    }
+
+    if (source.charAt(i) === '{') {
+      const end = matchBrace(source, i);
+      if (!/^\{\s*\/\*[\s\S]*\*\/\s*\}$/.test(source.slice(i, end + 1))) {
+        issue(context, line, `<${component}> spread props are not supported`, 'error');
+      }
+      if (end < 0) break;
+      i = end + 1;
+      continue;
+    }
+
+    const name = source.slice(i).match(/^[A-Za-z_$][\w$:-]*/);
+    if (!name) {
+      issue(context, line, `<${component}> has an unexpected "${source.charAt(i)}"`, 'error');
+      break;
+    }
+    i += name[0].length;
+    while (/\s/.test(source.charAt(i))) i++;
+    if (source.charAt(i) !== '=') {
+      props[name[0]] = true;
+      continue;
+    }
+    i++;
+    while (/\s/.test(source.charAt(i))) i++;
+
+    const open = source.charAt(i);
+    const end = open === '{' ? matchBrace(source, i) : open === '"' || open === "'" ? source.indexOf(open, i + 1) : -1;
+    if (end < 0) {
+      issue(context, line, `<${component}> prop "${name[0]}" needs a quoted or {braced} value`, 'error');
+      break;
+    }
+
+    if (open === '{') {
+      const value = literal(source.slice(i + 1, end));
+      if (value === undefined) {
+        issue(context, line, `<${component}> prop "${name[0]}" must be a literal value; expressions are not evaluated`, 'error');
+      } else {
+        props[name[0]] = value;
+      }
+    } else {
+      props[name[0]] = source.slice(i + 1, end);
+    }
+    i = end + 1;
+  }
+  return props;
+}
+
+function literal(expression: string): MdxPropValue | undefined {
+  const value = expression.trim();
+  if (/^'(?:[^'\\]|\\.)*'$/.test(value) || /^`(?:[^`\\$]|\\.)*`$/.test(value)) {
+    return value.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i.test(value)) {
+    return Number(value);
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Index of the `>` ending a tag, skipping quoted strings and {expressions}; -1 if absent */
+function scanTag(text: string): number {
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (char === '"' || char === "'") {
+      const end = text.indexOf(char, i + 1);
+      if (end < 0) return -1;
+      i = end;
+    } else if (char === '{') {
+      const end = matchBrace(text, i);
+      if (end < 0) return -1;
+      i = end;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Index of the `}` closing the brace at `start`, skipping strings; -1 if unbalanced */
+function matchBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (char === '"' || char === "'" || char === '`') {
+      for (i++; i < text.length && text.charAt(i) !== char; i++) {
+        if (text.charAt(i) === '\\') i++;
+      }
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+type InlineRule = 'inlineCode' | 'image' | 'link' | 'strong' | 'emphasis' | 'underscore' | 'delete';
+
+const INLINE_RULES: Array<[InlineRule, RegExp]> = [
+  ['inlineCode', /`([^`]+)`/g],
+  ['image', /!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g],
+  ['link', /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g],
+  ['strong', /(\*\*|__)(?=\S)([\s\S]*?\S)\1/g],
+  ['emphasis', /\*(?=\S)([\s\S]*?\S)\*/g],
+  // Underscores inside words (snake_case) are not emphasis
+  ['underscore', /_(?=\S)([\s\S]*?\S)_(?!\w)/g],
+  ['delete', /~~(?=\S)([\s\S]*?\S)~~/g]
+];
+
+function parseInline(text: string): MdxInline[] {
+  const nodes: MdxInline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text') last.value += value;
+    else nodes.push({ type: 'text', value });
+  };
+
+  let position = 0;
+  while (position < text.length) {
+    // Earliest match wins; on a tie the rule listed first
+    let found: { rule: InlineRule; match: RegExpExecArray } | null = null;
+    for (const [rule, pattern] of INLINE_RULES) {
+      pattern.lastIndex = position;
+      let match = pattern.exec(text);
+      while (match && rule === 'underscore' && match.index > 0 && /\w/.test(text.charAt(match.index - 1))) {
+        pattern.lastIndex = match.index + 1;
+        match = pattern.exec(text);
+      }
+      if (match && (!found || match.index < found.match.index)) found = { rule, match };
+    }
+    if (!found) break;
+
+    const { rule, match } = found;
+    pushText(text.slice(position, match.index));
+    switch (rule) {
+      case 'inlineCode':
+        nodes.push({ type: 'inlineCode', value: match[1] });
+        break;
+      case 'image':
+        nodes.push({ type: 'image', src: safeUrl(match[2]), alt: match[1] });
+        break;
+      case 'link':
+        nodes.push({ type: 'link', href: safeUrl(match[2]), children: parseInline(match[1]) });
+        break;
+      case 'strong':
+        nodes.push({ type: 'strong', children: parseInline(match[2]) });
+        break;
+      case 'delete':
+        nodes.push({ type: 'delete', children: parseInline(match[1]) });
+        break;
+      default:
+        nodes.push({ type: 'emphasis', children: parseInline(match[1]) });
+    }
+    position = match.index + match[0].length;
+  }
+
+  pushText(text.slice(position));
+  return nodes;
+}
+
+function issue(context: CompileContext, index: number, message: string, severity: MdxIssue['severity']) {
+  context.issues.push({ line: index + 1, message, severity });
+}
@@ -0,0 +1,254 @@
+/**
+ * VIB3CODE-0 Open Graph Cards
+ *
+ * Builds the 1200x630 link-preview card served by /api/og: a dark field
+ * tinted with the category's holographic theme, a procedural lattice whose
+ * spacing, warp and glow follow holographicParams (hue, density, intensity),
+ * and the post title wrapped onto at most four lines.
+ *
+ * Everything is computed locally. The lattice is plain SVG; the route either
+ * returns the complete SVG or rasterizes it to PNG with the bundled font.
+ */
+
+import { contentCategories, defaultBlogConfig } from '../blog-config';
+import { escapeHtml } from './markdown';
+
+export interface OGCard {
+  title: string;
+  /** Category display name shown above the title */
+  label: string;
+  siteName: string;
+  /** 0-1 hue of the lattice */
+  hue: number;
+  /** 0-1 lattice density */
+  density: number;
+  /** 0-1 warp and glow strength */
+  intensity: number;
+  /** Accent colour as #rrggbb */
+  primaryColor: string;
+  width: number;
+  height: number;
+}
+
+export const OG_WIDTH = 1200;
+export const OG_HEIGHT = 630;
+
+export const TITLE_FONT_SIZE = 64;
+export const TITLE_LINE_HEIGHT = 1.15;
+const MAX_TITLE_LINES = 4;
+// Roughly how many average-width glyphs fit in the title column at 64px
+const TITLE_LINE_CHARS = 30;
+const MAX_TITLE_LENGTH = 200;
+
+// Used when the query names no known category (e.g. the home page card)
+const SITE_THEME = { hue: 0.6, density: 0.5, intensity: 0.3, primaryColor: '#00bcd4' };
+
+/**
+ * Card for an /api/og query string: title, category, color (hex without #)
+ * and optional hue/density/intensity overrides from a post's holographicParams.
+ * Bad values fall back to the category theme so previews never fail.
+ */
+export function resolveOGCard(params: URLSearchParams): OGCard {
+  const categoryKey = params.get('category');
+  const category = categoryKey && categoryKey in contentCategories
+    ? contentCategories[categoryKey as keyof typeof contentCategories]
+    : null;
+  const theme = category?.holographicTheme ?? SITE_THEME;
+  const color = params.get('color');
+
+  return {
+    title: (params.get('title')?.trim() || defaultBlogConfig.site.name).slice(0, MAX_TITLE_LENGTH),
+    label: category?.name ?? defaultBlogConfig.site.description,
+    siteName: defaultBlogConfig.site.name,
+    hue: unitParam(params, 'hue') ?? theme.hue,
+    density: unitParam(params, 'density') ?? theme.density,
+    intensity: unitParam(params, 'intensity') ?? theme.intensity,
+    primaryColor: color && /^[0-9a-f]{6}$/i.test(color) ? `#${color.toLowerCase()}` : theme.primaryColor,
+    width: OG_WIDTH,
+    height: OG_HEIGHT
+  };
+}
+
+/**
+ * Greedy word wrap by character count. Words longer than a line are split,
+ * and overflow past the last line is replaced by an ellipsis.
+ */
+export function wrapTitle(title: string, lineChars: number = TITLE_LINE_CHARS, maxLines: number = MAX_TITLE_LINES): string[] {
+  const words = title.split(/\s+/).filter(Boolean).flatMap(word => {
+    const pieces: string[] = [];
+    for (let start = 0; start < word.length; start += lineChars) {
+      pieces.push(word.slice(start, start + lineChars));
+    }
+    return pieces;
+  });
+
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= lineChars) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  const last = kept[maxLines - 1];
+  kept[maxLines - 1] = `${last.length >= lineChars ? last.slice(0, lineChars - 1).trimEnd() : last}…`;
+  return kept;
+}
+
+/** Background, glow and lattice without any text (the PNG path sets text itself) */
+export function renderCardBackground(card: OGCard): string {
+  const { width, height } = card;
+  const accent = hsl(card.hue, 0.85, 0.6);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '<defs>',
+    `<radialGradient id="glow" cx="78%" cy="38%" r="70%">`,
+    `<stop offset="0" stop-color="${card.primaryColor}" stop-opacity="${round(0.25 + card.intensity * 0.35)}" />`,
+    `<stop offset="1" stop-color="#0a0a0a" stop-opacity="0" />`,
+    '</radialGradient>',
+    `<linearGradient id="fade" x1="0" y1="0" x2="1" y2="0">`,
+    `<stop offset="0" stop-color="#0a0a0a" stop-opacity="0.92" />`,
+    `<stop offset="0.55" stop-color="#0a0a0a" stop-opacity="0.55" />`,
+    `<stop offset="1" stop-color="#0a0a0a" stop-opacity="0" />`,
+    '</linearGradient>',
+    '</defs>',
+    `<rect width="${width}" height="${height}" fill="#0a0a0a" />`,
+    `<rect width="${width}" height="${height}" fill="url(#glow)" />`,
+    renderLattice(card, accent),
+    // Keep the title column readable over the lattice
+    `<rect width="${width}" height="${height}" fill="url(#fade)" />`,
+    `<rect x="0" y="${height - 8}" width="${width}" height="8" fill="${card.primaryColor}" />`,
+    '</svg>'
+  ].join('\n');
+}
+
+/** Complete card as SVG, text included */
+export function renderCardSvg(card: OGCard): string {
+  const lines = wrapTitle(card.title);
+  const lineHeight = TITLE_FONT_SIZE * TITLE_LINE_HEIGHT;
+  const titleTop = card.height / 2 - (lines.length * lineHeight) / 2 + TITLE_FONT_SIZE * 0.8;
+  const font = 'font-family="Orbitron, \'Noto Sans\', Helvetica, Arial, sans-serif"';
+
+  const text = [
+    `<text x="80" y="96" ${font} font-size="26" letter-spacing="4" fill="${card.primaryColor}">${escapeHtml(card.label.toUpperCase())}</text>`,
+    `<text ${font} font-size="${TITLE_FONT_SIZE}" font-weight="700" fill="#ffffff">`,
+    ...lines.map((line, index) => `<tspan x="80" y="${round(titleTop + index * lineHeight)}">${escapeHtml(line)}</tspan>`),
+    '</text>',
+    `<text x="80" y="${card.height - 56}" ${font} font-size="28" fill="#ffffff" fill-opacity="0.7">${escapeHtml(card.siteName)}</text>`
+  ];
+
+  return renderCardBackground(card).replace('</svg>', `${text.join('\n')}\n</svg>`);
+}
+
+/**
+ * Isometric lattice seeded by the title: density sets the spacing, intensity
+ * the sinusoidal warp and line opacity, hue the stroke colour. Nodes fade in
+ * toward the right so the title column stays calm.
+ */
+function renderLattice(card: OGCard, stroke: string): string {
+  const columns = Math.round(8 + card.density * 16);
+  const spacing = card.width / columns;
+  const rowHeight = spacing * Math.sqrt(3) / 2;
+  const rows = Math.ceil(card.height / rowHeight) + 1;
+  const random = seededRandom(hashString(card.title));
+  const warp = spacing * (0.15 + card.intensity * 0.6);
+  const phase = random() * Math.PI * 2;
+  const frequency = 1.5 + random() * 2.5;
+
+  const nodes: Array<Array<{ x: number; y: number; weight: number }>> = [];
+  for (let row = 0; row < rows; row++) {
+    const line = [];
+    for (let column = 0; column <= columns + 1; column++) {
+      const baseX = (column + (row % 2) * 0.5) * spacing;
+      const baseY = row * rowHeight;
+      const u = baseX / card.width;
+      const v = baseY / card.height;
+      line.push({
+        x: baseX + Math.sin(v * frequency * Math.PI + phase) * warp,
+        y: baseY + Math.cos(u * frequency * Math.PI + phase) * warp * 0.6,
+        weight: Math.min(1, Math.max(0, (u - 0.25) / 0.6)) * (0.6 + random() * 0.4)
+      });
+    }
+    nodes.push(line);
+  }
+
+  const opacity = 0.25 + card.intensity * 0.5;
+  const segments: string[] = [];
+  const dots: string[] = [];
+  const link = (a: { x: number; y: number; weight: number }, b: { x: number; y: number; weight: number }) => {
+    const alpha = round(opacity * Math.min(a.weight, b.weight));
+    if (alpha > 0.02) {
+      segments.push(`<line x1="${round(a.x)}" y1="${round(a.y)}" x2="${round(b.x)}" y2="${round(b.y)}" stroke-opacity="${alpha}" />`);
+    }
+  };
+
+  nodes.forEach((line, row) => {
+    line.forEach((node, column) => {
+      if (line[column + 1]) link(node, line[column + 1]);
+      const below = nodes[row + 1];
+      if (below) {
+        // Odd rows sit half a cell to the right, so their lower neighbours shift by one
+        const offset = row % 2;
+        if (below[column + offset - 1]) link(node, below[column + offset - 1]);
+        if (below[column + offset]) link(node, below[column + offset]);
+      }
+      if (node.weight > 0.05) {
+        dots.push(`<circle cx="${round(node.x)}" cy="${round(node.y)}" r="${round(1.5 + node.weight * 2.5)}" fill-opacity="${round(node.weight * 0.9)}" />`);
+      }
+    });
+  });
+
+  return [
+    `<g stroke="${stroke}" stroke-width="1.2">`,
+    ...segments,
+    '</g>',
+    `<g fill="${stroke}">`,
+    ...dots,
+    '</g>'
+  ].join('\n');
+}
+
+function unitParam(params: URLSearchParams, key: string): number | undefined {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === '') return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : undefined;
+}
+
+function hsl(hue: number, saturation: number, lightness: number): string {
+  return `hsl(${round(hue * 360)}, ${round(saturation * 100)}%, ${round(lightness * 100)}%)`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// FNV-1a, so the same title always draws the same lattice
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * VIB3CODE-0 Post Revisions
+ *
+ * Immutable revision records for blog posts. Each revision stores the full
+ * post snapshot after the change plus a field-level diff against the
+ * previous revision, so any edit can be inspected and rolled back.
+ */
+
+import { BlogPost } from '../blog-config';
+
+export interface FieldChange {
+  /** Dotted path of the changed field, e.g. "title" or "seo.metaTitle" */
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PostRevision {
+  /** Globally unique id: `${postId}@${number}` */
+  id: string;
+  postId: string;
+  /** 1-based sequence number within the post's history */
+  number: number;
+  author: string;
+  createdAt: Date;
+  message?: string;
+  snapshot: BlogPost;
+  changes: FieldChange[];
+}
+
+export interface RevisionMeta {
+  author?: string;
+  message?: string;
+}
+
+export type NewRevision = Omit<PostRevision, 'id' | 'number'>;
+
+export interface RevisionStore {
+  /** Assign the next number for the post and persist the revision */
+  record(revision: NewRevision): Promise<PostRevision>;
+  list(postId: string): Promise<PostRevision[]>;
+  get(revisionId: string): Promise<PostRevision | null>;
+}
+
+export const revisionId = (postId: string, number: number) => `${postId}@${number}`;
+
+// In-memory store used in the browser, in tests and as the ContentAPI default
+export class InMemoryRevisionStore implements RevisionStore {
+  protected revisions = new Map<string, PostRevision[]>();
+
+  async record(revision: NewRevision): Promise<PostRevision> {
+    return this.add(revision);
+  }
+
+  async list(postId: string): Promise<PostRevision[]> {
+    return (this.revisions.get(postId) ?? []).map(cloneRevision);
+  }
+
+  async get(id: string): Promise<PostRevision | null> {
+    const postId = id.slice(0, id.lastIndexOf('@'));
+    const found = this.revisions.get(postId)?.find(revision => revision.id === id);
+    return found ? cloneRevision(found) : null;
+  }
+
+  protected add(revision: NewRevision): PostRevision {
+    const history = this.revisions.get(revision.postId) ?? [];
+    const number = history.length + 1;
+    const stored = cloneRevision({ ...revision, id: revisionId(revision.postId, number), number });
+
+    history.push(stored);
+    this.revisions.set(revision.postId, history);
+    return cloneRevision(stored);
+  }
+}
+
+/**
+ * Field-level diff between two post states. Nested plain objects (seo,
+ * author, holographicParams) are compared per key; arrays and dates as values.
+ */
+export function diffPosts(before: Partial<BlogPost> | null, after: Partial<BlogPost>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  diffValues(before ?? {}, after, '', changes);
+  return changes.filter(change => change.field !== 'updatedAt');
+}
+
+function diffValues(before: unknown, after: unknown, prefix: string, changes: FieldChange[]) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of Array.from(keys).sort()) {
+      diffValues(before[key], after[key], prefix ? `${prefix}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  if (!valuesEqual(before, after)) {
+    changes.push({ field: prefix, before, after });
+  }
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => valuesEqual(a[key], b[key]));
+  }
+  return a === b;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function cloneRevision(revision: PostRevision): PostRevision {
+  return cloneValue(revision);
+}
+
+// Deep copy of the shapes valuesEqual compares; Dates stay Dates
+function cloneValue<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as unknown as T;
+  if (Array.isArray(value)) return value.map(cloneValue) as unknown as T;
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    Object.keys(value).forEach(key => {
+      copy[key] = cloneValue(value[key]);
+    });
+    return copy as T;
+  }
+  return value;
+}
@@ -0,0 +1,73 @@
+/**
+ * VIB3CODE-0 Publish Scheduler
+ *
+ * Periodically flips 'scheduled' posts to 'published' once their
+ * scheduledFor time has passed. Research drafts can be held for review,
+ * scheduled, and released without anyone pressing publish.
+ */
+
+import { BlogPost } from '../blog-config';
+import { ContentAPI } from '../content-api';
+
+export interface PublishSchedulerOptions {
+  /** How often to check for due posts (default: one minute) */
+  intervalMs?: number;
+  onPublished?: (posts: BlogPost[]) => void;
+}
+
+export class PublishScheduler {
+  private readonly api: ContentAPI;
+  private readonly options: PublishSchedulerOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<BlogPost[]> | null = null;
+
+  constructor(api: ContentAPI, options: PublishSchedulerOptions = {}) {
+    this.api = api;
+    this.options = options;
+  }
+
+  /**
+   * Publish every post that is due at `now`. Overlapping calls share one run.
+   */
+  async runDue(now: Date = new Date()): Promise<BlogPost[]> {
+    if (this.running) return this.running;
+
+    this.running = this.api.publishDuePosts(now)
+      .then(published => {
+        if (published.length > 0) {
+          console.log(`🗓️ Published ${published.length} scheduled post(s): ${published.map(post => post.slug).join(', ')}`);
+          this.options.onPublished?.(published);
+        }
+        return published;
+      })
+      .finally(() => {
+        this.running = null;
+      });
+
+    return this.running;
+  }
+
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runDue().catch(error => console.error('Scheduled publishing failed:', error));
+    }, this.options.intervalMs ?? 60000);
+
+    // Don't keep the process (or a build) alive just for the scheduler
+    if (typeof this.timer === 'object' && 'unref' in this.timer) {
+      this.timer.unref();
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
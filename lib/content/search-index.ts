@@ -0,0 +1,376 @@
+/**
+ * VIB3CODE-0 Built-in Search Index
+ *
+ * In-memory inverted index behind `integrations.search: 'built-in'`.
+ * - BM25 scoring per field, combined with field boosts (title and tags rank highest)
+ * - Light suffix stemming so "models" matches "model" and "LLMs" matches "LLM"
+ * - Prefix matching for search-as-you-type and edit-distance fuzzy matching for typos
+ * - Highlighted title and content snippets
+ * - Incremental add/update/remove as posts change
+ */
+
+import { BlogPost } from '../blog-config';
+import { escapeHtml } from './markdown';
+
+export type SearchField = 'title' | 'tags' | 'excerpt' | 'content';
+
+export interface SearchIndexOptions {
+  fieldBoosts?: Partial<Record<SearchField, number>>;
+  /** BM25 term-frequency saturation */
+  k1?: number;
+  /** BM25 length normalization */
+  b?: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  /** Expand query terms to indexed terms that start with them (default: true) */
+  prefix?: boolean;
+  /** Match indexed terms within a small edit distance (default: true) */
+  fuzzy?: boolean;
+  /** Characters of context in the content snippet (default: 160) */
+  snippetLength?: number;
+}
+
+export interface SearchHit {
+  post: BlogPost;
+  score: number;
+  /** Indexed terms that matched the query */
+  matchedTerms: string[];
+  highlights: {
+    /** Title with matches wrapped in <mark>, HTML-escaped */
+    title: string;
+    /** Best matching content window with matches wrapped in <mark>, HTML-escaped */
+    snippet: string;
+  };
+}
+
+interface Posting {
+  postId: string;
+  field: SearchField;
+  frequency: number;
+}
+
+interface IndexedDocument {
+  post: BlogPost;
+  lengths: Record<SearchField, number>;
+  terms: Set<string>;
+}
+
+const FIELDS: SearchField[] = ['title', 'tags', 'excerpt', 'content'];
+
+const DEFAULT_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2.5,
+  excerpt: 1.5,
+  content: 1,
+};
+
+const PREFIX_PENALTY = 0.8;
+const FUZZY_PENALTY = 0.6;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'with',
+]);
+
+export class SearchIndex {
+  private readonly boosts: Record<SearchField, number>;
+  private readonly k1: number;
+  private readonly b: number;
+  private postings = new Map<string, Posting[]>();
+  private documents = new Map<string, IndexedDocument>();
+  private totalLengths: Record<SearchField, number> = { title: 0, tags: 0, excerpt: 0, content: 0 };
+
+  constructor(options: SearchIndexOptions = {}) {
+    this.boosts = { ...DEFAULT_BOOSTS, ...options.fieldBoosts };
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(postId: string): boolean {
+    return this.documents.has(postId);
+  }
+
+  rebuild(posts: BlogPost[]) {
+    this.postings.clear();
+    this.documents.clear();
+    this.totalLengths = { title: 0, tags: 0, excerpt: 0, content: 0 };
+    posts.forEach(post => this.add(post));
+  }
+
+  add(post: BlogPost) {
+    if (this.documents.has(post.id)) {
+      this.remove(post.id);
+    }
+
+    const lengths = { title: 0, tags: 0, excerpt: 0, content: 0 };
+    const terms = new Set<string>();
+
+    for (const field of FIELDS) {
+      const tokens = tokenize(fieldText(post, field));
+      lengths[field] = tokens.length;
+      this.totalLengths[field] += tokens.length;
+
+      const frequencies = new Map<string, number>();
+      tokens.forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+
+      frequencies.forEach((frequency, term) => {
+        terms.add(term);
+        const list = this.postings.get(term) ?? [];
+        list.push({ postId: post.id, field, frequency });
+        this.postings.set(term, list);
+      });
+    }
+
+    this.documents.set(post.id, { post, lengths, terms });
+  }
+
+  update(post: BlogPost) {
+    this.add(post);
+  }
+
+  remove(postId: string) {
+    const document = this.documents.get(postId);
+    if (!document) return;
+
+    document.terms.forEach(term => {
+      const remaining = (this.postings.get(term) ?? []).filter(posting => posting.postId !== postId);
+      if (remaining.length > 0) {
+        this.postings.set(term, remaining);
+      } else {
+        this.postings.delete(term);
+      }
+    });
+
+    FIELDS.forEach(field => {
+      this.totalLengths[field] -= document.lengths[field];
+    });
+    this.documents.delete(postId);
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+    const scores = new Map<string, number>();
+    const matched = new Map<string, Set<string>>();
+
+    for (const queryTerm of queryTerms) {
+      for (const [term, weight] of Array.from(this.expand(queryTerm, options))) {
+        const postings = this.postings.get(term) ?? [];
+        // Posts containing the term in any field
+        const documentFrequency = new Set(postings.map(posting => posting.postId)).size;
+
+        for (const posting of postings) {
+          const score = this.bm25(posting, documentFrequency) * this.boosts[posting.field] * weight;
+          scores.set(posting.postId, (scores.get(posting.postId) ?? 0) + score);
+
+          const terms = matched.get(posting.postId) ?? new Set<string>();
+          terms.add(term);
+          matched.set(posting.postId, terms);
+        }
+      }
+    }
+
+    // Reward documents that cover more of the query
+    const hits = Array.from(scores.entries()).map(([postId, score]) => {
+      const terms = matched.get(postId)!;
+      const coverage = queryTerms.filter(queryTerm =>
+        Array.from(terms).some(term => term === queryTerm || term.startsWith(queryTerm) || withinEditDistance(queryTerm, term))
+      ).length / queryTerms.length;
+
+      return { postId, score: score * (0.5 + 0.5 * coverage), terms };
+    });
+
+    hits.sort((a, b) => b.score - a.score || a.postId.localeCompare(b.postId));
+
+    return hits.slice(0, options.limit ?? 20).map(({ postId, score, terms }) => {
+      const { post } = this.documents.get(postId)!;
+      return {
+        post,
+        score,
+        matchedTerms: Array.from(terms),
+        highlights: {
+          title: highlight(post.title, terms),
+          snippet: snippet(plainText(post.content), terms, options.snippetLength ?? 160),
+        },
+      };
+    });
+  }
+
+  // Exact term plus prefix and fuzzy expansions, each with a score weight
+  private expand(queryTerm: string, options: SearchOptions): Map<string, number> {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(queryTerm)) {
+      expansions.set(queryTerm, 1);
+    }
+
+    const usePrefix = options.prefix !== false && queryTerm.length >= 2;
+    const useFuzzy = options.fuzzy !== false && queryTerm.length >= 4;
+    if (!usePrefix && !useFuzzy) return expansions;
+
+    for (const term of Array.from(this.postings.keys())) {
+      if (expansions.has(term)) continue;
+      if (usePrefix && term.startsWith(queryTerm)) {
+        expansions.set(term, PREFIX_PENALTY);
+      } else if (useFuzzy && withinEditDistance(queryTerm, term)) {
+        expansions.set(term, FUZZY_PENALTY);
+      }
+    }
+
+    return expansions;
+  }
+
+  private bm25(posting: Posting, documentFrequency: number): number {
+    const documentCount = this.documents.size;
+    const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+    const length = this.documents.get(posting.postId)!.lengths[posting.field];
+    const averageLength = this.totalLengths[posting.field] / documentCount || 1;
+    const tf = posting.frequency;
+
+    return idf * (tf * (this.k1 + 1)) / (tf + this.k1 * (1 - this.b + this.b * (length / averageLength)));
+  }
+}
+
+function fieldText(post: BlogPost, field: SearchField): string {
+  switch (field) {
+    case 'title':
+      return post.title;
+    case 'tags':
+      return post.tags.join(' ');
+    case 'excerpt':
+      return post.excerpt;
+    case 'content':
+      return plainText(post.content);
+  }
+}
+
+// Strip Markdown/MDX syntax so snippets and term positions reflect prose
+export function plainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#*`_~>|]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function tokenize(text: string): string[] {
+  return words(text)
+    .map(word => word.toLowerCase())
+    .filter(word => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function words(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[A-Za-z0-9]+(?:'[A-Za-z]+)?/g) ?? [];
+}
+
+/**
+ * Conservative suffix stripping for English plurals and verb forms.
+ */
+export function stem(word: string): string {
+  let term = word.replace(/'s$/, '');
+  if (term.length <= 3) return term;
+
+  if (term.endsWith('ies') && term.length > 4) return `${term.slice(0, -3)}y`;
+  if (term.endsWith('sses')) return term.slice(0, -2);
+  if (/(ch|sh|x|z)es$/.test(term)) return term.slice(0, -2);
+  if (term.endsWith('s') && !/(ss|us|is)$/.test(term)) return term.slice(0, -1);
+
+  for (const suffix of ['ing', 'ed']) {
+    if (term.endsWith(suffix) && term.length - suffix.length >= 3) {
+      term = term.slice(0, -suffix.length);
+      // "running" -> "runn" -> "run"
+      if (/([^aeiouls])\1$/.test(term)) term = term.slice(0, -1);
+      return term;
+    }
+  }
+
+  return term;
+}
+
+function withinEditDistance(a: string, b: string): boolean {
+  if (a.length < 4 || b.length < 4) return false;
+  const maxDistance = a.length >= 8 ? 2 : 1;
+  if (Math.abs(a.length - b.length) > maxDistance) return false;
+  return editDistance(a, b, maxDistance) <= maxDistance;
+}
+
+// Levenshtein distance with early exit once every row exceeds the limit
+function editDistance(a: string, b: string, limit: number): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function highlight(text: string, terms: Set<string>): string {
+  let result = '';
+  let cursor = 0;
+  const pattern = /[A-Za-z0-9]+(?:'[A-Za-z]+)?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (!terms.has(stem(match[0].toLowerCase()))) continue;
+    result += escapeHtml(text.slice(cursor, match.index));
+    result += `<mark>${escapeHtml(match[0])}</mark>`;
+    cursor = match.index + match[0].length;
+  }
+
+  return result + escapeHtml(text.slice(cursor));
+}
+
+// Pick the window of `length` characters containing the most matches
+function snippet(text: string, terms: Set<string>, length: number): string {
+  if (text.length <= length) return highlight(text, terms);
+
+  const positions: number[] = [];
+  const pattern = /[A-Za-z0-9]+(?:'[A-Za-z]+)?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (terms.has(stem(match[0].toLowerCase()))) positions.push(match.index);
+  }
+
+  let bestStart = 0;
+  let bestCount = 0;
+  positions.forEach((position, i) => {
+    const count = positions.slice(i).filter(other => other < position + length).length;
+    if (count > bestCount) {
+      bestCount = count;
+      bestStart = position;
+    }
+  });
+
+  // Start a little before the first match, on a word boundary
+  let start = Math.max(0, bestStart - Math.floor(length / 4));
+  if (start > 0) start = text.indexOf(' ', start) + 1;
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) end = text.lastIndexOf(' ', end);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return `${prefix}${highlight(text.slice(start, end), terms)}${suffix}`;
+}
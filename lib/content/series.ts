@@ -0,0 +1,114 @@
+/**
+ * VIB3CODE-0 Series
+ *
+ * Multi-part posts ("part 3 of 5"). A post joins a series through
+ * BlogPost.series; the Series record holds the title, the research topic
+ * new sessions are matched against and whether it still takes new parts.
+ */
+
+import { BlogPost, Series } from '../blog-config';
+
+export interface SeriesStore {
+  list(): Promise<Series[]>;
+  get(id: string): Promise<Series | null>;
+  /** Insert or replace the series with the same id */
+  save(series: Series): Promise<Series>;
+  delete(id: string): Promise<void>;
+}
+
+// In-memory store used in the browser, in tests and as the ContentAPI default
+export class InMemorySeriesStore implements SeriesStore {
+  protected series = new Map<string, Series>();
+
+  constructor(series: Series[] = []) {
+    series.forEach(entry => this.series.set(entry.id, { ...entry }));
+  }
+
+  async list(): Promise<Series[]> {
+    return Array.from(this.series.values()).map(entry => ({ ...entry }));
+  }
+
+  async get(id: string): Promise<Series | null> {
+    const entry = this.series.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  async save(series: Series): Promise<Series> {
+    this.series.set(series.id, { ...series });
+    return { ...series };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.series.delete(id);
+  }
+}
+
+export interface SeriesLanding {
+  series: Series;
+  /** Parts in reading order */
+  parts: BlogPost[];
+  firstPublishedAt?: Date;
+  lastUpdatedAt?: Date;
+  readingTime: number;
+}
+
+export interface SeriesNavigation {
+  series: Series;
+  part: number;
+  total: number;
+  previous: BlogPost | null;
+  next: BlogPost | null;
+}
+
+/** Parts of one series in reading order (part number, then publish date) */
+export function orderSeriesParts(posts: BlogPost[], seriesId: string): BlogPost[] {
+  return posts
+    .filter(post => post.series?.id === seriesId)
+    .sort((a, b) => a.series!.part - b.series!.part
+      || a.publishedAt.getTime() - b.publishedAt.getTime()
+      || a.id.localeCompare(b.id));
+}
+
+export function buildSeriesLanding(series: Series, posts: BlogPost[]): SeriesLanding {
+  const parts = orderSeriesParts(posts, series.id);
+  const times = (dates: Date[]) => dates.map(date => date.getTime());
+  return {
+    series,
+    parts,
+    firstPublishedAt: parts.length ? new Date(Math.min(...times(parts.map(post => post.publishedAt)))) : undefined,
+    lastUpdatedAt: parts.length ? new Date(Math.max(...times(parts.map(post => post.updatedAt)))) : undefined,
+    readingTime: parts.reduce((total, post) => total + post.readingTime, 0)
+  };
+}
+
+/**
+ * Position of a post within its series. Numbering follows the posts given
+ * (e.g. only published parts), so gaps left by drafts are skipped.
+ */
+export function seriesNavigation(series: Series, posts: BlogPost[], postId: string): SeriesNavigation | null {
+  const parts = orderSeriesParts(posts, series.id);
+  const index = parts.findIndex(post => post.id === postId);
+  if (index === -1) return null;
+
+  return {
+    series,
+    part: index + 1,
+    total: parts.length,
+    previous: parts[index - 1] ?? null,
+    next: parts[index + 1] ?? null
+  };
+}
+
+/**
+ * Comparison key for research topics: case, punctuation and trailing
+ * "part 2" / "day 3" / "continued" markers are ignored, so follow-up
+ * sessions land in the same series.
+ */
+export function seriesTopicKey(topic: string): string {
+  return topic
+    .toLowerCase()
+    .replace(/[\s:,(\-]*\b(?:part|day|session|pt\.?)\s*\d+\)?\s*$/, '')
+    .replace(/[\s:,(\-]*\(?\bcontinued\)?\s*$/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,64 @@
+/**
+ * VIB3CODE-0 Server Content API
+ *
+ * Server-side ContentAPI instance: posts from the /content directory (or the
+ * bundled samples when it is absent) with durable writes to a journal file.
+ * The instances are process singletons, so the scheduler started from
+ * instrumentation.ts publishes into the same provider the routes read.
+ * Import this from route handlers and automation code only; client
+ * components keep using the browser-safe `contentAPI` from content-api.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BlogPost, defaultBlogConfig } from '../blog-config';
+import { ContentAPI } from '../content-api';
+import { processSingleton } from '../storage/process-singleton';
+import { FileAuthorStore } from './file-author-store';
+import { FileRevisionStore } from './file-revision-store';
+import { FileSeriesStore } from './file-series-store';
+import { FileTagStore } from './file-tag-store';
+import { loadContentDirectory, reportContentIssues } from './loader';
+import { JournalContentProvider } from './journal-provider';
+import { PublishScheduler } from './scheduler';
+import { SearchIndex } from './search-index';
+
+export const CONTENT_DIRECTORY = process.env.CONTENT_DIR || path.join(process.cwd(), 'content');
+export const DATA_DIRECTORY = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+function loadSeedPosts(): BlogPost[] | undefined {
+  if (!fs.existsSync(CONTENT_DIRECTORY)) {
+    return undefined;
+  }
+
+  const result = loadContentDirectory(CONTENT_DIRECTORY);
+  reportContentIssues(result, process.env.CONTENT_STRICT === 'true');
+  return result.posts;
+}
+
+function createServerContent() {
+  const provider = new JournalContentProvider({
+    file: path.join(DATA_DIRECTORY, 'content-journal.jsonl'),
+    seedPosts: loadSeedPosts(),
+  });
+
+  const api = new ContentAPI(provider, {
+    revisions: new FileRevisionStore(path.join(DATA_DIRECTORY, 'revisions.jsonl')),
+    authors: new FileAuthorStore(path.join(DATA_DIRECTORY, 'authors.json')),
+    series: new FileSeriesStore(path.join(DATA_DIRECTORY, 'series.json')),
+    tags: new FileTagStore(path.join(DATA_DIRECTORY, 'tags.json')),
+    search: defaultBlogConfig.integrations.search === 'built-in' ? new SearchIndex() : undefined,
+  });
+
+  return { provider, api, scheduler: new PublishScheduler(api) };
+}
+
+// Shared with the copy of this module in the instrumentation bundle
+const serverContent = processSingleton('content', createServerContent);
+
+export const serverContentProvider = serverContent.provider;
+
+export const serverContentAPI = serverContent.api;
+
+// Started by instrumentation.ts when the server boots (unless PUBLISH_SCHEDULER=off)
+export const publishScheduler = serverContent.scheduler;
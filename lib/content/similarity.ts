@@ -0,0 +1,204 @@
+/**
+ * VIB3CODE-0 Content Similarity
+ *
+ * Embedding-free "read next" model behind ContentAPI.getRelatedPosts.
+ * - TF-IDF vectors over title, tags, excerpt and body (same tokenizer as search)
+ * - Cosine similarity plus small boosts for a shared category and tag overlap,
+ *   so strongly related posts still surface across categories
+ * - The pairwise similarity matrix is computed once and cached until invalidated
+ */
+
+import { BlogPost } from '../blog-config';
+import { plainText, tokenize } from './search-index';
+
+export interface SimilarityOptions {
+  /** Term weight multipliers per field */
+  fieldWeights?: Partial<Record<'title' | 'tags' | 'excerpt' | 'content', number>>;
+  /** Added to the score when both posts share a category (default: 0.05) */
+  categoryBoost?: number;
+  /** Multiplied by the Jaccard overlap of the posts' tags (default: 0.15) */
+  tagBoost?: number;
+  /** Neighbours scoring at or below this are never returned (default: 0) */
+  minScore?: number;
+}
+
+export interface RelatedPost {
+  post: BlogPost;
+  score: number;
+}
+
+type Vector = Map<string, number>;
+
+interface Neighbour {
+  id: string;
+  score: number;
+}
+
+const DEFAULT_WEIGHTS = { title: 3, tags: 2, excerpt: 1.5, content: 1 };
+
+export class SimilarityModel {
+  private readonly weights: typeof DEFAULT_WEIGHTS;
+  private readonly categoryBoost: number;
+  private readonly tagBoost: number;
+  private readonly minScore: number;
+
+  private posts = new Map<string, BlogPost>();
+  private vectors = new Map<string, Vector>();
+  private idf = new Map<string, number>();
+  private matrix = new Map<string, Neighbour[]>();
+  private stale = true;
+
+  constructor(options: SimilarityOptions = {}) {
+    this.weights = { ...DEFAULT_WEIGHTS, ...options.fieldWeights };
+    this.categoryBoost = options.categoryBoost ?? 0.05;
+    this.tagBoost = options.tagBoost ?? 0.15;
+    this.minScore = options.minScore ?? 0;
+  }
+
+  /** True when the corpus must be reloaded before the next query */
+  get isStale(): boolean {
+    return this.stale;
+  }
+
+  get size(): number {
+    return this.posts.size;
+  }
+
+  // Mark the cached vectors and matrix out of date (any post change)
+  invalidate() {
+    this.stale = true;
+  }
+
+  /** Recompute vectors and the full similarity matrix for a corpus */
+  rebuild(posts: BlogPost[]) {
+    this.posts = new Map(posts.map(post => [post.id, post]));
+
+    const termCounts = new Map<string, Map<string, number>>();
+    const documentFrequency = new Map<string, number>();
+    this.posts.forEach(post => {
+      const counts = this.termCounts(post);
+      termCounts.set(post.id, counts);
+      counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    });
+
+    // Smoothed IDF keeps terms shared by every post from zeroing out entirely
+    const total = this.posts.size;
+    this.idf = new Map();
+    documentFrequency.forEach((frequency, term) => {
+      this.idf.set(term, Math.log((1 + total) / (1 + frequency)) + 1);
+    });
+
+    this.vectors = new Map();
+    termCounts.forEach((counts, id) => this.vectors.set(id, this.weigh(counts)));
+
+    this.matrix = new Map();
+    const ids = Array.from(this.posts.keys());
+    ids.forEach(id => this.matrix.set(id, []));
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const score = this.score(this.posts.get(ids[i])!, this.vectors.get(ids[i])!, this.posts.get(ids[j])!, this.vectors.get(ids[j])!);
+        if (score <= this.minScore) continue;
+        this.matrix.get(ids[i])!.push({ id: ids[j], score });
+        this.matrix.get(ids[j])!.push({ id: ids[i], score });
+      }
+    }
+    this.matrix.forEach(neighbours => neighbours.sort(compareNeighbours));
+
+    this.stale = false;
+  }
+
+  /**
+   * Posts most similar to `post`, best first. Posts outside the corpus
+   * (e.g. an unpublished draft being previewed) are scored on the fly.
+   */
+  related(post: BlogPost, limit: number = 3): RelatedPost[] {
+    let neighbours = this.matrix.get(post.id);
+
+    if (!neighbours) {
+      const vector = this.weigh(this.termCounts(post));
+      neighbours = [];
+      this.vectors.forEach((other, id) => {
+        const score = this.score(post, vector, this.posts.get(id)!, other);
+        if (score > this.minScore) neighbours!.push({ id, score });
+      });
+      neighbours.sort(compareNeighbours);
+    }
+
+    return neighbours
+      .filter(neighbour => neighbour.id !== post.id)
+      .slice(0, limit)
+      .map(neighbour => ({ post: this.posts.get(neighbour.id)!, score: neighbour.score }));
+  }
+
+  private termCounts(post: BlogPost): Map<string, number> {
+    const counts = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      for (const term of tokenize(text)) {
+        counts.set(term, (counts.get(term) ?? 0) + weight);
+      }
+    };
+
+    add(post.title, this.weights.title);
+    add(post.tags.join(' '), this.weights.tags);
+    add(post.excerpt, this.weights.excerpt);
+    add(plainText(post.content), this.weights.content);
+    return counts;
+  }
+
+  // Sublinear TF x IDF, L2-normalized so cosine is a plain dot product
+  private weigh(counts: Map<string, number>): Vector {
+    const vector: Vector = new Map();
+    let norm = 0;
+
+    counts.forEach((count, term) => {
+      // Terms unseen in the corpus cannot match anything
+      const idf = this.idf.get(term);
+      if (!idf) return;
+      const weight = (1 + Math.log(count)) * idf;
+      vector.set(term, weight);
+      norm += weight * weight;
+    });
+
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+      vector.forEach((weight, term) => vector.set(term, weight / norm));
+    }
+    return vector;
+  }
+
+  private score(a: BlogPost, aVector: Vector, b: BlogPost, bVector: Vector): number {
+    let score = cosine(aVector, bVector);
+    if (a.category === b.category) {
+      score += this.categoryBoost;
+    }
+    score += this.tagBoost * tagOverlap(a.tags, b.tags);
+    return score;
+  }
+}
+
+function cosine(a: Vector, b: Vector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => {
+    const other = large.get(term);
+    if (other) dot += weight * other;
+  });
+  return dot;
+}
+
+function tagOverlap(a: string[], b: string[]): number {
+  const left = new Set(a.map(tag => tag.toLowerCase()));
+  const right = new Set(b.map(tag => tag.toLowerCase()));
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  left.forEach(tag => {
+    if (right.has(tag)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+// Highest score first; ids break ties so rails are stable between rebuilds
+function compareNeighbours(a: Neighbour, b: Neighbour): number {
+  return b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
@@ -0,0 +1,222 @@
+/**
+ * VIB3CODE-0 Sitemap & Robots
+ *
+ * sitemap.xml built from published posts (updatedAt as lastmod), the home
+ * page, category pages, tag pages, author archives and series landings. Past
+ * 50,000 URLs the sitemap becomes an index of numbered sitemaps
+ * (/sitemaps/<n>.xml).
+ *
+ * Posts flagged seo.noindex are left out of the sitemap and disallowed in
+ * robots.txt, as are archived posts. Drafts and scheduled posts never appear
+ * in either file so unreleased slugs are not advertised.
+ */
+
+import { BlogConfig, BlogPost, contentCategories, defaultBlogConfig, siteRoutes } from '../blog-config';
+import { ContentAPI, contentUtils } from '../content-api';
+import { escapeHtml } from './markdown';
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: Date;
+  changefreq?: 'daily' | 'weekly' | 'monthly';
+  priority?: number;
+}
+
+export interface SitemapOptions {
+  site?: BlogConfig['site'];
+  /** URLs per sitemap file before switching to an index (protocol limit: 50,000) */
+  maxUrlsPerSitemap?: number;
+}
+
+export const MAX_SITEMAP_URLS = 50000;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+
+/** Site-relative path of the nth (1-based) sitemap behind the index */
+export const sitemapPagePath = (page: number) => `/sitemaps/${page}.xml`;
+
+/**
+ * Every indexable URL: home, categories, tags, authors, series, then posts
+ * newest first. Duplicate locations keep the first entry. The home page's
+ * sections are anchors on it, not pages of their own.
+ */
+export function buildSitemapEntries(posts: BlogPost[], site: BlogConfig['site'] = defaultBlogConfig.site): SitemapEntry[] {
+  const indexable = posts
+    .filter(post => post.status === 'published' && !post.seo.noindex)
+    .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+  const newest = (subset: BlogPost[]) => latest(subset.map(post => post.updatedAt));
+
+  const entries: SitemapEntry[] = [];
+  const seen = new Set<string>();
+  const add = (entry: SitemapEntry) => {
+    if (seen.has(entry.loc)) return;
+    seen.add(entry.loc);
+    entries.push(entry);
+  };
+
+  add({
+    loc: absoluteUrl(site, siteRoutes.home),
+    lastmod: newest(indexable),
+    changefreq: 'daily',
+    priority: 1
+  });
+
+  for (const category of Object.keys(contentCategories)) {
+    add({
+      loc: absoluteUrl(site, siteRoutes.category(category)),
+      lastmod: newest(indexable.filter(post => post.category === category)),
+      changefreq: 'daily',
+      priority: 0.7
+    });
+  }
+
+  const tags = new Map<string, BlogPost[]>();
+  for (const post of indexable) {
+    for (const tag of post.tags) {
+      const slug = contentUtils.generateSlug(tag);
+      if (!slug) continue;
+      tags.set(slug, [...(tags.get(slug) ?? []), post]);
+    }
+  }
+  Array.from(tags.keys()).sort().forEach(slug => {
+    add({
+      loc: absoluteUrl(site, siteRoutes.tag(slug)),
+      lastmod: newest(tags.get(slug)!),
+      changefreq: 'weekly',
+      priority: 0.4
+    });
+  });
+
+  const authors = new Map<string, BlogPost[]>();
+  for (const post of indexable) {
+    const id = contentUtils.authorId(post.author);
+    authors.set(id, [...(authors.get(id) ?? []), post]);
+  }
+  Array.from(authors.keys()).sort().forEach(id => {
+    add({
+      loc: absoluteUrl(site, siteRoutes.author(id)),
+      lastmod: newest(authors.get(id)!),
+      changefreq: 'weekly',
+      priority: 0.4
+    });
+  });
+
+  const series = new Map<string, BlogPost[]>();
+  for (const post of indexable) {
+    if (post.series) series.set(post.series.id, [...(series.get(post.series.id) ?? []), post]);
+  }
+  Array.from(series.keys()).sort().forEach(id => {
+    add({
+      loc: absoluteUrl(site, siteRoutes.series(id)),
+      lastmod: newest(series.get(id)!),
+      changefreq: 'weekly',
+      priority: 0.5
+    });
+  });
+
+  for (const post of indexable) {
+    add({
+      loc: absoluteUrl(site, siteRoutes.post(post.slug)),
+      lastmod: post.updatedAt,
+      changefreq: 'monthly',
+      priority: 0.6
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Render /sitemap.xml (page null) or one numbered sitemap. With more URLs
+ * than fit in one file, /sitemap.xml is a sitemap index. Returns null for a
+ * page number that does not exist.
+ */
+export async function generateSitemap(api: ContentAPI, page: number | null, options: SitemapOptions = {}): Promise<string | null> {
+  const site = options.site ?? defaultBlogConfig.site;
+  const max = options.maxUrlsPerSitemap ?? MAX_SITEMAP_URLS;
+
+  const entries = buildSitemapEntries((await api.getPosts({ status: 'published' })).items, site);
+  const chunks: SitemapEntry[][] = [];
+  for (let start = 0; start < entries.length; start += max) {
+    chunks.push(entries.slice(start, start + max));
+  }
+
+  if (page === null) {
+    if (chunks.length <= 1) return renderUrlSet(entries);
+    return renderSitemapIndex(chunks.map((chunk, index) => ({
+      loc: absoluteUrl(site, sitemapPagePath(index + 1)),
+      lastmod: latest(chunk.map(entry => entry.lastmod))
+    })));
+  }
+
+  // Numbered sitemaps only exist while the index is in use
+  if (chunks.length <= 1 || page < 1 || page > chunks.length) return null;
+  return renderUrlSet(chunks[page - 1]);
+}
+
+export function renderUrlSet(entries: SitemapEntry[]): string {
+  const lines = [XML_HEADER, `<urlset xmlns="${SITEMAP_NAMESPACE}">`];
+  for (const entry of entries) {
+    lines.push(
+      '<url>',
+      `<loc>${escapeHtml(entry.loc)}</loc>`,
+      ...(entry.lastmod ? [`<lastmod>${entry.lastmod.toISOString()}</lastmod>`] : []),
+      ...(entry.changefreq ? [`<changefreq>${entry.changefreq}</changefreq>`] : []),
+      ...(entry.priority !== undefined ? [`<priority>${entry.priority.toFixed(1)}</priority>`] : []),
+      '</url>'
+    );
+  }
+  lines.push('</urlset>');
+  return `${lines.join('\n')}\n`;
+}
+
+export function renderSitemapIndex(sitemaps: Array<{ loc: string; lastmod?: Date }>): string {
+  const lines = [XML_HEADER, `<sitemapindex xmlns="${SITEMAP_NAMESPACE}">`];
+  for (const sitemap of sitemaps) {
+    lines.push(
+      '<sitemap>',
+      `<loc>${escapeHtml(sitemap.loc)}</loc>`,
+      ...(sitemap.lastmod ? [`<lastmod>${sitemap.lastmod.toISOString()}</lastmod>`] : []),
+      '</sitemap>'
+    );
+  }
+  lines.push('</sitemapindex>');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * robots.txt: everything public is crawlable except admin and API routes
+ * (OG images stay reachable for link previews) and noindex/archived posts.
+ */
+export function renderRobots(posts: BlogPost[], site: BlogConfig['site'] = defaultBlogConfig.site): string {
+  const hidden = posts
+    .filter(post => (post.status === 'published' && post.seo.noindex) || post.status === 'archived')
+    .map(post => siteRoutes.post(post.slug))
+    .sort();
+
+  const lines = [
+    'User-agent: *',
+    'Allow: /',
+    'Allow: /api/og',
+    'Disallow: /admin',
+    'Disallow: /api/',
+    ...Array.from(new Set(hidden)).map(path => `Disallow: ${path}`),
+    '',
+    `Sitemap: ${absoluteUrl(site, siteRoutes.sitemap)}`
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+export async function generateRobots(api: ContentAPI, site?: BlogConfig['site']): Promise<string> {
+  return renderRobots((await api.getPosts({ status: ['published', 'archived'] })).items, site);
+}
+
+function absoluteUrl(site: BlogConfig['site'], path: string): string {
+  return `${site.url.replace(/\/$/, '')}${path}`;
+}
+
+function latest(dates: Array<Date | undefined>): Date | undefined {
+  const times = dates.filter((date): date is Date => date instanceof Date).map(date => date.getTime());
+  return times.length ? new Date(Math.max(...times)) : undefined;
+}
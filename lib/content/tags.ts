@@ -0,0 +1,149 @@
+/**
+ * VIB3CODE-0 Tags
+ *
+ * Tag registry with canonical names and synonyms. Tags match on a folded
+ * key (case, punctuation and a plural "s" ignored), so "LLM", "llms" and a
+ * registered synonym "Large Language Models" all become one tag. Tags
+ * nobody registered are still deduplicated by that key.
+ */
+
+import { BlogPost, Tag } from '../blog-config';
+
+export interface TagStore {
+  list(): Promise<Tag[]>;
+  get(id: string): Promise<Tag | null>;
+  /** Insert or replace the tag with the same id */
+  save(tag: Tag): Promise<Tag>;
+  delete(id: string): Promise<void>;
+}
+
+// In-memory store used in the browser, in tests and as the ContentAPI default
+export class InMemoryTagStore implements TagStore {
+  protected tags = new Map<string, Tag>();
+
+  constructor(tags: Tag[] = []) {
+    tags.forEach(tag => this.tags.set(tag.id, copy(tag)));
+  }
+
+  async list(): Promise<Tag[]> {
+    return Array.from(this.tags.values()).map(copy);
+  }
+
+  async get(id: string): Promise<Tag | null> {
+    const tag = this.tags.get(id);
+    return tag ? copy(tag) : null;
+  }
+
+  async save(tag: Tag): Promise<Tag> {
+    this.tags.set(tag.id, copy(tag));
+    return copy(tag);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.tags.delete(id);
+  }
+}
+
+export interface TagUsage {
+  /** URL slug (siteRoutes.tag) */
+  id: string;
+  name: string;
+  /** Posts carrying the tag */
+  count: number;
+  synonyms: string[];
+  description?: string;
+  /** False for tags that only exist on posts */
+  registered: boolean;
+}
+
+/** Folded form two spellings of the same tag share; empty for tags without letters or digits */
+export function tagKey(name: string): string {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter(Boolean)
+    // Plural "s" ("LLMs"), but not "ss", "is" or "us" endings (class, analysis, corpus)
+    .map(word => (word.length > 3 && /[^isu]s$/.test(word) ? word.slice(0, -1) : word))
+    .join(' ');
+}
+
+/** Registered tags by the key of their name and of every synonym */
+export function buildTagLookup(tags: Tag[]): Map<string, Tag> {
+  const lookup = new Map<string, Tag>();
+  for (const tag of tags) {
+    for (const spelling of [tag.name, ...tag.synonyms]) {
+      lookup.set(tagKey(spelling), tag);
+    }
+  }
+  return lookup;
+}
+
+/**
+ * Canonical spelling for each tag, in order, without duplicates. Unknown
+ * tags keep their first spelling with whitespace tidied.
+ */
+export function normalizeTags(tags: string[], lookup: Map<string, Tag>): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const raw of tags) {
+    const key = tagKey(raw);
+    if (!key) continue;
+
+    const name = lookup.get(key)?.name ?? raw.replace(/\s+/g, ' ').trim();
+    const canonicalKey = tagKey(name);
+    if (seen.has(canonicalKey)) continue;
+    seen.add(canonicalKey);
+    result.push(name);
+  }
+  return result;
+}
+
+/**
+ * Usage of registered tags (including unused ones) and of unregistered
+ * tags on the given posts, most used first.
+ */
+export function countTags(posts: BlogPost[], registered: Tag[], slug: (name: string) => string): TagUsage[] {
+  const lookup = buildTagLookup(registered);
+  const usage = new Map<string, TagUsage>();
+
+  for (const tag of registered) {
+    usage.set(tagKey(tag.name), {
+      id: tag.id,
+      name: tag.name,
+      count: 0,
+      synonyms: [...tag.synonyms],
+      ...(tag.description && { description: tag.description }),
+      registered: true
+    });
+  }
+
+  for (const post of posts) {
+    for (const name of normalizeTags(post.tags, lookup)) {
+      const key = tagKey(name);
+      const entry = usage.get(key) ?? { id: slug(name), name, count: 0, synonyms: [], registered: false };
+      entry.count++;
+      usage.set(key, entry);
+    }
+  }
+
+  return Array.from(usage.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/** Used tags with a size level from 1 to `levels`, scaled logarithmically by count */
+export function tagCloud(usage: TagUsage[], levels = 5): Array<TagUsage & { level: number }> {
+  const used = usage.filter(tag => tag.count > 0);
+  if (used.length === 0) return [];
+
+  const counts = used.map(tag => Math.log(tag.count));
+  const min = Math.min(...counts);
+  const spread = Math.max(...counts) - min;
+  return used.map((tag, index) => ({
+    ...tag,
+    level: spread === 0 ? 1 : 1 + Math.round(((counts[index] - min) / spread) * (levels - 1))
+  }));
+}
+
+function copy(tag: Tag): Tag {
+  return { ...tag, synonyms: [...tag.synonyms] };
+}
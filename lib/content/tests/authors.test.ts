@@ -0,0 +1,105 @@
+/**
+ * Unit tests for author profiles, archives and byline propagation
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { InMemoryAuthorStore, authorFromUser } from '../authors';
+import { generateFeed } from '../feeds';
+import { FileAuthorStore } from '../file-author-store';
+import { post } from './fixtures';
+
+const ada = { id: 'ada', name: 'Ada Lovelace', bio: 'Analyst' };
+
+describe('ContentAPI authors', () => {
+  const createAPI = () => new ContentAPI(new MDXContentProvider([
+    post('1', { author: { id: 'ada', name: 'Ada Lovelace' } }),
+    post('2', { author: { id: 'ada', name: 'Ada Lovelace' }, status: 'draft' }),
+    post('3', { author: { name: 'Grace Hopper' } })
+  ]), { authors: new InMemoryAuthorStore([ada]) });
+
+  it('lists registered authors alongside byline-only ones', async () => {
+    const api = createAPI();
+    const authors = await api.getAuthors();
+
+    expect(authors.map(author => author.id)).toEqual(['ada', 'grace-hopper']);
+    expect(await api.getAuthor('grace-hopper')).toMatchObject({ name: 'Grace Hopper' });
+    expect(await api.getAuthor('nobody')).toBeNull();
+  });
+
+  it('pages through posts by author id', async () => {
+    const api = createAPI();
+    const page = await api.getPostsByAuthor('ada', { status: 'all', limit: 1 });
+
+    expect(page.total).toBe(2);
+    expect(page.items[0].id).toBe('2');
+    expect((await api.getPostsByAuthor('ada', { status: 'all', cursor: page.nextCursor! })).items[0].id).toBe('1');
+  });
+
+  it('propagates a rename to every post with a revision each', async () => {
+    const api = createAPI();
+    const { author, updatedPosts } = await api.renameAuthor('ada', 'Augusta Ada King', { author: 'editor' });
+
+    expect(author).toMatchObject({ id: 'ada', name: 'Augusta Ada King', bio: 'Analyst' });
+    expect(updatedPosts.map(updated => updated.id).sort()).toEqual(['1', '2']);
+    expect((await api.getPostById('2'))!.author).toEqual({ id: 'ada', name: 'Augusta Ada King', bio: 'Analyst' });
+    expect((await api.getPostById('3'))!.author.name).toBe('Grace Hopper');
+
+    const revisions = await api.getRevisions('1');
+    expect(revisions[revisions.length - 1]).toMatchObject({ author: 'editor', message: 'Author profile "Augusta Ada King" updated' });
+  });
+
+  it('fills new bylines from the registered profile', async () => {
+    const api = createAPI();
+    const { id: _id, ...draft } = post('4', { author: { id: 'ada', name: 'Stale name' } });
+    const created = await api.createPost(draft);
+
+    expect(created.author).toEqual({ id: 'ada', name: 'Ada Lovelace', bio: 'Analyst' });
+  });
+
+  it('links a profile to a user account', () => {
+    const author = authorFromUser({
+      id: 'user-1',
+      email: 'ada@example.com',
+      name: 'Ada',
+      role: 'writer',
+      preferences: { newsletter: false, notifications: true, theme: 'auto' }
+    }, 'ada');
+    expect(author).toMatchObject({ id: 'ada', name: 'Ada', userId: 'user-1' });
+  });
+
+  it('serves a feed per author', async () => {
+    const api = createAPI();
+    const feed = await generateFeed(api, { format: 'json', variant: 'excerpt', scope: { type: 'author', author: 'ada' } });
+    const json = JSON.parse(feed!.body);
+
+    expect(json.title).toBe('VIB3CODE - Ada Lovelace');
+    expect(json.feed_url).toMatch(/\/feeds\/author\/ada\/feed-excerpt\.json$/);
+    expect(json.items).toHaveLength(1);
+    expect(await generateFeed(api, { format: 'rss', variant: 'full', scope: { type: 'author', author: 'nobody' } })).toBeNull();
+  });
+});
+
+describe('FileAuthorStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-authors-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('persists profiles across instances', async () => {
+    const file = path.join(directory, 'data', 'authors.json');
+    const store = new FileAuthorStore(file);
+    await store.save(ada);
+    await store.save({ ...ada, name: 'Augusta Ada King' });
+
+    const reopened = new FileAuthorStore(file);
+    expect(await reopened.list()).toEqual([{ ...ada, name: 'Augusta Ada King' }]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for RSS, Atom and JSON Feed generation
+ */
+
+import { BlogPost } from '../../blog-config';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { feedPath, generateFeed, parseFeedPath, renderFeed } from '../feeds';
+import { post as fixturePost } from './fixtures';
+
+const site = { name: 'VIB3CODE', description: 'AI Research & Development Blog', url: 'https://vib3code.com', author: 'VIB3CODE Team' };
+
+const post = (id: string, overrides: Partial<BlogPost> = {}) => fixturePost(id, {
+  content: `## Heading ${id}\n\nBody with **bold** text.`,
+  tags: ['Machine Learning'],
+  ...overrides
+});
+
+describe('feed paths', () => {
+  it('round-trips every scope, format and variant', () => {
+    const requests = [
+      { format: 'rss', variant: 'full', scope: { type: 'site' } },
+      { format: 'atom', variant: 'excerpt', scope: { type: 'category', category: 'philosophy' } },
+      { format: 'json', variant: 'full', scope: { type: 'tag', tag: 'machine-learning' } }
+    ] as const;
+
+    for (const request of requests) {
+      const segments = feedPath(request).split('/').slice(2);
+      expect(parseFeedPath(segments)).toEqual(request);
+    }
+    expect(feedPath(requests[1])).toBe('/feeds/category/philosophy/atom-excerpt.xml');
+  });
+
+  it('rejects unknown feeds', () => {
+    expect(parseFeedPath(['rss.json'])).toBeNull();
+    expect(parseFeedPath(['category', 'cooking', 'rss.xml'])).toBeNull();
+    expect(parseFeedPath(['index.html'])).toBeNull();
+  });
+});
+
+describe('renderFeed', () => {
+  const posts = [post('2', { title: 'Ampersands & <tags>' }), post('1')];
+
+  it('renders RSS 2.0 with full content', () => {
+    const rss = renderFeed(posts, { format: 'rss', variant: 'full', scope: { type: 'site' } }, site);
+
+    expect(rss).toContain('<title>VIB3CODE</title>');
+    expect(rss).toContain('<description>AI Research &amp; Development Blog</description>');
+    expect(rss).toContain('<atom:link href="https://vib3code.com/feeds/rss.xml" rel="self" type="application/rss+xml" />');
+    expect(rss).toContain('<title>Ampersands &amp; &lt;tags&gt;</title>');
+    expect(rss).toContain('<guid isPermaLink="true">https://vib3code.com/posts/post-2</guid>');
+    expect(rss).toContain('<pubDate>Mon, 02 Sep 2024 08:00:00 GMT</pubDate>');
+    expect(rss).toContain('<content:encoded><![CDATA[<h2>Heading 2</h2>\n<p>Body with <strong>bold</strong> text.</p>]]></content:encoded>');
+    expect(rss).toContain('<lastBuildDate>Mon, 02 Sep 2024 09:00:00 GMT</lastBuildDate>');
+  });
+
+  it('renders Atom 1.0 excerpts per category', () => {
+    const atom = renderFeed(posts, { format: 'atom', variant: 'excerpt', scope: { type: 'category', category: 'ai-news' } }, site);
+
+    expect(atom).toContain('<title>VIB3CODE - AI News &amp; Research</title>');
+    expect(atom).toContain('<link rel="alternate" type="text/html" href="https://vib3code.com/category/ai-news" />');
+    expect(atom).toContain('<summary type="text">Excerpt 1</summary>');
+    expect(atom).not.toContain('<content');
+    expect(atom).toContain('<updated>2024-09-02T09:00:00.000Z</updated>');
+  });
+
+  it('renders JSON Feed 1.1 with a body for every item', () => {
+    const json = JSON.parse(renderFeed(posts, { format: 'json', variant: 'excerpt', scope: { type: 'site' } }, site));
+
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.feed_url).toBe('https://vib3code.com/feeds/feed-excerpt.json');
+    expect(json.items[1]).toEqual(expect.objectContaining({
+      id: 'https://vib3code.com/posts/post-1',
+      content_text: 'Excerpt 1',
+      date_published: '2024-09-01T08:00:00.000Z',
+      tags: ['AI News & Research', 'Machine Learning']
+    }));
+  });
+});
+
+describe('generateFeed', () => {
+  const api = new ContentAPI(new MDXContentProvider([
+    post('1'),
+    post('2', { category: 'philosophy', tags: ['Ethics'] }),
+    post('3', { status: 'draft' })
+  ]));
+
+  it('includes only published posts in scope, newest first', async () => {
+    const feed = await generateFeed(api, { format: 'json', variant: 'full', scope: { type: 'site' } }, { site });
+    expect(feed!.contentType).toBe('application/feed+json; charset=utf-8');
+    expect(JSON.parse(feed!.body).items.map((item: { title: string }) => item.title)).toEqual(['Post 2', 'Post 1']);
+  });
+
+  it('matches tags by slug and returns null for unused tags', async () => {
+    const feed = await generateFeed(api, { format: 'rss', variant: 'full', scope: { type: 'tag', tag: 'machine-learning' } }, { site });
+    expect(feed!.body).toContain('<title>VIB3CODE - Machine Learning</title>');
+    expect(feed!.body).not.toContain('Post 2');
+
+    expect(await generateFeed(api, { format: 'rss', variant: 'full', scope: { type: 'tag', tag: 'cooking' } })).toBeNull();
+  });
+});
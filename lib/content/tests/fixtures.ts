@@ -0,0 +1,29 @@
+/**
+ * Shared fixtures for the content tests
+ */
+
+import { BlogPost } from '../../blog-config';
+
+/**
+ * A published post `id` with slug post-<id>. Posts numbered 1-9 were
+ * published on that day of September 2024, so their order is known.
+ */
+export const post = (id: string, overrides: Partial<BlogPost> = {}): BlogPost => {
+  const day = /^\d$/.test(id) ? id : '1';
+  return {
+    id,
+    title: `Post ${id}`,
+    slug: `post-${id}`,
+    excerpt: `Excerpt ${id}`,
+    content: 'Body',
+    author: { name: 'AI Research Lab' },
+    publishedAt: new Date(`2024-09-0${day}T08:00:00Z`),
+    updatedAt: new Date(`2024-09-0${day}T09:00:00Z`),
+    status: 'published',
+    tags: [],
+    category: 'ai-news',
+    readingTime: 1,
+    seo: {},
+    ...overrides
+  };
+};
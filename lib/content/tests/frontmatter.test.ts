@@ -0,0 +1,111 @@
+/**
+ * Unit tests for the frontmatter parser
+ */
+
+import { ContentParseError, parseFrontmatter, stringifyFrontmatter } from '../frontmatter';
+
+describe('parseFrontmatter', () => {
+  it('parses scalars, nested maps and sequences', () => {
+    const { data, body, bodyLine } = parseFrontmatter([
+      '---',
+      'title: "The Future of LLMs"',
+      'readingTime: 8',
+      'featured: true',
+      'tags: [AI, "Large Language Models", 42]',
+      'author:',
+      '  name: AI Research Team',
+      '  avatar: /avatars/ai-team.jpg',
+      'sources:',
+      '  - https://example.com/paper',
+      '  - title: Attention Is All You Need',
+      '    year: 2017',
+      '---',
+      '',
+      '# Heading',
+    ].join('\n'));
+
+    expect(data.title).toBe('The Future of LLMs');
+    expect(data.readingTime).toBe(8);
+    expect(data.featured).toBe(true);
+    expect(data.tags).toEqual(['AI', 'Large Language Models', 42]);
+    expect(data.author).toEqual({ name: 'AI Research Team', avatar: '/avatars/ai-team.jpg' });
+    expect(data.sources).toEqual([
+      'https://example.com/paper',
+      { title: 'Attention Is All You Need', year: 2017 },
+    ]);
+    expect(body).toBe('# Heading');
+    expect(bodyLine).toBe(14);
+  });
+
+  it('supports literal and folded block scalars', () => {
+    const { data } = parseFrontmatter([
+      '---',
+      'literal: |',
+      '  line one',
+      '  line two',
+      'folded: >-',
+      '  joined',
+      '  together',
+      '---',
+    ].join('\n'));
+
+    expect(data.literal).toBe('line one\nline two\n');
+    expect(data.folded).toBe('joined together');
+  });
+
+  it('ignores comments outside quoted strings', () => {
+    const { data } = parseFrontmatter('---\n# comment\ntitle: Hello # trailing\nhash: "#1"\n---\n');
+
+    expect(data.title).toBe('Hello');
+    expect(data.hash).toBe('#1');
+  });
+
+  it('reports the line of malformed entries', () => {
+    const parse = () => parseFrontmatter('---\ntitle: ok\nthis is not yaml\n---\n');
+
+    expect(parse).toThrow(ContentParseError);
+    try {
+      parse();
+    } catch (error) {
+      expect((error as ContentParseError).line).toBe(3);
+    }
+  });
+
+  it('rejects missing or unterminated fences', () => {
+    expect(() => parseFrontmatter('# No frontmatter')).toThrow(/Missing frontmatter/);
+    expect(() => parseFrontmatter('---\ntitle: x\n')).toThrow(/Unterminated frontmatter/);
+  });
+
+  it('rejects duplicate keys and unterminated strings', () => {
+    expect(() => parseFrontmatter('---\na: 1\na: 2\n---\n')).toThrow(/Duplicate key "a"/);
+    expect(() => parseFrontmatter('---\na: "open\n---\n')).toThrow(/Unterminated quoted string/);
+  });
+});
+
+describe('stringifyFrontmatter', () => {
+  it('writes sources that parse back to the same values', () => {
+    const data = {
+      title: 'Colons: "quotes" & # hashes',
+      readingTime: 8,
+      featured: false,
+      tags: ['AI', 'a, b', "it's"],
+      publishedAt: new Date('2024-09-01T08:00:00Z'),
+      author: { name: 'Lab', avatar: undefined, bio: 'Line one\nLine two' },
+      seo: {},
+      series: null
+    };
+
+    const source = stringifyFrontmatter(data, '# Heading\n');
+    const parsed = parseFrontmatter(source);
+
+    expect(parsed.data).toEqual({
+      title: data.title,
+      readingTime: 8,
+      featured: false,
+      tags: data.tags,
+      publishedAt: '2024-09-01T08:00:00.000Z',
+      author: { name: 'Lab', bio: 'Line one\nLine two' }
+    });
+    expect(parsed.body).toBe('# Heading\n');
+  });
+});
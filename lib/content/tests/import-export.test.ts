@@ -0,0 +1,223 @@
+/**
+ * Unit tests for content archives and Markdown/WordPress imports
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { exportArchive, readArchive, writeArchive } from '../archive';
+import { categoryResolver, importContent } from '../importer';
+import { htmlToMarkdown, parseWxr } from '../wxr';
+import { post } from './fixtures';
+
+const markdown = (frontmatter: string[], body = 'Body text') => ['---', ...frontmatter, '---', '', body, ''].join('\n');
+
+const wxr = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:wp="http://wordpress.org/export/1.2/"
+  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/">
+<channel>
+  <title>Old Blog</title>
+  <wp:author><wp:author_login><![CDATA[ada]]></wp:author_login><wp:author_display_name><![CDATA[Ada Lovelace]]></wp:author_display_name></wp:author>
+  <item>
+    <title>Shaders &amp; Lattices</title>
+    <dc:creator><![CDATA[ada]]></dc:creator>
+    <content:encoded><![CDATA[<!-- wp:paragraph --><p>Intro with <strong>bold</strong> and <a href="https://example.com">a link</a>.</p><!-- /wp:paragraph -->
+<h2>Setup</h2>
+<pre class="wp-block-code"><code class="language-ts">const a = 1 &lt; 2;</code></pre>
+<ul><li>One</li><li>Two</li></ul>]]></content:encoded>
+    <excerpt:encoded><![CDATA[]]></excerpt:encoded>
+    <wp:post_id>12</wp:post_id>
+    <wp:post_date_gmt><![CDATA[2023-05-01 10:00:00]]></wp:post_date_gmt>
+    <wp:post_modified_gmt><![CDATA[2023-05-02 11:00:00]]></wp:post_modified_gmt>
+    <wp:post_name><![CDATA[shaders-and-lattices]]></wp:post_name>
+    <wp:status><![CDATA[publish]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+    <category domain="category" nicename="coding"><![CDATA[Coding]]></category>
+    <category domain="post_tag" nicename="webgl"><![CDATA[WebGL]]></category>
+  </item>
+  <item>
+    <title>About</title>
+    <wp:post_id>2</wp:post_id>
+    <wp:status><![CDATA[publish]]></wp:status>
+    <wp:post_type><![CDATA[page]]></wp:post_type>
+  </item>
+  <item>
+    <title>Old draft</title>
+    <wp:post_id>13</wp:post_id>
+    <wp:post_date_gmt><![CDATA[0000-00-00 00:00:00]]></wp:post_date_gmt>
+    <wp:post_modified_gmt><![CDATA[2023-06-01 09:00:00]]></wp:post_modified_gmt>
+    <wp:post_name><![CDATA[]]></wp:post_name>
+    <wp:status><![CDATA[draft]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+    <category domain="category" nicename="gossip"><![CDATA[Gossip]]></category>
+  </item>
+  <item>
+    <title>Binned</title>
+    <wp:post_id>14</wp:post_id>
+    <wp:status><![CDATA[trash]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+  </item>
+</channel>
+</rss>`;
+
+describe('content archive', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-archive-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips posts, revisions, holographicParams and series', async () => {
+    const source = new ContentAPI(new MDXContentProvider([]));
+    await source.saveSeries({ id: 'polytopes', title: 'Polytopes', status: 'open' });
+    const created = await source.createPost({
+      ...post('1'),
+      title: 'Tesseracts: a "primer"',
+      holographicParams: { hue: 210, density: 0.4, intensity: 0.9, theme: 'glass' },
+      series: { id: 'polytopes', part: 1 },
+      seo: { metaTitle: 'Primer', noindex: true }
+    });
+    await source.updatePost(created.id, { title: 'Tesseracts, revised' }, { author: 'editor', message: 'Retitle' });
+    await source.createPost({ ...post('2'), status: 'draft' });
+
+    await writeArchive(directory, await exportArchive(source));
+    const archive = await readArchive(directory);
+    expect(Object.keys(archive.files).sort()).toEqual(['posts/post-1.md', 'posts/post-2.md']);
+    expect(archive.manifest.posts[0].revisions.map(revision => revision.message)).toEqual(['Created', 'Retitle']);
+
+    const target = new ContentAPI(new MDXContentProvider([]));
+    const report = await importContent(target, { format: 'archive', archive });
+    expect(report.summary).toEqual({ created: 2, updated: 0, skipped: 0, failed: 0 });
+    expect(report.series).toEqual(['polytopes']);
+
+    const imported = (await target.getPost('post-1'))!;
+    expect(imported).toMatchObject({
+      title: 'Tesseracts, revised',
+      holographicParams: { hue: 210, density: 0.4, intensity: 0.9, theme: 'glass' },
+      series: { id: 'polytopes', part: 1 },
+      seo: { metaTitle: 'Primer', noindex: true }
+    });
+    expect((await target.getPost('post-2'))!.status).toBe('draft');
+
+    const history = await target.getRevisions(imported.id);
+    expect(history.map(revision => revision.message)).toEqual(['Created', 'Retitle', 'Imported from posts/post-1.md']);
+    expect(history.every(revision => revision.snapshot.id === imported.id)).toBe(true);
+  });
+});
+
+describe('importContent', () => {
+  const files = {
+    'notes/first.md': markdown(['title: First', 'category: Coding', 'publishedAt: 2024-01-01']),
+    'notes/taken.md': markdown(['title: Taken', 'slug: post-1', 'category: philosophy', 'publishedAt: 2024-01-02']),
+    'notes/broken.md': markdown(['title: Broken', 'category: gossip', 'publishedAt: 2024-01-03']),
+    'notes/readme.txt': 'ignored'
+  };
+
+  it('reports a dry run without writing', async () => {
+    const api = new ContentAPI(new MDXContentProvider([post('1')]));
+    const report = await importContent(api, { format: 'markdown', files }, {
+      dryRun: true,
+      categoryMap: { coding: 'vibe-coding' }
+    });
+
+    expect(report.items.map(item => [item.source, item.action, item.slug, item.category])).toEqual([
+      ['notes/first.md', 'create', 'first', 'vibe-coding'],
+      ['notes/taken.md', 'create', 'post-1-2', 'philosophy']
+    ]);
+    expect(report.items[0].sourceCategory).toBe('Coding');
+    expect(report.items[1].sourceSlug).toBe('post-1');
+    expect(report.issues.find(issue => issue.file === 'notes/broken.md')).toMatchObject({
+      severity: 'error',
+      line: 3,
+      message: expect.stringContaining('Unknown category "gossip"')
+    });
+    expect(report.summary).toEqual({ created: 2, updated: 0, skipped: 0, failed: 1 });
+    expect((await api.getPosts({ status: 'all' })).total).toBe(1);
+  });
+
+  it('skips or overwrites conflicting slugs on request', async () => {
+    const api = new ContentAPI(new MDXContentProvider([post('1')]));
+    const only = { 'notes/taken.md': files['notes/taken.md'] };
+
+    const skipped = await importContent(api, { format: 'markdown', files: only }, { onConflict: 'skip' });
+    expect(skipped.summary.skipped).toBe(1);
+
+    const overwritten = await importContent(api, { format: 'markdown', files: only }, { onConflict: 'overwrite' });
+    expect(overwritten.items[0]).toMatchObject({ action: 'update', postId: '1' });
+    expect((await api.getPost('post-1'))!.title).toBe('Taken');
+  });
+
+  it('imports WordPress posts with mapped categories', async () => {
+    const api = new ContentAPI(new MDXContentProvider([]));
+    const report = await importContent(api, { format: 'wxr', xml: wxr }, {
+      categoryMap: { Coding: 'vibe-coding' },
+      author: 'migration'
+    });
+
+    expect(report.summary).toEqual({ created: 1, updated: 0, skipped: 0, failed: 1 });
+    expect(report.issues.map(issue => issue.message)).toEqual([
+      'Skipped "Binned" (item 14): status "trash"',
+      expect.stringContaining('No category maps onto')
+    ]);
+
+    const imported = (await api.getPost('shaders-and-lattices'))!;
+    expect(imported).toMatchObject({
+      title: 'Shaders & Lattices',
+      author: { name: 'Ada Lovelace' },
+      category: 'vibe-coding',
+      tags: ['WebGL'],
+      publishedAt: new Date('2023-05-01T10:00:00Z')
+    });
+    expect(imported.excerpt).toContain('Intro with bold');
+  });
+
+  it('rejects category maps onto unknown categories', () => {
+    expect(() => categoryResolver({ coding: 'code' })).toThrow('unknown category "code"');
+    expect(categoryResolver({}, 'philosophy')('AI News & Research')).toBe('ai-news');
+    expect(categoryResolver({}, 'philosophy')('Misc')).toBe('philosophy');
+  });
+});
+
+describe('parseWxr', () => {
+  it('reads posts and falls back to the modified date for undated drafts', () => {
+    const { posts } = parseWxr(wxr);
+
+    expect(posts.map(item => [item.source, item.status, item.slug])).toEqual([
+      ['item 12', 'published', 'shaders-and-lattices'],
+      ['item 13', 'draft', '']
+    ]);
+    expect(posts[1].publishedAt).toEqual(new Date('2023-06-01T09:00:00Z'));
+    expect(posts[0].line).toBe(8);
+  });
+
+  it('converts post HTML to Markdown', () => {
+    expect(htmlToMarkdown([
+      '<!-- wp:paragraph --><p>Intro with <strong>bold</strong> and <a href="https://example.com">a link</a>.</p>',
+      '<h2>Setup</h2>',
+      '<pre class="wp-block-code"><code class="language-ts">const a = 1 &lt; 2;</code></pre>',
+      '<ul><li>One</li><li>Two</li></ul>',
+      '<blockquote><p>Quoted</p></blockquote><img src="/a.png" alt="Lattice">'
+    ].join('\n'))).toBe([
+      'Intro with **bold** and [a link](https://example.com).',
+      '',
+      '## Setup',
+      '',
+      '```ts',
+      'const a = 1 < 2;',
+      '```',
+      '',
+      '- One',
+      '- Two',
+      '',
+      '> Quoted',
+      '',
+      '![Lattice](/a.png)'
+    ].join('\n'));
+  });
+});
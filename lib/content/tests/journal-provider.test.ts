@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the journal content provider
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BlogPost } from '../../blog-config';
+import { ContentError } from '../../content-api';
+import { JournalContentProvider } from '../journal-provider';
+
+const draft = (slug: string): Omit<BlogPost, 'id'> => ({
+  title: `Post ${slug}`,
+  slug,
+  excerpt: 'Excerpt',
+  content: '# Content',
+  author: { name: 'AI Research Lab' },
+  publishedAt: new Date('2024-09-20T00:00:00Z'),
+  updatedAt: new Date('2024-09-20T00:00:00Z'),
+  status: 'published',
+  tags: ['AI'],
+  category: 'ai-news',
+  readingTime: 1,
+  seo: {},
+});
+
+describe('JournalContentProvider', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-journal-'));
+    file = path.join(directory, 'data', 'journal.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('persists creates, updates and deletes across instances', async () => {
+    const provider = new JournalContentProvider({ file, seedPosts: [] });
+    const first = await provider.createPost(draft('first'));
+    const second = await provider.createPost(draft('second'));
+    await provider.updatePost(first.id, { title: 'Renamed' });
+    await provider.deletePost(second.id);
+
+    const reopened = new JournalContentProvider({ file, seedPosts: [] });
+    const { items: posts } = await reopened.getPosts();
+
+    expect(first.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(posts).toHaveLength(1);
+    expect(posts[0].title).toBe('Renamed');
+    expect(posts[0].publishedAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps cleared fields cleared after a restart and a compaction', async () => {
+    const provider = new JournalContentProvider({ file, seedPosts: [] });
+    const post = await provider.createPost({ ...draft('series-part'), series: { id: 's', part: 1 } });
+    await provider.updatePost(post.id, { status: 'scheduled', scheduledFor: new Date('2024-10-01T09:00:00Z') });
+    await provider.updatePost(post.id, { series: undefined, scheduledFor: undefined, status: 'draft' });
+
+    const reopened = new JournalContentProvider({ file, seedPosts: [] });
+    const replayed = await reopened.getPostById(post.id);
+    expect(replayed).not.toHaveProperty('series');
+    expect(replayed).not.toHaveProperty('scheduledFor');
+    expect(replayed!.status).toBe('draft');
+
+    await reopened.compact();
+    const compacted = await new JournalContentProvider({ file, seedPosts: [] }).getPostById(post.id);
+    expect(compacted).not.toHaveProperty('series');
+    expect(compacted).not.toHaveProperty('scheduledFor');
+  });
+
+  it('folds cleared fields of base posts into the compacted journal', async () => {
+    const base = { ...draft('base'), id: 'base-1', series: { id: 's', part: 2 } };
+    const provider = new JournalContentProvider({ file, seedPosts: [base] });
+    await provider.updatePost('base-1', { title: 'First edit' });
+    await provider.updatePost('base-1', { series: undefined });
+    await provider.compact();
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({ op: 'update', unset: ['series'], updates: { title: 'First edit' } });
+    expect(await new JournalContentProvider({ file, seedPosts: [base] }).getPostById('base-1')).not.toHaveProperty('series');
+  });
+
+  it('enforces slug uniqueness on create and update', async () => {
+    const provider = new JournalContentProvider({ file, seedPosts: [] });
+    await provider.createPost(draft('taken'));
+    const other = await provider.createPost(draft('other'));
+
+    await expect(provider.createPost(draft('taken'))).rejects.toBeInstanceOf(ContentError);
+    await expect(provider.updatePost(other.id, { slug: 'taken' })).rejects.toMatchObject({ code: 'slug_conflict' });
+  });
+
+  it('drops a torn trailing entry left by a crash', async () => {
+    const provider = new JournalContentProvider({ file, seedPosts: [] });
+    await provider.createPost(draft('kept'));
+    fs.appendFileSync(file, '{"op":"create","at":"2024');
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const reopened = new JournalContentProvider({ file, seedPosts: [] });
+    await reopened.createPost(draft('after-crash'));
+    warn.mockRestore();
+
+    const replayed = new JournalContentProvider({ file, seedPosts: [] });
+    expect((await replayed.getPosts()).items.map(post => post.slug).sort()).toEqual(['after-crash', 'kept']);
+  });
+
+  it('compacts the journal without changing state', async () => {
+    const provider = new JournalContentProvider({ file, seedPosts: [] });
+    const post = await provider.createPost(draft('compact-me'));
+    for (let i = 0; i < 5; i++) {
+      await provider.updatePost(post.id, { readingTime: i });
+    }
+    const removed = await provider.createPost(draft('removed'));
+    await provider.deletePost(removed.id);
+
+    await provider.compact();
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    const reopened = new JournalContentProvider({ file, seedPosts: [] });
+    expect(lines).toHaveLength(1);
+    expect(await reopened.getPost('compact-me')).toMatchObject({ readingTime: 4 });
+  });
+});
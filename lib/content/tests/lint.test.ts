@@ -0,0 +1,134 @@
+/**
+ * Unit tests for editorial lint and its enforcement in ContentAPI
+ */
+
+import { BlogPost } from '../../blog-config';
+import { ContentAPI, ContentError, LintError, MDXContentProvider } from '../../content-api';
+import { lintPost, lintPosts } from '../lint';
+import { post as fixturePost } from './fixtures';
+
+// A post that passes every rule
+const post = (id: string, overrides: Partial<BlogPost> = {}) => fixturePost(id, {
+  title: `Signals from the lattice ${id}`,
+  excerpt: 'A field guide to the research notes that shaped this week on the blog.',
+  content: '## Overview\n\nBody text.\n\n### Detail\n\nMore.',
+  seo: { ogImage: '/api/og?title=x' },
+  ...overrides
+});
+
+const rules = (target: Partial<BlogPost>, posts: BlogPost[] = []) =>
+  lintPost(target, { posts }).issues.map(issue => `${issue.severity}:${issue.rule}`);
+
+describe('lintPost', () => {
+  it('passes a well-formed post', () => {
+    expect(lintPost(post('1'))).toEqual({
+      postId: '1',
+      slug: 'post-1',
+      title: 'Signals from the lattice 1',
+      errors: 0,
+      warnings: 0,
+      issues: []
+    });
+  });
+
+  it('checks SEO fields and the excerpt', () => {
+    const report = lintPost(post('1', {
+      excerpt: ' ',
+      seo: { metaTitle: 'An overlong meta title that search engines will truncate mid-sentence', metaDescription: 'Too short.' }
+    }));
+
+    expect(report.issues).toEqual([
+      { rule: 'excerpt', severity: 'error', field: 'excerpt', message: 'Excerpt is empty; listings, feeds and digests show it' },
+      { rule: 'seo-title', severity: 'warning', field: 'seo.metaTitle', message: 'Meta title is 69 characters; search results cut it off after 60' },
+      { rule: 'seo-description', severity: 'warning', field: 'seo.metaDescription', message: 'Meta description is only 10 characters; aim for 50-160' },
+      { rule: 'og-image', severity: 'warning', field: 'seo.ogImage', message: 'No social preview image (seo.ogImage)' }
+    ]);
+    expect(report).toMatchObject({ errors: 1, warnings: 3 });
+  });
+
+  it('checks heading hierarchy and alt text', () => {
+    expect(rules(post('1', {
+      content: '# Title again\n\n#### Too deep\n\n![](/diagram.png) ![Lattice](/lattice.png)\n\n<Callout>\n![](/inside.png)\n</Callout>'
+    }))).toEqual([
+      'warning:heading-hierarchy',
+      'warning:heading-hierarchy',
+      'error:image-alt',
+      'error:image-alt'
+    ]);
+  });
+
+  it('checks slugs and internal link targets', () => {
+    const others = [post('2'), post('3', { status: 'draft' })];
+    const report = lintPost(post('1', {
+      slug: 'post-2',
+      content: [
+        '## Overview',
+        '',
+        '[ok](/posts/post-2) [draft](/posts/post-3#intro) [gone](https://vib3code.com/posts/nope)',
+        '[anchor](#overview) [missing](#setup) [category](/category/robots) [script](javascript:alert(1)) [web](https://example.com)'
+      ].join('\n')
+    }), { posts: others });
+
+    expect(report.issues.map(issue => `${issue.severity}:${issue.message}`)).toEqual([
+      'error:Slug "post-2" is already used by another post',
+      'warning:Link /posts/post-3#intro points to a post that is draft',
+      'error:Link https://vib3code.com/posts/nope points to a post that does not exist',
+      'error:Link #setup points to a heading that does not exist',
+      'error:Link /category/robots points to an unknown category',
+      'error:Link has no target'
+    ]);
+    expect(rules(post('1', { slug: 'Not A Slug' }))).toEqual(['error:slug']);
+  });
+
+  it('reports MDX compile problems with their line', () => {
+    expect(lintPost(post('1', { content: 'Intro\n\n<Chart />' })).issues).toEqual([
+      { rule: 'mdx', severity: 'warning', field: 'content', message: expect.stringContaining('Unknown component <Chart>'), line: 3 }
+    ]);
+  });
+
+  it('sorts reports worst first', () => {
+    const reports = lintPosts([post('1'), post('2', { excerpt: '' }), post('3', { seo: {} })]);
+    expect(reports.map(report => report.slug)).toEqual(['post-2', 'post-3', 'post-1']);
+  });
+});
+
+describe('ContentAPI lint enforcement', () => {
+  const { id: _id, ...fields } = post('new', { slug: 'new-post' });
+
+  it('refuses to publish or schedule posts with lint errors but saves drafts', async () => {
+    const api = new ContentAPI(new MDXContentProvider([post('1')]));
+
+    await expect(api.createPost({ ...fields, excerpt: '' })).rejects.toBeInstanceOf(LintError);
+    await expect(api.createPost({ ...fields, excerpt: '', status: 'scheduled', scheduledFor: new Date() }))
+      .rejects.toMatchObject({ code: 'invalid', report: { errors: 1 } });
+
+    const draft = await api.createPost({ ...fields, excerpt: '', status: 'draft' });
+    await expect(api.publishPost(draft.id)).rejects.toThrow('Post has 1 lint error: Excerpt is empty');
+
+    await api.updatePost(draft.id, { excerpt: fields.excerpt });
+    expect((await api.publishPost(draft.id)).status).toBe('published');
+  });
+
+  it('lets edits through on posts that already had errors, unless they add new ones', async () => {
+    const legacy = post('1', { content: '![](/old.png)' });
+    const api = new ContentAPI(new MDXContentProvider([legacy]));
+
+    expect((await api.updatePost('1', { tags: ['Archive'] })).tags).toEqual(['Archive']);
+    await expect(api.updatePost('1', { excerpt: '' })).rejects.toBeInstanceOf(LintError);
+  });
+
+  it('treats a taken slug as a conflict in any status', async () => {
+    const api = new ContentAPI(new MDXContentProvider([post('1')]), { enforceLint: [] });
+
+    const error = await api.createPost({ ...fields, slug: 'post-1', status: 'draft' }).catch(thrown => thrown);
+    expect(error).toBeInstanceOf(ContentError);
+    expect(error.code).toBe('slug_conflict');
+  });
+
+  it('lints stored posts by status', async () => {
+    const api = new ContentAPI(new MDXContentProvider([post('1'), post('2', { status: 'draft', content: '[x](/posts/nope)' })]));
+
+    expect((await api.lintPosts({ status: 'draft' })).map(report => [report.slug, report.errors])).toEqual([['post-2', 1]]);
+    expect((await api.lintPost({ ...post('3'), slug: 'post-1' })).issues.map(issue => issue.rule)).toEqual(['duplicate-slug']);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the content directory loader
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadContentDirectory, parsePostSource, reportContentIssues } from '../loader';
+import { contentCategories } from '../../blog-config';
+
+const validPost = [
+  '---',
+  'title: Shannon Entropy and AI',
+  'category: info-theory',
+  'publishedAt: 2024-09-10',
+  'tags: [Information Theory, Compression]',
+  'author:',
+  '  name: Information Theory Research Group',
+  'seo:',
+  '  metaTitle: Shannon Entropy - VIB3CODE',
+  'holographicParams:',
+  '  hue: 0.25',
+  '---',
+  '',
+  '# Shannon Entropy',
+  '',
+  'Entropy measures uncertainty.',
+].join('\n');
+
+describe('parsePostSource', () => {
+  it('maps frontmatter onto the BlogPost shape', () => {
+    const { post, warnings } = parsePostSource(validPost, 'info-theory/shannon-entropy.mdx');
+
+    expect(warnings).toEqual([]);
+    expect(post.slug).toBe('shannon-entropy');
+    expect(post.id).toBe('shannon-entropy');
+    expect(post.category).toBe('info-theory');
+    expect(post.tags).toEqual(['Information Theory', 'Compression']);
+    expect(post.author).toEqual({ name: 'Information Theory Research Group', avatar: undefined, bio: undefined });
+    expect(post.publishedAt.toISOString()).toBe('2024-09-10T00:00:00.000Z');
+    expect(post.updatedAt).toEqual(post.publishedAt);
+    expect(post.readingTime).toBe(1);
+    expect(post.seo.metaTitle).toBe('Shannon Entropy - VIB3CODE');
+    expect(post.seo.ogImage).toContain('/api/og?');
+    expect(post.holographicParams).toEqual({
+      hue: 0.25,
+      density: contentCategories['info-theory'].holographicTheme.density,
+      intensity: contentCategories['info-theory'].holographicTheme.intensity,
+      theme: contentCategories['info-theory'].holographicTheme.theme,
+    });
+  });
+
+  it('reads the seo.noindex flag', () => {
+    const source = validPost.replace('  metaTitle: Shannon Entropy - VIB3CODE', '  metaTitle: Shannon Entropy - VIB3CODE\n  noindex: true');
+
+    expect(parsePostSource(source, 'a.md').post.seo.noindex).toBe(true);
+    expect(parsePostSource(validPost, 'a.md').post.seo).not.toHaveProperty('noindex');
+    expect(() => parsePostSource(source.replace('noindex: true', 'noindex: maybe'), 'a.md')).toThrow(/must be true or false/);
+  });
+
+  it('reports invalid fields with their frontmatter line', () => {
+    const source = validPost.replace('category: info-theory', 'category: cooking');
+
+    expect(() => parsePostSource(source, 'bad.md')).toThrow(/^bad\.md:3: Unknown category "cooking"/);
+  });
+
+  it('warns about unknown keys', () => {
+    const source = validPost.replace('---\ntitle', '---\nmood: curious\ntitle');
+    const { warnings } = parsePostSource(source, 'post.md');
+
+    expect(warnings).toEqual([
+      { file: 'post.md', line: 2, message: 'Unknown frontmatter key "mood"', severity: 'warning' },
+    ]);
+  });
+});
+
+describe('loadContentDirectory', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-content-'));
+    fs.mkdirSync(path.join(directory, 'info-theory'));
+    fs.writeFileSync(path.join(directory, 'info-theory', 'shannon-entropy.mdx'), validPost);
+    fs.writeFileSync(path.join(directory, 'broken.md'), '---\ntitle: Broken\npublishedAt: not-a-date\n---\n');
+    fs.writeFileSync(path.join(directory, 'notes.txt'), 'ignored');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads valid files and reports malformed ones with file and line', () => {
+    const { posts, issues } = loadContentDirectory(directory);
+
+    expect(posts.map(post => post.slug)).toEqual(['shannon-entropy']);
+    expect(issues).toEqual([
+      { file: 'broken.md', line: 1, message: 'Missing required field "category"', severity: 'error' },
+    ]);
+  });
+
+  it('rejects duplicate slugs', () => {
+    fs.writeFileSync(path.join(directory, 'copy.md'), validPost.replace('title:', 'slug: shannon-entropy\ntitle:'));
+
+    const { issues } = loadContentDirectory(directory);
+
+    expect(issues.map(issue => issue.message)).toContain(
+      'Duplicate slug "shannon-entropy" (already used by copy.md)'
+    );
+  });
+
+  it('logs issues and throws on errors in strict mode', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = loadContentDirectory(directory);
+
+    reportContentIssues(result);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('broken.md:1'));
+    expect(() => reportContentIssues(result, true)).toThrow(/broken\.md:1/);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for the static Markdown renderer
+ */
+
+import { markdownToHtml } from '../markdown';
+
+describe('markdownToHtml', () => {
+  it('renders block structure', () => {
+    const html = markdownToHtml([
+      '# Title',
+      '',
+      'First line',
+      'continues here.',
+      '',
+      '- one',
+      '- two',
+      '',
+      '1. first',
+      '',
+      '> quoted',
+      '',
+      '```ts',
+      'const a = 1 < 2;',
+      '```',
+      '',
+      '---'
+    ].join('\n'));
+
+    expect(html).toBe([
+      '<h1>Title</h1>',
+      '<p>First line continues here.</p>',
+      '<ul><li>one</li><li>two</li></ul>',
+      '<ol><li>first</li></ol>',
+      '<blockquote><p>quoted</p></blockquote>',
+      '<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>',
+      '<hr />'
+    ].join('\n'));
+  });
+
+  it('renders inline formatting and escapes raw HTML', () => {
+    expect(markdownToHtml('**bold** *em* `a*b*c` snake_case_name [link](https://x.dev/?a=1&b=2) <script>'))
+      .toBe('<p><strong>bold</strong> <em>em</em> <code>a*b*c</code> snake_case_name <a href="https://x.dev/?a=1&amp;b=2">link</a> &lt;script&gt;</p>');
+  });
+
+  it('drops MDX component lines and script URLs', () => {
+    expect(markdownToHtml('<Hologram geometry="tesseract" />\n\n[x](javascript:void)'))
+      .toBe('<p><a href="#">x</a></p>');
+  });
+});
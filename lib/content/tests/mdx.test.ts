@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the MDX compiler, syntax highlighting and Hologram props
+ */
+
+import { highlightCode } from '../highlight';
+import { HOLOGRAM_DEFAULTS, hologramProps } from '../hologram';
+import { compileMdx } from '../mdx';
+
+describe('compileMdx', () => {
+  it('gives headings unique anchor ids and builds the table of contents', () => {
+    const { body, toc } = compileMdx([
+      '# Title',
+      '## Getting *started*',
+      '### Setup',
+      '## Getting started',
+      '#### Deep',
+      '## Custom {#pinned}'
+    ].join('\n'));
+
+    expect(body.map(block => block.type === 'heading' && block.id)).toEqual([
+      'title',
+      'getting-started',
+      'setup',
+      'getting-started-1',
+      'deep',
+      'pinned'
+    ]);
+    expect(toc).toEqual([
+      { depth: 2, text: 'Getting started', id: 'getting-started' },
+      { depth: 3, text: 'Setup', id: 'setup' },
+      { depth: 2, text: 'Getting started', id: 'getting-started-1' },
+      { depth: 2, text: 'Custom', id: 'pinned' }
+    ]);
+  });
+
+  it('parses inline formatting into nodes', () => {
+    const [paragraph] = compileMdx('**bold** `a*b*` snake_case [link *x*](https://x.dev) ![alt](/a.png) [bad](javascript:alert)').body;
+
+    expect(paragraph).toEqual({
+      type: 'paragraph',
+      children: [
+        { type: 'strong', children: [{ type: 'text', value: 'bold' }] },
+        { type: 'text', value: ' ' },
+        { type: 'inlineCode', value: 'a*b*' },
+        { type: 'text', value: ' snake_case ' },
+        { type: 'link', href: 'https://x.dev', children: [{ type: 'text', value: 'link ' }, { type: 'emphasis', children: [{ type: 'text', value: 'x' }] }] },
+        { type: 'text', value: ' ' },
+        { type: 'image', src: '/a.png', alt: 'alt' },
+        { type: 'text', value: ' ' },
+        { type: 'link', href: '#', children: [{ type: 'text', value: 'bad' }] }
+      ]
+    });
+  });
+
+  it('compiles Hologram shortcodes into normalized geometry params', () => {
+    const { body, issues } = compileMdx([
+      'import { Hologram } from "@/components/mdx"',
+      '',
+      '<Hologram',
+      '  geometry="torus"',
+      '  hue={0.8}',
+      '  chaos={4}',
+      '  caption="A torus > a sphere"',
+      '/>'
+    ].join('\n'), { hologram: { density: 0.9 } });
+
+    expect(body).toEqual([{
+      type: 'component',
+      name: 'Hologram',
+      props: { ...HOLOGRAM_DEFAULTS, geometry: 4, hue: 0.8, chaos: 1, density: 0.9, height: 360, caption: 'A torus > a sphere' },
+      children: []
+    }]);
+    expect(issues).toEqual([{ line: 3, message: '<Hologram> chaos 4 is outside 0-1; using 1', severity: 'warning' }]);
+  });
+
+  it('compiles component children as Markdown and reports unknown or unsafe components', () => {
+    const { body, issues } = compileMdx([
+      '<Callout type="tip" title="Heads up">',
+      '## Inside',
+      '',
+      'Nested **text**.',
+      '</Callout>',
+      '',
+      '<Chart data={loadData()} />',
+      '',
+      '<Callout type={danger()} {...rest}>inline</Callout>'
+    ].join('\n'));
+
+    expect(body[0]).toMatchObject({
+      type: 'component',
+      name: 'Callout',
+      props: { type: 'tip', title: 'Heads up' },
+      children: [
+        { type: 'heading', depth: 2, id: 'inside' },
+        { type: 'paragraph' }
+      ]
+    });
+    expect(body[1]).toMatchObject({ name: 'Callout', props: {}, children: [{ type: 'paragraph', children: [{ type: 'text', value: 'inline' }] }] });
+    expect(issues).toEqual([
+      { line: 7, message: 'Unknown component <Chart>; it is left out (available: Hologram, Callout)', severity: 'warning' },
+      { line: 9, message: '<Callout> prop "type" must be a literal value; expressions are not evaluated', severity: 'error' },
+      { line: 9, message: '<Callout> spread props are not supported', severity: 'error' }
+    ]);
+  });
+
+  it('reports unclosed components', () => {
+    const { body, issues } = compileMdx('<Callout>\n\nnever closed');
+    expect(body).toHaveLength(1);
+    expect(issues).toEqual([{ line: 1, message: '<Callout> is never closed (expected </Callout>)', severity: 'error' }]);
+  });
+
+  it('highlights fenced code', () => {
+    const [code] = compileMdx('```ts\nconst n = 42; // answer\n```').body;
+    expect(code).toEqual({
+      type: 'code',
+      lang: 'ts',
+      value: 'const n = 42; // answer',
+      tokens: [
+        { type: 'keyword', value: 'const' },
+        { type: 'plain', value: ' n ' },
+        { type: 'operator', value: '=' },
+        { type: 'plain', value: ' ' },
+        { type: 'number', value: '42' },
+        { type: 'punctuation', value: ';' },
+        { type: 'plain', value: ' ' },
+        { type: 'comment', value: '// answer' }
+      ]
+    });
+  });
+});
+
+describe('highlightCode', () => {
+  it('covers the source exactly', () => {
+    const source = 'uniform float uTime;\nvoid main() { gl_FragColor = vec4(1.0); }';
+    const tokens = highlightCode(source, 'glsl');
+    expect(tokens.map(token => token.value).join('')).toBe(source);
+    expect(tokens.filter(token => token.type === 'type').map(token => token.value)).toEqual(['float', 'void', 'vec4']);
+  });
+
+  it('tells JSON keys from values and passes unknown languages through', () => {
+    expect(highlightCode('{"a": "b"}', 'json').map(token => token.type)).toEqual(['punctuation', 'property', 'punctuation', 'plain', 'string', 'punctuation']);
+    expect(highlightCode('x := 1', 'go')).toEqual([{ type: 'plain', value: 'x := 1' }]);
+  });
+});
+
+describe('hologramProps', () => {
+  it('accepts geometry names and hue in degrees', () => {
+    expect(hologramProps({ geometry: 'Klein Bottle Lattice', hue: 180 }).params).toMatchObject({ geometry: 5, hue: 0.5 });
+    expect(hologramProps({ geometry: 'tesseract' }).params.geometry).toBe(1);
+  });
+
+  it('reports values it cannot use', () => {
+    const { params, issues } = hologramProps({ geometry: 9, morph: 'high', glow: true });
+    expect(params).toEqual(HOLOGRAM_DEFAULTS);
+    expect(issues).toHaveLength(3);
+  });
+
+  it('keeps the defaults for props that are not set', () => {
+    const { params, caption, issues } = hologramProps({ geometry: undefined, chaos: 0.2, caption: undefined });
+    expect(params).toEqual({ ...HOLOGRAM_DEFAULTS, chaos: 0.2 });
+    expect(caption).toBeUndefined();
+    expect(issues).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for Open Graph card rendering
+ */
+
+import { NextRequest } from 'next/server';
+import { contentUtils } from '../../content-api';
+import { renderCardSvg, resolveOGCard, wrapTitle } from '../og-image';
+
+const cardFor = (url: string) => resolveOGCard(new URL(url, 'http://localhost').searchParams);
+
+describe('resolveOGCard', () => {
+  it('reads the URLs built by contentUtils.generateOGImage', () => {
+    const card = cardFor(contentUtils.generateOGImage('Shannon & Entropy', 'info-theory', { hue: 0.3, density: 0.9, intensity: 0.7 }));
+
+    expect(card).toEqual(expect.objectContaining({
+      title: 'Shannon & Entropy',
+      label: 'Information Theory',
+      primaryColor: '#4caf50',
+      hue: 0.3,
+      density: 0.9,
+      intensity: 0.7
+    }));
+  });
+
+  it('falls back to the category theme for missing or bad values', () => {
+    const card = cardFor('/api/og?title=&category=philosophy&color=nothex&hue=abc&density=7');
+
+    expect(card.title).toBe('VIB3CODE');
+    expect(card.primaryColor).toBe('#673ab7');
+    expect(card.hue).toBe(0.9);
+    expect(card.density).toBe(1);
+  });
+});
+
+describe('wrapTitle', () => {
+  it('wraps on words and splits overlong words', () => {
+    expect(wrapTitle('The Future of Large Language Models', 12)).toEqual(['The Future', 'of Large', 'Language', 'Models']);
+    expect(wrapTitle('Supercalifragilistic', 8)).toEqual(['Supercal', 'ifragili', 'stic']);
+  });
+
+  it('ellipsizes past the last line', () => {
+    expect(wrapTitle('one two three four five six', 7, 2)).toEqual(['one two', 'three…']);
+  });
+});
+
+describe('renderCardSvg', () => {
+  it('draws a deterministic themed lattice with escaped text', () => {
+    const card = cardFor('/api/og?title=%3Cscript%3E%20%26%20Co&category=ai-news');
+    const svg = renderCardSvg(card);
+
+    expect(svg).toBe(renderCardSvg(card));
+    expect(svg).toContain('&lt;script&gt; &amp; Co');
+    expect(svg).toContain('stroke="hsl(216, 85%, 60%)"');
+    expect(svg).toContain('fill="#00bcd4"');
+    expect(svg).not.toContain('<script>');
+  });
+
+  it('packs more lattice cells at higher density', () => {
+    const count = (svg: string) => svg.split('<line').length;
+    const sparse = renderCardSvg(cardFor('/api/og?title=x&density=0'));
+    const dense = renderCardSvg(cardFor('/api/og?title=x&density=1'));
+
+    expect(count(dense)).toBeGreaterThan(count(sparse) * 2);
+  });
+});
+
+describe('GET /api/og', () => {
+  it('renders a PNG without network access', async () => {
+    const { GET } = await import('../../../app/api/og/route');
+    const response = await GET(new NextRequest('http://localhost/api/og?title=Hello%20%F0%9F%8C%8C%20World&category=vibe-coding'));
+    const bytes = new Uint8Array(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('image/png');
+    expect(Array.from(bytes.slice(1, 4))).toEqual([0x50, 0x4e, 0x47]);
+  }, 30000);
+
+  it('serves SVG on request', async () => {
+    const { GET } = await import('../../../app/api/og/route');
+    const response = await GET(new NextRequest('http://localhost/api/og?title=Hello&format=svg'));
+
+    expect(response.headers.get('content-type')).toBe('image/svg+xml; charset=utf-8');
+    expect(await response.text()).toContain('<tspan');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for cursor pagination in getPosts
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BlogPost } from '../../blog-config';
+import { ContentError, GetPostsOptions, MDXContentProvider, decodePostCursor, paginatePosts } from '../../content-api';
+import { JournalContentProvider } from '../journal-provider';
+import { post as fixturePost } from './fixtures';
+
+const post = (id: string, day: number, readingTime: number = 1) => fixturePost(id, {
+  publishedAt: new Date(Date.UTC(2024, 8, day)),
+  updatedAt: new Date(Date.UTC(2024, 8, day)),
+  readingTime
+});
+
+// Several posts share a publish date so ordering depends on the tie-break
+const corpus = () => [post('e', 3), post('a', 1), post('d', 3), post('b', 2), post('c', 3), post('f', 1)];
+
+async function walk(getPosts: (options: GetPostsOptions) => Promise<{ items: BlogPost[]; nextCursor: string | null }>, options: GetPostsOptions) {
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getPosts({ ...options, cursor });
+    seen.push(...page.items.map(item => item.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return seen;
+}
+
+describe('paginatePosts', () => {
+  it('orders by date then id and reports totals', () => {
+    const page = paginatePosts(corpus(), { limit: 4 });
+
+    expect(page.items.map(p => p.id)).toEqual(['c', 'd', 'e', 'b']);
+    expect(page.total).toBe(6);
+    expect(page.nextCursor).not.toBeNull();
+    expect(paginatePosts(corpus(), { limit: 6 }).nextCursor).toBeNull();
+  });
+
+  it('walks every post exactly once in both directions', async () => {
+    const provider = new MDXContentProvider(corpus());
+
+    expect(await walk(options => provider.getPosts(options), { limit: 2 })).toEqual(['c', 'd', 'e', 'b', 'a', 'f']);
+    expect(await walk(options => provider.getPosts(options), { limit: 4, sortBy: 'readingTime', sortOrder: 'asc' }))
+      .toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+  });
+
+  it('resumes after the last seen post when posts are inserted', () => {
+    const posts = corpus();
+    const first = paginatePosts(posts, { limit: 3 });
+
+    // A new post sorting before the cursor must not push "e" onto the next page again
+    posts.push(post('0', 3));
+    const second = paginatePosts(posts, { limit: 3, cursor: first.nextCursor! });
+    expect(second.items.map(p => p.id)).toEqual(['b', 'a', 'f']);
+    expect(second.total).toBe(7);
+  });
+
+  it('rejects malformed cursors and cursors for another sort order', () => {
+    const { nextCursor } = paginatePosts(corpus(), { limit: 1 });
+
+    expect(() => paginatePosts(corpus(), { cursor: 'not-a-cursor' })).toThrow(ContentError);
+    expect(() => paginatePosts(corpus(), { cursor: nextCursor!, sortOrder: 'asc' })).toThrow('different sort order');
+    expect(decodePostCursor(nextCursor!)).toEqual({ sortBy: 'publishedAt', sortOrder: 'desc', value: Date.UTC(2024, 8, 3), id: 'c' });
+  });
+});
+
+describe('JournalContentProvider pagination', () => {
+  it('shares the in-memory ordering and cursors', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-pages-'));
+    try {
+      const provider = new JournalContentProvider({ file: path.join(directory, 'journal.jsonl'), seedPosts: corpus() });
+      const memory = new MDXContentProvider(corpus());
+
+      const { nextCursor } = await memory.getPosts({ limit: 2 });
+      const page = await provider.getPosts({ limit: 2, cursor: nextCursor! });
+      expect(page.items.map(p => p.id)).toEqual(['e', 'b']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for post revision history and rollback
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BlogPost } from '../../blog-config';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { FileRevisionStore } from '../file-revision-store';
+import { diffPosts } from '../revisions';
+
+const draft: Omit<BlogPost, 'id'> = {
+  title: 'Quaternion Rotations',
+  slug: 'quaternion-rotations',
+  excerpt: 'Rotating in 4D',
+  content: '# Quaternions',
+  author: { name: 'Dimensional Systems Lab' },
+  publishedAt: new Date('2024-09-12T00:00:00Z'),
+  updatedAt: new Date('2024-09-12T00:00:00Z'),
+  status: 'published',
+  tags: ['4D', 'Mathematics'],
+  category: 'vibe-coding',
+  readingTime: 3,
+  seo: { metaTitle: 'Quaternion Rotations - VIB3CODE' },
+};
+
+describe('diffPosts', () => {
+  it('reports nested and array changes by field path', () => {
+    const changes = diffPosts(
+      { ...draft, id: '1' },
+      { ...draft, id: '1', tags: ['4D'], seo: { metaTitle: 'New' }, updatedAt: new Date() }
+    );
+
+    expect(changes).toEqual([
+      { field: 'seo.metaTitle', before: 'Quaternion Rotations - VIB3CODE', after: 'New' },
+      { field: 'tags', before: ['4D', 'Mathematics'], after: ['4D'] },
+    ]);
+  });
+});
+
+describe('ContentAPI revisions', () => {
+  let api: ContentAPI;
+
+  beforeEach(() => {
+    api = new ContentAPI(new MDXContentProvider([]));
+  });
+
+  it('records a revision per change with author and diff', async () => {
+    const post = await api.createPost(draft, { author: 'research-pipeline' });
+    await api.updatePost(post.id, { title: 'Broken Auto Edit' }, { author: 'research-pipeline', message: 'Auto rewrite' });
+
+    const revisions = await api.getRevisions(post.id);
+
+    expect(revisions.map(revision => revision.id)).toEqual([`${post.id}@1`, `${post.id}@2`]);
+    expect(revisions[1]).toMatchObject({
+      author: 'research-pipeline',
+      message: 'Auto rewrite',
+      changes: [{ field: 'title', before: 'Quaternion Rotations', after: 'Broken Auto Edit' }],
+    });
+    expect(await api.diffRevisions(revisions[0].id, revisions[1].id)).toEqual(revisions[1].changes);
+  });
+
+  it('restores an earlier revision as a new revision', async () => {
+    const post = await api.createPost(draft);
+    await api.updatePost(post.id, { title: 'Broken Auto Edit', tags: [] });
+
+    const restored = await api.restoreRevision(post.id, `${post.id}@1`, { author: 'editor@vib3code.com' });
+    const revisions = await api.getRevisions(post.id);
+
+    expect(restored.title).toBe('Quaternion Rotations');
+    expect(restored.tags).toEqual(['4D', 'Mathematics']);
+    expect(revisions).toHaveLength(3);
+    expect(revisions[2].message).toBe('Restored revision 1');
+    await expect(api.restoreRevision(post.id, 'other@1')).rejects.toMatchObject({ code: 'not_found' });
+  });
+
+  it('clears fields added after the restored revision', async () => {
+    const post = await api.createPost(draft);
+    await api.saveSeries({ id: 'rotations', title: 'Rotations', status: 'open' });
+    await api.addToSeries(post.id, 'rotations');
+    await api.updatePost(post.id, { seo: { ...draft.seo, noindex: true } });
+
+    const restored = await api.restoreRevision(post.id, `${post.id}@1`);
+
+    expect(restored).not.toHaveProperty('series');
+    expect(restored.seo).toEqual(draft.seo);
+    expect(await api.getPostById(post.id)).not.toHaveProperty('series');
+  });
+
+  it('records a baseline before the first edit of an existing post', async () => {
+    const provider = new MDXContentProvider([{ ...draft, id: 'file-post' }]);
+    const fileApi = new ContentAPI(provider);
+
+    await fileApi.updatePost('file-post', { excerpt: 'Edited' });
+
+    const revisions = await fileApi.getRevisions('file-post');
+    expect(revisions.map(revision => revision.message)).toEqual(['Baseline', undefined]);
+  });
+});
+
+describe('FileRevisionStore', () => {
+  it('reloads revisions with dates intact', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-revisions-'));
+    const file = path.join(directory, 'revisions.jsonl');
+
+    const api = new ContentAPI(new MDXContentProvider([]), { revisions: new FileRevisionStore(file) });
+    const post = await api.createPost(draft);
+    await api.updatePost(post.id, { title: 'Second' });
+
+    const reloaded = await new FileRevisionStore(file).list(post.id);
+    expect(reloaded.map(revision => revision.number)).toEqual([1, 2]);
+    expect(reloaded[0].createdAt).toBeInstanceOf(Date);
+    expect(reloaded[0].snapshot.publishedAt).toBeInstanceOf(Date);
+
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+});
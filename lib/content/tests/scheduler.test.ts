@@ -0,0 +1,84 @@
+/**
+ * Unit tests for post lifecycle states and the publish scheduler
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { PublishScheduler } from '../scheduler';
+import { post } from './fixtures';
+
+describe('post lifecycle', () => {
+  let api: ContentAPI;
+
+  beforeEach(() => {
+    api = new ContentAPI(new MDXContentProvider([
+      post('live'),
+      post('draft', { status: 'draft' }),
+      post('due', { status: 'scheduled', scheduledFor: new Date('2024-09-10T09:00:00Z') }),
+      post('later', { status: 'scheduled', scheduledFor: new Date('2024-12-01T09:00:00Z') }),
+      post('old', { status: 'archived' }),
+    ]));
+  });
+
+  it('hides non-published posts by default', async () => {
+    expect((await api.getPosts()).items.map(p => p.id)).toEqual(['live']);
+    expect((await api.getPosts({ status: 'all' })).total).toBe(5);
+    expect((await api.getPosts({ status: ['draft', 'archived'] })).items.map(p => p.id).sort()).toEqual(['draft', 'old']);
+    expect(await api.searchPosts('Post')).toHaveLength(1);
+  });
+
+  it('publishes scheduled posts once they are due', async () => {
+    const scheduler = new PublishScheduler(api);
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const published = await scheduler.runDue(new Date('2024-09-10T09:00:00Z'));
+    log.mockRestore();
+
+    expect(published.map(p => p.id)).toEqual(['due']);
+    expect(published[0].publishedAt.toISOString()).toBe('2024-09-10T09:00:00.000Z');
+    expect((await api.getPosts({ status: 'scheduled' })).items.map(p => p.id)).toEqual(['later']);
+  });
+
+  it('moves posts between states', async () => {
+    await api.schedulePost('draft', new Date('2025-01-01T00:00:00Z'));
+    await api.archivePost('live');
+    await api.publishPost('later');
+
+    const { items: byStatus } = await api.getPosts({ status: 'all' });
+    expect(byStatus.find(p => p.id === 'draft')?.status).toBe('scheduled');
+    expect(byStatus.find(p => p.id === 'live')?.status).toBe('archived');
+    expect(byStatus.find(p => p.id === 'later')?.status).toBe('published');
+    await expect(api.schedulePost('draft', new Date('nope'))).rejects.toMatchObject({ code: 'invalid' });
+  });
+});
+
+describe('server content instances', () => {
+  beforeAll(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-scheduler-'));
+    process.env.CONTENT_DIR = path.join(process.env.DATA_DIR, 'missing');
+  });
+
+  afterAll(() => {
+    fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+  });
+
+  it('publishes through the boot copy of the server module into the one routes read', async () => {
+    // Next evaluates lib/content/server once for instrumentation and once for the routes
+    let boot!: typeof import('../server');
+    let routes!: typeof import('../server');
+    jest.isolateModules(() => { boot = require('../server'); });
+    jest.isolateModules(() => { routes = require('../server'); });
+    expect(boot).not.toBe(routes);
+
+    const { id, ...scheduled } = post('due', { status: 'scheduled', scheduledFor: new Date('2024-09-10T09:00:00Z') });
+    const created = await routes.serverContentAPI.createPost({ ...scheduled, slug: 'scheduler-handoff' });
+
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    await boot.publishScheduler.runDue(new Date('2024-09-10T09:00:00Z'));
+    log.mockRestore();
+
+    expect((await routes.serverContentAPI.getPostById(created.id))!.status).toBe('published');
+  });
+});
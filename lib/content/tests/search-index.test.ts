@@ -0,0 +1,85 @@
+/**
+ * Unit tests for the built-in search index
+ */
+
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { SearchIndex, stem } from '../search-index';
+import { post as fixturePost } from './fixtures';
+
+const post = (id: string, title: string, content: string, tags: string[] = []) =>
+  fixturePost(id, { title, slug: id, excerpt: '', content, tags });
+
+const posts = [
+  post('llm', 'The Future of Large Language Models', 'Language models keep improving at reasoning.', ['LLMs']),
+  post('shaders', 'Generative Art with WebGL Shaders', 'Fragment shaders render noise fields. Models of light and colour.', ['WebGL']),
+  post('entropy', 'Shannon Entropy', 'Entropy measures uncertainty in information and language.', ['Information Theory']),
+];
+
+describe('stem', () => {
+  it('normalizes plurals and verb forms', () => {
+    expect(stem('models')).toBe('model');
+    expect(stem('llms')).toBe('llm');
+    expect(stem('theories')).toBe('theory');
+    expect(stem('running')).toBe('run');
+    expect(stem('analysis')).toBe('analysis');
+  });
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.rebuild(posts);
+  });
+
+  it('ranks title matches above body matches', () => {
+    const hits = index.search('models');
+
+    expect(hits.map(hit => hit.post.id)).toEqual(['llm', 'shaders']);
+    expect(hits[0].highlights.title).toBe('The Future of Large Language <mark>Models</mark>');
+  });
+
+  it('matches tags through stemming', () => {
+    expect(index.search('LLM')[0].post.id).toBe('llm');
+  });
+
+  it('supports prefix and fuzzy matching', () => {
+    expect(index.search('entr').map(hit => hit.post.id)).toEqual(['entropy']);
+    expect(index.search('shaderz').map(hit => hit.post.id)).toEqual(['shaders']);
+    expect(index.search('shaderz', { fuzzy: false })).toEqual([]);
+  });
+
+  it('escapes HTML in highlights', () => {
+    index.add(post('html', 'Tags <b>in</b> entropy', 'Plain <script>entropy</script> text'));
+
+    const hit = index.search('entropy').find(result => result.post.id === 'html')!;
+    expect(hit.highlights.title).toBe('Tags &lt;b&gt;in&lt;/b&gt; <mark>entropy</mark>');
+  });
+
+  it('reindexes incrementally', () => {
+    index.update({ ...posts[2], title: 'Kolmogorov Complexity' });
+    index.remove('llm');
+
+    expect(index.search('kolmogorov').map(hit => hit.post.id)).toEqual(['entropy']);
+    expect(index.search('future')).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+});
+
+describe('ContentAPI built-in search', () => {
+  it('keeps the index in step with writes and hides drafts', async () => {
+    // Fixtures have no excerpts, which lint would refuse to publish
+    const api = new ContentAPI(new MDXContentProvider([...posts]), { search: new SearchIndex(), enforceLint: [] });
+    expect((await api.searchPosts('entropy')).map(p => p.id)).toEqual(['entropy']);
+
+    const created = await api.createPost({ ...post('x', 'Entropy Coding Primer', 'Huffman trees'), status: 'draft' });
+    expect((await api.searchPosts('huffman'))).toEqual([]);
+
+    await api.publishPost(created.id);
+    expect((await api.searchPosts('huffman')).map(p => p.id)).toEqual([created.id]);
+
+    await api.deletePost(created.id);
+    expect((await api.searchPosts('huffman'))).toEqual([]);
+  });
+});
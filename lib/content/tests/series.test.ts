@@ -0,0 +1,149 @@
+/**
+ * Unit tests for multi-part series
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AIResearchAutomation } from '../../ai-research-automation';
+import { Series } from '../../blog-config';
+import { ContentAPI, ContentError, MDXContentProvider } from '../../content-api';
+import { InMemoryIngestLedger } from '../../research/ledger';
+import { FileSeriesStore } from '../file-series-store';
+import { InMemorySeriesStore, seriesTopicKey } from '../series';
+import { post } from './fixtures';
+
+const polytopes: Series = {
+  id: '4d-polytopes',
+  title: '4D Polytopes',
+  topic: 'Advanced Polytope Visualizations in 4D Space',
+  status: 'open',
+  createdAt: new Date('2024-09-01T00:00:00Z'),
+  updatedAt: new Date('2024-09-01T00:00:00Z')
+};
+
+const createAPI = (series: Series[] = [polytopes]) => new ContentAPI(new MDXContentProvider([
+  post('1', { series: { id: '4d-polytopes', part: 1 }, readingTime: 3 }),
+  post('2', { series: { id: '4d-polytopes', part: 3 }, readingTime: 3 }),
+  post('3', { series: { id: '4d-polytopes', part: 2 }, readingTime: 3, status: 'draft' }),
+  post('4', { series: { id: '4d-polytopes', part: 4 }, readingTime: 3 }),
+  post('5')
+]), { series: new InMemorySeriesStore(series) });
+
+describe('seriesTopicKey', () => {
+  it('ignores case, punctuation and part markers', () => {
+    const key = seriesTopicKey('Advanced Polytope Visualizations in 4D Space');
+    expect(seriesTopicKey('advanced polytope visualizations in 4D space (Part 3)')).toBe(key);
+    expect(seriesTopicKey('Advanced Polytope Visualizations in 4D Space - Day 2')).toBe(key);
+    expect(seriesTopicKey('Advanced Polytope Visualizations in 4D Space: continued')).toBe(key);
+    expect(seriesTopicKey('Polytope Visualizations')).not.toBe(key);
+  });
+});
+
+describe('ContentAPI series', () => {
+  it('builds landing data from published parts in order', async () => {
+    const landing = await createAPI().getSeriesLanding('4d-polytopes');
+
+    expect(landing!.parts.map(part => part.id)).toEqual(['1', '2', '4']);
+    expect(landing!.readingTime).toBe(9);
+    expect(landing!.firstPublishedAt).toEqual(new Date('2024-09-01T08:00:00Z'));
+    expect(await createAPI().getSeriesLanding('missing')).toBeNull();
+  });
+
+  it('numbers navigation by the visible parts', async () => {
+    const api = createAPI();
+    const navigation = await api.getSeriesNavigation('2');
+
+    expect(navigation).toMatchObject({ part: 2, total: 3 });
+    expect(navigation!.previous!.id).toBe('1');
+    expect(navigation!.next!.id).toBe('4');
+    expect((await api.getSeriesNavigation('2', { status: 'all' }))!.previous!.id).toBe('3');
+    expect(await api.getSeriesNavigation('5')).toBeNull();
+  });
+
+  it('appends and reorders parts', async () => {
+    const api = createAPI();
+    const added = await api.addToSeries('5', '4d-polytopes', { author: 'editor' });
+    expect(added.series).toEqual({ id: '4d-polytopes', part: 5 });
+
+    await api.reorderSeries('4d-polytopes', ['5', '1', '3', '2', '4']);
+    const landing = await api.getSeriesLanding('4d-polytopes', { status: 'all' });
+    expect(landing!.parts.map(part => [part.id, part.series!.part])).toEqual([['5', 1], ['1', 2], ['3', 3], ['2', 4], ['4', 5]]);
+
+    await expect(api.reorderSeries('4d-polytopes', ['5', '1'])).rejects.toMatchObject({ code: 'invalid' });
+  });
+
+  it('deletes a series and keeps its parts as standalone posts', async () => {
+    const api = createAPI();
+    const updated = await api.deleteSeries('4d-polytopes', { author: 'editor' });
+
+    expect(updated.map(post => post.id).sort()).toEqual(['1', '2', '3', '4']);
+    expect(updated.every(post => post.series === undefined)).toBe(true);
+    expect(await api.getSeries('4d-polytopes')).toBeNull();
+    await expect(api.deleteSeries('4d-polytopes')).rejects.toMatchObject({ code: 'not_found' });
+  });
+
+  it('refuses unknown and completed series', async () => {
+    const api = createAPI([{ ...polytopes, status: 'complete' }]);
+
+    await expect(api.addToSeries('5', 'missing')).rejects.toBeInstanceOf(ContentError);
+    await expect(api.addToSeries('5', '4d-polytopes')).rejects.toThrow('is complete');
+    // Existing parts stay editable after a series is closed
+    await expect(api.updatePost('1', { title: 'Renamed' })).resolves.toMatchObject({ title: 'Renamed' });
+  });
+
+  it('finds the open series for a topic', async () => {
+    const api = createAPI();
+    expect((await api.findOpenSeries('Advanced Polytope Visualizations in 4D Space, Part 5'))!.id).toBe('4d-polytopes');
+    expect(await api.findOpenSeries('Shannon entropy')).toBeNull();
+    expect(await api.nextSeriesPart('4d-polytopes')).toBe(5);
+  });
+});
+
+describe('AIResearchAutomation series matching', () => {
+  it('attaches sessions on an open topic as the next parts', async () => {
+    const api = createAPI();
+    const automation = new AIResearchAutomation([], api, new InMemoryIngestLedger());
+    const session = (id: string, topic: string) => ({
+      id, topic, timestamp: new Date('2024-09-10T08:00:00Z'), rawContent: '# Notes\n\nShader experiments.'
+    });
+
+    const [first, other] = await Promise.all([
+      automation.convertToPost(session('a', 'Advanced Polytope Visualizations in 4D Space')),
+      automation.convertToPost(session('c', 'Generative Typography'))
+    ]);
+    expect(first.series).toEqual({ id: '4d-polytopes', part: 5 });
+    expect(first.slug).toBe('advanced-polytope-visualizations-in-4d-space-part-5');
+    expect(other.series).toBeUndefined();
+
+    // A part is only taken once its post exists
+    const followUp = session('b', 'Advanced Polytope Visualizations in 4D Space (Day 2)');
+    expect((await automation.convertToPost(followUp)).series).toEqual({ id: '4d-polytopes', part: 5 });
+    await api.createPost(first);
+    expect((await automation.convertToPost(followUp)).series).toEqual({ id: '4d-polytopes', part: 6 });
+  });
+});
+
+describe('FileSeriesStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-series-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('persists series with their dates across instances', async () => {
+    const file = path.join(directory, 'data', 'series.json');
+    await new FileSeriesStore(file).save(polytopes);
+
+    const reopened = await new FileSeriesStore(file).get('4d-polytopes');
+    expect(reopened).toEqual(polytopes);
+    expect(reopened!.createdAt).toBeInstanceOf(Date);
+
+    await new FileSeriesStore(file).delete('4d-polytopes');
+    expect(await new FileSeriesStore(file).list()).toEqual([]);
+  });
+});
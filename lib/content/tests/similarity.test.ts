@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the content similarity model
+ */
+
+import { BlogPost } from '../../blog-config';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { SimilarityModel } from '../similarity';
+import { post as fixturePost } from './fixtures';
+
+const post = (id: string, category: BlogPost['category'], title: string, content: string, tags: string[] = []) =>
+  fixturePost(id, { title, slug: id, excerpt: '', content, tags, category });
+
+const corpus = () => [
+  post('attention', 'ai-news', 'Attention Is All You Need, Revisited', 'Transformer attention heads and sparse attention kernels.', ['Transformers']),
+  post('kernels', 'vibe-coding', 'Writing Sparse Attention Kernels', 'A practical guide to fused attention kernels for transformer inference.', ['Transformers', 'CUDA']),
+  post('agents', 'ai-news', 'Agent Frameworks Compared', 'Planning loops, tool calling and memory for autonomous agents.', ['Agents']),
+  post('shaders', 'vibe-coding', 'Raymarching Shaders', 'Signed distance fields rendered with fragment shaders.', ['WebGL']),
+];
+
+describe('SimilarityModel', () => {
+  it('ranks by content across categories ahead of same-category posts', () => {
+    const model = new SimilarityModel();
+    const posts = corpus();
+    model.rebuild(posts);
+
+    const related = model.related(posts[0], 3).map(result => result.post.id);
+    expect(related[0]).toBe('kernels');
+    expect(related).not.toContain('attention');
+  });
+
+  it('applies category and tag boosts to otherwise unrelated posts', () => {
+    const posts = corpus();
+    const model = new SimilarityModel({ categoryBoost: 0, tagBoost: 0 });
+    model.rebuild(posts);
+    expect(model.related(posts[2]).map(result => result.post.id)).toEqual([]);
+
+    const boosted = new SimilarityModel({ categoryBoost: 0.05 });
+    boosted.rebuild(posts);
+    expect(boosted.related(posts[2]).map(result => result.post.id)).toEqual(['attention']);
+  });
+
+  it('scores posts outside the corpus on the fly', () => {
+    const model = new SimilarityModel();
+    model.rebuild(corpus());
+
+    const draft = { ...post('draft', 'philosophy', 'Fragment Shaders for Holograms', 'Distance fields and shaders.'), status: 'draft' as const };
+    expect(model.related(draft, 1)[0].post.id).toBe('shaders');
+  });
+});
+
+describe('ContentAPI.getRelatedPosts', () => {
+  it('invalidates the cached matrix when posts change', async () => {
+    // Fixtures have no excerpts, which lint would refuse to publish
+    const api = new ContentAPI(new MDXContentProvider(corpus()), { enforceLint: [] });
+    expect(await api.getRelatedPosts('agents', 1)).toEqual([expect.objectContaining({ id: 'attention' })]);
+
+    const created = await api.createPost({
+      ...post('x', 'info-theory', 'Memory for Autonomous Agents', 'Tool calling agents with planning loops and long-term memory.', ['Agents']),
+      slug: 'agent-memory',
+    });
+    expect((await api.getRelatedPosts('agents', 1))[0].id).toBe(created.id);
+
+    await api.archivePost(created.id);
+    expect((await api.getRelatedPosts('agents', 1))[0].id).toBe('attention');
+  });
+
+  it('returns nothing for unknown posts', async () => {
+    const api = new ContentAPI(new MDXContentProvider(corpus()));
+    expect(await api.getRelatedPosts('missing')).toEqual([]);
+  });
+});
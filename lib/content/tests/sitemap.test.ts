@@ -0,0 +1,84 @@
+/**
+ * Unit tests for sitemap.xml and robots.txt generation
+ */
+
+import { BlogPost } from '../../blog-config';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { buildSitemapEntries, generateSitemap, renderRobots } from '../sitemap';
+import { post as fixturePost } from './fixtures';
+
+const site = { name: 'VIB3CODE', description: 'AI Research & Development Blog', url: 'https://vib3code.com', author: 'VIB3CODE Team' };
+
+const post = (id: string, overrides: Partial<BlogPost> = {}) => fixturePost(id, { tags: ['Machine Learning'], ...overrides });
+
+const posts = [
+  post('1'),
+  post('2', { category: 'philosophy', tags: ['Ethics'], updatedAt: new Date('2024-10-01T00:00:00Z') }),
+  post('3', { seo: { noindex: true } }),
+  post('4', { status: 'draft' }),
+  post('5', { status: 'archived' })
+];
+
+describe('buildSitemapEntries', () => {
+  const entries = buildSitemapEntries(posts, site);
+  const locs = entries.map(entry => entry.loc);
+
+  it('lists home, categories, tags and indexable posts once each', () => {
+    expect(locs.slice(0, 3)).toEqual([
+      'https://vib3code.com/',
+      'https://vib3code.com/category/ai-news',
+      'https://vib3code.com/category/vibe-coding'
+    ]);
+    expect(locs).not.toContain('https://vib3code.com/ai-news');
+    expect(locs).toContain('https://vib3code.com/category/philosophy');
+    expect(locs).toContain('https://vib3code.com/tag/machine-learning');
+    expect(locs.filter(loc => loc.includes('/posts/'))).toEqual([
+      'https://vib3code.com/posts/post-2',
+      'https://vib3code.com/posts/post-1'
+    ]);
+    expect(new Set(locs).size).toBe(locs.length);
+  });
+
+  it('uses updatedAt as lastmod', () => {
+    const byLoc = new Map(entries.map(entry => [entry.loc, entry]));
+
+    expect(byLoc.get('https://vib3code.com/posts/post-2')!.lastmod!.toISOString()).toBe('2024-10-01T00:00:00.000Z');
+    expect(byLoc.get('https://vib3code.com/')!.lastmod!.toISOString()).toBe('2024-10-01T00:00:00.000Z');
+    expect(byLoc.get('https://vib3code.com/category/ai-news')!.lastmod!.toISOString()).toBe('2024-09-01T09:00:00.000Z');
+    expect(byLoc.get('https://vib3code.com/category/vibe-coding')!.lastmod).toBeUndefined();
+  });
+});
+
+describe('generateSitemap', () => {
+  const api = new ContentAPI(new MDXContentProvider(posts));
+
+  it('renders a single urlset while under the limit', async () => {
+    const xml = await generateSitemap(api, null, { site });
+
+    expect(xml).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+    expect(xml).toContain('<loc>https://vib3code.com/posts/post-1</loc>\n<lastmod>2024-09-01T09:00:00.000Z</lastmod>');
+    expect(await generateSitemap(api, 1, { site })).toBeNull();
+  });
+
+  it('switches to a sitemap index past the per-file limit', async () => {
+    const index = await generateSitemap(api, null, { site, maxUrlsPerSitemap: 4 });
+    expect(index).toContain('<sitemapindex');
+    expect(index).toContain('<loc>https://vib3code.com/sitemaps/1.xml</loc>');
+    expect(index).toContain('<loc>https://vib3code.com/sitemaps/3.xml</loc>');
+
+    const last = await generateSitemap(api, 3, { site, maxUrlsPerSitemap: 4 });
+    expect(last).toContain('<loc>https://vib3code.com/posts/post-1</loc>');
+    expect(await generateSitemap(api, 4, { site, maxUrlsPerSitemap: 4 })).toBeNull();
+  });
+});
+
+describe('renderRobots', () => {
+  it('disallows noindex and archived posts without naming drafts', () => {
+    const robots = renderRobots(posts, site);
+
+    expect(robots).toContain('Disallow: /api/\n');
+    expect(robots).toContain('Disallow: /posts/post-3\nDisallow: /posts/post-5\n');
+    expect(robots).not.toContain('post-4');
+    expect(robots).toContain('Sitemap: https://vib3code.com/sitemap.xml\n');
+  });
+});
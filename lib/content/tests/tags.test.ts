@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the tag registry, normalization, merge and rename
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BlogPost, Tag } from '../../blog-config';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { FileTagStore } from '../file-tag-store';
+import { InMemoryTagStore, buildTagLookup, normalizeTags, tagCloud, tagKey } from '../tags';
+import { post as fixturePost } from './fixtures';
+
+const post = (id: string, tags: string[], overrides: Partial<BlogPost> = {}) => fixturePost(id, { tags, ...overrides });
+
+const llm: Tag = {
+  id: 'llm',
+  name: 'LLM',
+  synonyms: ['Large Language Models'],
+  createdAt: new Date('2024-09-01T00:00:00Z'),
+  updatedAt: new Date('2024-09-01T00:00:00Z')
+};
+
+describe('tag normalization', () => {
+  it('folds case, punctuation and plurals', () => {
+    expect(tagKey('LLMs')).toBe(tagKey('llm'));
+    expect(tagKey('Neural-Networks')).toBe(tagKey('neural network'));
+    expect(tagKey('Class')).toBe('class');
+    expect(tagKey('Analysis')).toBe('analysis');
+    expect(tagKey('C++')).not.toBe(tagKey('C#'));
+  });
+
+  it('maps synonyms onto canonical names and drops duplicates', () => {
+    const lookup = buildTagLookup([llm]);
+    expect(normalizeTags(['LLMs', 'large language models', ' WebGL ', 'webgl', '!!'], lookup))
+      .toEqual(['LLM', 'WebGL']);
+  });
+
+  it('scales tag cloud levels by usage', () => {
+    const usage = [1, 2, 16].map(count => ({ id: `t${count}`, name: `T${count}`, count, synonyms: [], registered: false }));
+    expect(tagCloud([...usage, { ...usage[0], id: 'unused', count: 0 }]).map(tag => [tag.id, tag.level]))
+      .toEqual([['t1', 1], ['t2', 2], ['t16', 5]]);
+  });
+});
+
+describe('ContentAPI tags', () => {
+  const setup = () => new ContentAPI(
+    new MDXContentProvider([post('1', ['LLMs', 'WebGL']), post('2', ['Large Language Models']), post('3', ['llm'], { status: 'draft' })]),
+    { tags: new InMemoryTagStore() }
+  );
+
+  it('normalizes tags on create and update', async () => {
+    const api = setup();
+    await api.saveTag({ name: 'LLM', synonyms: ['Large Language Models'] });
+
+    const created = await api.createPost({ ...post('4', ['large language models', 'Shader', 'shaders']) });
+    expect(created.tags).toEqual(['LLM', 'Shader']);
+    expect((await api.updatePost(created.id, { tags: ['LLMs'] })).tags).toEqual(['LLM']);
+    expect((await api.getPosts({ tags: ['Large Language Models'] })).total).toBe(3);
+  });
+
+  it('retags existing posts when a tag is registered', async () => {
+    const api = setup();
+    const { updatedPosts } = await api.saveTag({ name: 'LLM', synonyms: ['Large Language Models'] }, { author: 'editor' });
+
+    expect(updatedPosts.map(updated => [updated.id, updated.tags])).toEqual([
+      ['3', ['LLM']],
+      ['2', ['LLM']],
+      ['1', ['LLM', 'WebGL']]
+    ]);
+    const [, latest] = await api.getRevisions('2');
+    expect(latest).toMatchObject({ author: 'editor', message: 'Tag "LLM" updated' });
+    expect(await api.getTags()).toEqual([
+      { id: 'llm', name: 'LLM', count: 2, synonyms: ['Large Language Models'], registered: true },
+      { id: 'webgl', name: 'WebGL', count: 1, synonyms: [], registered: false }
+    ]);
+  });
+
+  it('merges tags, keeping their names as synonyms', async () => {
+    const api = setup();
+    await api.saveTag({ name: 'Graphics' });
+
+    const { tag, updatedPosts } = await api.mergeTags(['webgl'], 'graphics');
+    expect(tag.synonyms).toEqual(['WebGL']);
+    expect(updatedPosts.map(updated => updated.tags)).toEqual([['LLMs', 'Graphics']]);
+    expect((await api.createPost(post('5', ['webgl']))).tags).toEqual(['Graphics']);
+    await expect(api.mergeTags(['missing'], 'graphics')).rejects.toThrow('Tag "missing" not found');
+  });
+
+  it('renames tags and rejects spellings owned by another tag', async () => {
+    const api = setup();
+    await api.saveTag({ name: 'LLM', synonyms: ['Large Language Models'] });
+
+    const { tag } = await api.renameTag('llm', 'Language Models');
+    expect(tag).toMatchObject({ id: 'language-models', synonyms: ['Large Language Models', 'LLM'] });
+    expect(await api.getTag('llm')).toBeNull();
+    expect((await api.getPost('post-1'))!.tags).toEqual(['Language Models', 'WebGL']);
+
+    await expect(api.saveTag({ name: 'WebGL', synonyms: ['LLMs'] })).rejects.toThrow('already belongs to tag "Language Models"');
+  });
+});
+
+describe('FileTagStore', () => {
+  it('persists saves and deletes', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-tags-'));
+    try {
+      const file = path.join(directory, 'tags.json');
+      const store = new FileTagStore(file);
+      await store.save(llm);
+      await store.save({ ...llm, id: 'webgl', name: 'WebGL', synonyms: [] });
+      await store.delete('webgl');
+
+      const reloaded = await new FileTagStore(file).list();
+      expect(reloaded).toEqual([llm]);
+      expect(reloaded[0].createdAt).toBeInstanceOf(Date);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
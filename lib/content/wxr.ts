@@ -0,0 +1,221 @@
+/**
+ * VIB3CODE-0 WordPress Import
+ *
+ * Reads WordPress eXtended RSS (WXR) exports, the XML file from
+ * Tools > Export in wp-admin. Only items of type "post" are read; pages,
+ * attachments and menu items are ignored and trashed posts are reported.
+ * Post HTML (classic or block editor) is converted to Markdown.
+ */
+
+import { PostStatus } from '../blog-config';
+import { ContentLoadIssue } from './loader';
+
+export interface WxrPost {
+  /** "item <wp:post_id>", used in reports */
+  source: string;
+  /** 1-based line of the <item> in the export */
+  line: number;
+  title: string;
+  /** wp:post_name; empty for drafts that never got one */
+  slug: string;
+  content: string;
+  excerpt: string;
+  author: string;
+  publishedAt: Date;
+  updatedAt: Date;
+  status: PostStatus;
+  scheduledFor?: Date;
+  /** Category names in export order */
+  categories: string[];
+  tags: string[];
+}
+
+export interface WxrParseResult {
+  posts: WxrPost[];
+  issues: ContentLoadIssue[];
+}
+
+const WP_STATUSES: Record<string, PostStatus> = {
+  publish: 'published',
+  future: 'scheduled',
+  draft: 'draft',
+  pending: 'draft',
+  private: 'draft'
+};
+
+export function parseWxr(xml: string, file = 'export.xml'): WxrParseResult {
+  if (!/<rss[\s>]/.test(xml) || !/xmlns:wp=/.test(xml)) {
+    return {
+      posts: [],
+      issues: [{ file, line: 1, message: 'Not a WordPress export: missing <rss> with the wp namespace', severity: 'error' }]
+    };
+  }
+
+  // Logins in dc:creator map to display names from the <wp:author> list
+  const authors: Record<string, string> = {};
+  for (const block of matchAll(xml, /<wp:author>([\s\S]*?)<\/wp:author>/g)) {
+    const login = readTag(block[1], 'wp:author_login');
+    if (login) authors[login] = readTag(block[1], 'wp:author_display_name') || login;
+  }
+
+  const posts: WxrPost[] = [];
+  const issues: ContentLoadIssue[] = [];
+
+  for (const item of matchAll(xml, /<item>([\s\S]*?)<\/item>/g)) {
+    const body = item[1];
+    if (readTag(body, 'wp:post_type') !== 'post') continue;
+
+    const line = xml.slice(0, item.index).split('\n').length;
+    const source = `item ${readTag(body, 'wp:post_id') || line}`;
+    const title = readTag(body, 'title') || 'Untitled';
+    const wpStatus = readTag(body, 'wp:status');
+    const status = WP_STATUSES[wpStatus];
+
+    if (!status) {
+      issues.push({ file, line, message: `Skipped "${title}" (${source}): status "${wpStatus}"`, severity: 'warning' });
+      continue;
+    }
+
+    const publishedAt = readDate(body, 'wp:post_date_gmt') ?? readDate(body, 'wp:post_date') ?? readDate(body, 'pubDate');
+    if (!publishedAt && status !== 'draft') {
+      issues.push({ file, line, message: `"${title}" (${source}) has no publish date`, severity: 'error' });
+      continue;
+    }
+    const date = publishedAt ?? readDate(body, 'wp:post_modified_gmt') ?? new Date();
+    const creator = readTag(body, 'dc:creator');
+
+    posts.push({
+      source,
+      line,
+      title,
+      slug: safeDecode(readTag(body, 'wp:post_name')),
+      content: htmlToMarkdown(readTag(body, 'content:encoded')),
+      excerpt: htmlToMarkdown(readTag(body, 'excerpt:encoded')).replace(/\s+/g, ' ').trim(),
+      author: authors[creator] || creator,
+      publishedAt: date,
+      updatedAt: readDate(body, 'wp:post_modified_gmt') ?? date,
+      status,
+      ...(status === 'scheduled' && { scheduledFor: date }),
+      categories: readTerms(body, 'category'),
+      tags: readTerms(body, 'post_tag')
+    });
+  }
+
+  return { posts, issues };
+}
+
+/**
+ * Convert WordPress post HTML to Markdown: headings, paragraphs, emphasis,
+ * links, images, lists, quotes and code. Block editor comments are dropped
+ * and unknown tags are unwrapped to their text.
+ */
+export function htmlToMarkdown(html: string): string {
+  const code: string[] = [];
+  const stash = (markdown: string) => `\u0000${code.push(markdown) - 1}\u0000`;
+
+  let text = html
+    .replace(/\r\n?/g, '\n')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<pre[^>]*>\s*(?:<code([^>]*)>)?([\s\S]*?)(?:<\/code>)?\s*<\/pre>/gi, (_match, attributes: string | undefined, body: string) => {
+      const language = (attributes ?? '').match(/language-([\w+-]+)/);
+      return `\n\n${stash(`\`\`\`${language ? language[1] : ''}\n${decodeEntities(body.replace(/<[^>]+>/g, '')).replace(/\n+$/, '')}\n\`\`\``)}\n\n`;
+    })
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, (_match, body: string) => stash(`\`${decodeEntities(body.replace(/<[^>]+>/g, ''))}\``));
+
+  text = text
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, body: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${body.replace(/\s+/g, ' ').trim()}\n\n`)
+    .replace(/<img\s[^>]*>/gi, tag => {
+      const src = readAttribute(tag, 'src');
+      return src ? `![${readAttribute(tag, 'alt')}](${src})` : '';
+    })
+    .replace(/<a\s[^>]*>([\s\S]*?)<\/a>/gi, (tag, body: string) => {
+      const href = readAttribute(tag, 'href');
+      return href ? `[${body.trim()}](${href})` : body;
+    })
+    .replace(/<(strong|b)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/gi, (_match, _tag, body: string) => `**${body}**`)
+    .replace(/<(em|i)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/gi, (_match, _tag, body: string) => `_${body}_`)
+    .replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_match, body: string) =>
+      `\n\n${blockText(body).split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n\n`)
+    .replace(/<(ul|ol)[^>]*>([\s\S]*?)<\/\1>/gi, (_match, tag: string, body: string) => {
+      const items = matchAll(body, /<li[^>]*>([\s\S]*?)<\/li>/gi)
+        .map((item, index) => `${tag.toLowerCase() === 'ol' ? `${index + 1}.` : '-'} ${blockText(item[1]).replace(/\n+/g, ' ')}`);
+      return `\n\n${items.join('\n')}\n\n`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<hr[^>]*>/gi, '\n\n---\n\n')
+    .replace(/<\/?(p|div|figure|figcaption|section)(?:\s[^>]*)?>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\u0000(\d+)\u0000/g, (_match, index: string) => code[Number(index)])
+    .trim();
+}
+
+function blockText(html: string): string {
+  return html.replace(/<\/?p(?:\s[^>]*)?>/gi, '\n').replace(/\n{2,}/g, '\n').trim();
+}
+
+function readTag(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? readText(match[1]) : '';
+}
+
+function readTerms(xml: string, domain: string): string[] {
+  return matchAll(xml, new RegExp(`<category\\s[^>]*domain="${domain}"[^>]*>([\\s\\S]*?)</category>`, 'g'))
+    .map(match => readText(match[1]))
+    .filter(Boolean);
+}
+
+function readText(raw: string): string {
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  // Exporters split "]]>" inside content across two CDATA sections
+  return (cdata ? cdata[1].replace(/\]\]><!\[CDATA\[/g, '') : decodeEntities(raw)).trim();
+}
+
+function readDate(xml: string, tag: string): Date | undefined {
+  const value = readTag(xml, tag);
+  if (!value || value.startsWith('0000-00-00')) return undefined;
+
+  // WordPress writes "YYYY-MM-DD hh:mm:ss"; *_gmt fields are UTC
+  const date = /^\d{4}-\d\d-\d\d \d\d:\d\d:\d\d$/.test(value)
+    ? new Date(`${value.replace(' ', 'T')}${tag.endsWith('_gmt') ? 'Z' : ''}`)
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function readAttribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2]) : '';
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return isNaN(code) ? entity : String.fromCodePoint(code);
+    }
+    return named[name.toLowerCase()] ?? entity;
+  });
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function matchAll(text: string, pattern: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  const global = new RegExp(pattern.source, pattern.flags.indexOf('g') === -1 ? `${pattern.flags}g` : pattern.flags);
+  let match: RegExpExecArray | null;
+  while ((match = global.exec(text))) matches.push(match);
+  return matches;
+}
@@ -0,0 +1,96 @@
+/**
+ * VIB3CODE-0 Email Delivery
+ *
+ * Newsletter mail goes out through a DeliveryAdapter so the provider can be
+ * swapped (ConvertKit, Mailchimp, SMTP) without touching digest code. The
+ * built-in OutboxAdapter is an SMTP sink: every message is written as an
+ * RFC 5322 .eml file that any mail client can open, so confirmations and
+ * digests can be checked offline.
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+export interface DeliveryReceipt {
+  /** Adapter-specific message id */
+  id: string;
+  /** Where the message went, e.g. the outbox file */
+  location?: string;
+}
+
+export interface DeliveryAdapter {
+  readonly name: string;
+  send(message: EmailMessage): Promise<DeliveryReceipt>;
+}
+
+export class OutboxAdapter implements DeliveryAdapter {
+  readonly name = 'outbox';
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async send(message: EmailMessage, now: Date = new Date()): Promise<DeliveryReceipt> {
+    const id = randomUUID();
+    const file = path.join(this.directory, `${now.toISOString().replace(/[:.]/g, '-')}-${id}.eml`);
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(file, renderEml(message, id, now), 'utf8');
+    return { id, location: file };
+  }
+}
+
+/** multipart/alternative message with text and HTML parts */
+export function renderEml(message: EmailMessage, id: string, date: Date = new Date()): string {
+  const boundary = `vib3-${id}`;
+  const domain = message.from.split('@')[1]?.replace(/>$/, '') || 'localhost';
+  const headers: Record<string, string> = {
+    'Message-ID': `<${id}@${domain}>`,
+    Date: date.toUTCString(),
+    From: message.from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`
+  };
+
+  const lines = Object.keys(headers).map(name => `${name}: ${headers[name]}`);
+  lines.push(
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.html),
+    `--${boundary}--`,
+    ''
+  );
+  return lines.join('\r\n');
+}
+
+// RFC 2047 encoded-word for non-ASCII subjects
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function wrapBase64(body: string): string {
+  return (Buffer.from(body, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
@@ -0,0 +1,135 @@
+/**
+ * VIB3CODE-0 Weekly Digest
+ *
+ * Assembles the posts published in a window into one email, grouped by
+ * category in contentCategories order, as both HTML (inline styles only,
+ * since mail clients drop stylesheets) and plain text.
+ */
+
+import { BlogConfig, BlogPost, contentCategories, defaultBlogConfig, siteRoutes } from '../blog-config';
+import { escapeHtml } from '../content/markdown';
+import { CategoryKey } from './subscribers';
+
+export interface DigestSection {
+  category: CategoryKey;
+  name: string;
+  color: string;
+  /** Newest first */
+  posts: BlogPost[];
+}
+
+export interface Digest {
+  subject: string;
+  since: Date;
+  until: Date;
+  sections: DigestSection[];
+  postCount: number;
+  html: string;
+  text: string;
+}
+
+export interface DigestOptions {
+  /** Window of publish dates: since inclusive, until exclusive */
+  since: Date;
+  until: Date;
+  /** Only these categories; empty or omitted for all */
+  categories?: CategoryKey[];
+  site?: BlogConfig['site'];
+  /** Subscriber-specific link shown in the footer */
+  unsubscribeUrl?: string;
+}
+
+/** The digest for the window, or null when nothing new was published */
+export function buildDigest(posts: BlogPost[], options: DigestOptions): Digest | null {
+  const site = options.site ?? defaultBlogConfig.site;
+  const wanted = options.categories?.length ? options.categories : null;
+
+  const fresh = posts
+    .filter(post =>
+      post.status === 'published' &&
+      post.publishedAt.getTime() >= options.since.getTime() &&
+      post.publishedAt.getTime() < options.until.getTime() &&
+      (!wanted || wanted.indexOf(post.category) !== -1)
+    )
+    .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+  if (fresh.length === 0) return null;
+
+  const sections: DigestSection[] = (Object.keys(contentCategories) as CategoryKey[])
+    .map(category => ({
+      category,
+      name: contentCategories[category].name,
+      color: contentCategories[category].holographicTheme.primaryColor,
+      posts: fresh.filter(post => post.category === category)
+    }))
+    .filter(section => section.posts.length > 0);
+
+  const range = `${formatDate(options.since)} - ${formatDate(new Date(options.until.getTime() - 1))}`;
+  const digest = {
+    subject: `${site.name} weekly: ${fresh.length} new ${fresh.length === 1 ? 'post' : 'posts'} (${range})`,
+    since: options.since,
+    until: options.until,
+    sections,
+    postCount: fresh.length
+  };
+
+  return {
+    ...digest,
+    html: renderDigestHtml(digest, site, range, options.unsubscribeUrl),
+    text: renderDigestText(digest, site, range, options.unsubscribeUrl)
+  };
+}
+
+type DigestContent = Pick<Digest, 'subject' | 'sections' | 'postCount'>;
+
+export function renderDigestHtml(digest: DigestContent, site: BlogConfig['site'], range: string, unsubscribeUrl?: string): string {
+  const sections = digest.sections.map(section => [
+    `<h2 style="margin:32px 0 12px;font-size:18px;color:${section.color};letter-spacing:1px;text-transform:uppercase">${escapeHtml(section.name)}</h2>`,
+    ...section.posts.map(post => [
+      '<div style="margin:0 0 20px">',
+      `<a href="${escapeHtml(postUrl(site, post))}" style="font-size:20px;font-weight:700;color:#ffffff;text-decoration:none">${escapeHtml(post.title)}</a>`,
+      `<p style="margin:6px 0;color:#c7c7c7;line-height:1.5">${escapeHtml(post.excerpt)}</p>`,
+      `<p style="margin:0;font-size:12px;color:#8a8a8a">${escapeHtml(post.author.name)} &middot; ${post.readingTime} min read</p>`,
+      '</div>'
+    ].join('\n'))
+  ].join('\n'));
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    `<head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${escapeHtml(digest.subject)}</title></head>`,
+    '<body style="margin:0;padding:0;background:#0a0a0a">',
+    '<div style="max-width:600px;margin:0 auto;padding:32px 24px;font-family:Helvetica,Arial,sans-serif;color:#ffffff">',
+    `<h1 style="margin:0;font-size:28px;color:#00bcd4">${escapeHtml(site.name)}</h1>`,
+    `<p style="margin:4px 0 0;color:#8a8a8a">${escapeHtml(range)} &middot; ${digest.postCount} new</p>`,
+    ...sections,
+    '<hr style="margin:32px 0 16px;border:none;border-top:1px solid #333">',
+    `<p style="font-size:12px;color:#8a8a8a">You are receiving this because you subscribed at <a href="${escapeHtml(site.url)}" style="color:#8a8a8a">${escapeHtml(site.url)}</a>.`,
+    ...(unsubscribeUrl ? [` <a href="${escapeHtml(unsubscribeUrl)}" style="color:#8a8a8a">Unsubscribe</a>.`] : []),
+    '</p>',
+    '</div>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+export function renderDigestText(digest: DigestContent, site: BlogConfig['site'], range: string, unsubscribeUrl?: string): string {
+  const lines = [site.name.toUpperCase(), `${range} - ${digest.postCount} new`, ''];
+  for (const section of digest.sections) {
+    lines.push(section.name.toUpperCase(), '='.repeat(section.name.length), '');
+    for (const post of section.posts) {
+      lines.push(post.title, post.excerpt, `${post.author.name} - ${post.readingTime} min read`, postUrl(site, post), '');
+    }
+  }
+  lines.push('--', `You are receiving this because you subscribed at ${site.url}.`);
+  if (unsubscribeUrl) lines.push(`Unsubscribe: ${unsubscribeUrl}`);
+  return `${lines.join('\n')}\n`;
+}
+
+function postUrl(site: BlogConfig['site'], post: BlogPost): string {
+  return `${site.url.replace(/\/$/, '')}${siteRoutes.post(post.slug)}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
@@ -0,0 +1,32 @@
+/**
+ * VIB3CODE-0 File Subscriber Store
+ *
+ * Newsletter subscribers in a single JSON file (server only). It holds
+ * email addresses, so JsonMapFile writes it with mode 0600.
+ */
+
+import { JsonMapFile } from '../storage/json-file';
+import { InMemorySubscriberStore, Subscriber } from './subscribers';
+
+export class FileSubscriberStore extends InMemorySubscriberStore {
+  private readonly file: JsonMapFile<Subscriber>;
+
+  constructor(file: string) {
+    const subscribers = new JsonMapFile<Subscriber>(file, {
+      name: 'subscriber file',
+      key: subscriber => subscriber.id,
+      dates: ['createdAt', 'confirmedAt', 'unsubscribedAt', 'lastDigestAt'],
+      indent: 2,
+      mode: 0o600
+    });
+    super(subscribers.values());
+    this.file = subscribers;
+  }
+
+  async save(subscriber: Subscriber): Promise<Subscriber> {
+    this.subscribers = await this.file.write(next => {
+      next.set(subscriber.id, { ...subscriber, categories: [...subscriber.categories] });
+    });
+    return { ...subscriber, categories: [...subscriber.categories] };
+  }
+}
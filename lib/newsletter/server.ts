@@ -0,0 +1,39 @@
+/**
+ * VIB3CODE-0 Server Newsletter
+ *
+ * Server-side NewsletterService with subscribers in
+ * DATA_DIR/subscribers.json. NEWSLETTER_DELIVERY picks the adapter; the
+ * default "outbox" writes .eml files to NEWSLETTER_OUTBOX_DIR
+ * (DATA_DIR/outbox). NEWSLETTER_FROM overrides the From header.
+ * `subscribeLimit` caps signup requests per client IP.
+ */
+
+import path from 'path';
+import { defaultBlogConfig } from '../blog-config';
+import { RateLimiter } from '../api/rate-limit';
+import { authSecret } from '../auth/secrets';
+import { DATA_DIRECTORY } from '../content/server';
+import { DeliveryAdapter, OutboxAdapter } from './delivery';
+import { FileSubscriberStore } from './file-subscriber-store';
+import { NewsletterService } from './service';
+
+export const newsletterEnabled =
+  defaultBlogConfig.content.enableNewsletter && defaultBlogConfig.integrations.newsletter === 'built-in';
+
+function createDeliveryAdapter(env: Record<string, string | undefined> = process.env): DeliveryAdapter {
+  const adapter = env.NEWSLETTER_DELIVERY || 'outbox';
+  switch (adapter) {
+    case 'outbox':
+      return new OutboxAdapter(env.NEWSLETTER_OUTBOX_DIR || path.join(DATA_DIRECTORY, 'outbox'));
+    default:
+      throw new Error(`Unknown NEWSLETTER_DELIVERY adapter "${adapter}"`);
+  }
+}
+
+export const newsletterService = new NewsletterService(
+  createDeliveryAdapter(),
+  { secret: () => authSecret(), from: process.env.NEWSLETTER_FROM || undefined },
+  new FileSubscriberStore(path.join(DATA_DIRECTORY, 'subscribers.json'))
+);
+
+export const subscribeLimit = new RateLimiter({ count: 5, windowMs: 60 * 60 * 1000 });
@@ -0,0 +1,211 @@
+/**
+ * VIB3CODE-0 Newsletter Service
+ *
+ * Double opt-in subscriptions and weekly digests (server only).
+ * Confirmation and unsubscribe links carry an HMAC of the subscriber id, so
+ * no tokens are stored and links keep working across restarts. Each
+ * subscriber's digest covers the posts published since their last one (a
+ * week for the first), so re-running a send does not repeat posts.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { BlogConfig, BlogPost, apiEndpoints, contentCategories, defaultBlogConfig } from '../blog-config';
+import { ApiError } from '../api/http';
+import { escapeHtml } from '../content/markdown';
+import { DeliveryAdapter, EmailMessage } from './delivery';
+import { Digest, buildDigest } from './digest';
+import { CategoryKey, InMemorySubscriberStore, Subscriber, SubscriberStore } from './subscribers';
+
+export interface NewsletterOptions {
+  /** Key for confirmation and unsubscribe link signatures; a function is read on use */
+  secret: string | (() => string);
+  /** From header (default: "<site name> <newsletter@site host>") */
+  from?: string;
+  site?: BlogConfig['site'];
+  /** How long confirmation links stay valid (default: 7 days) */
+  confirmationTtlMs?: number;
+  /** Digest window for subscribers without a previous digest (default: 7 days) */
+  digestPeriodMs?: number;
+}
+
+export interface DigestReport {
+  sent: number;
+  /** Subscribers with nothing new in their categories */
+  skipped: number;
+  failed: Array<{ email: string; error: string }>;
+}
+
+type LinkPurpose = 'confirm' | 'unsubscribe';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class NewsletterService {
+  private store: SubscriberStore;
+  private adapter: DeliveryAdapter;
+  private secret: string | (() => string);
+  private site: BlogConfig['site'];
+  private from: string;
+  private confirmationTtlMs: number;
+  private digestPeriodMs: number;
+
+  constructor(adapter: DeliveryAdapter, options: NewsletterOptions, store: SubscriberStore = new InMemorySubscriberStore()) {
+    this.adapter = adapter;
+    this.store = store;
+    this.secret = options.secret;
+    this.site = options.site ?? defaultBlogConfig.site;
+    this.from = options.from ?? `${this.site.name} <newsletter@${new URL(this.site.url).hostname}>`;
+    this.confirmationTtlMs = options.confirmationTtlMs ?? 7 * DAY_MS;
+    this.digestPeriodMs = options.digestPeriodMs ?? 7 * DAY_MS;
+  }
+
+  /**
+   * Start (or restart) a subscription and email the confirmation link.
+   * Active subscribers are left untouched and get no email, so the
+   * endpoint cannot be used to change someone else's preferences; neither
+   * does a pending one whose confirmation link is still valid, so repeated
+   * requests cannot flood an inbox.
+   */
+  async subscribe(email: string, categories: string[] = [], now: Date = new Date()): Promise<Subscriber> {
+    const address = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(address)) {
+      throw new ApiError('bad_request', 'Invalid email address', { email: 'must be an email address' });
+    }
+    const unknown = categories.filter(category => !(category in contentCategories));
+    if (unknown.length) {
+      throw new ApiError('bad_request', 'Unknown categories', { categories: `unknown: ${unknown.join(', ')}` });
+    }
+
+    const existing = await this.store.findByEmail(address);
+    if (existing?.status === 'active') return existing;
+    if (existing?.status === 'pending' && now.getTime() - existing.createdAt.getTime() <= this.confirmationTtlMs) {
+      return existing;
+    }
+
+    const subscriber = await this.store.save({
+      id: existing?.id ?? randomUUID(),
+      email: address,
+      status: 'pending',
+      categories: categories as CategoryKey[],
+      createdAt: now,
+      ...(existing?.lastDigestAt && { lastDigestAt: existing.lastDigestAt })
+    });
+    await this.adapter.send(this.confirmationEmail(subscriber));
+    return subscriber;
+  }
+
+  async confirm(id: string, token: string, now: Date = new Date()): Promise<Subscriber> {
+    const subscriber = await this.verifyLink(id, token, 'confirm');
+    if (subscriber.status === 'active') return subscriber;
+    if (subscriber.status !== 'pending' || now.getTime() - subscriber.createdAt.getTime() > this.confirmationTtlMs) {
+      throw new ApiError('bad_request', 'This confirmation link has expired; subscribe again');
+    }
+    return this.store.save({ ...subscriber, status: 'active', confirmedAt: now });
+  }
+
+  async unsubscribe(id: string, token: string, now: Date = new Date()): Promise<Subscriber> {
+    const subscriber = await this.verifyLink(id, token, 'unsubscribe');
+    if (subscriber.status === 'unsubscribed') return subscriber;
+    return this.store.save({ ...subscriber, status: 'unsubscribed', unsubscribedAt: now });
+  }
+
+  async listSubscribers(): Promise<Subscriber[]> {
+    return this.store.list();
+  }
+
+  /** The digest an all-categories subscriber would get now, without sending */
+  previewDigest(posts: BlogPost[], now: Date = new Date()): Digest | null {
+    return buildDigest(posts, { since: new Date(now.getTime() - this.digestPeriodMs), until: now, site: this.site });
+  }
+
+  /** Send every active subscriber the posts published since their last digest */
+  async sendDigests(posts: BlogPost[], now: Date = new Date()): Promise<DigestReport> {
+    const report: DigestReport = { sent: 0, skipped: 0, failed: [] };
+
+    for (const subscriber of await this.store.list()) {
+      if (subscriber.status !== 'active') continue;
+
+      const unsubscribeUrl = this.linkUrl(apiEndpoints.newsletter.unsubscribe, subscriber, 'unsubscribe');
+      const digest = buildDigest(posts, {
+        since: subscriber.lastDigestAt ?? new Date(now.getTime() - this.digestPeriodMs),
+        until: now,
+        categories: subscriber.categories,
+        site: this.site,
+        unsubscribeUrl
+      });
+      if (!digest) {
+        report.skipped++;
+        continue;
+      }
+
+      try {
+        await this.adapter.send({
+          to: subscriber.email,
+          from: this.from,
+          subject: digest.subject,
+          html: digest.html,
+          text: digest.text,
+          headers: {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+          }
+        });
+        await this.store.save({ ...subscriber, lastDigestAt: now });
+        report.sent++;
+      } catch (error) {
+        report.failed.push({ email: subscriber.email, error: (error as Error).message });
+      }
+    }
+    return report;
+  }
+
+  private confirmationEmail(subscriber: Subscriber): EmailMessage {
+    const url = this.linkUrl(apiEndpoints.newsletter.confirm, subscriber, 'confirm');
+    const days = Math.round(this.confirmationTtlMs / DAY_MS);
+    return {
+      to: subscriber.email,
+      from: this.from,
+      subject: `Confirm your ${this.site.name} subscription`,
+      html: [
+        '<!DOCTYPE html>',
+        '<html lang="en"><body style="margin:0;background:#0a0a0a">',
+        '<div style="max-width:600px;margin:0 auto;padding:32px 24px;font-family:Helvetica,Arial,sans-serif;color:#ffffff">',
+        `<h1 style="margin:0 0 16px;font-size:24px;color:#00bcd4">${escapeHtml(this.site.name)}</h1>`,
+        '<p style="line-height:1.5">Confirm your email address to start receiving the weekly digest.</p>',
+        `<p><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#00bcd4;color:#000000;text-decoration:none;font-weight:700;border-radius:6px">Confirm subscription</a></p>`,
+        `<p style="font-size:12px;color:#8a8a8a">The link expires in ${days} days. If you did not sign up, ignore this email.</p>`,
+        '</div></body></html>',
+        ''
+      ].join('\n'),
+      text: [
+        this.site.name,
+        '',
+        'Confirm your email address to start receiving the weekly digest:',
+        url,
+        '',
+        `The link expires in ${days} days. If you did not sign up, ignore this email.`,
+        ''
+      ].join('\n')
+    };
+  }
+
+  private linkUrl(endpoint: string, subscriber: Subscriber, purpose: LinkPurpose): string {
+    const params = new URLSearchParams({ id: subscriber.id, token: this.sign(subscriber.id, purpose) });
+    return `${this.site.url.replace(/\/$/, '')}${endpoint}?${params}`;
+  }
+
+  private async verifyLink(id: string, token: string, purpose: LinkPurpose): Promise<Subscriber> {
+    const expected = Buffer.from(this.sign(id, purpose));
+    const actual = Buffer.from(token);
+    const subscriber = await this.store.get(id);
+    if (!subscriber || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new ApiError('bad_request', 'Invalid link');
+    }
+    return subscriber;
+  }
+
+  private sign(id: string, purpose: LinkPurpose): string {
+    const secret = typeof this.secret === 'function' ? this.secret() : this.secret;
+    return createHmac('sha256', secret).update(`newsletter:${purpose}:${id}`).digest('base64url');
+  }
+}
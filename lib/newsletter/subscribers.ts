@@ -0,0 +1,66 @@
+/**
+ * VIB3CODE-0 Newsletter Subscribers
+ *
+ * Double opt-in list: a subscription stays pending until the emailed
+ * confirmation link is followed. Subscribers pick categories (none means
+ * all) and remember when they last received a digest, so a re-run never
+ * sends the same posts twice.
+ */
+
+import { contentCategories } from '../blog-config';
+
+export type CategoryKey = keyof typeof contentCategories;
+
+export interface Subscriber {
+  id: string;
+  /** Lower-cased */
+  email: string;
+  status: 'pending' | 'active' | 'unsubscribed';
+  /** Categories to include in digests; empty for all */
+  categories: CategoryKey[];
+  createdAt: Date;
+  confirmedAt?: Date;
+  unsubscribedAt?: Date;
+  lastDigestAt?: Date;
+}
+
+export interface SubscriberStore {
+  list(): Promise<Subscriber[]>;
+  get(id: string): Promise<Subscriber | null>;
+  findByEmail(email: string): Promise<Subscriber | null>;
+  /** Insert or replace the subscriber with the same id */
+  save(subscriber: Subscriber): Promise<Subscriber>;
+}
+
+// In-memory store used in tests and as the NewsletterService default
+export class InMemorySubscriberStore implements SubscriberStore {
+  protected subscribers = new Map<string, Subscriber>();
+
+  constructor(subscribers: Subscriber[] = []) {
+    subscribers.forEach(subscriber => this.subscribers.set(subscriber.id, copy(subscriber)));
+  }
+
+  async list(): Promise<Subscriber[]> {
+    return Array.from(this.subscribers.values()).map(copy);
+  }
+
+  async get(id: string): Promise<Subscriber | null> {
+    const subscriber = this.subscribers.get(id);
+    return subscriber ? copy(subscriber) : null;
+  }
+
+  async findByEmail(email: string): Promise<Subscriber | null> {
+    const wanted = email.trim().toLowerCase();
+    const subscriber = Array.from(this.subscribers.values()).find(candidate => candidate.email === wanted);
+    return subscriber ? copy(subscriber) : null;
+  }
+
+  async save(subscriber: Subscriber): Promise<Subscriber> {
+    this.subscribers.set(subscriber.id, copy(subscriber));
+    return copy(subscriber);
+  }
+}
+
+function copy(subscriber: Subscriber): Subscriber {
+  return { ...subscriber, categories: [...subscriber.categories] };
+}
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for newsletter subscriptions, digests and outbox delivery
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiError } from '../../api/http';
+import { post } from '../../content/tests/fixtures';
+import { DeliveryAdapter, EmailMessage, OutboxAdapter, renderEml } from '../delivery';
+import { buildDigest } from '../digest';
+import { FileSubscriberStore } from '../file-subscriber-store';
+import { NewsletterService } from '../service';
+import { InMemorySubscriberStore } from '../subscribers';
+
+const posts = [
+  post('2'),
+  post('3', { title: 'Tips & <Tricks>', category: 'vibe-coding' }),
+  post('4', { status: 'draft', category: 'vibe-coding' }),
+  post('5')
+];
+
+class CapturingAdapter implements DeliveryAdapter {
+  readonly name = 'capture';
+  sent: EmailMessage[] = [];
+  failFor = '';
+
+  async send(message: EmailMessage) {
+    if (message.to === this.failFor) throw new Error('mailbox unavailable');
+    this.sent.push(message);
+    return { id: String(this.sent.length) };
+  }
+}
+
+const linkFrom = (message: EmailMessage) => new URL(message.text.match(/https?:\/\/\S+/)![0]);
+
+const site = { name: 'VIB3CODE-0', description: 'Test', url: 'https://blog.example.com', author: 'Lab' };
+
+async function subscribed(service: NewsletterService, adapter: CapturingAdapter, email: string, categories: string[] = []) {
+  await service.subscribe(email, categories, new Date('2024-09-01T00:00:00Z'));
+  const link = linkFrom(adapter.sent[adapter.sent.length - 1]);
+  return service.confirm(link.searchParams.get('id')!, link.searchParams.get('token')!, new Date('2024-09-01T01:00:00Z'));
+}
+
+describe('buildDigest', () => {
+  const window = { since: new Date('2024-09-02T00:00:00Z'), until: new Date('2024-09-09T00:00:00Z'), site };
+
+  it('groups the window\'s published posts by category', () => {
+    const digest = buildDigest(posts, window)!;
+
+    expect(digest.postCount).toBe(3);
+    expect(digest.subject).toBe('VIB3CODE-0 weekly: 3 new posts (Sep 2 - Sep 8)');
+    expect(digest.sections.map(section => [section.category, section.posts.map(p => p.id)])).toEqual([
+      ['ai-news', ['5', '2']],
+      ['vibe-coding', ['3']]
+    ]);
+    expect(digest.html).toContain('Tips &amp; &lt;Tricks&gt;');
+    expect(digest.html).toContain('https://blog.example.com/posts/post-5');
+    expect(digest.text).toContain('AI NEWS & RESEARCH');
+  });
+
+  it('filters by category and returns null when nothing is new', () => {
+    expect(buildDigest(posts, { ...window, categories: ['vibe-coding'] })!.postCount).toBe(1);
+    expect(buildDigest(posts, { ...window, categories: ['philosophy'] })).toBeNull();
+    expect(buildDigest(posts, { ...window, since: new Date('2024-09-06T00:00:00Z') })).toBeNull();
+  });
+});
+
+describe('NewsletterService', () => {
+  it('activates subscriptions only through the signed confirmation link', async () => {
+    const adapter = new CapturingAdapter();
+    const service = new NewsletterService(adapter, { secret: 'x'.repeat(32), site });
+
+    const pending = await service.subscribe(' Ada@Example.com ', ['ai-news'], new Date('2024-09-01T00:00:00Z'));
+    expect(pending).toMatchObject({ email: 'ada@example.com', status: 'pending' });
+    expect(adapter.sent[0].to).toBe('ada@example.com');
+
+    const link = linkFrom(adapter.sent[0]);
+    expect(link.pathname).toBe('/api/newsletter/confirm');
+    await expect(service.confirm(pending.id, 'forged')).rejects.toBeInstanceOf(ApiError);
+    await expect(service.confirm(pending.id, link.searchParams.get('token')!, new Date('2024-09-09T00:00:00Z')))
+      .rejects.toThrow('expired');
+
+    const active = await service.confirm(pending.id, link.searchParams.get('token')!, new Date('2024-09-02T00:00:00Z'));
+    expect(active.status).toBe('active');
+
+    // Re-subscribing an active address neither emails nor changes preferences
+    await service.subscribe('ada@example.com', ['philosophy']);
+    expect(adapter.sent).toHaveLength(1);
+    expect((await service.listSubscribers())[0].categories).toEqual(['ai-news']);
+  });
+
+  it('sends one confirmation per link lifetime for a pending address', async () => {
+    const adapter = new CapturingAdapter();
+    const service = new NewsletterService(adapter, { secret: () => 'x'.repeat(32), site, confirmationTtlMs: 60000 });
+    const at = (seconds: number) => new Date(Date.UTC(2024, 8, 1, 0, 0, seconds));
+
+    const pending = await service.subscribe('ada@example.com', [], at(0));
+    await service.subscribe('ada@example.com', [], at(30));
+    await service.subscribe('ADA@example.com', ['philosophy'], at(59));
+    expect(adapter.sent).toHaveLength(1);
+
+    // Once the first link has expired a new one is sent, valid from then on
+    const renewed = await service.subscribe('ada@example.com', [], at(61));
+    expect(adapter.sent).toHaveLength(2);
+    expect(renewed).toMatchObject({ id: pending.id, createdAt: at(61) });
+    const token = linkFrom(adapter.sent[1]).searchParams.get('token')!;
+    expect(await service.confirm(pending.id, token, at(90))).toMatchObject({ status: 'active' });
+  });
+
+  it('rejects invalid addresses and unknown categories', async () => {
+    const service = new NewsletterService(new CapturingAdapter(), { secret: 'x'.repeat(32), site });
+
+    await expect(service.subscribe('not-an-email')).rejects.toThrow('Invalid email');
+    await expect(service.subscribe('ada@example.com', ['gossip'])).rejects.toThrow('Unknown categories');
+  });
+
+  it('sends each active subscriber only what is new in their categories', async () => {
+    const adapter = new CapturingAdapter();
+    const service = new NewsletterService(adapter, { secret: 'x'.repeat(32), site });
+    await subscribed(service, adapter, 'ada@example.com', ['ai-news']);
+    await subscribed(service, adapter, 'grace@example.com', ['philosophy']);
+    await subscribed(service, adapter, 'alan@example.com');
+    await service.subscribe('pending@example.com');
+    adapter.sent = [];
+    adapter.failFor = 'alan@example.com';
+
+    const now = new Date('2024-09-08T00:00:00Z');
+    const report = await service.sendDigests(posts, now);
+
+    expect(report).toEqual({ sent: 1, skipped: 1, failed: [{ email: 'alan@example.com', error: 'mailbox unavailable' }] });
+    expect(adapter.sent[0].to).toBe('ada@example.com');
+    expect(adapter.sent[0].subject).toContain('2 new posts');
+    expect(adapter.sent[0].headers!['List-Unsubscribe']).toMatch(/^<https:\/\/blog\.example\.com\/api\/newsletter\/unsubscribe\?/);
+
+    // Re-running does not repeat posts; the failed subscriber is retried
+    adapter.failFor = '';
+    adapter.sent = [];
+    const rerun = await service.sendDigests(posts, now);
+    expect(rerun.sent).toBe(1);
+    expect(adapter.sent.map(message => message.to)).toEqual(['alan@example.com']);
+  });
+
+  it('unsubscribes through the link in the digest', async () => {
+    const adapter = new CapturingAdapter();
+    const service = new NewsletterService(adapter, { secret: 'x'.repeat(32), site });
+    await subscribed(service, adapter, 'ada@example.com');
+    await service.sendDigests(posts, new Date('2024-09-08T00:00:00Z'));
+
+    const link = new URL(adapter.sent[adapter.sent.length - 1].headers!['List-Unsubscribe'].slice(1, -1));
+    const subscriber = await service.unsubscribe(link.searchParams.get('id')!, link.searchParams.get('token')!);
+
+    expect(subscriber.status).toBe('unsubscribed');
+    expect((await service.sendDigests(posts, new Date('2024-09-09T00:00:00Z'))).sent).toBe(0);
+  });
+});
+
+let directory: string;
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-newsletter-'));
+});
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('OutboxAdapter', () => {
+
+  it('writes each message as a multipart .eml file', async () => {
+    const outbox = new OutboxAdapter(path.join(directory, 'outbox'));
+    const receipt = await outbox.send({
+      to: 'ada@example.com',
+      from: 'VIB3CODE-0 <newsletter@blog.example.com>',
+      subject: 'Weekly 4D ✨',
+      html: '<p>Hello</p>',
+      text: 'Hello',
+      headers: { 'List-Unsubscribe': '<https://blog.example.com/u>' }
+    });
+
+    const eml = fs.readFileSync(receipt.location!, 'utf8');
+    expect(receipt.location!.endsWith('.eml')).toBe(true);
+    expect(eml).toContain(`Message-ID: <${receipt.id}@blog.example.com>`);
+    expect(eml).toContain('Subject: =?UTF-8?B?');
+    expect(eml).toContain('List-Unsubscribe: <https://blog.example.com/u>');
+    expect(eml).toContain(Buffer.from('<p>Hello</p>').toString('base64'));
+  });
+
+  it('keeps base64 lines within the RFC 5322 limit', () => {
+    const eml = renderEml({ to: 'a@b.c', from: 'x@y.z', subject: 'Long', html: 'x'.repeat(500), text: 'y' }, 'id');
+    expect(eml.split('\r\n').every(line => line.length <= 78)).toBe(true);
+  });
+});
+
+describe('FileSubscriberStore', () => {
+  it('persists subscribers across store instances', async () => {
+    const file = path.join(directory, 'subscribers.json');
+    const adapter = new CapturingAdapter();
+    const service = new NewsletterService(adapter, { secret: 'x'.repeat(32), site }, new FileSubscriberStore(file));
+    await subscribed(service, adapter, 'ada@example.com');
+
+    const [reloaded] = await new FileSubscriberStore(file).list();
+    expect(reloaded.status).toBe('active');
+    expect(reloaded.confirmedAt).toBeInstanceOf(Date);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(await new InMemorySubscriberStore([reloaded]).findByEmail('ADA@example.com')).toBeTruthy();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * VIB3CODE-0 ChatGPT Export Parser
+ *
+ * Turns the conversations.json of a ChatGPT data export into one
+ * ResearchSession per conversation. ChatGPT stores each conversation as a
+ * tree of message nodes (edits and regenerations branch it), so the
+ * parser follows the branch the user last saw, from `current_node` back to
+ * the root. System prompts, tool output, hidden context and tool calls
+ * are dropped; code the assistant ran stays as fenced code.
+ */
+
+import { ExportFormatError, parseExportJson } from './export-files';
+import {
+  ExportFilter,
+  TranscriptMessage,
+  closeFences,
+  exportDate,
+  fenceBlock,
+  inProjects,
+  renderTranscript,
+  topicFromMessages,
+  withinRange
+} from './transcript';
+import { ResearchSession } from './types';
+
+export interface ChatGPTMessage {
+  id: string;
+  author: { role: 'system' | 'user' | 'assistant' | 'tool'; name?: string | null };
+  /** Unix seconds */
+  create_time?: number | null;
+  content: {
+    content_type: string;
+    parts?: Array<string | { content_type?: string; text?: string }>;
+    text?: string;
+    language?: string;
+  };
+  /** "all" for messages shown to the user, a tool name for tool calls */
+  recipient?: string;
+  metadata?: { is_visually_hidden_from_conversation?: boolean; model_slug?: string };
+}
+
+export interface ChatGPTNode {
+  id: string;
+  message?: ChatGPTMessage | null;
+  parent?: string | null;
+  children?: string[];
+}
+
+export interface ChatGPTConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  /** Unix seconds */
+  create_time?: number;
+  update_time?: number;
+  mapping: Record<string, ChatGPTNode>;
+  current_node?: string;
+  default_model_slug?: string;
+  /** "g-p-..." for conversations in a project */
+  gizmo_id?: string | null;
+}
+
+export type ChatGPTExportOptions = ExportFilter;
+
+/** Sessions for the conversations in conversations.json that pass the filter, oldest first */
+export function parseChatGPTExport(conversations: string | unknown, options: ChatGPTExportOptions = {}): ResearchSession[] {
+  const data = typeof conversations === 'string' ? parseExportJson(conversations, 'conversations.json') : conversations;
+  if (!Array.isArray(data)) {
+    throw new ExportFormatError('conversations.json must be an array of conversations');
+  }
+
+  const sessions: ResearchSession[] = [];
+  for (const conversation of data as ChatGPTConversation[]) {
+    if (!conversation || !conversation.mapping || typeof conversation.mapping !== 'object') continue;
+    const session = parseChatGPTConversation(conversation, options);
+    if (session) sessions.push(session);
+  }
+
+  return sessions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Session for one exported conversation, or null when its current branch
+ * has no visible messages or it falls outside the filter
+ */
+export function parseChatGPTConversation(
+  conversation: ChatGPTConversation,
+  options: ChatGPTExportOptions = {}
+): ResearchSession | null {
+  const conversationId = conversation.conversation_id ?? conversation.id;
+  if (!conversationId) return null;
+
+  const messages: TranscriptMessage[] = [];
+  for (const node of currentBranch(conversation)) {
+    const message = node.message;
+    if (!message || !isVisible(message)) continue;
+    const content = messageContent(message);
+    if (!content) continue;
+
+    const role = message.author.role === 'user' ? 'user' : 'assistant';
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === role) {
+      // Turns split around dropped tool calls read as one message
+      previous.content += `\n\n${content}`;
+      continue;
+    }
+    const timestamp = exportDate(message.create_time);
+    messages.push({ role, content, ...(timestamp && { timestamp }) });
+  }
+  if (messages.length === 0) return null;
+
+  const first = messages[0].timestamp;
+  const last = messages[messages.length - 1].timestamp;
+  const createdAt = exportDate(conversation.create_time) ?? first ?? new Date(0);
+  const updatedAt = exportDate(conversation.update_time) ?? last ?? createdAt;
+  const project = conversation.gizmo_id && conversation.gizmo_id.indexOf('g-p-') === 0
+    ? { id: conversation.gizmo_id }
+    : undefined;
+
+  if (!withinRange(createdAt, updatedAt, options) || !inProjects(project, options)) return null;
+
+  const title = (conversation.title ?? '').trim();
+  return {
+    id: `chatgpt-${conversationId}`,
+    timestamp: createdAt,
+    topic: title && title !== 'New chat' ? title : topicFromMessages(messages),
+    rawContent: renderTranscript(messages, 'ChatGPT'),
+    messages,
+    metadata: {
+      source: 'chatgpt',
+      conversationId,
+      createdAt: createdAt.toISOString(),
+      updatedAt: updatedAt.toISOString(),
+      messageCount: messages.length,
+      ...(conversation.default_model_slug && { model: conversation.default_model_slug }),
+      ...(project && { project })
+    }
+  };
+}
+
+/**
+ * Nodes from the root to `current_node`. Exports without a usable
+ * current node fall back to the most recent leaf.
+ */
+function currentBranch(conversation: ChatGPTConversation): ChatGPTNode[] {
+  const mapping = conversation.mapping;
+  let id: string | null | undefined = conversation.current_node;
+
+  if (!id || !mapping.hasOwnProperty(id)) {
+    let latest = -Infinity;
+    id = undefined;
+    for (const key of Object.keys(mapping)) {
+      const node = mapping[key];
+      if (node.children && node.children.length > 0) continue;
+      const time = node.message?.create_time ?? 0;
+      if (id === undefined || time > latest) {
+        id = key;
+        latest = time;
+      }
+    }
+  }
+
+  const branch: ChatGPTNode[] = [];
+  const seen = new Set<string>();
+  while (id && mapping.hasOwnProperty(id) && !seen.has(id)) {
+    seen.add(id);
+    branch.push(mapping[id]);
+    id = mapping[id].parent;
+  }
+  return branch.reverse();
+}
+
+function isVisible(message: ChatGPTMessage): boolean {
+  const role = message.author?.role;
+  if (role !== 'user' && role !== 'assistant') return false;
+  if (message.metadata?.is_visually_hidden_from_conversation) return false;
+  // Assistant messages addressed to a tool are tool calls; code sent to the
+  // interpreter is kept because readers want to see what was run
+  if (role === 'assistant' && message.recipient && message.recipient !== 'all') {
+    return message.content.content_type === 'code';
+  }
+  return true;
+}
+
+/** Markdown for a message: its parts merged, or its code fenced */
+function messageContent(message: ChatGPTMessage): string {
+  const content = message.content;
+  if (!content) return '';
+
+  if (content.content_type === 'code') {
+    const language = content.language && content.language !== 'unknown' ? content.language : '';
+    return content.text && content.text.trim() ? fenceBlock(content.text, language) : '';
+  }
+  if (content.content_type !== 'text' && content.content_type !== 'multimodal_text') return '';
+
+  const parts: string[] = [];
+  for (const part of content.parts ?? []) {
+    if (typeof part === 'string') {
+      if (part.trim()) parts.push(closeFences(part.trim()));
+    } else if (part && typeof part.text === 'string' && part.text.trim()) {
+      parts.push(part.text.trim());
+    } else if (part && part.content_type === 'image_asset_pointer') {
+      parts.push('📎 image');
+    }
+  }
+  return parts.join('\n\n');
+}
@@ -0,0 +1,230 @@
+/**
+ * VIB3CODE-0 Claude Export Parser
+ *
+ * Turns the data export from claude.ai (conversations.json, plus
+ * projects.json when the account has projects) into one ResearchSession
+ * per conversation. Session ids come from the conversation uuid, so
+ * importing the same export twice yields the same ids. Message text keeps
+ * its Markdown and code blocks, artifacts become fenced code, and the
+ * extracted text of attachments is appended to the message it came with.
+ */
+
+import { ExportFormatError, parseExportJson } from './export-files';
+import {
+  ExportFilter,
+  TranscriptMessage,
+  closeFences,
+  exportDate,
+  fenceBlock,
+  inProjects,
+  renderTranscript,
+  topicFromMessages,
+  withinRange
+} from './transcript';
+import { ResearchSession } from './types';
+
+export interface ClaudeContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: {
+    title?: string;
+    language?: string;
+    content?: string;
+    type?: string;
+    command?: string;
+  };
+}
+
+export interface ClaudeAttachment {
+  file_name?: string;
+  file_type?: string;
+  file_size?: number;
+  extracted_content?: string;
+}
+
+export interface ClaudeMessage {
+  uuid: string;
+  sender: 'human' | 'assistant';
+  text?: string;
+  content?: ClaudeContentBlock[];
+  created_at: string;
+  updated_at?: string;
+  attachments?: ClaudeAttachment[];
+  files?: Array<{ file_name?: string }>;
+}
+
+export interface ClaudeConversation {
+  uuid: string;
+  name?: string;
+  summary?: string;
+  created_at: string;
+  updated_at?: string;
+  project_uuid?: string;
+  project?: { uuid: string; name?: string };
+  chat_messages?: ClaudeMessage[];
+}
+
+export interface ClaudeProject {
+  uuid: string;
+  name: string;
+  description?: string;
+}
+
+export interface ClaudeExportOptions extends ExportFilter {
+  /** projects.json from the same export, to filter and label by project name */
+  projectIndex?: string | ClaudeProject[];
+  /** Attachment text beyond this many characters is cut (default 4000) */
+  maxAttachmentChars?: number;
+}
+
+const DEFAULT_ATTACHMENT_CHARS = 4000;
+
+/** Sessions for the conversations in conversations.json that pass the filter, oldest first */
+export function parseClaudeExport(conversations: string | unknown, options: ClaudeExportOptions = {}): ResearchSession[] {
+  const data = typeof conversations === 'string' ? parseExportJson(conversations, 'conversations.json') : conversations;
+  if (!Array.isArray(data)) {
+    throw new ExportFormatError('conversations.json must be an array of conversations');
+  }
+
+  const projects = projectNames(options.projectIndex);
+  const sessions: ResearchSession[] = [];
+  for (const conversation of data as ClaudeConversation[]) {
+    if (!conversation || typeof conversation.uuid !== 'string') continue;
+    const session = parseClaudeConversation(conversation, options, projects);
+    if (session) sessions.push(session);
+  }
+
+  return sessions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Session for one exported conversation, or null when it has no messages
+ * or falls outside the filter
+ */
+export function parseClaudeConversation(
+  conversation: ClaudeConversation,
+  options: ClaudeExportOptions = {},
+  projects: Map<string, string> = projectNames(options.projectIndex)
+): ResearchSession | null {
+  const messages: TranscriptMessage[] = [];
+  const attachments: string[] = [];
+
+  for (const message of conversation.chat_messages ?? []) {
+    if (message.sender !== 'human' && message.sender !== 'assistant') continue;
+    const content = messageContent(message, options.maxAttachmentChars ?? DEFAULT_ATTACHMENT_CHARS, attachments);
+    if (!content) continue;
+    const timestamp = exportDate(message.created_at);
+    messages.push({
+      role: message.sender === 'human' ? 'user' : 'assistant',
+      content,
+      ...(timestamp && { timestamp })
+    });
+  }
+  if (messages.length === 0) return null;
+
+  const first = messages[0].timestamp;
+  const last = messages[messages.length - 1].timestamp;
+  const createdAt = exportDate(conversation.created_at) ?? first ?? new Date(0);
+  const updatedAt = exportDate(conversation.updated_at) ?? last ?? createdAt;
+
+  const projectId = conversation.project_uuid ?? conversation.project?.uuid;
+  const project = projectId
+    ? { id: projectId, name: projects.get(projectId) ?? conversation.project?.name }
+    : undefined;
+
+  if (!withinRange(createdAt, updatedAt, options) || !inProjects(project, options)) return null;
+
+  const title = (conversation.name ?? '').trim();
+  return {
+    id: `claude-${conversation.uuid}`,
+    timestamp: createdAt,
+    topic: title || topicFromMessages(messages),
+    rawContent: renderTranscript(messages, 'Claude'),
+    messages,
+    metadata: {
+      source: 'claude',
+      conversationId: conversation.uuid,
+      createdAt: createdAt.toISOString(),
+      updatedAt: updatedAt.toISOString(),
+      messageCount: messages.length,
+      ...(project && { project: project.name ? project : { id: project.id } }),
+      ...(conversation.summary && { summary: conversation.summary }),
+      ...(attachments.length > 0 && { attachments })
+    }
+  };
+}
+
+/**
+ * Markdown for a message: its text blocks (or the flat `text` of older
+ * exports), artifacts as fenced code, then attachments. Tool calls other
+ * than artifacts, tool results and thinking blocks are left out.
+ */
+function messageContent(message: ClaudeMessage, maxAttachmentChars: number, attachments: string[]): string {
+  const parts: string[] = [];
+
+  if (message.content && message.content.length > 0) {
+    for (const block of message.content) {
+      if (block.type === 'text' && block.text && block.text.trim()) {
+        parts.push(closeFences(block.text.trim()));
+      } else if (block.type === 'tool_use' && block.name === 'artifacts' && block.input?.content) {
+        const { title, language, content } = block.input;
+        parts.push(`${title ? `**${title}**\n\n` : ''}${fenceBlock(content, language ?? artifactLanguage(block.input.type))}`);
+      }
+    }
+  } else if (message.text && message.text.trim()) {
+    parts.push(closeFences(message.text.trim()));
+  }
+
+  for (const attachment of message.attachments ?? []) {
+    const name = attachment.file_name || 'attachment';
+    attachments.push(name);
+    const text = (attachment.extracted_content ?? '').replace(/\s+$/, '');
+    if (!text) {
+      parts.push(`📎 ${name}`);
+      continue;
+    }
+    const cut = text.length > maxAttachmentChars
+      ? `${text.slice(0, maxAttachmentChars)}\n… (${text.length - maxAttachmentChars} more characters)`
+      : text;
+    parts.push(`📎 **${name}**\n\n${fenceBlock(cut, attachmentLanguage(name))}`);
+  }
+
+  for (const file of message.files ?? []) {
+    if (!file.file_name || attachments.indexOf(file.file_name) !== -1) continue;
+    attachments.push(file.file_name);
+    parts.push(`📎 ${file.file_name}`);
+  }
+
+  return parts.join('\n\n');
+}
+
+function projectNames(index: ClaudeExportOptions['projectIndex']): Map<string, string> {
+  const names = new Map<string, string>();
+  if (!index) return names;
+  const data = typeof index === 'string' ? parseExportJson(index, 'projects.json') : index;
+  if (!Array.isArray(data)) throw new ExportFormatError('projects.json must be an array of projects');
+  for (const project of data as ClaudeProject[]) {
+    if (project && typeof project.uuid === 'string' && project.name) names.set(project.uuid, project.name);
+  }
+  return names;
+}
+
+/** Fence language for an artifact MIME type such as "text/html" or "application/vnd.ant.react" */
+function artifactLanguage(type?: string): string {
+  if (!type) return '';
+  if (type === 'application/vnd.ant.react') return 'jsx';
+  if (type === 'image/svg+xml') return 'svg';
+  if (type === 'application/vnd.ant.mermaid') return 'mermaid';
+  const match = /^text\/(html|markdown|css)$/.exec(type);
+  return match ? match[1] : '';
+}
+
+function attachmentLanguage(fileName: string): string {
+  const extension = (/\.([a-z0-9]+)$/i.exec(fileName) ?? ['', ''])[1].toLowerCase();
+  const languages: Record<string, string> = {
+    ts: 'ts', tsx: 'tsx', js: 'js', jsx: 'jsx', json: 'json', py: 'python', sh: 'bash',
+    glsl: 'glsl', frag: 'glsl', vert: 'glsl', css: 'css', html: 'html', md: 'markdown'
+  };
+  return languages.hasOwnProperty(extension) ? languages[extension] : '';
+}
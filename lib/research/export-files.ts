@@ -0,0 +1,186 @@
+/**
+ * VIB3CODE-0 Export Files
+ *
+ * Reads the files inside an AI assistant's data export. Exports arrive as
+ * a zip archive; the archive itself, the folder it unpacks to, or one of
+ * its files can be passed. Only stored and deflated zip entries are
+ * supported, which is what every export service produces.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+/** The export is missing a file or the file is not in the expected format */
+export class ExportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportFormatError';
+  }
+}
+
+export interface ZipEntry {
+  data: Buffer;
+  modified: Date;
+}
+
+const ZIP = /\.zip$/i;
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export interface ExportEntry {
+  /** Path inside the archive or folder, with forward slashes */
+  path: string;
+  text: string;
+  modified: Date;
+}
+
+/**
+ * Text of the wanted files, keyed by the wanted name. Names match the end of
+ * a path ("conversations.json" matches "export/conversations.json", and
+ * "Gemini Apps/MyActivity.json" matches inside a Takeout folder); a single
+ * file matches on its file name. Names not in the export are left out.
+ */
+export async function readExportFiles(filePath: string, names: string[]): Promise<Record<string, string>> {
+  // A file passed directly only has to match on its file name
+  const single = !ZIP.test(filePath) && !(await fs.promises.stat(existing(filePath))).isDirectory();
+  const patterns = single ? names.map(name => path.posix.basename(name)) : names;
+
+  const files: Record<string, string> = {};
+  for (const entry of await readExportEntries(filePath, entry => matchName(entry, patterns) !== -1)) {
+    const name = names[matchName(entry.path, patterns)];
+    // The shallowest match wins when an export nests copies
+    if (!files.hasOwnProperty(name)) files[name] = entry.text;
+  }
+  return files;
+}
+
+/**
+ * Every file of an export that `include` accepts, shallowest first: the
+ * entries of a zip archive, the files under a folder, or the file itself
+ */
+export async function readExportEntries(filePath: string, include: (entry: string) => boolean): Promise<ExportEntry[]> {
+  const stat = await fs.promises.stat(existing(filePath));
+
+  if (stat.isDirectory()) {
+    const entries: ExportEntry[] = [];
+    for (const relative of listFiles(filePath, '')) {
+      if (!include(relative)) continue;
+      const absolute = path.join(filePath, relative);
+      entries.push({
+        path: relative,
+        text: await fs.promises.readFile(absolute, 'utf8'),
+        modified: (await fs.promises.stat(absolute)).mtime
+      });
+    }
+    return entries.sort((a, b) => depth(a.path) - depth(b.path));
+  }
+
+  if (ZIP.test(filePath)) {
+    const entries: ExportEntry[] = [];
+    unzip(await fs.promises.readFile(filePath), include).forEach((entry, name) => {
+      entries.push({ path: name, text: entry.data.toString('utf8'), modified: entry.modified });
+    });
+    return entries;
+  }
+
+  const name = path.basename(filePath);
+  return include(name) ? [{ path: name, text: await fs.promises.readFile(filePath, 'utf8'), modified: stat.mtime }] : [];
+}
+
+/**
+ * Entries of a zip archive by path, limited to those `include` accepts.
+ * Directories are skipped; entries are returned shallowest first.
+ */
+export function unzip(archive: Buffer, include: (entry: string) => boolean = () => true): Map<string, ZipEntry> {
+  let eocd = -1;
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KiB
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 65557); offset--) {
+    if (archive.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) throw new ExportFormatError('Not a zip archive: no end of central directory record');
+
+  const count = archive.readUInt16LE(eocd + 10);
+  const found: Array<ZipEntry & { name: string }> = [];
+  let offset = archive.readUInt32LE(eocd + 16);
+
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new ExportFormatError('Corrupt zip archive: bad central directory entry');
+    }
+    const method = archive.readUInt16LE(offset + 10);
+    const modified = dosDate(archive.readUInt16LE(offset + 14), archive.readUInt16LE(offset + 12));
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (/\/$/.test(name) || !include(name)) continue;
+    if (archive.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new ExportFormatError(`Corrupt zip archive: bad local header for ${name}`);
+    }
+    const start = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const raw = archive.slice(start, start + compressedSize);
+
+    if (method === 0) {
+      found.push({ name, data: raw, modified });
+    } else if (method === 8) {
+      found.push({ name, data: zlib.inflateRawSync(raw), modified });
+    } else {
+      throw new ExportFormatError(`Unsupported zip compression method ${method} for ${name}`);
+    }
+  }
+
+  found.sort((a, b) => depth(a.name) - depth(b.name));
+  return new Map(found.map(({ name, data, modified }) => [name, { data, modified }] as [string, ZipEntry]));
+}
+
+/** Parse an export JSON file, naming the file when it is not JSON */
+export function parseExportJson(source: string, file: string): unknown {
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new ExportFormatError(`${file} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/** Index of the first name `entry` ends with, or -1 */
+function matchName(entry: string, names: string[]): number {
+  const normalized = entry.replace(/\\/g, '/').toLowerCase();
+  for (let index = 0; index < names.length; index++) {
+    const wanted = names[index].toLowerCase();
+    if (normalized === wanted || normalized.slice(-(wanted.length + 1)) === `/${wanted}`) return index;
+  }
+  return -1;
+}
+
+function existing(filePath: string): string {
+  if (!fs.existsSync(filePath)) throw new ExportFormatError(`Export not found at ${filePath}`);
+  return filePath;
+}
+
+function listFiles(root: string, relative: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(root, relative), { withFileTypes: true })) {
+    const child = relative ? `${relative}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) files.push(...listFiles(root, child));
+    else if (entry.isFile()) files.push(child);
+  }
+  return files;
+}
+
+function depth(entry: string): number {
+  return entry.split('/').length;
+}
+
+/** Zip timestamps are MS-DOS local date and time fields */
+function dosDate(date: number, time: number): Date {
+  return new Date(1980 + (date >> 9), ((date >> 5) & 15) - 1, date & 31, time >> 11, (time >> 5) & 63, (time & 31) * 2);
+}
@@ -0,0 +1,46 @@
+/**
+ * VIB3CODE-0 File Ingestion Ledger
+ *
+ * Ingested research sessions in a single JSON file (server only), kept by
+ * JsonMapFile. A claim checks for duplicates inside the file's write
+ * queue, against every record written before it.
+ */
+
+import { JsonMapFile } from '../storage/json-file';
+import { DuplicateCheck, InMemoryIngestLedger, IngestRecord, checkDuplicate, pendingRecord } from './ledger';
+import { ResearchSession } from './types';
+
+export class FileIngestLedger extends InMemoryIngestLedger {
+  private readonly file: JsonMapFile<IngestRecord>;
+
+  constructor(file: string) {
+    const records = new JsonMapFile<IngestRecord>(file, {
+      name: 'ingestion ledger',
+      key: record => record.sessionId,
+      dates: ['ingestedAt']
+    });
+    super(records.values());
+    this.file = records;
+  }
+
+  async save(record: IngestRecord): Promise<IngestRecord> {
+    this.records = await this.file.write(next => {
+      next.set(record.sessionId, { ...record, signature: [...record.signature] });
+    });
+    return { ...record, signature: [...record.signature] };
+  }
+
+  async claim(session: ResearchSession): Promise<DuplicateCheck> {
+    let check: DuplicateCheck | undefined;
+    this.records = await this.file.write(next => {
+      check = checkDuplicate(session, Array.from(next.values()));
+      if (check.status === 'duplicate') return false;
+      next.set(session.id, pendingRecord(session, check.fingerprint));
+    });
+    return check!;
+  }
+
+  async release(sessionId: string): Promise<void> {
+    this.records = await this.file.write(next => (next.get(sessionId)?.pending ? next.delete(sessionId) : false));
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * VIB3CODE-0 File Job Store
+ *
+ * Ingestion jobs, with their steps and run logs, in a single JSON file
+ * (server only) kept by JsonMapFile.
+ */
+
+import { JsonMapFile } from '../storage/json-file';
+import { InMemoryJobStore, IngestionJob, copyJob } from './jobs';
+
+export class FileJobStore extends InMemoryJobStore {
+  private readonly file: JsonMapFile<IngestionJob>;
+
+  constructor(file: string) {
+    const jobs = new JsonMapFile<IngestionJob>(file, {
+      name: 'job file',
+      key: job => job.id,
+      dates: ['at', 'createdAt', 'startedAt', 'finishedAt', 'nextAttemptAt', 'since', 'until']
+    });
+    super(jobs.values());
+    this.file = jobs;
+  }
+
+  async save(job: IngestionJob): Promise<IngestionJob> {
+    this.jobs = await this.file.write(next => {
+      next.set(job.id, copyJob(job));
+    });
+    return copyJob(job);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.jobs.has(id)) return;
+    this.jobs = await this.file.write(next => {
+      next.delete(id);
+    });
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * VIB3CODE-0 Research Fingerprints
+ *
+ * Tells research already ingested apart from new research. A session's
+ * fingerprint is a SHA-256 of its normalized text (case, whitespace and
+ * speaker labels ignored), so the same conversation from a re-run or a
+ * second export matches exactly. Overlapping sessions (a conversation that
+ * continued, or research pasted into two tools) are caught with MinHash
+ * signatures over five-word shingles, which estimate the Jaccard overlap
+ * of two transcripts from 64 numbers each.
+ */
+
+import { createHash } from 'crypto';
+import { ResearchSession } from './types';
+
+export interface SessionFingerprint {
+  /** SHA-256 (hex) of the normalized text */
+  hash: string;
+  /** MinHash signature of the word shingles */
+  signature: number[];
+}
+
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 64;
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => mix(index + 1));
+
+export function fingerprintSession(session: ResearchSession): SessionFingerprint {
+  const words = sessionWords(session);
+  return {
+    hash: createHash('sha256').update(words.join(' ')).digest('hex'),
+    signature: minHash(shingles(words))
+  };
+}
+
+/** Estimated Jaccard overlap (0-1) of the shingles behind two signatures */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let same = 0;
+  for (let index = 0; index < length; index++) {
+    if (a[index] === b[index]) same++;
+  }
+  return same / length;
+}
+
+/** Lowercase words of the conversation, without the transcript's speaker labels */
+function sessionWords(session: ResearchSession): string[] {
+  const text = session.messages && session.messages.length > 0
+    ? session.messages.map(message => message.content).join('\n')
+    : session.rawContent;
+  return text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) ?? [];
+}
+
+/** 32-bit hashes of every run of SHINGLE_SIZE words (the whole text when shorter) */
+function shingles(words: string[]): number[] {
+  const hashes: number[] = [];
+  const last = Math.max(0, words.length - SHINGLE_SIZE);
+  for (let start = 0; start <= last && words.length > 0; start++) {
+    hashes.push(fnv1a(words.slice(start, start + SHINGLE_SIZE).join(' ')));
+  }
+  return hashes;
+}
+
+function minHash(hashes: number[]): number[] {
+  return SEEDS.map(seed => hashes.reduce((min, hash) => Math.min(min, mix(hash ^ seed)), 0xffffffff));
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** MurmurHash3 finalizer: spreads each bit of the input over the output */
+function mix(value: number): number {
+  let hash = value >>> 0;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
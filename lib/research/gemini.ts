@@ -0,0 +1,117 @@
+/**
+ * VIB3CODE-0 Gemini Takeout Parser
+ *
+ * Reads Gemini Apps activity from a Google Takeout export (My Activity ›
+ * Gemini Apps › MyActivity.json). Takeout records each prompt and its
+ * response as a separate activity without a conversation id, so prompts
+ * less than `sessionGapMinutes` apart are grouped into one session. A
+ * session's id comes from the time of its first prompt, which does not
+ * change between exports.
+ */
+
+import { htmlToMarkdown } from '../content/wxr';
+import { ExportFormatError, parseExportJson } from './export-files';
+import {
+  ExportFilter,
+  TranscriptMessage,
+  closeFences,
+  exportDate,
+  inProjects,
+  renderTranscript,
+  topicFromMessages,
+  withinRange
+} from './transcript';
+import { ResearchSession } from './types';
+
+export interface GeminiActivity {
+  header?: string;
+  /** "Prompted <prompt>" for prompts; other activity ("Used Gemini Apps", feedback) is skipped */
+  title: string;
+  time: string;
+  products?: string[];
+  /** The response, as sanitized HTML */
+  safeHtmlItem?: Array<{ html?: string }>;
+  attachedFiles?: string[];
+}
+
+export interface GeminiExportOptions extends ExportFilter {
+  /** Prompts further apart than this start a new session (default 30) */
+  sessionGapMinutes?: number;
+}
+
+const PRODUCTS = ['Gemini Apps', 'Bard'];
+const PROMPTED = /^Prompted\s+/;
+const DEFAULT_SESSION_GAP = 30;
+
+/** Sessions for the prompts in MyActivity.json that pass the filter, oldest first */
+export function parseGeminiActivity(activity: string | unknown, options: GeminiExportOptions = {}): ResearchSession[] {
+  const data = typeof activity === 'string' ? parseExportJson(activity, 'MyActivity.json') : activity;
+  if (!Array.isArray(data)) {
+    throw new ExportFormatError('MyActivity.json must be an array of activity records');
+  }
+
+  const prompts = (data as GeminiActivity[])
+    .filter(isPrompt)
+    .map(record => ({ record, time: exportDate(record.time) as Date }))
+    .filter(prompt => prompt.time !== undefined)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const gap = (options.sessionGapMinutes ?? DEFAULT_SESSION_GAP) * 60 * 1000;
+  const groups: Array<typeof prompts> = [];
+  for (const prompt of prompts) {
+    const group = groups[groups.length - 1];
+    if (group && prompt.time.getTime() - group[group.length - 1].time.getTime() <= gap) {
+      group.push(prompt);
+    } else {
+      groups.push([prompt]);
+    }
+  }
+
+  const sessions: ResearchSession[] = [];
+  for (const group of groups) {
+    const createdAt = group[0].time;
+    const updatedAt = group[group.length - 1].time;
+    // Takeout activity belongs to no project, so a project filter excludes it
+    if (!withinRange(createdAt, updatedAt, options) || !inProjects(undefined, options)) continue;
+
+    const messages: TranscriptMessage[] = [];
+    const attachments: string[] = [];
+    for (const { record, time } of group) {
+      const files = record.attachedFiles ?? [];
+      attachments.push(...files);
+      const prompt = record.title.replace(PROMPTED, '').trim();
+      messages.push({
+        role: 'user',
+        content: [prompt].concat(files.map(file => `📎 ${file}`)).filter(Boolean).join('\n\n'),
+        timestamp: time
+      });
+
+      const response = (record.safeHtmlItem ?? []).map(item => item.html ?? '').join('\n');
+      const markdown = response ? closeFences(htmlToMarkdown(response)) : '';
+      if (markdown) messages.push({ role: 'assistant', content: markdown, timestamp: time });
+    }
+
+    sessions.push({
+      id: `gemini-${createdAt.getTime()}`,
+      timestamp: createdAt,
+      topic: topicFromMessages(messages),
+      rawContent: renderTranscript(messages, 'Gemini'),
+      messages,
+      metadata: {
+        source: 'gemini',
+        createdAt: createdAt.toISOString(),
+        updatedAt: updatedAt.toISOString(),
+        messageCount: messages.length,
+        prompts: group.length,
+        ...(attachments.length > 0 && { attachments })
+      }
+    });
+  }
+  return sessions;
+}
+
+function isPrompt(record: GeminiActivity): boolean {
+  if (!record || typeof record.title !== 'string' || !PROMPTED.test(record.title)) return false;
+  const products = record.products ?? (record.header ? [record.header] : []);
+  return products.length === 0 || products.some(product => PRODUCTS.indexOf(product) !== -1);
+}
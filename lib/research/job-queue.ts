@@ -0,0 +1,301 @@
+/**
+ * VIB3CODE-0 Research Job Queue
+ *
+ * Runs ingestion jobs one step (research source) at a time, in the order
+ * they were queued. A step whose run throws (the source could not be read
+ * or fetched) is retried with exponential backoff; the ledger makes reruns
+ * skip what an earlier attempt already published. Sessions that fail to
+ * publish are reported in the step's report and log, not retried. Progress
+ * and the run log are saved after every step, and a step left running by
+ * a restart is picked up again.
+ *
+ * Cancelling a queued job (or one waiting to retry) stops it at once; a
+ * running step finishes first and the remaining steps are skipped.
+ */
+
+import { randomUUID } from 'crypto';
+import { ApiError } from '../api/http';
+import { FINISHED_JOB_STATUSES, IngestionJob, JobLogEntry, JobStep, JobStore, copyJob } from './jobs';
+import { IngestionLogger, IngestionReport, ResearchSource } from './types';
+
+/** Ingests and publishes one source; rejects when the source cannot be read */
+export type StepRunner = (source: ResearchSource, log: IngestionLogger) => Promise<IngestionReport>;
+
+export interface ResearchJobQueueOptions {
+  run: StepRunner;
+  /** Attempts per step, the first included (default: 4) */
+  maxAttempts?: number;
+  /** Wait before the first retry; doubles with every attempt (default: one minute) */
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  /** How often the worker looks for due steps (default: 30 seconds) */
+  intervalMs?: number;
+  /** Finished jobs to keep (default: 50) */
+  keepJobs?: number;
+  /** API key for a source, supplied at run time since stored jobs leave keys out */
+  apiKey?: (source: ResearchSource) => string | undefined;
+}
+
+export interface JobRequest {
+  /** What started the run (default: "manual") */
+  trigger?: string;
+  requestedBy?: string;
+}
+
+// Oldest entries are dropped beyond this, so a retry loop can't grow the file without bound
+const MAX_LOG_ENTRIES = 500;
+
+export class ResearchJobQueue {
+  private readonly store: JobStore;
+  private readonly options: ResearchJobQueueOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<IngestionJob[]> | null = null;
+  // Job the worker holds, so a cancel lands on the copy it will save
+  private current: IngestionJob | null = null;
+  private cancelRequests = new Set<string>();
+
+  constructor(store: JobStore, options: ResearchJobQueueOptions) {
+    this.store = store;
+    this.options = options;
+  }
+
+  async enqueue(sources: ResearchSource[], request: JobRequest = {}, now: Date = new Date()): Promise<IngestionJob> {
+    const job: IngestionJob = {
+      id: randomUUID(),
+      status: 'queued',
+      trigger: request.trigger ?? 'manual',
+      ...(request.requestedBy && { requestedBy: request.requestedBy }),
+      createdAt: now,
+      steps: sources.map(source => ({ source: withoutSecrets(source), status: 'pending', attempts: 0 })),
+      log: []
+    };
+
+    const saved = await this.store.save(job);
+    await this.prune();
+    return saved;
+  }
+
+  get(id: string): Promise<IngestionJob | null> {
+    return this.store.get(id);
+  }
+
+  /** Every kept job, newest first */
+  async list(): Promise<IngestionJob[]> {
+    return (await this.store.list()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async cancel(id: string, requestedBy?: string): Promise<IngestionJob> {
+    const job = await this.store.get(id);
+    if (!job) {
+      throw new ApiError('not_found', `No ingestion job with id "${id}"`);
+    }
+    if (FINISHED_JOB_STATUSES.indexOf(job.status) !== -1) {
+      throw new ApiError('conflict', `The job has already ${job.status === 'cancelled' ? 'been cancelled' : 'finished'}`);
+    }
+
+    this.cancelRequests.add(id);
+    const by = requestedBy ? ` by ${requestedBy}` : '';
+
+    const current = this.current;
+    if (current && current.id === id) {
+      current.cancelRequested = true;
+      appendLog(current, 'warn', `Cancellation requested${by}; stopping after the running step`);
+      return this.store.save(current);
+    }
+
+    appendLog(job, 'warn', `Cancelled${by}`);
+    this.finish(job);
+    return this.store.save(job);
+  }
+
+  /**
+   * Run every step that is due at `now`, job by job. Overlapping calls
+   * share one run. Resolves with the jobs that made progress.
+   */
+  async runDue(now: Date = new Date()): Promise<IngestionJob[]> {
+    if (this.running) return this.running;
+
+    this.running = this.processDue(now).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runDue().catch(error => console.error('Research job queue failed:', error));
+    }, this.options.intervalMs ?? 30000);
+
+    // Don't keep the process (or a build) alive just for the queue
+    if (typeof this.timer === 'object' && 'unref' in this.timer) {
+      this.timer.unref();
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Wait before the attempt after `attempt` */
+  retryDelay(attempt: number): number {
+    const base = this.options.retryDelayMs ?? 60000;
+    return Math.min(this.options.maxRetryDelayMs ?? 30 * 60000, base * Math.pow(2, attempt - 1));
+  }
+
+  private async processDue(now: Date): Promise<IngestionJob[]> {
+    const advanced: IngestionJob[] = [];
+
+    for (const { id } of await this.store.list()) {
+      // Re-read: a cancel may have landed while an earlier job ran
+      const job = await this.store.get(id);
+      if (!job || FINISHED_JOB_STATUSES.indexOf(job.status) !== -1) {
+        this.cancelRequests.delete(id);
+        continue;
+      }
+
+      this.current = job;
+      try {
+        if (await this.advance(job, now)) advanced.push(copyJob(job));
+      } finally {
+        this.current = null;
+      }
+      if (FINISHED_JOB_STATUSES.indexOf(job.status) !== -1) this.cancelRequests.delete(id);
+    }
+
+    return advanced;
+  }
+
+  private async advance(job: IngestionJob, now: Date): Promise<boolean> {
+    if (this.cancelled(job)) {
+      this.finish(job);
+      await this.store.save(job);
+      return true;
+    }
+
+    const due = job.steps
+      .map((step, index) => (isDue(step, now) ? index : -1))
+      .filter(index => index !== -1);
+    if (due.length === 0 && job.steps.some(step => !isFinished(step))) return false;
+
+    if (job.status === 'queued') {
+      job.status = 'running';
+      job.startedAt = new Date();
+      appendLog(job, 'info', `Started ${job.trigger} ingestion of ${job.steps.length} source(s)`);
+    }
+
+    for (const index of due) {
+      if (this.cancelled(job)) break;
+      await this.runStep(job, index);
+    }
+
+    if (this.cancelled(job) || job.steps.every(isFinished)) this.finish(job);
+    await this.store.save(job);
+    return true;
+  }
+
+  private async runStep(job: IngestionJob, index: number) {
+    const step = job.steps[index];
+    const type = step.source.type;
+    const log: IngestionLogger = (level, message) => appendLog(job, level, message, index);
+
+    step.status = 'running';
+    step.attempts++;
+    step.startedAt = new Date();
+    delete step.nextAttemptAt;
+    log('info', `Ingesting ${type} (attempt ${step.attempts})`);
+    await this.store.save(job);
+
+    let error: string | undefined;
+    try {
+      step.report = await this.options.run(this.withCredentials(step.source), log);
+      if (step.report.summary.failed > 0) {
+        log('warn', `${step.report.summary.failed} session(s) of ${type} failed to publish`);
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+      log('error', `Failed to ingest ${type}: ${error}`);
+    }
+    step.finishedAt = new Date();
+
+    if (error === undefined) {
+      step.status = 'succeeded';
+      delete step.error;
+    } else if (step.attempts < (this.options.maxAttempts ?? 4)) {
+      const delay = this.retryDelay(step.attempts);
+      step.status = 'retrying';
+      step.error = error;
+      step.nextAttemptAt = new Date(step.finishedAt.getTime() + delay);
+      log('warn', `Retrying ${type} in ${Math.round(delay / 1000)}s`);
+    } else {
+      step.status = 'failed';
+      step.error = error;
+      log('error', `Gave up on ${type} after ${step.attempts} attempt(s)`);
+    }
+    await this.store.save(job);
+  }
+
+  private cancelled(job: IngestionJob): boolean {
+    return job.cancelRequested === true || this.cancelRequests.has(job.id);
+  }
+
+  // Settle the job: unfinished steps of a cancelled job are cancelled with it
+  private finish(job: IngestionJob) {
+    const cancelled = this.cancelled(job);
+    job.steps.forEach(step => {
+      if (!isFinished(step)) {
+        step.status = 'cancelled';
+        delete step.nextAttemptAt;
+      }
+    });
+
+    job.status = cancelled ? 'cancelled' : job.steps.some(step => step.status === 'failed') ? 'failed' : 'succeeded';
+    job.finishedAt = new Date();
+
+    const total = (field: 'published' | 'drafts' | 'skipped' | 'failed') =>
+      job.steps.reduce((sum, step) => sum + (step.report ? step.report.summary[field] : 0), 0);
+    appendLog(job, job.status === 'succeeded' ? 'info' : 'warn',
+      `Job ${job.status}: ${total('published')} published, ${total('drafts')} drafts, ${total('skipped')} skipped, ${total('failed')} failed`);
+  }
+
+  private withCredentials(source: ResearchSource): ResearchSource {
+    const apiKey = this.options.apiKey?.(source);
+    return apiKey ? { ...source, apiKey } : source;
+  }
+
+  // Drop the oldest finished jobs beyond keepJobs
+  private async prune() {
+    const finished = (await this.list()).filter(job => FINISHED_JOB_STATUSES.indexOf(job.status) !== -1);
+    for (const job of finished.slice(this.options.keepJobs ?? 50)) {
+      await this.store.delete(job.id);
+    }
+  }
+}
+
+function isFinished(step: JobStep): boolean {
+  return step.status === 'succeeded' || step.status === 'failed' || step.status === 'cancelled';
+}
+
+// 'running' only survives in the store when the process stopped mid-step
+function isDue(step: JobStep, now: Date): boolean {
+  if (step.status === 'pending' || step.status === 'running') return true;
+  return step.status === 'retrying' && (!step.nextAttemptAt || step.nextAttemptAt.getTime() <= now.getTime());
+}
+
+function appendLog(job: IngestionJob, level: JobLogEntry['level'], message: string, step?: number) {
+  job.log.push({ at: new Date(), level, message, ...(step !== undefined && { step }) });
+  if (job.log.length > MAX_LOG_ENTRIES) job.log.splice(0, job.log.length - MAX_LOG_ENTRIES);
+}
+
+function withoutSecrets(source: ResearchSource): ResearchSource {
+  const { apiKey, ...rest } = source;
+  return rest;
+}
@@ -0,0 +1,98 @@
+/**
+ * VIB3CODE-0 Ingestion Jobs
+ *
+ * A research ingestion run as a persisted job: one step per research
+ * source, each with its attempts, retry time and ingestion report, plus
+ * the run log. The job queue updates and saves the job as it goes, so the
+ * admin dashboard can follow a run and see what failed after a restart.
+ */
+
+import { IngestionReport, ResearchSource } from './types';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** 'retrying' steps failed and wait for nextAttemptAt */
+export type JobStepStatus = 'pending' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobStep {
+  /** Source configuration; API keys are never stored */
+  source: ResearchSource;
+  status: JobStepStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  /** Error of the last failed attempt */
+  error?: string;
+  /** Report of the last attempt that read the source */
+  report?: IngestionReport;
+}
+
+export interface JobLogEntry {
+  at: Date;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+  /** Index of the step that logged the entry */
+  step?: number;
+}
+
+export interface IngestionJob {
+  id: string;
+  status: JobStatus;
+  /** What started the run, e.g. "scheduled" or "manual" */
+  trigger: string;
+  requestedBy?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  /** Cancellation asked for while a step was running; it stops after that step */
+  cancelRequested?: boolean;
+  steps: JobStep[];
+  log: JobLogEntry[];
+}
+
+export interface JobStore {
+  /** Every job, oldest first */
+  list(): Promise<IngestionJob[]>;
+  get(id: string): Promise<IngestionJob | null>;
+  /** Insert or replace the job with the same id */
+  save(job: IngestionJob): Promise<IngestionJob>;
+  delete(id: string): Promise<void>;
+}
+
+export const FINISHED_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+// In-memory store used in tests and when nothing needs to survive a restart
+export class InMemoryJobStore implements JobStore {
+  protected jobs = new Map<string, IngestionJob>();
+
+  constructor(jobs: IngestionJob[] = []) {
+    jobs.forEach(job => this.jobs.set(job.id, copyJob(job)));
+  }
+
+  async list(): Promise<IngestionJob[]> {
+    return Array.from(this.jobs.values()).map(copyJob);
+  }
+
+  async get(id: string): Promise<IngestionJob | null> {
+    const job = this.jobs.get(id);
+    return job ? copyJob(job) : null;
+  }
+
+  async save(job: IngestionJob): Promise<IngestionJob> {
+    this.jobs.set(job.id, copyJob(job));
+    return copyJob(job);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+}
+
+export function copyJob(job: IngestionJob): IngestionJob {
+  return {
+    ...job,
+    steps: job.steps.map(step => ({ ...step, source: { ...step.source } })),
+    log: job.log.map(entry => ({ ...entry }))
+  };
+}
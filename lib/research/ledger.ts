@@ -0,0 +1,129 @@
+/**
+ * VIB3CODE-0 Ingestion Ledger
+ *
+ * Every research session turned into a post, by session id and content
+ * fingerprint. The daily automation and the ingest route claim a session
+ * before converting it, so re-runs and resent payloads skip what was
+ * already published, and sessions that overlap earlier ones are flagged
+ * for review instead of published.
+ *
+ * A claim is a pending record written in the same step as the duplicate
+ * check, so two requests for one session can't both create a post. It is
+ * completed with the post id or released when the post can't be created;
+ * a claim left behind by a crash stops counting after PENDING_CLAIM_TTL_MS.
+ */
+
+import { SessionFingerprint, fingerprintSession, signatureSimilarity } from './fingerprint';
+import { ResearchSession } from './types';
+
+export interface IngestRecord {
+  sessionId: string;
+  /** SHA-256 of the normalized session text */
+  fingerprint: string;
+  /** MinHash signature for near-duplicate checks */
+  signature: number[];
+  topic: string;
+  /** Research source, e.g. "claude" */
+  source?: string;
+  /** Post created from the session */
+  postId?: string;
+  /** Claimed while its post is being created */
+  pending?: boolean;
+  /** When the post was created, or when a pending claim was made */
+  ingestedAt: Date;
+}
+
+export interface IngestLedger {
+  list(): Promise<IngestRecord[]>;
+  /** Insert or replace the record for the same session id */
+  save(record: IngestRecord): Promise<IngestRecord>;
+  /** checkDuplicate against the ledger, recording a pending claim unless the session is a duplicate */
+  claim(session: ResearchSession): Promise<DuplicateCheck>;
+  /** Drop the pending claim on a session whose post couldn't be created */
+  release(sessionId: string): Promise<void>;
+}
+
+// In-memory ledger used in tests and when nothing needs to survive a restart
+export class InMemoryIngestLedger implements IngestLedger {
+  protected records = new Map<string, IngestRecord>();
+
+  constructor(records: IngestRecord[] = []) {
+    records.forEach(record => this.records.set(record.sessionId, copy(record)));
+  }
+
+  async list(): Promise<IngestRecord[]> {
+    return Array.from(this.records.values()).map(copy);
+  }
+
+  async save(record: IngestRecord): Promise<IngestRecord> {
+    this.records.set(record.sessionId, copy(record));
+    return copy(record);
+  }
+
+  async claim(session: ResearchSession): Promise<DuplicateCheck> {
+    const check = checkDuplicate(session, Array.from(this.records.values()));
+    if (check.status !== 'duplicate') this.records.set(session.id, pendingRecord(session, check.fingerprint));
+    return check;
+  }
+
+  async release(sessionId: string): Promise<void> {
+    if (this.records.get(sessionId)?.pending) this.records.delete(sessionId);
+  }
+}
+
+/** Age after which a pending claim is taken to be left over from a crash */
+export const PENDING_CLAIM_TTL_MS = 10 * 60 * 1000;
+
+/** Estimated overlap at or above which a session counts as a near-duplicate */
+export const NEAR_DUPLICATE_THRESHOLD = 0.6;
+
+export type DuplicateCheck =
+  | { status: 'new'; fingerprint: SessionFingerprint }
+  /** Same session id, or the same text under another id */
+  | { status: 'duplicate'; fingerprint: SessionFingerprint; match: IngestRecord; reason: 'already_ingested' | 'same_content' }
+  | { status: 'near_duplicate'; fingerprint: SessionFingerprint; match: IngestRecord; similarity: number };
+
+/**
+ * How a session relates to the ingested records; the closest overlap wins.
+ * Stale pending claims are ignored.
+ */
+export function checkDuplicate(
+  session: ResearchSession,
+  ingested: IngestRecord[],
+  threshold = NEAR_DUPLICATE_THRESHOLD,
+  now: number = Date.now()
+): DuplicateCheck {
+  const fingerprint = fingerprintSession(session);
+  const records = ingested.filter(record => !record.pending || now - record.ingestedAt.getTime() < PENDING_CLAIM_TTL_MS);
+
+  for (const record of records) {
+    if (record.sessionId === session.id) return { status: 'duplicate', fingerprint, match: record, reason: 'already_ingested' };
+  }
+  for (const record of records) {
+    if (record.fingerprint === fingerprint.hash) return { status: 'duplicate', fingerprint, match: record, reason: 'same_content' };
+  }
+
+  let closest: { match: IngestRecord; similarity: number } | null = null;
+  for (const record of records) {
+    const similarity = signatureSimilarity(fingerprint.signature, record.signature);
+    if (similarity >= threshold && (!closest || similarity > closest.similarity)) closest = { match: record, similarity };
+  }
+  return closest ? { status: 'near_duplicate', fingerprint, ...closest } : { status: 'new', fingerprint };
+}
+
+/** Pending claim on a session, completed with the post id once it exists */
+export function pendingRecord(session: ResearchSession, fingerprint: SessionFingerprint): IngestRecord {
+  return {
+    sessionId: session.id,
+    fingerprint: fingerprint.hash,
+    signature: fingerprint.signature,
+    topic: session.topic,
+    ...(session.metadata?.source && { source: String(session.metadata.source) }),
+    pending: true,
+    ingestedAt: new Date()
+  };
+}
+
+function copy(record: IngestRecord): IngestRecord {
+  return { ...record, signature: [...record.signature], ingestedAt: new Date(record.ingestedAt) };
+}
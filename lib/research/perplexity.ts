@@ -0,0 +1,163 @@
+/**
+ * VIB3CODE-0 Perplexity Thread Parser
+ *
+ * Reads Perplexity threads exported as Markdown ("Export › Markdown"). Each
+ * "# " heading is a question and the text under it the answer. Citations
+ * come as footnotes ("[^1_2]: https://...") in current exports and as a
+ * "Citations:" list ("[2] https://...") in older ones; both are collected
+ * into the session's citations, numbered across the whole thread, and the
+ * markers in the answers are renumbered to match. The export carries no
+ * ids or dates, so a thread's id is a hash of its first question and
+ * answer and its time is the file's modification time.
+ */
+
+import { createHash } from 'crypto';
+import { ExportEntry } from './export-files';
+import {
+  ExportFilter,
+  TranscriptMessage,
+  closeFences,
+  inProjects,
+  renderTranscript,
+  topicFromMessages,
+  withinRange
+} from './transcript';
+import { ResearchCitation, ResearchSession } from './types';
+
+export interface PerplexityThreadOptions {
+  /** Export file name, kept in the session metadata */
+  file?: string;
+  /** When the thread was exported (default: now) */
+  modified?: Date;
+}
+
+const FOOTNOTE = /^\[\^(\d+(?:_\d+)?)\]:\s*(\S+)(?:\s+(.+))?$/;
+const LEGACY_CITATION = /^\[(\d+)\]\s*(\S+)(?:\s+(.+))?$/;
+const CITATIONS_HEADING = /^(?:\*\*)?(?:Citations|Sources):?(?:\*\*)?:?\s*$/i;
+// Logo, footnote separator and other decoration the exporter adds
+const DECORATION = /^\s*(?:<img\s[^>]*class="logo"[^>]*>|<div[^>]*>\s*⁂\s*<\/div>|⁂)\s*$/;
+
+/** Sessions for exported threads that pass the filter, oldest first */
+export function parsePerplexityExport(threads: ExportEntry[], filter: ExportFilter = {}): ResearchSession[] {
+  const sessions: ResearchSession[] = [];
+  for (const thread of threads) {
+    // Exported threads belong to no project, so a project filter excludes them
+    if (!withinRange(thread.modified, thread.modified, filter) || !inProjects(undefined, filter)) continue;
+    const session = parsePerplexityThread(thread.text, { file: thread.path, modified: thread.modified });
+    if (session) sessions.push(session);
+  }
+  return sessions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/** Session for one exported thread, or null when it has no question and answer */
+export function parsePerplexityThread(markdown: string, options: PerplexityThreadOptions = {}): ResearchSession | null {
+  const turns = splitTurns(markdown);
+  if (turns.length === 0) return null;
+
+  const citations: ResearchCitation[] = [];
+  const messages: TranscriptMessage[] = [];
+  turns.forEach(turn => {
+    messages.push({ role: 'user', content: turn.question });
+    const answer = extractCitations(turn.answer, citations);
+    if (answer) messages.push({ role: 'assistant', content: answer });
+  });
+
+  const timestamp = options.modified ?? new Date();
+  const hash = createHash('sha1').update(`${turns[0].question}\n${turns[0].answer}`).digest('hex').slice(0, 16);
+  return {
+    id: `perplexity-${hash}`,
+    timestamp,
+    topic: topicFromMessages(messages),
+    rawContent: renderTranscript(messages, 'Perplexity'),
+    messages,
+    ...(citations.length > 0 && { citations }),
+    metadata: {
+      source: 'perplexity',
+      ...(options.file && { file: options.file }),
+      exportedAt: timestamp.toISOString(),
+      messageCount: messages.length,
+      citationCount: citations.length
+    }
+  };
+}
+
+/** Questions ("# " headings outside code) with the text up to the next question */
+function splitTurns(markdown: string): Array<{ question: string; answer: string }> {
+  const turns: Array<{ question: string; lines: string[] }> = [];
+  let fence: string | null = null;
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const marker = /^\s{0,3}(`{3,}|~{3,})/.exec(line);
+    if (marker) {
+      if (fence === null) fence = marker[1];
+      else if (marker[1].charAt(0) === fence.charAt(0) && marker[1].length >= fence.length) fence = null;
+    }
+    const heading = fence === null && !marker ? /^#\s+(.+?)\s*#*\s*$/.exec(line) : null;
+    if (heading) {
+      turns.push({ question: heading[1], lines: [] });
+    } else if (turns.length > 0 && !DECORATION.test(line)) {
+      turns[turns.length - 1].lines.push(line);
+    }
+  }
+
+  return turns.map(turn => ({
+    question: turn.question,
+    // Threads separate turns with a rule before the next question
+    answer: turn.lines.join('\n').replace(/\n\s*(?:---|\*\*\*|___)\s*$/, '').trim()
+  }));
+}
+
+/**
+ * The answer without its citation list, with markers renumbered to the
+ * thread-wide position of each source. Sources cited again later keep
+ * their first number. Markers inside code are left alone.
+ */
+function extractCitations(answer: string, citations: ResearchCitation[]): string {
+  const numbers: Record<string, number> = {};
+  const kept: string[] = [];
+  let inList = false;
+
+  const cite = (key: string, url: string, title?: string) => {
+    let index = citations.map(citation => citation.url).indexOf(url);
+    if (index === -1) index = citations.push({ url, ...(title && { title: title.trim() }) }) - 1;
+    numbers[key] = index + 1;
+  };
+
+  for (const line of answer.split('\n')) {
+    const footnote = FOOTNOTE.exec(line.trim());
+    if (footnote) {
+      cite(`^${footnote[1]}`, footnote[2], footnote[3]);
+      continue;
+    }
+    if (CITATIONS_HEADING.test(line.trim())) {
+      inList = true;
+      continue;
+    }
+    const legacy = inList ? LEGACY_CITATION.exec(line.trim()) : null;
+    if (legacy) {
+      cite(legacy[1], legacy[2], legacy[3]);
+      continue;
+    }
+    if (inList && !line.trim()) continue;
+    inList = false;
+    kept.push(line);
+  }
+
+  let fence: string | null = null;
+  const renumbered = kept.map(line => {
+    const marker = /^\s{0,3}(`{3,}|~{3,})/.exec(line);
+    if (marker) {
+      if (fence === null) fence = marker[1];
+      else if (marker[1].charAt(0) === fence.charAt(0) && marker[1].length >= fence.length) fence = null;
+      return line;
+    }
+    if (fence !== null) return line;
+    // Even segments are outside inline code spans
+    return line.split('`').map((segment, index) => index % 2 === 1 ? segment : segment.replace(
+      /\[(\^?\d+(?:_\d+)?)\](?![(:])/g,
+      (match, key: string) => numbers.hasOwnProperty(key) ? `[${numbers[key]}]` : key.charAt(0) === '^' ? '' : match
+    )).join('`');
+  });
+
+  return closeFences(renumbered.join('\n').replace(/\n{3,}/g, '\n\n').trim());
+}
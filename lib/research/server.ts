@@ -0,0 +1,30 @@
+/**
+ * VIB3CODE-0 Server Research
+ *
+ * Server-side research state: the ledger of ingested sessions in
+ * DATA_DIR/research-ledger.json, which the routes and the job queue hand
+ * to AIResearchAutomation, and the ingestion job queue with its jobs in
+ * DATA_DIR/research-jobs.json. instrumentation.ts starts the queue's
+ * worker at boot unless RESEARCH_JOBS=off; RESEARCH_API_KEY is added to
+ * API sources at run time rather than stored with the job.
+ */
+
+import path from 'path';
+import { AIResearchAutomation } from '../ai-research-automation';
+import { DATA_DIRECTORY, serverContentAPI } from '../content/server';
+import { processSingleton } from '../storage/process-singleton';
+import { FileIngestLedger } from './file-ingest-ledger';
+import { FileJobStore } from './file-job-store';
+import { ResearchJobQueue } from './job-queue';
+
+// One ledger per process: copies would each rewrite the file and drop the other's records
+export const researchLedger = processSingleton('research-ledger', () => new FileIngestLedger(path.join(DATA_DIRECTORY, 'research-ledger.json')));
+
+// One queue per process, so jobs the routes enqueue reach the worker instrumentation.ts starts
+export const researchJobs = processSingleton('research-jobs', () => new ResearchJobQueue(
+  new FileJobStore(path.join(DATA_DIRECTORY, 'research-jobs.json')),
+  {
+    run: (source, log) => new AIResearchAutomation([source], serverContentAPI, researchLedger).runSource(source, log),
+    apiKey: source => (source.type === 'api' ? process.env.RESEARCH_API_KEY : undefined)
+  }
+));
@@ -0,0 +1,42 @@
+/**
+ * VIB3CODE-0 Configured Research Sources
+ *
+ * The research sources the environment turns on: CLAUDE_EXPORT_PATH (with
+ * CLAUDE_EXPORT_PROJECTS), CHATGPT_EXPORT_PATH, GEMINI_TAKEOUT_PATH,
+ * PERPLEXITY_EXPORT_PATH and RESEARCH_API_ENDPOINT. Exports are read for
+ * the day before `now`. API keys are left out; whoever runs a source adds
+ * RESEARCH_API_KEY, so it is never stored with a job.
+ */
+
+import { ResearchSource } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function configuredSources(env: Record<string, string | undefined> = process.env, now: Date = new Date()): ResearchSource[] {
+  const since = new Date(now.getTime() - DAY_MS);
+  const sources: ResearchSource[] = [];
+
+  if (env.CLAUDE_EXPORT_PATH) {
+    sources.push({
+      type: 'claude',
+      filePath: env.CLAUDE_EXPORT_PATH,
+      since,
+      projects: env.CLAUDE_EXPORT_PROJECTS
+        ? env.CLAUDE_EXPORT_PROJECTS.split(',').map(project => project.trim()).filter(Boolean)
+        : undefined
+    });
+  }
+  if (env.CHATGPT_EXPORT_PATH) {
+    sources.push({ type: 'chatgpt', filePath: env.CHATGPT_EXPORT_PATH, since });
+  }
+  if (env.GEMINI_TAKEOUT_PATH) {
+    sources.push({ type: 'gemini', filePath: env.GEMINI_TAKEOUT_PATH, since });
+  }
+  if (env.PERPLEXITY_EXPORT_PATH) {
+    sources.push({ type: 'perplexity', filePath: env.PERPLEXITY_EXPORT_PATH, since });
+  }
+  if (env.RESEARCH_API_ENDPOINT) {
+    sources.push({ type: 'api', endpoint: env.RESEARCH_API_ENDPOINT });
+  }
+  return sources;
+}
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the ChatGPT export parser
+ */
+
+import { ChatGPTConversation, ChatGPTNode, parseChatGPTExport } from '../chatgpt';
+import { ExportFormatError } from '../export-files';
+
+const node = (
+  id: string,
+  parent: string | null,
+  children: string[],
+  role: 'system' | 'user' | 'assistant' | 'tool' | null,
+  content: Partial<NonNullable<ChatGPTNode['message']>> = {}
+): ChatGPTNode => ({
+  id,
+  parent,
+  children,
+  message: role && {
+    id,
+    author: { role },
+    create_time: 1725271200 + children.length,
+    content: { content_type: 'text', parts: [] },
+    recipient: 'all',
+    ...content
+  }
+});
+
+const text = (...parts: Array<string | { content_type?: string; text?: string }>) => ({ content: { content_type: 'text', parts } });
+
+// root -> system -> question -> (later branch | current answer -> follow-up with a tool round trip)
+const conversation: ChatGPTConversation = {
+  conversation_id: 'conv-entropy',
+  title: 'Entropy of shuffled decks',
+  create_time: 1725271200.5,
+  update_time: 1725274800,
+  default_model_slug: 'gpt-4o',
+  current_node: 'a5',
+  mapping: {
+    root: node('root', null, ['sys'], null),
+    sys: node('sys', 'root', ['u1'], 'system', { ...text('You are ChatGPT.'), metadata: { is_visually_hidden_from_conversation: true } }),
+    u1: node('u1', 'sys', ['a1', 'a2'], 'user', { ...text('How many bits in a shuffled deck?'), create_time: 1725271260 }),
+    a1: node('a1', 'u1', [], 'assistant', { ...text('Answer on another branch.'), create_time: 1725279000 }),
+    a2: node('a2', 'u1', ['u2'], 'assistant', { ...text('About 225.6 bits:', '```\nlog2(52!)\n```'), create_time: 1725271320 }),
+    u2: node('u2', 'a2', ['a3'], 'user', { content: { content_type: 'multimodal_text', parts: [{ content_type: 'image_asset_pointer' }, 'Check it in Python?'] }, create_time: 1725271380 }),
+    a3: node('a3', 'u2', ['t1'], 'assistant', { content: { content_type: 'code', language: 'unknown', text: 'import math\nmath.log2(math.factorial(52))' }, recipient: 'python', create_time: 1725271440 }),
+    t1: node('t1', 'a3', ['a4'], 'tool', { content: { content_type: 'execution_output', text: '225.58' } }),
+    a4: node('a4', 't1', ['a5'], 'assistant', { content: { content_type: 'text', parts: ['Confirmed: 225.58 bits.'] } }),
+    a5: node('a5', 'a4', [], 'assistant', { content: { content_type: 'thoughts' } })
+  }
+};
+
+describe('parseChatGPTExport', () => {
+  it('follows the current branch and drops system and tool messages', () => {
+    const [session] = parseChatGPTExport(JSON.stringify([conversation]));
+
+    expect(session.id).toBe('chatgpt-conv-entropy');
+    expect(session.topic).toBe('Entropy of shuffled decks');
+    expect(session.timestamp).toEqual(new Date(1725271200500));
+    expect(session.messages).toEqual([
+      { role: 'user', content: 'How many bits in a shuffled deck?', timestamp: new Date(1725271260000) },
+      { role: 'assistant', content: 'About 225.6 bits:\n\n```\nlog2(52!)\n```', timestamp: new Date(1725271320000) },
+      { role: 'user', content: '📎 image\n\nCheck it in Python?', timestamp: new Date(1725271380000) },
+      {
+        role: 'assistant',
+        content: '```\nimport math\nmath.log2(math.factorial(52))\n```\n\nConfirmed: 225.58 bits.',
+        timestamp: new Date(1725271440000)
+      }
+    ]);
+    expect(session.rawContent).toContain('**ChatGPT:**\n\nAbout 225.6 bits');
+    expect(session.metadata).toMatchObject({ source: 'chatgpt', conversationId: 'conv-entropy', model: 'gpt-4o', messageCount: 4 });
+  });
+
+  it('falls back to the latest leaf and the first question for untitled chats', () => {
+    const [session] = parseChatGPTExport([{ ...conversation, title: 'New chat', current_node: undefined }]);
+
+    expect(session.topic).toBe('How many bits in a shuffled deck?');
+    expect(session.messages!.map(message => message.content)).toEqual([
+      'How many bits in a shuffled deck?',
+      'Answer on another branch.'
+    ]);
+  });
+
+  it('filters by date range and project', () => {
+    const inProject = { ...conversation, conversation_id: 'conv-project', gizmo_id: 'g-p-lattice', create_time: 1725357600, update_time: 1725361200 };
+    const ids = (options: Parameters<typeof parseChatGPTExport>[1]) =>
+      parseChatGPTExport([inProject, conversation], options).map(session => session.id);
+
+    expect(ids({})).toEqual(['chatgpt-conv-entropy', 'chatgpt-conv-project']);
+    expect(ids({ since: new Date('2024-09-02T12:00:00Z') })).toEqual(['chatgpt-conv-project']);
+    expect(ids({ projects: ['g-p-lattice'] })).toEqual(['chatgpt-conv-project']);
+  });
+
+  it('skips conversations without visible messages and rejects other files', () => {
+    const hidden = { ...conversation, current_node: 'sys' };
+    expect(parseChatGPTExport([hidden, { title: 'no mapping' }])).toEqual([]);
+    expect(() => parseChatGPTExport({ mapping: {} })).toThrow(ExportFormatError);
+  });
+});
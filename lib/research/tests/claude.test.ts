@@ -0,0 +1,209 @@
+/**
+ * Unit tests for the Claude export parser and export archive reading
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { AIResearchAutomation } from '../../ai-research-automation';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { ClaudeConversation, parseClaudeExport } from '../claude';
+import { ExportFormatError, readExportFiles, unzip } from '../export-files';
+import { InMemoryIngestLedger } from '../ledger';
+import { closeFences } from '../transcript';
+
+const conversations: ClaudeConversation[] = [
+  {
+    uuid: 'c-shaders',
+    name: 'Raymarching the 120-cell',
+    created_at: '2024-09-02T10:00:00.000000Z',
+    updated_at: '2024-09-02T11:30:00.000000Z',
+    project_uuid: 'p-lattice',
+    chat_messages: [
+      {
+        uuid: 'm1',
+        sender: 'human',
+        text: '',
+        content: [{ type: 'text', text: 'Why does my SDF band at the poles?' }],
+        created_at: '2024-09-02T10:00:00.000000Z',
+        attachments: [{ file_name: 'scene.frag', extracted_content: 'float sdf(vec4 p) {\n  return length(p) - 1.0;\n}\n' }],
+        files: [{ file_name: 'banding.png' }]
+      },
+      {
+        uuid: 'm2',
+        sender: 'assistant',
+        text: '',
+        content: [
+          { type: 'text', text: 'Step size is too large near the poles:\n\n```glsl\nt += d * 0.5;' },
+          { type: 'tool_use', name: 'artifacts', input: { title: 'Fixed march', type: 'application/vnd.ant.code', language: 'glsl', content: 'for (int i = 0; i < 64; i++) {}' } },
+          { type: 'tool_result', text: 'ok' }
+        ],
+        created_at: '2024-09-02T10:01:00.000000Z'
+      }
+    ]
+  },
+  {
+    uuid: 'c-untitled',
+    name: '',
+    created_at: '2024-08-20T09:00:00Z',
+    updated_at: '2024-09-01T09:00:00Z',
+    chat_messages: [
+      { uuid: 'm3', sender: 'human', text: 'Entropy of a shuffled deck\nand more', created_at: '2024-08-20T09:00:00Z' },
+      { uuid: 'm4', sender: 'assistant', text: 'log2(52!) ≈ 225.6 bits.', created_at: '2024-08-20T09:00:05Z' }
+    ]
+  },
+  { uuid: 'c-empty', name: 'Nothing yet', created_at: '2024-09-03T09:00:00Z', chat_messages: [] }
+];
+
+const projects = JSON.stringify([{ uuid: 'p-lattice', name: 'Lattice Lab' }]);
+
+/** A zip archive with stored (uncompressed) or deflated entries */
+const zip = (files: Record<string, string>, deflate = true): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const name of Object.keys(files)) {
+    const raw = Buffer.from(files[name], 'utf8');
+    const data = deflate ? zlib.deflateRawSync(raw) : raw;
+    const nameBytes = Buffer.from(name, 'utf8');
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat(locals.concat([directory, end]));
+};
+
+describe('parseClaudeExport', () => {
+  it('emits one session per conversation with ids from the conversation uuid', () => {
+    const sessions = parseClaudeExport(JSON.stringify(conversations), { projectIndex: projects });
+
+    expect(sessions.map(session => [session.id, session.topic])).toEqual([
+      ['claude-c-untitled', 'Entropy of a shuffled deck'],
+      ['claude-c-shaders', 'Raymarching the 120-cell']
+    ]);
+    expect(parseClaudeExport(conversations).map(session => session.id)).toEqual(sessions.map(session => session.id));
+
+    const [, shaders] = sessions;
+    expect(shaders.timestamp).toEqual(new Date('2024-09-02T10:00:00Z'));
+    expect(shaders.messages!.map(message => [message.role, message.timestamp])).toEqual([
+      ['user', new Date('2024-09-02T10:00:00Z')],
+      ['assistant', new Date('2024-09-02T10:01:00Z')]
+    ]);
+    expect(shaders.metadata).toEqual({
+      source: 'claude',
+      conversationId: 'c-shaders',
+      createdAt: '2024-09-02T10:00:00.000Z',
+      updatedAt: '2024-09-02T11:30:00.000Z',
+      messageCount: 2,
+      project: { id: 'p-lattice', name: 'Lattice Lab' },
+      attachments: ['scene.frag', 'banding.png']
+    });
+  });
+
+  it('keeps code blocks, renders artifacts and attachments, and closes cut-off fences', () => {
+    const [, shaders] = parseClaudeExport(conversations);
+
+    expect(shaders.messages![0].content).toBe([
+      'Why does my SDF band at the poles?',
+      '📎 **scene.frag**\n\n```glsl\nfloat sdf(vec4 p) {\n  return length(p) - 1.0;\n}\n```',
+      '📎 banding.png'
+    ].join('\n\n'));
+    expect(shaders.messages![1].content).toBe([
+      'Step size is too large near the poles:\n\n```glsl\nt += d * 0.5;\n```',
+      '**Fixed march**\n\n```glsl\nfor (int i = 0; i < 64; i++) {}\n```'
+    ].join('\n\n'));
+    expect(shaders.rawContent).toMatch(/^\*\*You:\*\*\n\nWhy does my SDF[\s\S]*---\n\n\*\*Claude:\*\*\n\nStep size/);
+  });
+
+  it('filters by date range and project', () => {
+    const ids = (options: Parameters<typeof parseClaudeExport>[1]) =>
+      parseClaudeExport(conversations, { projectIndex: projects, ...options }).map(session => session.id);
+
+    // A conversation counts while it is active, not just on the day it started
+    expect(ids({ since: new Date('2024-09-01T00:00:00Z') })).toEqual(['claude-c-untitled', 'claude-c-shaders']);
+    expect(ids({ since: new Date('2024-09-02T00:00:00Z') })).toEqual(['claude-c-shaders']);
+    expect(ids({ until: new Date('2024-08-31T00:00:00Z') })).toEqual(['claude-c-untitled']);
+    expect(ids({ projects: ['lattice lab'] })).toEqual(['claude-c-shaders']);
+    expect(ids({ projects: ['p-lattice'], until: new Date('2024-09-01T00:00:00Z') })).toEqual([]);
+  });
+
+  it('cuts long attachments and rejects files that are not an export', () => {
+    const [session] = parseClaudeExport([{
+      uuid: 'c-long',
+      created_at: '2024-09-02T10:00:00Z',
+      chat_messages: [{ uuid: 'm', sender: 'human', text: 'Summarize', created_at: '2024-09-02T10:00:00Z', attachments: [{ file_name: 'paper.txt', extracted_content: 'x'.repeat(50) }] }]
+    }], { maxAttachmentChars: 10 });
+    expect(session.messages![0].content).toContain('xxxxxxxxxx\n… (40 more characters)\n```');
+
+    expect(() => parseClaudeExport('{"uuid": "x"}')).toThrow(ExportFormatError);
+    expect(() => parseClaudeExport('not json')).toThrow('conversations.json is not valid JSON');
+  });
+});
+
+describe('closeFences', () => {
+  it('leaves balanced text alone', () => {
+    expect(closeFences('```ts\nx\n```\n\n~~~\ny\n~~~')).toBe('```ts\nx\n```\n\n~~~\ny\n~~~');
+    expect(closeFences('````md\n```\n')).toBe('````md\n```\n````');
+  });
+});
+
+describe('readExportFiles', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-export-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads wanted files from a zip archive, a folder or a single file', async () => {
+    const archive = path.join(directory, 'export.zip');
+    fs.writeFileSync(archive, zip({ 'data/conversations.json': '[]', 'data/users.json': '{}' }));
+    expect(await readExportFiles(archive, ['conversations.json', 'projects.json'])).toEqual({ 'conversations.json': '[]' });
+
+    fs.writeFileSync(path.join(directory, 'conversations.json'), '[1]');
+    expect(await readExportFiles(directory, ['conversations.json'])).toEqual({ 'conversations.json': '[1]' });
+    expect(await readExportFiles(path.join(directory, 'conversations.json'), ['conversations.json'])).toEqual({ 'conversations.json': '[1]' });
+
+    await expect(readExportFiles(path.join(directory, 'missing.zip'), [])).rejects.toBeInstanceOf(ExportFormatError);
+  });
+
+  it('unzips stored entries and rejects other files', () => {
+    expect(Array.from(unzip(zip({ 'a/b.txt': 'deep', 'b.txt': 'top' }, false)).keys())).toEqual(['b.txt', 'a/b.txt']);
+    expect(() => unzip(Buffer.from('plain text, not a zip archive'))).toThrow('Not a zip archive');
+  });
+
+  it('feeds the daily automation from a Claude source', async () => {
+    const archive = path.join(directory, 'claude.zip');
+    fs.writeFileSync(archive, zip({ 'conversations.json': JSON.stringify(conversations), 'projects.json': projects }));
+    const automation = new AIResearchAutomation([
+      { type: 'claude', filePath: archive, projects: ['Lattice Lab'] }
+    ], new ContentAPI(new MDXContentProvider([])), new InMemoryIngestLedger());
+
+    const sessions = await automation.ingestDailyResearch();
+    expect(sessions.map(session => session.id)).toEqual(['claude-c-shaders']);
+  });
+});
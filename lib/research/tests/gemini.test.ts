@@ -0,0 +1,62 @@
+/**
+ * Unit tests for the Gemini Takeout parser, against an exported fixture
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AIResearchAutomation } from '../../ai-research-automation';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { ExportFormatError } from '../export-files';
+import { parseGeminiActivity } from '../gemini';
+import { InMemoryIngestLedger } from '../ledger';
+
+const takeout = path.join(__dirname, 'fixtures', 'takeout');
+const activity = fs.readFileSync(path.join(takeout, 'Takeout', 'My Activity', 'Gemini Apps', 'MyActivity.json'), 'utf8');
+
+describe('parseGeminiActivity', () => {
+  it('groups prompts close in time into sessions, oldest first', () => {
+    const sessions = parseGeminiActivity(activity);
+
+    expect(sessions.map(session => [session.id, session.topic])).toEqual([
+      [`gemini-${Date.parse('2024-08-30T08:00:00Z')}`, "Summarize Shannon's source coding theorem"],
+      [`gemini-${Date.parse('2024-09-02T10:00:00Z')}`, 'What is domain folding in signed distance fields?']
+    ]);
+    expect(sessions[1].metadata).toEqual({
+      source: 'gemini',
+      createdAt: '2024-09-02T10:00:00.000Z',
+      updatedAt: '2024-09-02T10:20:00.000Z',
+      messageCount: 4,
+      prompts: 2,
+      attachments: ['kifs-notes.pdf']
+    });
+  });
+
+  it('turns prompts and HTML responses into Markdown messages with their timestamps', () => {
+    const [, folding] = parseGeminiActivity(activity);
+
+    expect(folding.messages).toEqual([
+      { role: 'user', content: 'What is domain folding in signed distance fields?\n\n📎 kifs-notes.pdf', timestamp: new Date('2024-09-02T10:00:00Z') },
+      {
+        role: 'assistant',
+        content: '**Domain folding** mirrors space so one primitive repeats:\n\n- cheap symmetry\n- fractal detail with few steps',
+        timestamp: new Date('2024-09-02T10:00:00Z')
+      },
+      { role: 'user', content: 'Show the same idea as a GLSL snippet', timestamp: new Date('2024-09-02T10:20:00Z') },
+      { role: 'assistant', content: 'Fold the coordinate before measuring:\n\n```glsl\np = abs(p) - 0.5;\n```', timestamp: new Date('2024-09-02T10:20:00Z') }
+    ]);
+    expect(folding.rawContent).toContain('**Gemini:**\n\nFold the coordinate');
+  });
+
+  it('applies the session gap and the date range', () => {
+    expect(parseGeminiActivity(activity, { sessionGapMinutes: 10 })).toHaveLength(3);
+    expect(parseGeminiActivity(activity, { since: new Date('2024-09-01T00:00:00Z') }).map(session => session.metadata!.prompts)).toEqual([2]);
+    expect(parseGeminiActivity(activity, { projects: ['Lattice Lab'] })).toEqual([]);
+    expect(() => parseGeminiActivity('{}')).toThrow(ExportFormatError);
+  });
+
+  it('finds the activity file inside an unpacked Takeout folder', async () => {
+    const automation = new AIResearchAutomation([{ type: 'gemini', filePath: takeout }], new ContentAPI(new MDXContentProvider([])),
+      new InMemoryIngestLedger());
+    expect((await automation.ingestDailyResearch()).map(session => session.metadata!.prompts)).toEqual([1, 2]);
+  });
+});
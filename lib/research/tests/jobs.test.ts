@@ -0,0 +1,227 @@
+/**
+ * Unit tests for the research ingestion job queue: steps, retries,
+ * cancellation and persistence
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IngestionReport, ResearchSource } from '../types';
+import { FileJobStore } from '../file-job-store';
+import { ResearchJobQueue, StepRunner } from '../job-queue';
+import { InMemoryJobStore } from '../jobs';
+
+const CLAUDE: ResearchSource = { type: 'claude', filePath: '/exports/claude.zip', since: new Date('2024-09-01T09:00:00Z') };
+const GEMINI: ResearchSource = { type: 'gemini', filePath: '/exports/takeout.zip' };
+
+const report = (published: number, failed = 0): IngestionReport => ({
+  items: [],
+  summary: { sessions: published + failed, published, scheduled: 0, drafts: 0, skipped: 0, failed, nearDuplicates: 0 }
+});
+
+const later = (minutes: number) => new Date(Date.now() + minutes * 60000);
+
+describe('ResearchJobQueue', () => {
+  it('runs one step per source and logs the run', async () => {
+    const run: StepRunner = async (source, log) => {
+      log('info', `Read ${source.filePath}`);
+      return report(source.type === 'claude' ? 2 : 1);
+    };
+    const queue = new ResearchJobQueue(new InMemoryJobStore(), { run });
+
+    const job = await queue.enqueue([CLAUDE, GEMINI], { trigger: 'scheduled', requestedBy: 'editor@example.com' });
+    expect(job).toMatchObject({ status: 'queued', trigger: 'scheduled', steps: [{ status: 'pending', attempts: 0 }, { status: 'pending' }] });
+
+    await queue.runDue();
+    const done = (await queue.get(job.id))!;
+    expect(done.status).toBe('succeeded');
+    expect(done.steps.map(step => [step.status, step.attempts, step.report!.summary.published])).toEqual([
+      ['succeeded', 1, 2],
+      ['succeeded', 1, 1]
+    ]);
+    expect(done.log.filter(entry => entry.step === 1).map(entry => entry.message)).toContain('Read /exports/takeout.zip');
+    expect(done.log[done.log.length - 1].message).toBe('Job succeeded: 3 published, 0 drafts, 0 skipped, 0 failed');
+  });
+
+  it('retries failed steps with exponential backoff, then gives up', async () => {
+    const attempts: string[] = [];
+    const run: StepRunner = async source => {
+      attempts.push(source.type);
+      if (source.type === 'gemini') throw new Error('No Gemini Apps/MyActivity.json in the Takeout export');
+      return report(1);
+    };
+    const queue = new ResearchJobQueue(new InMemoryJobStore(), { run, maxAttempts: 3, retryDelayMs: 60000, maxRetryDelayMs: 90000 });
+    expect([1, 2, 3].map(attempt => queue.retryDelay(attempt))).toEqual([60000, 90000, 90000]);
+
+    const job = await queue.enqueue([CLAUDE, GEMINI]);
+    await queue.runDue();
+    let current = (await queue.get(job.id))!;
+    expect(current.status).toBe('running');
+    expect(current.steps[1]).toMatchObject({ status: 'retrying', attempts: 1, error: 'No Gemini Apps/MyActivity.json in the Takeout export' });
+    expect(current.steps[1].nextAttemptAt!.getTime() - current.steps[1].finishedAt!.getTime()).toBe(60000);
+
+    // Not due yet
+    expect(await queue.runDue()).toEqual([]);
+
+    await queue.runDue(later(2));
+    await queue.runDue(later(4));
+    current = (await queue.get(job.id))!;
+    expect(attempts).toEqual(['claude', 'gemini', 'gemini', 'gemini']);
+    expect(current.status).toBe('failed');
+    expect(current.steps.map(step => step.status)).toEqual(['succeeded', 'failed']);
+    expect(current.log.map(entry => entry.message)).toContain('Gave up on gemini after 3 attempt(s)');
+  });
+
+  it('reports sessions that failed to publish without retrying the step', async () => {
+    let calls = 0;
+    const queue = new ResearchJobQueue(new InMemoryJobStore(), {
+      run: async () => {
+        calls++;
+        return report(1, 1);
+      }
+    });
+
+    const job = await queue.enqueue([CLAUDE]);
+    await queue.runDue();
+    await queue.runDue(later(2));
+
+    const done = (await queue.get(job.id))!;
+    expect(calls).toBe(1);
+    expect(done.status).toBe('succeeded');
+    expect(done.steps[0]).toMatchObject({ status: 'succeeded', attempts: 1 });
+    expect(done.steps[0].error).toBeUndefined();
+    expect(done.log.map(entry => entry.message)).toContain('1 session(s) of claude failed to publish');
+    expect(done.log[done.log.length - 1].message).toBe('Job succeeded: 1 published, 0 drafts, 0 skipped, 1 failed');
+  });
+
+  it('cancels queued jobs at once and running jobs after the current step', async () => {
+    let release: () => void = () => undefined;
+    const started: string[] = [];
+    const run: StepRunner = source => {
+      started.push(source.type);
+      return new Promise(resolve => {
+        release = () => resolve(report(1));
+      });
+    };
+    const queue = new ResearchJobQueue(new InMemoryJobStore(), { run });
+
+    const running = await queue.enqueue([CLAUDE, GEMINI]);
+    const waiting = await queue.enqueue([GEMINI]);
+    const run1 = queue.runDue();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(started).toEqual(['claude']);
+
+    expect(await queue.cancel(waiting.id, 'editor@example.com')).toMatchObject({ status: 'cancelled', steps: [{ status: 'cancelled' }] });
+    expect(await queue.cancel(running.id)).toMatchObject({ status: 'running', cancelRequested: true });
+
+    release();
+    await run1;
+    const cancelled = (await queue.get(running.id))!;
+    expect(started).toEqual(['claude']);
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.steps.map(step => step.status)).toEqual(['succeeded', 'cancelled']);
+    await expect(queue.cancel(running.id)).rejects.toMatchObject({ code: 'conflict' });
+    await expect(queue.cancel('missing')).rejects.toMatchObject({ code: 'not_found' });
+  });
+
+  it('keeps API keys out of stored jobs and supplies them at run time', async () => {
+    const keys: Array<string | undefined> = [];
+    const store = new InMemoryJobStore();
+    const queue = new ResearchJobQueue(store, {
+      run: async source => {
+        keys.push(source.apiKey);
+        return report(0);
+      },
+      apiKey: () => 'secret'
+    });
+
+    const job = await queue.enqueue([{ type: 'api', endpoint: 'https://research.example/daily', apiKey: 'secret' }]);
+    await queue.runDue();
+
+    expect(keys).toEqual(['secret']);
+    expect((await store.get(job.id))!.steps[0].source).toEqual({ type: 'api', endpoint: 'https://research.example/daily' });
+  });
+});
+
+describe('FileJobStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'research-jobs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('persists jobs and resumes a step interrupted by a restart', async () => {
+    const file = path.join(directory, 'research-jobs.json');
+    const interrupted = new ResearchJobQueue(new FileJobStore(file), { run: () => new Promise<IngestionReport>(() => undefined) });
+    const job = await interrupted.enqueue([CLAUDE]);
+    interrupted.runDue();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const store = new FileJobStore(file);
+    const saved = (await store.get(job.id))!;
+    expect(saved.steps[0]).toMatchObject({ status: 'running', attempts: 1 });
+    expect(saved.createdAt).toBeInstanceOf(Date);
+    expect(saved.steps[0].source.since).toEqual(CLAUDE.since);
+
+    const restarted = new ResearchJobQueue(store, { run: async () => report(1) });
+    await restarted.runDue();
+    expect(await new FileJobStore(file).get(job.id)).toMatchObject({ status: 'succeeded', steps: [{ status: 'succeeded', attempts: 2 }] });
+  });
+
+  it('keeps only the newest finished jobs', async () => {
+    const queue = new ResearchJobQueue(new FileJobStore(path.join(directory, 'research-jobs.json')), { run: async () => report(0), keepJobs: 1 });
+
+    const first = await queue.enqueue([], {}, new Date('2024-09-01T09:00:00Z'));
+    await queue.runDue();
+    const second = await queue.enqueue([], {}, new Date('2024-09-02T09:00:00Z'));
+    await queue.runDue();
+    await queue.enqueue([], {}, new Date('2024-09-03T09:00:00Z'));
+
+    expect((await queue.list()).map(job => job.id)).toEqual([expect.any(String), second.id]);
+    expect(await queue.get(first.id)).toBeNull();
+  });
+});
+
+describe('server research instances', () => {
+  beforeAll(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'vib3-jobs-'));
+    process.env.CONTENT_DIR = path.join(process.env.DATA_DIR, 'missing');
+  });
+
+  afterAll(() => {
+    fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true });
+  });
+
+  it('runs jobs the routes enqueue on the worker started at boot', async () => {
+    // Next evaluates lib/research/server once for instrumentation and once for the routes
+    let boot!: typeof import('../server');
+    let routes!: typeof import('../server');
+    jest.isolateModules(() => { boot = require('../server'); });
+    jest.isolateModules(() => { routes = require('../server'); });
+
+    const job = await routes.researchJobs.enqueue([{ type: 'file' }]);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await boot.researchJobs.runDue();
+    jest.restoreAllMocks();
+
+    expect((await routes.researchJobs.get(job.id))!.status).toBe('succeeded');
+  });
+
+  it('keeps ledger records claimed through either copy', async () => {
+    let boot!: typeof import('../server');
+    let routes!: typeof import('../server');
+    jest.isolateModules(() => { boot = require('../server'); });
+    jest.isolateModules(() => { routes = require('../server'); });
+    const session = (id: string, rawContent: string) => ({ id, timestamp: new Date('2024-09-02T10:00:00Z'), topic: 'Notes', rawContent });
+
+    await routes.researchLedger.claim(session('claude-1', 'Raymarching step sizes near thin features'));
+    await boot.researchLedger.claim(session('claude-2', 'Neural distance fields and their Lipschitz bounds'));
+
+    expect((await boot.researchLedger.claim(session('claude-1', 'Raymarching step sizes near thin features'))).status).toBe('duplicate');
+    expect((await routes.researchLedger.list()).map(record => record.sessionId)).toEqual(['claude-1', 'claude-2']);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for research fingerprints, the ingestion ledger and idempotent daily runs
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AIResearchAutomation } from '../../ai-research-automation';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { ClaudeConversation } from '../claude';
+import { FileIngestLedger } from '../file-ingest-ledger';
+import { fingerprintSession, signatureSimilarity } from '../fingerprint';
+import { InMemoryIngestLedger, PENDING_CLAIM_TTL_MS, checkDuplicate } from '../ledger';
+import { ResearchSession } from '../types';
+
+const QUESTION = 'How should a raymarcher choose its step size when the distance field is only a bound and not exact near thin features?';
+const ANSWER = [
+  'Scale each step by a relaxation factor below one, then fall back to the plain distance when a step overshoots.',
+  'Thin features need a minimum step and a hit threshold that grows with distance so the ray neither tunnels through nor stalls.',
+  'Cone marching over a low resolution pass gives a safe starting depth for every pixel and halves the total step count.'
+].join(' ');
+const FOLLOW_UP = 'What changes when the field comes from a neural network instead of an analytic formula?';
+
+const session = (id: string, messages: string[]): ResearchSession => ({
+  id,
+  timestamp: new Date('2024-09-02T10:00:00Z'),
+  topic: 'Raymarching step sizes',
+  rawContent: messages.join('\n\n'),
+  messages: messages.map((content, index) => ({ role: index % 2 === 0 ? 'user' : 'assistant', content }))
+});
+
+const conversation = (uuid: string, texts: string[]): ClaudeConversation => ({
+  uuid,
+  name: 'Raymarching step sizes',
+  created_at: '2024-09-02T10:00:00Z',
+  chat_messages: texts.map((text, index) => ({
+    uuid: `${uuid}-${index}`,
+    sender: index % 2 === 0 ? 'human' : 'assistant',
+    text,
+    created_at: '2024-09-02T10:00:00Z'
+  }))
+});
+
+describe('fingerprintSession', () => {
+  it('ignores case, whitespace and formatting but not wording', () => {
+    const a = fingerprintSession(session('a', [QUESTION, ANSWER]));
+    const b = fingerprintSession(session('b', [QUESTION.toUpperCase(), `**${ANSWER.replace(/ /g, '\n  ')}**`]));
+    const c = fingerprintSession(session('c', [QUESTION, ANSWER.replace('below one', 'above one')]));
+
+    expect(b.hash).toBe(a.hash);
+    expect(c.hash).not.toBe(a.hash);
+    expect(a.signature).toHaveLength(64);
+  });
+
+  it('estimates the overlap of related transcripts', () => {
+    const original = fingerprintSession(session('a', [QUESTION, ANSWER])).signature;
+    const continued = fingerprintSession(session('b', [QUESTION, ANSWER, FOLLOW_UP])).signature;
+    const unrelated = fingerprintSession(session('c', ['Summarize the history of the printing press in Europe.', 'Movable type spread from Mainz after 1450.'])).signature;
+
+    expect(signatureSimilarity(original, original)).toBe(1);
+    expect(signatureSimilarity(original, continued)).toBeGreaterThan(0.6);
+    expect(signatureSimilarity(original, unrelated)).toBeLessThan(0.1);
+  });
+});
+
+describe('checkDuplicate', () => {
+  it('matches by session id, then content, then overlap', async () => {
+    const ledger = new InMemoryIngestLedger();
+    const first = session('claude-1', [QUESTION, ANSWER]);
+    const { hash, signature } = fingerprintSession(first);
+    await ledger.save({ sessionId: 'claude-1', fingerprint: hash, signature, topic: first.topic, postId: 'p1', ingestedAt: new Date() });
+    const records = await ledger.list();
+
+    expect(checkDuplicate(first, records)).toMatchObject({ status: 'duplicate', reason: 'already_ingested' });
+    expect(checkDuplicate(session('chatgpt-9', [QUESTION, ANSWER]), records)).toMatchObject({ status: 'duplicate', reason: 'same_content', match: { postId: 'p1' } });
+    expect(checkDuplicate(session('claude-2', [QUESTION, ANSWER, FOLLOW_UP]), records)).toMatchObject({ status: 'near_duplicate', match: { sessionId: 'claude-1' } });
+    expect(checkDuplicate(session('claude-3', [FOLLOW_UP]), records).status).toBe('new');
+  });
+});
+
+describe('ledger claims', () => {
+  it('lets only one of two concurrent claims on a session through', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-claims-'));
+    const ledger = new FileIngestLedger(path.join(directory, 'research-ledger.json'));
+    try {
+      const checks = await Promise.all([
+        ledger.claim(session('claude-1', [QUESTION, ANSWER])),
+        ledger.claim(session('claude-1', [QUESTION, ANSWER])),
+        ledger.claim(session('chatgpt-1', [QUESTION, ANSWER]))
+      ]);
+
+      expect(checks.map(check => check.status)).toEqual(['new', 'duplicate', 'duplicate']);
+      expect(await ledger.list()).toEqual([expect.objectContaining({ sessionId: 'claude-1', pending: true })]);
+
+      await ledger.release('claude-1');
+      expect(await ledger.list()).toEqual([]);
+      expect((await ledger.claim(session('chatgpt-1', [QUESTION, ANSWER]))).status).toBe('new');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('ignores claims left behind longer than the TTL', async () => {
+    const ledger = new InMemoryIngestLedger();
+    await ledger.claim(session('claude-1', [QUESTION, ANSWER]));
+    const records = await ledger.list();
+
+    expect(checkDuplicate(session('claude-1', [QUESTION, ANSWER]), records).status).toBe('duplicate');
+    expect(checkDuplicate(session('claude-1', [QUESTION, ANSWER]), records, undefined, Date.now() + PENDING_CLAIM_TTL_MS).status).toBe('new');
+  });
+});
+
+describe('FileIngestLedger', () => {
+  it('persists records across instances', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-ledger-'));
+    const file = path.join(directory, 'research-ledger.json');
+    try {
+      await new FileIngestLedger(file).save({ sessionId: 's1', fingerprint: 'f', signature: [1, 2], topic: 'T', ingestedAt: new Date('2024-09-02T10:00:00Z') });
+      expect(await new FileIngestLedger(file).list()).toEqual([
+        { sessionId: 's1', fingerprint: 'f', signature: [1, 2], topic: 'T', ingestedAt: new Date('2024-09-02T10:00:00Z') }
+      ]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('runDailyAutomation', () => {
+  let directory: string;
+  let exportFile: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'daily-run-'));
+    exportFile = path.join(directory, 'conversations.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('is idempotent across runs and holds overlapping research back as drafts', async () => {
+    const api = new ContentAPI(new MDXContentProvider([]), { enforceLint: [] });
+    const automation = new AIResearchAutomation([{ type: 'claude', filePath: exportFile }], api, new InMemoryIngestLedger());
+
+    fs.writeFileSync(exportFile, JSON.stringify([conversation('c1', [QUESTION, ANSWER])]));
+    const first = await automation.runDailyAutomation();
+    expect(first.items.map(item => [item.sessionId, item.action])).toEqual([['claude-c1', 'published']]);
+
+    const rerun = await automation.runDailyAutomation();
+    expect(rerun.summary).toEqual({ sessions: 1, published: 0, scheduled: 0, drafts: 0, skipped: 1, failed: 0, nearDuplicates: 0 });
+    expect(rerun.items[0]).toMatchObject({ action: 'skipped', reason: 'already_ingested', duplicateOf: { postId: first.items[0].postId } });
+
+    fs.writeFileSync(exportFile, JSON.stringify([
+      conversation('c1', [QUESTION, ANSWER]),
+      conversation('c2', [QUESTION, ANSWER, FOLLOW_UP]),
+      conversation('c3', [QUESTION, ANSWER])
+    ]));
+    const report = await automation.runDailyAutomation();
+    expect(report.items.map(item => [item.sessionId, item.action, item.reason])).toEqual([
+      ['claude-c1', 'skipped', 'already_ingested'],
+      ['claude-c2', 'draft', 'near_duplicate'],
+      ['claude-c3', 'skipped', 'same_content']
+    ]);
+    expect(report.items[1].duplicateOf!.similarity).toBeGreaterThan(0.6);
+    expect((await api.getPosts({ status: 'all' })).items.map(post => [post.slug, post.status])).toEqual(expect.arrayContaining([
+      ['raymarching-step-sizes', 'published'],
+      ['raymarching-step-sizes-2', 'draft']
+    ]));
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the Perplexity thread parser, against exported fixtures
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AIResearchAutomation } from '../../ai-research-automation';
+import { ContentAPI, MDXContentProvider } from '../../content-api';
+import { InMemoryIngestLedger } from '../ledger';
+import { parsePerplexityExport, parsePerplexityThread } from '../perplexity';
+
+const fixtures = path.join(__dirname, 'fixtures', 'perplexity');
+const fixture = (name: string) => fs.readFileSync(path.join(fixtures, name), 'utf8');
+const exported = new Date('2024-09-02T12:00:00Z');
+
+describe('parsePerplexityThread', () => {
+  it('splits questions and answers and numbers footnote citations across the thread', () => {
+    const session = parsePerplexityThread(fixture('signed-distance-fields.md'), { file: 'signed-distance-fields.md', modified: exported })!;
+
+    expect(session.id).toMatch(/^perplexity-[0-9a-f]{16}$/);
+    expect(session.topic).toBe('How do signed distance fields work?');
+    expect(session.timestamp).toEqual(exported);
+    expect(session.citations).toEqual([
+      { url: 'https://en.wikipedia.org/wiki/Signed_distance_function' },
+      { url: 'https://iquilezles.org/articles/distfunctions/' },
+      { url: 'https://iquilezles.org/articles/sdfrepetition/' }
+    ]);
+    expect(session.messages!.map(message => [message.role, message.content])).toEqual([
+      ['user', 'How do signed distance fields work?'],
+      ['assistant', [
+        'A signed distance field stores, for every point, the distance to the nearest surface, negative inside it[1][2]. ' +
+          'Raymarching steps along a ray by that distance until it reaches the surface[2].',
+        '```glsl\nfloat sdSphere(vec3 p, float r) { return length(p) - r; } // arr[1] stays\n```'
+      ].join('\n\n')],
+      ['user', 'How do I repeat a shape infinitely?'],
+      ['assistant', 'Take the coordinate modulo the cell size before evaluating the field[3], as in `mod(p, c)[^2_1]` inside code. ' +
+        'It is the same trick as the reference above[2].']
+    ]);
+    expect(session.metadata).toEqual({
+      source: 'perplexity',
+      file: 'signed-distance-fields.md',
+      exportedAt: '2024-09-02T12:00:00.000Z',
+      messageCount: 4,
+      citationCount: 3
+    });
+  });
+
+  it('reads the older "Citations:" list', () => {
+    const session = parsePerplexityThread(fixture('entropy-legacy.md'))!;
+
+    expect(session.messages![1].content).toBe(
+      'Shannon entropy is the expected information content of a source, measured in bits [1]. A fair coin has one bit of entropy [1][2].'
+    );
+    expect(session.citations!.map(citation => citation.url)).toEqual([
+      'https://en.wikipedia.org/wiki/Entropy_(information_theory)',
+      'https://www.britannica.com/science/information-theory'
+    ]);
+  });
+
+  it('gives a thread the same id on every export', () => {
+    const text = fixture('signed-distance-fields.md');
+    expect(parsePerplexityThread(text)!.id).toBe(parsePerplexityThread(`${text}\n# A later follow-up\n\nMore.`)!.id);
+    expect(parsePerplexityThread('No questions in here.')).toBeNull();
+  });
+});
+
+describe('Perplexity source', () => {
+  it('renders citations as the references section of the post', async () => {
+    const [session] = parsePerplexityExport([
+      { path: 'entropy-legacy.md', text: fixture('entropy-legacy.md'), modified: exported }
+    ]);
+    const automation = new AIResearchAutomation([], new ContentAPI(new MDXContentProvider([])), new InMemoryIngestLedger());
+    const post = await automation.convertToPost(session);
+
+    expect(post.content).toContain([
+      '## References',
+      '',
+      '1. [en.wikipedia.org](https://en.wikipedia.org/wiki/Entropy_%28information_theory%29)',
+      '2. [britannica.com](https://www.britannica.com/science/information-theory)'
+    ].join('\n'));
+  });
+
+  it('ingests a folder of exported threads, filtered by modification time', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'perplexity-export-'));
+    const copy = (name: string, modified: Date) => {
+      fs.writeFileSync(path.join(directory, name), fixture(name));
+      fs.utimesSync(path.join(directory, name), modified, modified);
+    };
+    copy('entropy-legacy.md', new Date('2024-08-01T00:00:00Z'));
+    copy('signed-distance-fields.md', exported);
+
+    const ingest = (since?: Date) => new AIResearchAutomation([{ type: 'perplexity', filePath: directory, since }],
+      new ContentAPI(new MDXContentProvider([])), new InMemoryIngestLedger()).ingestDailyResearch();
+
+    try {
+      expect((await ingest()).map(session => session.topic)).toEqual(['What is Shannon entropy?', 'How do signed distance fields work?']);
+      expect((await ingest(new Date('2024-09-01T00:00:00Z'))).map(session => session.topic)).toEqual(['How do signed distance fields work?']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Unit tests for the research sources configured by environment variables
+ */
+
+import { configuredSources } from '../sources';
+
+describe('configuredSources', () => {
+  const now = new Date('2024-09-02T09:00:00Z');
+  const since = new Date('2024-09-01T09:00:00Z');
+
+  it('adds a source per configured export, covering the last day', () => {
+    expect(configuredSources({
+      CLAUDE_EXPORT_PATH: './exports/claude.zip',
+      CLAUDE_EXPORT_PROJECTS: 'Lattice Lab, ,proj-2',
+      PERPLEXITY_EXPORT_PATH: './exports/perplexity',
+      RESEARCH_API_ENDPOINT: 'https://research.example/daily',
+      RESEARCH_API_KEY: 'secret'
+    }, now)).toEqual([
+      { type: 'claude', filePath: './exports/claude.zip', since, projects: ['Lattice Lab', 'proj-2'] },
+      { type: 'perplexity', filePath: './exports/perplexity', since },
+      { type: 'api', endpoint: 'https://research.example/daily' }
+    ]);
+  });
+
+  it('configures nothing without variables', () => {
+    expect(configuredSources({}, now)).toEqual([]);
+  });
+});
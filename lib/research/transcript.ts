@@ -0,0 +1,102 @@
+/**
+ * VIB3CODE-0 Research Transcripts
+ *
+ * Pieces every export parser shares: the date range and project filter,
+ * rendering a conversation as the Markdown transcript a ResearchSession
+ * carries, the references section for cited sources, and picking a topic
+ * when the export has no title.
+ */
+
+import { ResearchCitation, ResearchSession } from './types';
+
+export type TranscriptMessage = NonNullable<ResearchSession['messages']>[number];
+
+export interface ExportFilter {
+  /** Keep conversations with activity at or after this time */
+  since?: Date;
+  /** Keep conversations that started at or before this time */
+  until?: Date;
+  /** Keep conversations in one of these projects, by id or name (case-insensitive) */
+  projects?: string[];
+}
+
+/** Whether a conversation active from `start` to `end` falls inside the filter's range */
+export function withinRange(start: Date, end: Date, filter: ExportFilter): boolean {
+  if (filter.since && end.getTime() < filter.since.getTime()) return false;
+  if (filter.until && start.getTime() > filter.until.getTime()) return false;
+  return true;
+}
+
+/** Whether a conversation in `project` passes the filter's project list */
+export function inProjects(project: { id: string; name?: string } | undefined, filter: ExportFilter): boolean {
+  if (!filter.projects || filter.projects.length === 0) return true;
+  if (!project) return false;
+  const keys = [project.id, project.name ?? ''].map(key => key.toLowerCase());
+  return filter.projects.some(wanted => keys.indexOf(wanted.trim().toLowerCase()) !== -1);
+}
+
+/** Markdown transcript: each turn under a bold speaker label, separated by rules */
+export function renderTranscript(messages: TranscriptMessage[], assistant: string): string {
+  return messages.map(message => {
+    const role = message.role === 'user' ? '**You:**' : `**${assistant}:**`;
+    return `${role}\n\n${message.content}\n\n---\n`;
+  }).join('\n');
+}
+
+/**
+ * Close a code fence the text leaves open, so one truncated or cut-off
+ * message cannot swallow the rest of the transcript into a code block
+ */
+export function closeFences(text: string): string {
+  let open: string | null = null;
+  for (const line of text.split('\n')) {
+    const fence = /^\s{0,3}(`{3,}|~{3,})/.exec(line);
+    if (!fence) continue;
+    if (open === null) {
+      open = fence[1];
+    } else if (fence[1].charAt(0) === open.charAt(0) && fence[1].length >= open.length && !line.trim().slice(fence[1].length)) {
+      open = null;
+    }
+  }
+  return open === null ? text : `${text.replace(/\s+$/, '')}\n${open}`;
+}
+
+/** Fenced block for pasted file contents, long enough to contain any fence inside */
+export function fenceBlock(content: string, language = ''): string {
+  const runs = content.match(/`{3,}/g) ?? [];
+  const longest = runs.reduce((max, run) => Math.max(max, run.length), 2);
+  const fence = new Array(longest + 2).join('`');
+  return `${fence}${language}\n${content.replace(/\s+$/, '')}\n${fence}`;
+}
+
+/** "## References" with a numbered link per citation, in citation order */
+export function renderReferences(citations: ResearchCitation[]): string {
+  const items = citations.map((citation, index) => {
+    const label = (citation.title ?? '').replace(/[[\]]/g, '').trim() || citationHost(citation.url);
+    // Parentheses and spaces would end the link early
+    const url = citation.url.replace(/\(/g, '%28').replace(/\)/g, '%29').replace(/ /g, '%20');
+    return `${index + 1}. [${label}](${url})`;
+  });
+  return `## References\n\n${items.join('\n')}`;
+}
+
+/** Topic for an untitled conversation: the first line of the first user message */
+export function topicFromMessages(messages: TranscriptMessage[], fallback = 'AI Research Session'): string {
+  const first = messages.find(message => message.role === 'user');
+  const line = first ? first.content.split('\n').map(text => text.trim()).filter(Boolean)[0] : '';
+  if (!line) return fallback;
+  return line.length > 100 ? `${line.slice(0, 97).replace(/\s+\S*$/, '')}...` : line;
+}
+
+/** A Date for an export timestamp (ISO string or Unix seconds), or undefined */
+export function exportDate(value: unknown): Date | undefined {
+  if (typeof value === 'number' && isFinite(value)) return new Date(value * 1000);
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function citationHost(url: string): string {
+  const match = /^[a-z][a-z0-9+.-]*:\/\/(?:www\.)?([^/?#]+)/i.exec(url);
+  return match ? match[1] : url;
+}
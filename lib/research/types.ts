@@ -0,0 +1,70 @@
+/**
+ * VIB3CODE-0 Research Types
+ *
+ * Sources, sessions and ingestion reports shared by AIResearchAutomation,
+ * the export parsers, the ledger and the job queue. Types only, so any of
+ * them can import it without pulling in the automation or its stores.
+ */
+
+// Configuration for different AI research sources
+export interface ResearchSource {
+  type: 'claude' | 'chatgpt' | 'gemini' | 'perplexity' | 'file' | 'api';
+  endpoint?: string;
+  apiKey?: string;
+  filePath?: string;
+  // Export filters: conversations active since/until, in these projects (id or name)
+  since?: Date;
+  until?: Date;
+  projects?: string[];
+}
+
+export interface ResearchSession {
+  id: string;
+  timestamp: Date;
+  topic: string;
+  rawContent: string;
+  messages?: Array<{
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp?: Date;
+  }>;
+  // Sources the research cites, rendered as the post's references
+  citations?: ResearchCitation[];
+  metadata?: Record<string, any>;
+}
+
+export interface ResearchCitation {
+  url: string;
+  title?: string;
+}
+
+export interface IngestionItem {
+  sessionId: string;
+  /** Post title, or the session topic when no post was made */
+  title: string;
+  action: 'published' | 'scheduled' | 'draft' | 'skipped' | 'failed';
+  /**
+   * Why a session was skipped (already_ingested, same_content) or held back
+   * as a draft (near_duplicate, lint)
+   */
+  reason?: 'already_ingested' | 'same_content' | 'near_duplicate' | 'lint';
+  postId?: string;
+  /** The ingested session this one repeats or overlaps, with the estimated overlap */
+  duplicateOf?: { sessionId: string; postId?: string; similarity: number };
+  error?: string;
+}
+
+export interface IngestionReport {
+  items: IngestionItem[];
+  summary: { sessions: number; published: number; scheduled: number; drafts: number; skipped: number; failed: number; nearDuplicates: number };
+}
+
+/** How ingestSession files a post that passes the duplicate and lint checks */
+export interface IngestOptions {
+  /** Defaults to published */
+  status?: 'published' | 'scheduled' | 'draft';
+  scheduledFor?: Date;
+}
+
+/** Where a run reports progress; the console unless a job records it */
+export type IngestionLogger = (level: 'info' | 'warn' | 'error', message: string) => void;
@@ -0,0 +1,173 @@
+/**
+ * VIB3CODE-0 JSON File Storage
+ *
+ * Plumbing shared by the file-backed stores (server only):
+ * - Whole files are rewritten atomically (write temp file, fsync, rename)
+ * - Append-only JSON-lines logs fsync every line; a torn trailing line
+ *   from a crash mid-append is dropped when the log is read
+ * - A WriteQueue runs a store's writes one at a time, in call order
+ * - Dates are stored as ISO strings and revived for the listed keys
+ * - A JsonMapFile keeps a store's records keyed in memory and rewrites
+ *   the whole array file on every change
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type JsonReviver = (key: string, value: unknown) => unknown;
+
+export interface WriteOptions {
+  /** Mode of the written file, e.g. 0o600 for credentials */
+  mode?: number;
+  /** Pretty-print with this many spaces */
+  indent?: number;
+}
+
+/** Runs tasks one at a time; a failed task doesn't block the ones after it */
+export class WriteQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/** Reviver turning ISO strings under the given keys back into Dates */
+export function reviveDates(fields: string[]): JsonReviver {
+  const keys = new Set(fields);
+  return (key, value) => (keys.has(key) && typeof value === 'string' ? new Date(value) : value);
+}
+
+/** Parsed contents of a JSON file, or undefined when it doesn't exist yet */
+export function readJsonFile<T>(file: string, reviver?: JsonReviver): T | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, 'utf8'), reviver);
+}
+
+/**
+ * Records of a JSON array file; empty when the file doesn't exist yet.
+ * `name` describes the file in the error thrown for anything but an array.
+ */
+export function readJsonArray<T>(file: string, name: string, reviver?: JsonReviver): T[] {
+  const records = readJsonFile<T[]>(file, reviver);
+  if (records === undefined) return [];
+  if (!Array.isArray(records)) {
+    throw new Error(`Corrupt ${name} ${file}: expected a JSON array`);
+  }
+  return records;
+}
+
+export interface JsonMapFileOptions<T> extends WriteOptions {
+  /** Describes the file in errors, e.g. 'tag file' */
+  name: string;
+  key: (record: T) => string;
+  /** Record keys holding dates */
+  dates?: string[];
+}
+
+/**
+ * Records in a JSON array file, keyed in memory. Each write changes a copy
+ * of the records inside a WriteQueue, so concurrent writes build on each
+ * other, and the copy replaces the records once the file is written.
+ */
+export class JsonMapFile<T> {
+  private readonly file: string;
+  private readonly options: JsonMapFileOptions<T>;
+  private readonly queue = new WriteQueue();
+  private records: Map<string, T>;
+
+  constructor(file: string, options: JsonMapFileOptions<T>) {
+    this.file = file;
+    this.options = options;
+    const reviver = options.dates ? reviveDates(options.dates) : undefined;
+    this.records = new Map(readJsonArray<T>(file, options.name, reviver).map(record => [options.key(record), record] as [string, T]));
+  }
+
+  /** The records as last written (or read) */
+  values(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Apply `change` to a copy of the records and write it. Resolves with the
+   * new records; a change returning false leaves the file alone and
+   * resolves with the current ones.
+   */
+  write(change: (next: Map<string, T>) => boolean | void): Promise<Map<string, T>> {
+    return this.queue.run(async () => {
+      const next = new Map(this.records);
+      if (change(next) === false) return this.records;
+      await writeJsonAtomic(this.file, Array.from(next.values()), { indent: this.options.indent, mode: this.options.mode });
+      this.records = next;
+      return next;
+    });
+  }
+}
+
+/** Replace the file with `contents`; readers see the old or the new file, never a mix */
+export async function writeFileAtomic(file: string, contents: string, options: Pick<WriteOptions, 'mode'> = {}): Promise<void> {
+  const temporary = `${file}.${process.pid}.tmp`;
+
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const handle = await fs.promises.open(temporary, 'w', options.mode);
+  try {
+    await handle.write(contents);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.promises.rename(temporary, file);
+}
+
+export function writeJsonAtomic(file: string, value: unknown, options: WriteOptions = {}): Promise<void> {
+  return writeFileAtomic(file, `${JSON.stringify(value, null, options.indent)}\n`, options);
+}
+
+/** Append one record to a JSON-lines log and fsync it */
+export async function appendJsonLine(file: string, value: unknown): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+
+  const handle = await fs.promises.open(file, 'a');
+  try {
+    await handle.write(`${JSON.stringify(value)}\n`);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Replace a JSON-lines log with `values`, atomically */
+export function writeJsonLines(file: string, values: unknown[]): Promise<void> {
+  return writeFileAtomic(file, values.map(value => `${JSON.stringify(value)}\n`).join(''));
+}
+
+/**
+ * Records of a JSON-lines log; empty when the file doesn't exist yet.
+ * A torn final line is cut off the file with a warning; an unreadable line
+ * before the end means real corruption and throws, naming the log by `name`.
+ */
+export function readJsonLines<T>(file: string, name: string, reviver?: JsonReviver): T[] {
+  if (!fs.existsSync(file)) return [];
+
+  const lines = fs.readFileSync(file, 'utf8').split('\n');
+  const records: T[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    if (!lines[index].trim()) continue;
+    try {
+      records.push(JSON.parse(lines[index], reviver));
+    } catch (error) {
+      // Only the final line can be torn by a crash mid-append
+      if (lines.slice(index + 1).some(rest => rest.trim())) {
+        throw new Error(`Corrupt ${name} ${file} at line ${index + 1}: ${(error as Error).message}`);
+      }
+      console.warn(`[storage] Dropping incomplete trailing line in ${file}`);
+      fs.truncateSync(file, Buffer.byteLength(lines.slice(0, index).map(kept => `${kept}\n`).join('')));
+      break;
+    }
+  }
+
+  return records;
+}
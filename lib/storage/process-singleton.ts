@@ -0,0 +1,20 @@
+/**
+ * VIB3CODE-0 Process Singletons
+ *
+ * Next.js compiles the instrumentation hook apart from the pages and route
+ * handlers, so a server module both import is evaluated twice in one
+ * process. Stores that replay their file at construction would then drift
+ * apart, each rewriting the file from its own copy. Building them through
+ * processSingleton keeps one instance per process, on globalThis.
+ */
+
+const REGISTRY = '__vib3codeSingletons';
+
+/** The value registered under `name`, created by `create` on first use */
+export function processSingleton<T>(name: string, create: () => T): T {
+  const scope = globalThis as unknown as Record<string, Map<string, unknown> | undefined>;
+  const registry = scope[REGISTRY] ?? (scope[REGISTRY] = new Map<string, unknown>());
+
+  if (!registry.has(name)) registry.set(name, create());
+  return registry.get(name) as T;
+}
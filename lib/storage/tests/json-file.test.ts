@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the shared JSON file storage helpers
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  JsonMapFile, WriteQueue, appendJsonLine, readJsonArray, readJsonLines, reviveDates, writeJsonAtomic, writeJsonLines
+} from '../json-file';
+
+describe('JSON file storage', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'json-file-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('writes arrays atomically and revives the listed dates', async () => {
+    const file = path.join(directory, 'nested', 'records.json');
+    expect(readJsonArray(file, 'record file')).toEqual([]);
+
+    await writeJsonAtomic(file, [{ id: 'a', createdAt: new Date('2024-09-01T09:00:00Z'), label: '2024-09-01' }], { mode: 0o600 });
+
+    expect(readJsonArray(file, 'record file', reviveDates(['createdAt']))).toEqual([
+      { id: 'a', createdAt: new Date('2024-09-01T09:00:00Z'), label: '2024-09-01' }
+    ]);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['records.json']);
+
+    fs.writeFileSync(file, '{}');
+    expect(() => readJsonArray(file, 'record file')).toThrow(`Corrupt record file ${file}: expected a JSON array`);
+  });
+
+  it('cuts a torn trailing line off a JSON-lines log', async () => {
+    const file = path.join(directory, 'log.jsonl');
+    await appendJsonLine(file, { n: 1 });
+    await appendJsonLine(file, { n: 2 });
+    fs.appendFileSync(file, '{"n":');
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(readJsonLines(file, 'log')).toEqual([{ n: 1 }, { n: 2 }]);
+    warn.mockRestore();
+    expect(fs.readFileSync(file, 'utf8')).toBe('{"n":1}\n{"n":2}\n');
+
+    await writeJsonLines(file, [{ n: 3 }]);
+    expect(readJsonLines(file, 'log')).toEqual([{ n: 3 }]);
+  });
+
+  it('refuses a log that is corrupt before its last line', () => {
+    const file = path.join(directory, 'log.jsonl');
+    fs.writeFileSync(file, '{"n":1}\nnot json\n{"n":3}\n');
+
+    expect(() => readJsonLines(file, 'log')).toThrow(`Corrupt log ${file} at line 2`);
+  });
+
+  it('runs queued writes in order and keeps going after a failure', async () => {
+    const queue = new WriteQueue();
+    const order: number[] = [];
+    const slow = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    const results = await Promise.allSettled([
+      queue.run(async () => { await slow(); order.push(1); }),
+      queue.run(async () => { order.push(2); throw new Error('disk full'); }),
+      queue.run(async () => { order.push(3); return 'done'; })
+    ]);
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+  });
+
+  it('keeps concurrent map writes and skips changes that return false', async () => {
+    const file = path.join(directory, 'records.json');
+    const options = { name: 'record file', key: (record: { id: string }) => record.id, dates: ['createdAt'], mode: 0o600 };
+    const records = new JsonMapFile<{ id: string; createdAt: Date }>(file, options);
+    const at = new Date('2024-09-01T09:00:00Z');
+
+    const [first, second] = await Promise.all([
+      records.write(next => { next.set('a', { id: 'a', createdAt: at }); }),
+      records.write(next => { next.set('b', { id: 'b', createdAt: at }); })
+    ]);
+    expect(Array.from(first.keys())).toEqual(['a']);
+    expect(Array.from(second.keys())).toEqual(['a', 'b']);
+    expect(await records.write(() => false)).toBe(second);
+
+    const reopened = new JsonMapFile<{ id: string; createdAt: Date }>(file, options);
+    expect(reopened.values()).toEqual([{ id: 'a', createdAt: at }, { id: 'b', createdAt: at }]);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('leaves the records alone when the file cannot be written', async () => {
+    const blocker = path.join(directory, 'not-a-directory');
+    fs.writeFileSync(blocker, '');
+    const records = new JsonMapFile<{ id: string }>(path.join(blocker, 'records.json'), { name: 'record file', key: record => record.id });
+
+    await expect(records.write(next => { next.set('a', { id: 'a' }); })).rejects.toThrow();
+    expect(records.values()).toEqual([]);
+  });
+});
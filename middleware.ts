@@ -0,0 +1,65 @@
+/**
+ * Auth Middleware
+ *
+ * Guards /admin pages and /api routes with the ROUTE_PERMISSIONS table:
+ * - No valid token: API requests get a 401, admin pages redirect to login
+ * - Valid token without the permission: 403
+ * - Cookie-authenticated mutations from another origin: 403
+ * - AUTH_SECRET missing or a placeholder: 503 for every protected route
+ *
+ * Only the token signature, expiry and role claim are checked here (edge
+ * runtime, no user store); route handlers re-check the account through
+ * AuthService.authorize.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiErrorBody } from '@/lib/api/http';
+import { siteRoutes } from '@/lib/blog-config';
+import { MUTATING_METHODS, can, requiredPermission } from '@/lib/auth/roles';
+import { authSecret } from '@/lib/auth/secrets';
+import { isCrossOrigin, readSessionToken, verifySession } from '@/lib/auth/session';
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const permission = requiredPermission(request.method, pathname);
+  if (permission === null) {
+    return NextResponse.next();
+  }
+
+  const isPage = !pathname.startsWith('/api/');
+  let secret: string;
+  try {
+    secret = authSecret();
+  } catch (error) {
+    console.error('[auth] Refusing protected request:', (error as Error).message);
+    return deny(503, 'internal', 'Authentication is not configured on this server');
+  }
+
+  const source = readSessionToken(request.headers);
+  const claims = await verifySession(source?.token, secret);
+  if (!claims) {
+    if (isPage) {
+      const login = new URL(siteRoutes.adminLogin, request.url);
+      login.searchParams.set('next', `${pathname}${search}`);
+      return NextResponse.redirect(login);
+    }
+    return deny(401, 'unauthorized', 'Sign in or send a bearer token');
+  }
+
+  if (!can(claims.role, permission)) {
+    return deny(403, 'forbidden', `The ${claims.role} role cannot ${permission}`);
+  }
+  if (source?.from === 'cookie' && MUTATING_METHODS.indexOf(request.method) !== -1 && isCrossOrigin(request)) {
+    return deny(403, 'forbidden', 'Cross-origin requests need a bearer token');
+  }
+  return NextResponse.next();
+}
+
+function deny(status: number, code: ApiErrorBody['code'], message: string) {
+  const body: ApiErrorBody = { error: message, code };
+  return NextResponse.json(body, { status });
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/:path*']
+};
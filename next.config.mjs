@@ -1,15 +1,17 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  // GitHub Pages configuration
-  output: 'export',
+  // Runs as a Node server (next start): the API routes, middleware and
+  // journal-backed pages need one, so there is no static export
   trailingSlash: true,
   skipTrailingSlashRedirect: true,
-  distDir: 'out',
-  assetPrefix: process.env.NODE_ENV === 'production' ? '/vib3code-0' : '',
-  basePath: process.env.NODE_ENV === 'production' ? '/vib3code-0' : '',
   reactStrictMode: true,
   swcMinify: true,
 
+  experimental: {
+    // instrumentation.ts checks the auth secrets and starts the background workers
+    instrumentationHook: true,
+  },
+
   images: {
     unoptimized: true,
   },